@@ -10,15 +10,14 @@ CREATE TABLE IF NOT EXISTS public.keys (
 );
 
 -- Set up RLS (Row Level Security) to secure access to API keys
--- Only allow signed in users to read keys, but NOT insert/update/delete them
+-- No policies are created, so browsers cannot read the keys at all. The
+-- llm-proxy Edge Function reads them with the service role instead.
+-- Prefer setting OPENAI_API_KEY as a function secret; this table is a fallback.
 ALTER TABLE public.keys ENABLE ROW LEVEL SECURITY;
 
--- Allow read access only to authenticated users
-CREATE POLICY "Allow authenticated users to read keys" 
-  ON public.keys
-  FOR SELECT 
-  TO authenticated
-  USING (true);
+-- If you created the table with an earlier version of this file, remove the
+-- old read policy (supabase/migrations does this for you):
+DROP POLICY IF EXISTS "Allow authenticated users to read keys" ON public.keys;
 
 -- Instructions for adding your API key:
 -- 1. Open the Supabase dashboard for your project
@@ -14,6 +14,9 @@ import Register from "./pages/Register";
 import Profile from "./pages/Profile";
 import NotFound from "./pages/NotFound";
 import ProjectAnalyzer from './pages/ProjectAnalyzer';
+import Usage from './pages/Usage';
+import PromptTemplates from './pages/PromptTemplates';
+import BudgetWarnings from './components/ai/BudgetWarnings';
 
 
 
@@ -24,6 +27,7 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <BudgetWarnings />
       <BrowserRouter>
         <AuthProvider>
           <Routes>
@@ -36,6 +40,8 @@ const App = () => (
             <Route path="/register" element={<Register />} />
             <Route path="/profile" element={<Profile />} />
             <Route path="/project-analyzer" element={<ProjectAnalyzer />} />
+            <Route path="/usage" element={<Usage />} />
+            <Route path="/prompts" element={<PromptTemplates />} />
            
             
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
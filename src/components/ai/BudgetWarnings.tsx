@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { llmClient } from '@/utils/llm/client';
+
+/**
+ * Shows a toast the first time in a session that the LLM proxy reports an
+ * exceeded monthly budget.
+ */
+const BudgetWarnings = () => {
+  useEffect(() => {
+    const shown = new Set<string>();
+    return llmClient.onBudgetWarning(message => {
+      if (shown.has(message)) return;
+      shown.add(message);
+      toast.warning(message, { duration: 10000 });
+    });
+  }, []);
+
+  return null;
+};
+
+export default BudgetWarnings;
@@ -2,7 +2,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import GlassCard from '@/components/ui-custom/GlassCard';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { Copy, Download, ExpandIcon, ChevronDown, ChevronUp, CheckCircle2, Book, Brain, Lightbulb } from 'lucide-react';
+import { Copy, Download, ExpandIcon, ChevronDown, ChevronUp, CheckCircle2, Book, Brain, Lightbulb, Square, RefreshCw } from 'lucide-react';
 import { toast } from 'sonner';
 import ReactMarkdown from 'react-markdown';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
@@ -10,10 +10,18 @@ import { oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from 'date-fns';
 
 interface ExplanationResultProps {
   content: string;
   isLoading: boolean;
+  // True while tokens are still arriving; partial content is rendered as it streams in
+  isStreaming?: boolean;
+  onStop?: () => void;
+  // Generates the result again, bypassing the response cache
+  onRegenerate?: () => void;
+  // Set when the content was served from the response cache
+  cachedAt?: Date | null;
 }
 
 interface Section {
@@ -22,7 +30,7 @@ interface Section {
   id: string;
 }
 
-const ExplanationResult: React.FC<ExplanationResultProps> = ({ content, isLoading }) => {
+const ExplanationResult: React.FC<ExplanationResultProps> = ({ content, isLoading, isStreaming = false, onStop, onRegenerate, cachedAt }) => {
   const [collapsedSections, setCollapsedSections] = useState<Record<string, boolean>>({});
   const [selectedAnswers, setSelectedAnswers] = useState<Record<string, string>>({});
   const [quizResults, setQuizResults] = useState<Record<string, boolean>>({});
@@ -235,7 +243,7 @@ const ExplanationResult: React.FC<ExplanationResultProps> = ({ content, isLoadin
     }
   };
 
-  if (isLoading) {
+  if (isLoading && !content) {
     return (
       <GlassCard className="p-6 min-h-[200px] flex flex-col items-center justify-center space-y-4">
         <div className="h-10 w-10 rounded-full border-t-2 border-primary animate-spin-slow"></div>
@@ -252,8 +260,40 @@ const ExplanationResult: React.FC<ExplanationResultProps> = ({ content, isLoadin
   return (
     <GlassCard className="p-0 overflow-hidden">
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center p-4 bg-primary/5 border-b border-border gap-2">
-        <h3 className="text-lg font-medium">AI Explanation</h3>
+        <h3 className="text-lg font-medium flex items-center gap-2">
+          AI Explanation
+          {isStreaming && (
+            <span className="text-xs font-normal text-muted-foreground animate-pulse">Generating...</span>
+          )}
+          {!isStreaming && cachedAt && (
+            <span className="text-xs font-normal text-muted-foreground">
+              Cached {formatDistanceToNow(cachedAt, { addSuffix: true })}
+            </span>
+          )}
+        </h3>
         <div className="flex items-center gap-2">
+          {!isStreaming && onRegenerate && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="gap-2"
+              onClick={onRegenerate}
+            >
+              <RefreshCw size={16} />
+              <span>Regenerate</span>
+            </Button>
+          )}
+          {isStreaming && onStop && (
+            <Button 
+              variant="outline" 
+              size="sm" 
+              className="gap-2"
+              onClick={onStop}
+            >
+              <Square size={14} />
+              <span>Stop</span>
+            </Button>
+          )}
           <Button 
             variant="ghost" 
             size="sm" 
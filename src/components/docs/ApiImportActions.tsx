@@ -0,0 +1,108 @@
+import React, { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { FileUp, Loader2, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import openAIService from '@/utils/openai';
+import {
+  API_IMPORT_FORMAT_LABELS,
+  ApiEndpoint,
+  countDescriptionGaps,
+  importApiFile,
+  mergeImportedEndpoints,
+} from '@/utils/apiSpec';
+
+interface ApiImportActionsProps {
+  endpoints: ApiEndpoint[];
+  onChange: (endpoints: ApiEndpoint[]) => void;
+}
+
+/**
+ * Imports endpoints from OpenAPI, Postman and HAR files, and lets the AI
+ * write the descriptions that are still missing afterwards.
+ */
+const ApiImportActions = ({ endpoints, onChange }: ApiImportActionsProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDescribing, setIsDescribing] = useState<boolean>(false);
+  const gaps = countDescriptionGaps(endpoints);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow importing the same file again after editing it
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = importApiFile(await file.text());
+      if (result.endpoints.length === 0) {
+        toast.error(`No endpoints found in ${file.name}`);
+        return;
+      }
+
+      const merged = mergeImportedEndpoints(endpoints, result.endpoints);
+      onChange(merged.endpoints);
+      const summary = [
+        merged.added > 0 ? `${merged.added} added` : '',
+        merged.updated > 0 ? `${merged.updated} already present, missing details filled in` : '',
+      ].filter(Boolean).join(', ');
+      toast.success(`Imported ${API_IMPORT_FORMAT_LABELS[result.format]}: ${summary}`);
+      result.warnings.forEach(warning => toast.warning(warning));
+    } catch (error) {
+      console.error('Error importing API file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import the file');
+    }
+  };
+
+  const describeGaps = async () => {
+    setIsDescribing(true);
+    try {
+      await openAIService.ensureApiKey();
+      const described = await openAIService.describeApiEndpoints(endpoints);
+      const filled = gaps - countDescriptionGaps(described);
+      onChange(described);
+      toast.success(`${filled} missing description${filled === 1 ? '' : 's'} written. Existing descriptions were kept.`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to describe the endpoints');
+    } finally {
+      setIsDescribing(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept=".json,.yaml,.yml,.har"
+        onChange={handleFile}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="gap-1"
+        onClick={() => fileInputRef.current?.click()}
+        title="Import an OpenAPI 2/3 spec, Postman v2.1 collection or HAR capture"
+      >
+        <FileUp size={16} />
+        Import
+      </Button>
+      {gaps > 0 && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={describeGaps}
+          disabled={isDescribing}
+          title="Write the missing endpoint, parameter and response field descriptions"
+        >
+          {isDescribing ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+          Describe {gaps} missing
+        </Button>
+      )}
+    </>
+  );
+};
+
+export default ApiImportActions;
@@ -0,0 +1,91 @@
+import React, { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { FileArchive, FolderGit2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { GitHistory, MAX_HISTORY_COMMITS, readFolderHistory, readZipHistory } from '@/utils/changelog';
+
+interface CommitHistorySourceProps {
+  onLoaded: (history: GitHistory) => void;
+}
+
+/**
+ * Reads the commit history of a local repository, from its folder or a
+ * .zip archive that includes the .git directory. Everything is read in
+ * the browser.
+ */
+const CommitHistorySource = ({ onLoaded }: CommitHistorySourceProps) => {
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const [reading, setReading] = useState<'folder' | 'zip' | null>(null);
+
+  const read = async (kind: 'folder' | 'zip', load: () => Promise<GitHistory>) => {
+    setReading(kind);
+    try {
+      const history = await load();
+      onLoaded(history);
+      toast.success(history.truncated
+        ? `Read the latest ${MAX_HISTORY_COMMITS} commits`
+        : `Read ${history.commits.length} commit${history.commits.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error reading commit history:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read the commit history');
+    } finally {
+      setReading(null);
+    }
+  };
+
+  const handleFolder = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length > 0) read('folder', () => readFolderHistory(files));
+  };
+
+  const handleZip = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) read('zip', () => readZipHistory(file));
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button
+        type="button"
+        variant="outline"
+        className="flex-1 gap-2"
+        disabled={reading !== null}
+        onClick={() => folderInputRef.current?.click()}
+      >
+        {reading === 'folder' ? <Loader2 size={16} className="animate-spin" /> : <FolderGit2 size={16} />}
+        Read Local Repo
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        className="flex-1 gap-2"
+        disabled={reading !== null}
+        onClick={() => zipInputRef.current?.click()}
+      >
+        {reading === 'zip' ? <Loader2 size={16} className="animate-spin" /> : <FileArchive size={16} />}
+        Open .zip
+      </Button>
+      <input
+        type="file"
+        ref={folderInputRef}
+        className="hidden"
+        multiple
+        onChange={handleFolder}
+        // Not in React's input types, but supported by every current browser
+        {...{ webkitdirectory: '', directory: '' }}
+      />
+      <input
+        type="file"
+        ref={zipInputRef}
+        className="hidden"
+        accept=".zip,application/zip"
+        onChange={handleZip}
+      />
+    </div>
+  );
+};
+
+export default CommitHistorySource;
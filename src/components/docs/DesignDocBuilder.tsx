@@ -0,0 +1,352 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Download, FolderOpen, Loader2, Plus, ScrollText, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import openAIService from '@/utils/openai';
+import {
+  addAdr,
+  adrFileName,
+  adrId,
+  AdrRecord,
+  DEFAULT_ADR_DIRECTORY,
+  DESIGN_DOC_TEMPLATES,
+  DesignDocAnswers,
+  DesignDocKind,
+  exportAdrLog,
+  nextAdrNumber,
+  readAdrFiles,
+  renderDesignDoc,
+} from '@/utils/designDocs';
+
+interface DesignDocBuilderProps {
+  kind: DesignDocKind;
+  // Related code, sent to the model as context when given
+  code: string;
+  language: string;
+  onDrafted: (markdown: string) => void;
+}
+
+// Drivers and options are typed one per line
+type FormAnswers = Omit<DesignDocAnswers, 'drivers' | 'options' | 'supersedes'> & { drivers: string; options: string };
+
+const lines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Guided form for an ADR, RFC or design document. The model drafts the
+ * prose from the answers and the related code; ADRs are numbered and kept
+ * in a decision log that can be downloaded with its index.
+ */
+const DesignDocBuilder = ({ kind, code, language, onDrafted }: DesignDocBuilderProps) => {
+  const template = DESIGN_DOC_TEMPLATES[kind];
+  const [form, setForm] = useState<FormAnswers>({
+    title: '',
+    status: template.statuses[0],
+    date: today(),
+    people: '',
+    context: '',
+    drivers: '',
+    options: '',
+    chosenOption: '',
+    rationale: '',
+    consequences: '',
+  });
+  const [isDrafting, setIsDrafting] = useState<boolean>(false);
+  // Drafting the same answers again skips the response cache
+  const [drafted, setDrafted] = useState<boolean>(false);
+  const [draft, setDraft] = useState<{ markdown: string; answers: DesignDocAnswers } | null>(null);
+  const [records, setRecords] = useState<AdrRecord[]>([]);
+  const [supersedes, setSupersedes] = useState<string>('none');
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Every kind of document has its own statuses
+  useEffect(() => {
+    setForm(current => ({ ...current, status: DESIGN_DOC_TEMPLATES[kind].statuses[0] }));
+    setDraft(null);
+  }, [kind]);
+
+  useEffect(() => {
+    setDrafted(false);
+  }, [form, code, supersedes]);
+
+  const update = (field: keyof FormAnswers) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm(current => ({ ...current, [field]: event.target.value }));
+
+  const superseded = records.find(record => String(record.number) === supersedes);
+
+  const draftDocument = async () => {
+    const answers: DesignDocAnswers = {
+      ...form,
+      drivers: lines(form.drivers),
+      options: lines(form.options),
+      supersedes: superseded?.number,
+    };
+    setIsDrafting(true);
+    try {
+      await openAIService.ensureApiKey();
+      const sections = await openAIService.draftDesignDoc(template, answers, code, language, { forceRegenerate: drafted });
+      const markdown = renderDesignDoc(template, answers, sections, kind === 'adr' ? superseded : undefined);
+      setDraft({ markdown, answers });
+      setDrafted(true);
+      onDrafted(markdown);
+      toast.success(`${template.label} drafted. Review it before sharing.`);
+    } catch (error) {
+      console.error('Error drafting design document:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to draft the document');
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleFolder = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    try {
+      const imported = await readAdrFiles(files);
+      setRecords(imported);
+      setSupersedes('none');
+      toast.success(imported.length > 0
+        ? `Imported ${imported.length} ADR${imported.length === 1 ? '' : 's'}`
+        : 'No numbered ADR files (e.g. 0001-title.md) found');
+    } catch (error) {
+      console.error('Error reading ADRs:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read the ADRs');
+    }
+  };
+
+  const addToLog = () => {
+    if (!draft) return;
+    const number = nextAdrNumber(records);
+    const record: AdrRecord = {
+      number,
+      title: draft.answers.title.trim(),
+      status: draft.answers.status,
+      date: draft.answers.date,
+      fileName: adrFileName(number, draft.answers.title),
+      content: draft.markdown,
+    };
+    setRecords(addAdr(records, record, draft.answers.supersedes));
+    setSupersedes('none');
+    setDraft(null);
+    toast.success(`Added as ${adrId(number)}`);
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(exportAdrLog(records));
+    const link = window.document.createElement('a');
+    link.href = url;
+    link.download = 'adr.zip';
+    window.document.body.appendChild(link);
+    link.click();
+    window.document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const field = (name: 'context' | 'drivers' | 'options' | 'rationale' | 'consequences', rows = 3) => (
+    <div>
+      <Label htmlFor={`design-${name}`}>{template.fields[name].label}</Label>
+      <Textarea
+        id={`design-${name}`}
+        className="mt-1 text-sm"
+        rows={rows}
+        placeholder={template.fields[name].placeholder}
+        value={form[name]}
+        onChange={update(name)}
+      />
+    </div>
+  );
+
+  return (
+    // Enter in a field would otherwise submit the page's form
+    <div
+      className="border border-input rounded-md p-3 space-y-3"
+      onKeyDown={(event) => {
+        if (event.key === 'Enter' && event.target instanceof HTMLInputElement) event.preventDefault();
+      }}
+    >
+      <div>
+        <p className="text-sm font-medium flex items-center gap-2">
+          <ScrollText size={16} />
+          {template.label}
+        </p>
+        <p className="text-xs text-muted-foreground mt-1">
+          Answer what you know; the AI drafts the sections from your answers and the related code below.
+        </p>
+      </div>
+
+      <div>
+        <Label htmlFor="design-title">{template.fields.title.label}</Label>
+        <Input
+          id="design-title"
+          className="mt-1"
+          placeholder={template.fields.title.placeholder}
+          value={form.title}
+          onChange={update('title')}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="design-status">Status</Label>
+          <Select value={form.status} onValueChange={(status) => setForm(current => ({ ...current, status }))}>
+            <SelectTrigger id="design-status" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {template.statuses.map(status => (
+                <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="design-date">Date</Label>
+          <Input id="design-date" type="date" className="mt-1" value={form.date} onChange={update('date')} />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="design-people">{template.fields.people.label}</Label>
+        <Input
+          id="design-people"
+          className="mt-1"
+          placeholder={template.fields.people.placeholder}
+          value={form.people}
+          onChange={update('people')}
+        />
+      </div>
+
+      {field('context', 4)}
+      {field('drivers')}
+      {field('options')}
+
+      <div>
+        <Label htmlFor="design-chosen">{template.fields.chosenOption.label}</Label>
+        {lines(form.options).length > 0 ? (
+          <Select
+            value={form.chosenOption || 'none'}
+            onValueChange={(value) => setForm(current => ({ ...current, chosenOption: value === 'none' ? '' : value }))}
+          >
+            <SelectTrigger id="design-chosen" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Not decided yet</SelectItem>
+              {lines(form.options).map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            id="design-chosen"
+            className="mt-1"
+            placeholder={template.fields.chosenOption.placeholder}
+            value={form.chosenOption}
+            onChange={update('chosenOption')}
+          />
+        )}
+      </div>
+
+      {field('rationale')}
+      {field('consequences')}
+
+      {kind === 'adr' && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Decision Log</Label>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-8 gap-1.5 text-xs"
+              onClick={() => folderInputRef.current?.click()}
+            >
+              <FolderOpen size={14} />
+              Import Existing ADRs
+            </Button>
+            <input
+              type="file"
+              ref={folderInputRef}
+              className="hidden"
+              multiple
+              onChange={handleFolder}
+              // Not in React's input types, but supported by every current browser
+              {...{ webkitdirectory: '', directory: '' }}
+            />
+          </div>
+          {records.length > 0 ? (
+            <>
+              <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+                {records.map(record => (
+                  <li key={record.number} className="flex justify-between gap-2">
+                    <span className="truncate">
+                      <span className="font-mono">{adrId(record.number)}</span> {record.title}
+                    </span>
+                    <span className="text-muted-foreground shrink-0">{record.status}</span>
+                  </li>
+                ))}
+              </ul>
+              <div>
+                <Label htmlFor="design-supersedes">Supersedes</Label>
+                <Select value={supersedes} onValueChange={setSupersedes}>
+                  <SelectTrigger id="design-supersedes" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No earlier decision</SelectItem>
+                    {records.map(record => (
+                      <SelectItem key={record.number} value={String(record.number)}>
+                        {adrId(record.number)}: {record.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              No ADRs yet. Import the {DEFAULT_ADR_DIRECTORY} folder of your repository to continue its numbering.
+            </p>
+          )}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        className="w-full gap-2"
+        disabled={isDrafting || !form.title.trim()}
+        onClick={draftDocument}
+      >
+        {isDrafting ? <Loader2 size={16} className="animate-spin" /> : <Wand2 size={16} />}
+        {isDrafting ? 'Drafting...' : `Draft ${template.label}`}
+      </Button>
+
+      {kind === 'adr' && (draft || records.length > 0) && (
+        <div className="flex gap-2">
+          {draft && (
+            <Button type="button" variant="outline" className="flex-1 gap-2" onClick={addToLog}>
+              <Plus size={16} />
+              Add as {adrId(nextAdrNumber(records))}
+            </Button>
+          )}
+          {records.length > 0 && (
+            <Button type="button" variant="outline" className="flex-1 gap-2" onClick={download}>
+              <Download size={16} />
+              Download ADRs (.zip)
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DesignDocBuilder;
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { ChevronRight, FileCode, Folder, Gauge, Loader2, Wand2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RepositorySnapshot } from '@/utils/repository';
+import { SymbolLanguage } from '@/utils/symbols';
+import {
+  analyseCoverage,
+  CoverageCounts,
+  CoverageReport,
+  CoverageSource,
+  DocStatus,
+  FileCoverage,
+  MAX_COVERAGE_FILES,
+  selectCoverageFiles,
+  selectUndocumented,
+  UndocumentedSelection,
+} from '@/utils/docCoverage';
+
+const LANGUAGE_NAMES: Record<SymbolLanguage, string> = {
+  typescript: 'TypeScript',
+  javascript: 'JavaScript',
+  python: 'Python',
+  java: 'Java',
+  csharp: 'C#',
+};
+
+const STATUS_STYLES: Record<DocStatus, string> = {
+  documented: 'border-green-600 text-green-700',
+  partial: 'border-amber-500 text-amber-600',
+  undocumented: 'border-red-500 text-red-600',
+};
+
+interface DocCoverageReportProps {
+  // Either an analysed repository or the code in the editor
+  snapshot?: RepositorySnapshot;
+  code?: string;
+  language?: string;
+  onDocument: (selection: UndocumentedSelection) => void;
+  disabled?: boolean;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const CountBadges = ({ counts }: { counts: CoverageCounts }) => (
+  <span className="flex flex-wrap items-center gap-1">
+    <Badge variant="outline" className={`text-[10px] ${STATUS_STYLES.documented}`}>{counts.documented} documented</Badge>
+    {counts.partial > 0 && (
+      <Badge variant="outline" className={`text-[10px] ${STATUS_STYLES.partial}`}>{counts.partial} partial</Badge>
+    )}
+    {counts.undocumented > 0 && (
+      <Badge variant="outline" className={`text-[10px] ${STATUS_STYLES.undocumented}`}>{counts.undocumented} undocumented</Badge>
+    )}
+  </span>
+);
+
+const FileRow = ({ file, onDocument, disabled }: { file: FileCoverage; onDocument?: () => void; disabled?: boolean }) => (
+  <Collapsible>
+    <div className="flex items-center gap-2 py-1">
+      <CollapsibleTrigger className="group flex min-w-0 flex-1 items-center gap-1.5 text-left">
+        <ChevronRight size={14} className="shrink-0 transition-transform group-data-[state=open]:rotate-90" />
+        <FileCode size={14} className="shrink-0 text-muted-foreground" />
+        <span className="truncate" title={file.path}>{file.path.split('/').pop()}</span>
+        <span className="shrink-0 text-xs text-muted-foreground">{file.percent}%</span>
+      </CollapsibleTrigger>
+      {onDocument && (
+        <Button type="button" variant="ghost" size="sm" className="h-7 gap-1 px-2 text-xs" onClick={onDocument} disabled={disabled}>
+          <Wand2 size={12} />
+          Document
+        </Button>
+      )}
+    </div>
+    <CollapsibleContent>
+      {file.symbols.length === 0 ? (
+        <p className="pl-7 pb-1 text-xs text-muted-foreground">No public functions or classes.</p>
+      ) : (
+        <ul className="pl-7 pb-1">
+          {file.symbols.map(entry => (
+            <li key={`${entry.name}-${entry.line}`} className="flex items-start gap-2 py-0.5 text-xs">
+              <Badge variant="outline" className={`shrink-0 text-[10px] ${STATUS_STYLES[entry.status]}`}>{entry.status}</Badge>
+              <span className="min-w-0">
+                <span className="font-medium">{entry.name}</span>
+                <span className="text-muted-foreground"> {entry.kind}, line {entry.line}</span>
+                {entry.missing.length > 0 && (
+                  <span className="block text-muted-foreground">Missing: {entry.missing.join(', ')}</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </CollapsibleContent>
+  </Collapsible>
+);
+
+/**
+ * Rates the doc comments of every public function, class and method, per
+ * file and per directory, and sends only the symbols that still need docs
+ * to the generator.
+ */
+const DocCoverageReport = ({ snapshot, code, language, onDocument, disabled }: DocCoverageReportProps) => {
+  const [report, setReport] = useState<CoverageReport | null>(null);
+  const [isAnalysing, setIsAnalysing] = useState<boolean>(false);
+  const [includePartial, setIncludePartial] = useState<boolean>(false);
+  const coverageFiles = snapshot ? selectCoverageFiles(snapshot.fileStructure) : null;
+
+  // A report of other code no longer applies
+  useEffect(() => {
+    setReport(null);
+  }, [snapshot, code, language]);
+
+  const loadSources = async (): Promise<CoverageSource[]> => {
+    if (!snapshot) {
+      return [{ path: 'Pasted code', content: code ?? '', language }];
+    }
+    if (!snapshot.readFiles) {
+      throw new Error('Analyze the repository again to check its documentation coverage.');
+    }
+    return snapshot.readFiles(coverageFiles.paths);
+  };
+
+  const analyse = async () => {
+    setIsAnalysing(true);
+    try {
+      const result = await analyseCoverage(await loadSources());
+      setReport(result);
+      if (result.failed.length > 0) {
+        toast.warning(`${plural(result.failed.length, 'file')} could not be parsed: ${result.failed.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Error analysing documentation coverage:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to analyse documentation coverage');
+    } finally {
+      setIsAnalysing(false);
+    }
+  };
+
+  const documentFiles = (files: FileCoverage[]) => {
+    const selection = selectUndocumented(files, { includePartial });
+    if (selection) onDocument(selection);
+  };
+
+  if (snapshot ? coverageFiles.paths.length === 0 : !code?.trim()) {
+    return null;
+  }
+
+  const files = report?.modules.flatMap(module => module.files) ?? [];
+  const selection = report ? selectUndocumented(files, { includePartial }) : null;
+  const pendingIn = (file: FileCoverage) =>
+    file.undocumented + (includePartial ? file.partial : 0);
+  // One request covers one language; the rest are documented file by file
+  const otherLanguages = selection ? files.some(file => file.language !== selection.language && pendingIn(file) > 0) : false;
+
+  return (
+    <div className="border border-input rounded-md p-3 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium flex items-center gap-2">
+            <Gauge size={16} />
+            Documentation Coverage
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Checks which public functions, classes and methods have doc comments, and which leave parameters or return values out.
+            {coverageFiles && coverageFiles.total > coverageFiles.paths.length
+              && ` The first ${MAX_COVERAGE_FILES} of ${coverageFiles.total} source files are checked.`}
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" className="gap-1 shrink-0" onClick={analyse} disabled={isAnalysing}>
+          {isAnalysing && <Loader2 size={14} className="animate-spin" />}
+          {report ? 'Re-analyze' : 'Analyze Coverage'}
+        </Button>
+      </div>
+
+      {report && (
+        <>
+          <div className="space-y-1.5">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="font-medium">{report.percent}% documented</span>
+              <CountBadges counts={report} />
+            </div>
+            <Progress value={report.percent} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              {plural(report.total, 'public symbol')} in {plural(files.length, 'file')}
+            </p>
+          </div>
+
+          {report.total > 0 && (
+            <div className="max-h-80 overflow-y-auto text-sm">
+              {report.modules.map(module => (
+                <Collapsible key={module.path} defaultOpen={report.modules.length === 1}>
+                  <CollapsibleTrigger className="group flex w-full items-center gap-1.5 py-1 text-left">
+                    <ChevronRight size={14} className="shrink-0 transition-transform group-data-[state=open]:rotate-90" />
+                    <Folder size={14} className="shrink-0 text-muted-foreground" />
+                    <span className="truncate font-medium">{module.path === '.' ? '(root)' : module.path}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">{module.percent}%</span>
+                    <span className="ml-auto shrink-0"><CountBadges counts={module} /></span>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="pl-5">
+                    {module.files.map(file => (
+                      <FileRow
+                        key={file.path}
+                        file={file}
+                        onDocument={pendingIn(file) > 0 ? () => documentFiles([file]) : undefined}
+                        disabled={disabled}
+                      />
+                    ))}
+                  </CollapsibleContent>
+                </Collapsible>
+              ))}
+            </div>
+          )}
+
+          {report.partial + report.undocumented > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="coverageIncludePartial"
+                  checked={includePartial}
+                  onCheckedChange={(checked) => setIncludePartial(!!checked)}
+                />
+                <Label htmlFor="coverageIncludePartial" className="text-xs">Include partially documented symbols</Label>
+              </div>
+              {selection && (
+                <Button type="button" size="sm" className="gap-1" onClick={() => onDocument(selection)} disabled={disabled}>
+                  <Wand2 size={14} />
+                  Document {selection.count} {LANGUAGE_NAMES[selection.language]} {selection.count === 1 ? 'symbol' : 'symbols'}
+                </Button>
+              )}
+            </div>
+          )}
+          {otherLanguages && (
+            <p className="text-xs text-muted-foreground">
+              Files in other languages are documented one at a time with their Document button.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DocCoverageReport;
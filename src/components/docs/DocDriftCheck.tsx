@@ -0,0 +1,239 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { FileUp, GitCompare, Loader2, Square, Wand2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import openAIService from '@/utils/openai';
+import { SymbolLanguage } from '@/utils/symbols';
+import {
+  detectDrift,
+  DriftProgress,
+  DriftReport,
+  DriftSource,
+  refreshDocComments,
+  refreshMarkdownDocs,
+  SymbolDrift,
+} from '@/utils/docDrift';
+
+const STATUS_STYLES: Record<SymbolDrift['status'], string> = {
+  stale: 'border-amber-500 text-amber-600',
+  removed: 'border-red-500 text-red-600',
+  new: 'border-blue-500 text-blue-600',
+};
+
+interface DocDriftCheckProps {
+  code: string;
+  language: SymbolLanguage;
+  // Documentation generated earlier in this session, offered as the docs to check
+  generatedDocs?: string;
+  onMarkdownUpdated: (markdown: string) => void;
+  onCommentsUpdated: (code: string) => void;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Compares existing docs, either a markdown document or the doc comments in
+ * the code, with the current signatures, lists what no longer matches and
+ * rewrites only the stale parts.
+ */
+const DocDriftCheck = ({ code, language, generatedDocs, onMarkdownUpdated, onCommentsUpdated }: DocDriftCheckProps) => {
+  const [source, setSource] = useState<DriftSource>('markdown');
+  const [markdown, setMarkdown] = useState<string>('');
+  const [report, setReport] = useState<DriftReport | null>(null);
+  const [isChecking, setIsChecking] = useState<boolean>(false);
+  const [progress, setProgress] = useState<DriftProgress | null>(null);
+  // Updating again after an update skips the response cache
+  const [updated, setUpdated] = useState<boolean>(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // A report on other code or docs no longer applies
+  useEffect(() => {
+    setReport(null);
+    setUpdated(false);
+  }, [code, language, source, markdown]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow loading the same file again after editing it
+    event.target.value = '';
+    if (!file) return;
+    setMarkdown(await file.text());
+  };
+
+  const check = async () => {
+    setIsChecking(true);
+    try {
+      const { report: result } = await detectDrift(code, language, source, markdown);
+      setReport(result);
+      if (result.checked === 0 && result.symbols.length === 0) {
+        toast.info(source === 'markdown'
+          ? 'The markdown has no sections for the symbols in the code'
+          : 'The code has no doc comments to check');
+      }
+    } catch (error) {
+      console.error('Error checking documentation drift:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to check the documentation');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const update = async () => {
+    if (!report) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: report.symbols.length });
+    try {
+      await openAIService.ensureApiKey();
+      const options = { onProgress: setProgress, signal: controller.signal, forceRegenerate: updated };
+      const result = source === 'markdown'
+        ? await refreshMarkdownDocs(markdown, code, language, report, options)
+        : await refreshDocComments(code, language, report, options);
+      if ('markdown' in result) {
+        onMarkdownUpdated(result.markdown);
+      } else {
+        onCommentsUpdated(result.code);
+      }
+      setUpdated(true);
+      if (result.failed.length > 0) {
+        toast.warning(`${plural(result.failed.length, 'symbol')} could not be updated: ${result.failed.join(', ')}`);
+      } else {
+        toast.success(source === 'markdown'
+          ? 'Stale sections updated. Review the documentation before using it.'
+          : 'Stale doc comments rewritten. Review the changes before applying them.');
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast.info('Update stopped');
+      } else {
+        console.error('Error updating stale documentation:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to update the documentation');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const canCheck = code.trim() !== '' && (source === 'comments' || markdown.trim() !== '');
+
+  return (
+    <div className="border border-input rounded-md p-3 space-y-3">
+      <div>
+        <p className="text-sm font-medium flex items-center gap-2">
+          <GitCompare size={16} />
+          Documentation Drift
+        </p>
+        <p className="text-xs text-muted-foreground mt-1">
+          Compares the documented parameters, return values and examples with the current code.
+        </p>
+      </div>
+
+      <RadioGroup
+        value={source}
+        className="flex gap-6"
+        onValueChange={(value) => setSource(value as DriftSource)}
+      >
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="markdown" id="drift-markdown" />
+          <Label htmlFor="drift-markdown" className="font-normal cursor-pointer">Markdown docs</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="comments" id="drift-comments" />
+          <Label htmlFor="drift-comments" className="font-normal cursor-pointer">Doc comments in the code</Label>
+        </div>
+      </RadioGroup>
+
+      {source === 'markdown' && (
+        <div className="space-y-2">
+          <Textarea
+            value={markdown}
+            onChange={(event) => setMarkdown(event.target.value)}
+            placeholder="Paste the existing markdown documentation of this code"
+            className="min-h-[120px] font-mono text-xs"
+          />
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="file"
+              ref={fileInputRef}
+              className="hidden"
+              accept=".md,.markdown,.mdx,.txt"
+              onChange={handleFile}
+            />
+            <Button type="button" variant="outline" size="sm" className="gap-1" onClick={() => fileInputRef.current?.click()}>
+              <FileUp size={14} />
+              Load File
+            </Button>
+            {generatedDocs && (
+              <Button type="button" variant="outline" size="sm" onClick={() => setMarkdown(generatedDocs)}>
+                Use Generated Docs
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Button type="button" variant="outline" size="sm" className="gap-1" onClick={check} disabled={!canCheck || isChecking || progress !== null}>
+        {isChecking && <Loader2 size={14} className="animate-spin" />}
+        Check for Drift
+      </Button>
+
+      {report && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            {report.symbols.length === 0
+              ? `No drift found in ${plural(report.checked, 'documented symbol')}.`
+              : `${plural(report.symbols.length, 'symbol')} out of date, ${report.checked} documented ${report.checked === 1 ? 'symbol' : 'symbols'} checked.`}
+          </p>
+
+          {report.symbols.length > 0 && (
+            <ul className="max-h-72 overflow-y-auto space-y-2 text-sm">
+              {report.symbols.map((drift, index) => (
+                <li key={`${drift.name}-${index}`} className="flex items-start gap-2">
+                  <Badge variant="outline" className={`shrink-0 text-[10px] ${STATUS_STYLES[drift.status]}`}>{drift.status}</Badge>
+                  <div className="min-w-0">
+                    <span className="font-medium">{drift.name}</span>
+                    <ul className="text-xs text-muted-foreground list-disc pl-4">
+                      {drift.issues.map(issue => <li key={issue.message}>{issue.message}</li>)}
+                    </ul>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {progress ? (
+            <div className="space-y-2">
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground truncate flex items-center gap-1">
+                  <Loader2 size={12} className="animate-spin shrink-0" />
+                  {progress.current ? `Updating ${progress.current}` : 'Writing the doc comments…'}
+                </p>
+                <Button type="button" variant="outline" size="sm" className="gap-1" onClick={() => abortRef.current?.abort()}>
+                  <Square size={14} />
+                  Stop
+                </Button>
+              </div>
+            </div>
+          ) : report.symbols.length > 0 && (
+            <Button type="button" size="sm" className="gap-1" onClick={update}>
+              <Wand2 size={14} />
+              {updated ? 'Regenerate Updates' : `Update ${plural(report.symbols.length, 'Stale Section')}`}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocDriftCheck;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { ChevronDown, FileOutput, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { DOCUMENT_FORMAT_LABELS, DocumentFormat, exportDocument } from '@/utils/docExport';
+
+interface DocumentExportMenuProps {
+  markdown: string;
+  // Defaults to the first top-level heading
+  title?: string;
+  fileName: (extension: string) => string;
+  disabled?: boolean;
+}
+
+/**
+ * Exports generated documentation to Word, a standalone HTML file or
+ * Confluence storage format, with Mermaid diagrams drawn as images.
+ */
+const DocumentExportMenu = ({ markdown, title, fileName, disabled }: DocumentExportMenuProps) => {
+  const [exporting, setExporting] = useState<DocumentFormat | null>(null);
+
+  const download = async (format: DocumentFormat) => {
+    setExporting(format);
+    try {
+      const { blob, extension } = await exportDocument(markdown, format, title);
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = fileName(extension);
+      window.document.body.appendChild(link);
+      link.click();
+      window.document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success(`Documentation exported as ${DOCUMENT_FORMAT_LABELS[format]}`);
+    } catch (error) {
+      console.error(`Error exporting ${format}:`, error);
+      toast.error(`Failed to export as ${DOCUMENT_FORMAT_LABELS[format]}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1" disabled={disabled || exporting !== null}>
+          {exporting ? <Loader2 size={16} className="animate-spin" /> : <FileOutput size={16} />}
+          <span>More Formats</span>
+          <ChevronDown size={14} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(DOCUMENT_FORMAT_LABELS) as DocumentFormat[]).map(format => (
+          <DropdownMenuItem key={format} onClick={() => download(format)}>
+            {DOCUMENT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default DocumentExportMenu;
@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Download, Globe, Loader2, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import openAIService from '@/utils/openai';
+import { RepositorySnapshot } from '@/utils/repository';
+import {
+  DocumentationSite,
+  exportDocumentationSite,
+  generateDocumentationSite,
+  MAX_SITE_MODULES,
+  selectSiteModules,
+  SITE_FORMAT_LABELS,
+  SiteFormat,
+  SiteProgress,
+} from '@/utils/docSite';
+
+interface DocumentationSiteBuilderProps {
+  snapshot: RepositorySnapshot;
+}
+
+/**
+ * Generates a documentation site for the analysed repository: a page per
+ * module, an index, a sidebar, cross-links and a search index, downloaded
+ * as a zip in the chosen format.
+ */
+const DocumentationSiteBuilder = ({ snapshot }: DocumentationSiteBuilderProps) => {
+  const [format, setFormat] = useState<SiteFormat>('html');
+  const [site, setSite] = useState<DocumentationSite | null>(null);
+  const [progress, setProgress] = useState<SiteProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { modules, total } = selectSiteModules(snapshot.fileStructure);
+
+  // A site of the previous repository no longer applies; stop generating it too
+  useEffect(() => {
+    setSite(null);
+    return () => abortRef.current?.abort();
+  }, [snapshot]);
+
+  // Regenerating skips the response cache, so every page is written again
+  const generate = async (forceRegenerate: boolean) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setSite(null);
+    setProgress({ done: 0, total: modules.length });
+    try {
+      await openAIService.ensureApiKey();
+      const result = await generateDocumentationSite(snapshot, {
+        onProgress: setProgress,
+        signal: controller.signal,
+        forceRegenerate,
+      });
+      setSite(result.site);
+      if (result.failed.length > 0) {
+        toast.warning(`${result.failed.length} module${result.failed.length === 1 ? '' : 's'} could not be documented: ${result.failed.join(', ')}`);
+      } else {
+        toast.success(`Documentation site generated: ${result.site.pages.length} pages`);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast.info('Site generation stopped');
+      } else {
+        console.error('Error generating documentation site:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to generate the documentation site');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const download = () => {
+    if (!site) return;
+    const url = URL.createObjectURL(exportDocumentationSite(site, format));
+    const link = window.document.createElement('a');
+    link.href = url;
+    link.download = `${site.name.replace(/[^\w.-]+/g, '-')}-docs-${format}.zip`;
+    window.document.body.appendChild(link);
+    link.click();
+    window.document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  if (modules.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 p-3 bg-muted/20 rounded-md space-y-3">
+      <div>
+        <p className="text-sm font-medium flex items-center gap-2">
+          <Globe size={16} />
+          Documentation Site
+        </p>
+        <p className="text-xs text-muted-foreground mt-1">
+          One page per module with an index, sidebar, cross-links and search.
+          {total > modules.length
+            ? ` ${modules.length} of ${total} modules are documented (at most ${MAX_SITE_MODULES}, top-level files first).`
+            : ` ${modules.length} module${modules.length === 1 ? '' : 's'} found.`}
+        </p>
+      </div>
+
+      {progress ? (
+        <div className="space-y-2">
+          <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground truncate flex items-center gap-1">
+              <Loader2 size={12} className="animate-spin shrink-0" />
+              {progress.current
+                ? `Page ${progress.done + 1} of ${progress.total}: ${progress.current}`
+                : 'Reading the modules…'}
+            </p>
+            <Button type="button" variant="outline" size="sm" className="gap-1" onClick={() => abortRef.current?.abort()}>
+              <Square size={14} />
+              Stop
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[160px]">
+            <Label className="text-xs">Export format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as SiteFormat)}>
+              <SelectTrigger className="mt-1 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SITE_FORMAT_LABELS) as SiteFormat[]).map(option => (
+                  <SelectItem key={option} value={option}>{SITE_FORMAT_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="button" variant="outline" size="sm" className="gap-1 h-9" onClick={() => generate(site !== null)}>
+            {site ? 'Regenerate' : 'Generate Site'}
+          </Button>
+          {site && (
+            <Button type="button" size="sm" className="gap-1 h-9" onClick={download}>
+              <Download size={16} />
+              Download .zip
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentationSiteBuilder;
@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import { Check, Download, FileCode, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import GlassCard from '@/components/ui-custom/GlassCard';
+import { diffLines, DiffLine, DiffRowType } from '@/utils/lineDiff';
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  typescript: 'ts',
+  javascript: 'js',
+  python: 'py',
+  java: 'java',
+  csharp: 'cs',
+};
+
+const ROW_STYLES: Record<DiffRowType, { left: string; right: string }> = {
+  unchanged: { left: '', right: '' },
+  added: { left: 'bg-muted/40', right: 'bg-green-500/15' },
+  removed: { left: 'bg-red-500/15', right: 'bg-muted/40' },
+  changed: { left: 'bg-red-500/15', right: 'bg-green-500/15' },
+};
+
+interface InlineDocsDiffProps {
+  original: string;
+  patched: string;
+  language: string;
+  // The editor already holds the patched source
+  isApplied: boolean;
+  onApply: (code: string) => void;
+  // Hidden when the comments can't be regenerated from here
+  onRegenerate?: () => void;
+}
+
+const DiffCell = ({ line, className, divider }: { line?: DiffLine; className: string; divider?: boolean }) => (
+  <>
+    <td className={`w-10 select-none px-2 text-right align-top text-muted-foreground ${divider ? 'border-l border-input' : ''} ${className}`}>
+      {line?.number}
+    </td>
+    <td className={`whitespace-pre px-2 align-top ${className}`}>{line?.text}</td>
+  </>
+);
+
+/**
+ * Side-by-side comparison of the editor contents with the same source after
+ * the generated doc comments were inserted. Applying replaces the editor
+ * contents; existing comments and code are never changed.
+ */
+const InlineDocsDiff = ({ original, patched, language, isApplied, onApply, onRegenerate }: InlineDocsDiffProps) => {
+  const rows = useMemo(() => diffLines(original, patched), [original, patched]);
+  const addedLines = rows.filter(row => row.type === 'added').length;
+
+  const downloadFile = () => {
+    const blob = new Blob([patched], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `documented.${FILE_EXTENSIONS[language] ?? 'txt'}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <GlassCard className="p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2 font-medium">
+          <FileCode size={18} />
+          <span>Inline Documentation</span>
+          <span className="text-xs font-normal text-muted-foreground">{addedLines} lines added</span>
+        </div>
+        <div className="flex gap-2">
+          {onRegenerate && (
+            <Button variant="outline" size="sm" className="flex items-center gap-1" onClick={onRegenerate}>
+              <RefreshCw size={16} />
+              <span>Regenerate</span>
+            </Button>
+          )}
+          <Button variant="outline" size="sm" className="flex items-center gap-1" onClick={downloadFile}>
+            <Download size={16} />
+            <span>Download File</span>
+          </Button>
+          <Button size="sm" className="flex items-center gap-1" onClick={() => onApply(patched)} disabled={isApplied}>
+            <Check size={16} />
+            <span>{isApplied ? 'Applied' : 'Apply to Editor'}</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-[600px] overflow-auto rounded-md border border-input">
+        <table className="w-full border-collapse font-mono text-xs">
+          <thead className="sticky top-0 bg-background text-left text-muted-foreground">
+            <tr>
+              <th colSpan={2} className="px-2 py-1 font-medium">Current code</th>
+              <th colSpan={2} className="border-l border-input px-2 py-1 font-medium">With doc comments</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index}>
+                <DiffCell line={row.left} className={ROW_STYLES[row.type].left} />
+                <DiffCell line={row.right} className={ROW_STYLES[row.type].right} divider />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </GlassCard>
+  );
+};
+
+export default InlineDocsDiff;
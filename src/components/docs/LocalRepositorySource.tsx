@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { FileArchive, FolderOpen, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { readLocalFolder, readZipArchive, RepositorySnapshot } from '@/utils/repository';
+
+interface LocalRepositorySourceProps {
+  onAnalyzed: (snapshot: RepositorySnapshot) => void;
+}
+
+/**
+ * Reads a project from a local folder or a .zip archive. The files never
+ * leave the browser; only the resulting analysis is sent for generation.
+ */
+const LocalRepositorySource = ({ onAnalyzed }: LocalRepositorySourceProps) => {
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const [reading, setReading] = useState<'folder' | 'zip' | null>(null);
+
+  const read = async (kind: 'folder' | 'zip', load: () => Promise<RepositorySnapshot>) => {
+    setReading(kind);
+    try {
+      const snapshot = await load();
+      onAnalyzed(snapshot);
+      toast.success(`Analyzed ${snapshot.name}: ${snapshot.fileStructure.length} files, ${snapshot.analyzedFiles.length} read`);
+    } catch (error) {
+      console.error('Error reading local repository:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read the project');
+    } finally {
+      setReading(null);
+    }
+  };
+
+  const handleFolder = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length > 0) read('folder', () => readLocalFolder(files));
+  };
+
+  const handleZip = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) read('zip', () => readZipArchive(file));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          className="flex-1 gap-2"
+          disabled={reading !== null}
+          onClick={() => folderInputRef.current?.click()}
+        >
+          {reading === 'folder' ? <Loader2 size={16} className="animate-spin" /> : <FolderOpen size={16} />}
+          Choose Folder
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          className="flex-1 gap-2"
+          disabled={reading !== null}
+          onClick={() => zipInputRef.current?.click()}
+        >
+          {reading === 'zip' ? <Loader2 size={16} className="animate-spin" /> : <FileArchive size={16} />}
+          Open .zip
+        </Button>
+      </div>
+      <input
+        type="file"
+        ref={folderInputRef}
+        className="hidden"
+        multiple
+        onChange={handleFolder}
+        // Not in React's input types, but supported by every current browser
+        {...{ webkitdirectory: '', directory: '' }}
+      />
+      <input
+        type="file"
+        ref={zipInputRef}
+        className="hidden"
+        accept=".zip,application/zip"
+        onChange={handleZip}
+      />
+    </div>
+  );
+};
+
+export default LocalRepositorySource;
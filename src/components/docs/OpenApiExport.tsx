@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { AlertTriangle, FileJson, FileDown, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  ApiEndpoint,
+  ApiInfo,
+  buildOpenApiDocument,
+  checkEndpoints,
+  OpenApiFormat,
+  serializeOpenApi,
+  validateOpenApiDocument,
+} from '@/utils/apiSpec';
+
+// Only the first few problems are listed; fixing them usually fixes the rest
+const MAX_LISTED_PROBLEMS = 8;
+
+interface OpenApiExportProps {
+  endpoints: ApiEndpoint[];
+}
+
+/**
+ * Exports the endpoint editor as an OpenAPI 3.1 document, validated against
+ * the specification schema before it is downloaded.
+ */
+const OpenApiExport = ({ endpoints }: OpenApiExportProps) => {
+  const [info, setInfo] = useState<ApiInfo>({ title: '', version: '1.0.0', description: '', serverUrl: '' });
+  const [exporting, setExporting] = useState<OpenApiFormat | null>(null);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+
+  const problems = checkEndpoints(endpoints);
+  const listed = problems.length > 0 ? problems : validationErrors;
+
+  const updateInfo = (field: keyof ApiInfo, value: string) => {
+    setInfo(prev => ({ ...prev, [field]: value }));
+    setValidationErrors([]);
+  };
+
+  const exportDocument = async (format: OpenApiFormat) => {
+    setExporting(format);
+    try {
+      const document = buildOpenApiDocument(endpoints, info);
+      const errors = await validateOpenApiDocument(document);
+      setValidationErrors(errors);
+      if (errors.length > 0) {
+        toast.error('The OpenAPI document is not valid. See the problems listed in the dialog.');
+        return;
+      }
+
+      const blob = new Blob([serializeOpenApi(document, format)], {
+        type: format === 'json' ? 'application/json' : 'application/yaml',
+      });
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = `openapi.${format}`;
+      window.document.body.appendChild(link);
+      link.click();
+      window.document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success(`OpenAPI ${format.toUpperCase()} exported`);
+    } catch (error) {
+      console.error('Error exporting OpenAPI document:', error);
+      toast.error('Failed to export the OpenAPI document');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={() => setValidationErrors([])}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="gap-1" disabled={endpoints.length === 0}>
+          <FileJson size={16} />
+          Export OpenAPI
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export OpenAPI 3.1</DialogTitle>
+          <DialogDescription>
+            Download the endpoints as an OpenAPI document for Swagger UI, Postman or code generators.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-2">
+            <Label htmlFor="openapi-title" className="text-xs">API title</Label>
+            <Input
+              id="openapi-title"
+              placeholder="My API"
+              value={info.title}
+              onChange={(e) => updateInfo('title', e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="openapi-version" className="text-xs">Version</Label>
+            <Input
+              id="openapi-version"
+              placeholder="1.0.0"
+              value={info.version}
+              onChange={(e) => updateInfo('version', e.target.value)}
+            />
+          </div>
+          <div className="col-span-3">
+            <Label htmlFor="openapi-server" className="text-xs">Server URL (optional)</Label>
+            <Input
+              id="openapi-server"
+              placeholder="https://api.example.com"
+              value={info.serverUrl}
+              onChange={(e) => updateInfo('serverUrl', e.target.value)}
+            />
+          </div>
+          <div className="col-span-3">
+            <Label htmlFor="openapi-description" className="text-xs">Description (optional)</Label>
+            <Input
+              id="openapi-description"
+              placeholder="What the API is for"
+              value={info.description}
+              onChange={(e) => updateInfo('description', e.target.value)}
+            />
+          </div>
+        </div>
+
+        {listed.length > 0 && (
+          <div className="rounded-md border border-amber-500/40 bg-amber-500/5 p-3 text-xs">
+            <p className="flex items-center gap-1.5 font-medium text-amber-600 mb-1">
+              <AlertTriangle size={14} />
+              {problems.length > 0 ? 'Fix these endpoints before exporting' : 'The document failed validation'}
+            </p>
+            <ul className="list-disc pl-5 space-y-0.5 text-muted-foreground">
+              {listed.slice(0, MAX_LISTED_PROBLEMS).map(problem => (
+                <li key={problem} className="break-all">{problem}</li>
+              ))}
+            </ul>
+            {listed.length > MAX_LISTED_PROBLEMS && (
+              <p className="mt-1 text-muted-foreground">and {listed.length - MAX_LISTED_PROBLEMS} more</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {(['yaml', 'json'] as OpenApiFormat[]).map(format => (
+            <Button
+              key={format}
+              type="button"
+              variant={format === 'yaml' ? 'default' : 'outline'}
+              className="gap-1"
+              disabled={problems.length > 0 || exporting !== null}
+              onClick={() => exportDocument(format)}
+            >
+              {exporting === format ? <Loader2 size={16} className="animate-spin" /> : <FileDown size={16} />}
+              Download {format.toUpperCase()}
+            </Button>
+          ))}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OpenApiExport;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { GitBranch, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  detectRepositoryHost,
+  getRepositoryHost,
+  parseRepositoryUrl,
+  readRemoteRepository,
+  REPOSITORY_HOSTS,
+  RepositoryHostId,
+  RepositorySnapshot,
+} from '@/utils/repository';
+
+interface RemoteRepositorySourceProps {
+  onAnalyzed: (snapshot: RepositorySnapshot) => void;
+}
+
+/**
+ * Reads a repository from GitHub, GitLab, Bitbucket or Gitea, hosted or
+ * self-hosted. The access token is kept in memory only and is sent to the
+ * Git host, never to the AI.
+ */
+const RemoteRepositorySource = ({ onAnalyzed }: RemoteRepositorySourceProps) => {
+  const [url, setUrl] = useState<string>('');
+  // Set when the user picks a host instead of relying on detection
+  const [selectedHost, setSelectedHost] = useState<RepositoryHostId | null>(null);
+  const [baseUrl, setBaseUrl] = useState<string>('');
+  const [ref, setRef] = useState<string>('');
+  const [token, setToken] = useState<string>('');
+  const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
+
+  const hostId = selectedHost ?? detectRepositoryHost(url);
+  const host = hostId ? getRepositoryHost(hostId) : null;
+  const location = url.trim() ? parseRepositoryUrl(url, { host: hostId, baseUrl }) : null;
+
+  const analyze = async () => {
+    if (!location) {
+      toast.error(hostId
+        ? 'Please enter a valid repository URL'
+        : 'Choose the Git host this repository is on');
+      return;
+    }
+
+    setIsAnalyzing(true);
+    try {
+      const target = { ...location, ref: ref.trim() || location.ref };
+      toast.info(`Analyzing repository: ${target.owner}/${target.name}...`);
+      const snapshot = await readRemoteRepository(target, token.trim() || undefined);
+      onAnalyzed(snapshot);
+      toast.success(`Analyzed ${snapshot.name}: ${snapshot.fileStructure.length} files, ${snapshot.analyzedFiles.length} read`);
+    } catch (error) {
+      console.error('Error analyzing repository:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to analyze the repository');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor="repositoryUrl">Repository URL</Label>
+        <div className="flex items-center gap-2 mt-1">
+          <Input
+            id="repositoryUrl"
+            placeholder="https://github.com/username/repository"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={analyze}
+            disabled={isAnalyzing || !url.trim()}
+            className="whitespace-nowrap"
+          >
+            {isAnalyzing ? (
+              <>
+                <Loader2 size={16} className="animate-spin mr-2" />
+                Analyzing...
+              </>
+            ) : 'Analyze Repo'}
+          </Button>
+        </div>
+        {url.trim() && !location && (
+          <p className="text-destructive text-sm mt-1">
+            {hostId ? 'Please enter a valid repository URL' : 'Choose the Git host this repository is on'}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <Label>Host</Label>
+          <Select value={hostId ?? ''} onValueChange={(value) => setSelectedHost(value as RepositoryHostId)}>
+            <SelectTrigger className="mt-1">
+              <SelectValue placeholder="Detected from the URL" />
+            </SelectTrigger>
+            <SelectContent>
+              {REPOSITORY_HOSTS.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="repositoryRef">Branch, tag or commit</Label>
+          <div className="relative mt-1">
+            <GitBranch size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id="repositoryRef"
+              className="pl-8"
+              placeholder={location?.ref ?? 'Default branch'}
+              value={ref}
+              onChange={(e) => setRef(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {host?.selfHosted && (
+        <div>
+          <Label htmlFor="repositoryBaseUrl">Base URL</Label>
+          <Input
+            id="repositoryBaseUrl"
+            className="mt-1"
+            placeholder={location?.baseUrl ?? host.defaultBaseUrl ?? 'https://git.example.com'}
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Only needed when the server runs under a sub-path, e.g. https://example.com/gitlab.
+          </p>
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="repositoryToken">Access token (optional)</Label>
+        <Input
+          id="repositoryToken"
+          type="password"
+          autoComplete="off"
+          className="mt-1"
+          placeholder="Needed for private repositories"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+        />
+        {host && (
+          <p className="text-xs text-muted-foreground mt-1">{host.tokenHint}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RemoteRepositorySource;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Braces, CheckCircle2, ListTree, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { CodeSymbol, extractSymbols, isSymbolLanguage, publicSymbols, SymbolInventory } from '@/utils/symbols';
+
+// Parse once typing pauses rather than on every keystroke
+const PARSE_DELAY_MS = 400;
+
+interface SymbolOutlineProps {
+  code: string;
+  language: string;
+}
+
+const SymbolRow = ({ symbol, depth }: { symbol: CodeSymbol; depth: number }) => (
+  <>
+    <li className="flex items-start gap-2 py-1" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+      <Badge variant="outline" className="shrink-0 text-[10px] uppercase">{symbol.kind}</Badge>
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-1.5">
+          <span className="font-medium">{symbol.name}</span>
+          {symbol.docComment && (
+            <CheckCircle2 size={12} className="text-green-600 shrink-0" aria-label="Has doc comment" />
+          )}
+          <span className="text-xs text-muted-foreground">line {symbol.startLine}</span>
+        </div>
+        <code className="block truncate text-xs text-muted-foreground" title={symbol.signature}>
+          {symbol.signature}
+        </code>
+      </div>
+    </li>
+    {symbol.children.map(child => (
+      <SymbolRow key={`${child.name}-${child.startLine}`} symbol={child} depth={depth + 1} />
+    ))}
+  </>
+);
+
+/**
+ * Lists the public declarations found in the editor contents. The same
+ * inventory is sent with the documentation request.
+ */
+const SymbolOutline = ({ code, language }: SymbolOutlineProps) => {
+  const [inventory, setInventory] = useState<SymbolInventory | null>(null);
+  const [isParsing, setIsParsing] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!isSymbolLanguage(language) || !code.trim()) {
+      setInventory(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsParsing(true);
+    const timer = setTimeout(() => {
+      extractSymbols(code, language)
+        .then(result => {
+          if (!cancelled) setInventory(result);
+        })
+        .catch(error => {
+          console.error('Error parsing code:', error);
+          if (!cancelled) setInventory(null);
+        })
+        .finally(() => {
+          if (!cancelled) setIsParsing(false);
+        });
+    }, PARSE_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, language]);
+
+  if (!isSymbolLanguage(language) || !code.trim()) {
+    return null;
+  }
+
+  const symbols = inventory ? publicSymbols(inventory) : [];
+
+  return (
+    <div className="border border-input rounded-md p-3">
+      <div className="flex items-center gap-2 mb-2 text-sm font-medium">
+        <ListTree size={16} />
+        <span>Symbol Outline</span>
+        {isParsing
+          ? <Loader2 size={14} className="animate-spin text-muted-foreground" />
+          : <span className="text-xs text-muted-foreground">{symbols.length} exported</span>}
+      </div>
+
+      {symbols.length === 0 && !isParsing ? (
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <Braces size={14} />
+          <span>No exported functions or classes found. The code is documented as written.</span>
+        </p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto text-sm">
+          {symbols.map(symbol => (
+            <SymbolRow key={`${symbol.name}-${symbol.startLine}`} symbol={symbol} depth={0} />
+          ))}
+        </ul>
+      )}
+
+      {inventory && inventory.diagnostics.length > 0 && (
+        <p className="mt-2 text-xs text-amber-600 flex items-start gap-1.5">
+          <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+          <span>The code has syntax errors, so the outline may be incomplete: {inventory.diagnostics[0]}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SymbolOutline;
@@ -16,7 +16,8 @@ import {
   Mic,
   BookOpen,
   Presentation,
-  FileUp
+  FileUp,
+  BarChart3
 } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 
@@ -120,6 +121,12 @@ const Header = () => {
             <div className="h-5 w-5 rounded-full border-2 border-t-transparent border-primary animate-spin"></div>
           ) : user ? (
             <>
+              <Link to="/usage">
+                <Button variant="ghost" size="sm" className="gap-2">
+                  <BarChart3 size={16} />
+                  <span>Usage</span>
+                </Button>
+              </Link>
               <Link to="/profile">
                 <Button variant="ghost" size="sm" className="gap-2">
                   <UserCircle size={16} />
@@ -181,6 +188,12 @@ const Header = () => {
               </div>
             ) : user ? (
               <>
+                <Link to="/usage">
+                  <Button variant="ghost" size="sm" className="w-full justify-start gap-2">
+                    <BarChart3 size={16} />
+                    <span>Usage</span>
+                  </Button>
+                </Link>
                 <Link to="/profile">
                   <Button variant="ghost" size="sm" className="w-full justify-start gap-2">
                     <UserCircle size={16} />
@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2, RotateCcw, Save, SlidersHorizontal } from 'lucide-react';
+import { User } from '@supabase/supabase-js';
+import GlassCard from '@/components/ui-custom/GlassCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { isAdmin } from '@/utils/usageStorage';
+import {
+  DEFAULT_MODEL_SETTINGS,
+  deleteModelSettings,
+  fetchModelSettings,
+  MAX_OUTPUT_TOKENS,
+  MAX_TEMPERATURE,
+  MODEL_SETTINGS_FEATURES,
+  ModelSettings,
+  ModelSettingsFeature,
+  saveModelSettings,
+  StoredModelSettings,
+  SUGGESTED_MODELS,
+  validateModelSettings,
+} from '@/utils/modelSettings';
+
+type Scope = 'user' | 'organisation';
+
+const toSettings = (row: StoredModelSettings): ModelSettings => ({
+  model: row.model,
+  temperature: row.temperature,
+  maxTokens: row.max_tokens,
+  jsonMode: row.json_mode,
+});
+
+interface AIModelSettingsProps {
+  user: User;
+}
+
+const AIModelSettings = ({ user }: AIModelSettingsProps) => {
+  const [rows, setRows] = useState<StoredModelSettings[]>([]);
+  const [drafts, setDrafts] = useState<Partial<Record<ModelSettingsFeature, ModelSettings>>>({});
+  const [scope, setScope] = useState<Scope>('user');
+  const [admin, setAdmin] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [savingFeature, setSavingFeature] = useState<ModelSettingsFeature | null>(null);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const [settings, adminStatus] = await Promise.all([fetchModelSettings(), isAdmin(user)]);
+      setRows(settings);
+      setAdmin(adminStatus);
+    } catch (error) {
+      toast.error('Failed to load your AI settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  useEffect(() => {
+    setDrafts({});
+  }, [scope]);
+
+  const storedRow = (feature: ModelSettingsFeature, rowScope: Scope) =>
+    rows.find(row => row.feature === feature && (rowScope === 'user' ? row.user_id === user.id : row.user_id === null));
+
+  // What applies when nothing is stored for the selected scope
+  const inherited = (feature: ModelSettingsFeature): ModelSettings => {
+    const organisation = scope === 'user' ? storedRow(feature, 'organisation') : undefined;
+    return organisation ? toSettings(organisation) : DEFAULT_MODEL_SETTINGS[feature];
+  };
+
+  const current = (feature: ModelSettingsFeature): ModelSettings => {
+    const stored = storedRow(feature, scope);
+    return drafts[feature] ?? (stored ? toSettings(stored) : inherited(feature));
+  };
+
+  const updateDraft = (feature: ModelSettingsFeature, changes: Partial<ModelSettings>) => {
+    setDrafts(prev => ({ ...prev, [feature]: { ...current(feature), ...changes } }));
+  };
+
+  const handleSave = async (feature: ModelSettingsFeature) => {
+    const settings = current(feature);
+    const problem = validateModelSettings(settings);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setSavingFeature(feature);
+    try {
+      await saveModelSettings(scope === 'user' ? user.id : null, feature, settings, storedRow(feature, scope)?.id);
+      setDrafts(prev => ({ ...prev, [feature]: undefined }));
+      setRows(await fetchModelSettings());
+      toast.success('Settings saved');
+    } catch (error) {
+      toast.error('Failed to save the settings');
+    } finally {
+      setSavingFeature(null);
+    }
+  };
+
+  const handleReset = async (feature: ModelSettingsFeature) => {
+    const stored = storedRow(feature, scope);
+    setDrafts(prev => ({ ...prev, [feature]: undefined }));
+    if (!stored) return;
+
+    setSavingFeature(feature);
+    try {
+      await deleteModelSettings(stored.id);
+      setRows(prev => prev.filter(row => row.id !== stored.id));
+      toast.success(scope === 'user' ? 'Using the organisation defaults' : 'Using the built-in defaults');
+    } catch (error) {
+      toast.error('Failed to reset the settings');
+    } finally {
+      setSavingFeature(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <GlassCard className="p-6 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </GlassCard>
+    );
+  }
+
+  return (
+    <GlassCard className="p-6">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-medium mb-2 flex items-center gap-2">
+            <SlidersHorizontal size={20} />
+            <span>AI Settings</span>
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {scope === 'user'
+              ? 'Choose the model and parameters used for each feature. Features you don\'t change use the organisation defaults.'
+              : 'Defaults for everyone in the organisation. Users can still override them in their own settings.'}
+          </p>
+        </div>
+
+        {admin && (
+          <Select value={scope} onValueChange={(value) => setScope(value as Scope)}>
+            <SelectTrigger className="md:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="user">My settings</SelectItem>
+              <SelectItem value="organisation">Organisation defaults</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <datalist id="model-suggestions">
+        {SUGGESTED_MODELS.map(model => <option key={model} value={model} />)}
+      </datalist>
+
+      <div className="space-y-6">
+        {MODEL_SETTINGS_FEATURES.map(feature => {
+          const settings = current(feature.id);
+          const customised = !!storedRow(feature.id, scope);
+          const isSaving = savingFeature === feature.id;
+
+          return (
+            <div key={feature.id} className="border-b border-border pb-6 last:border-0 last:pb-0">
+              <div className="flex items-center gap-2 mb-4">
+                <span className="font-medium">{feature.label}</span>
+                {customised
+                  ? <Badge variant="secondary">Customised</Badge>
+                  : <Badge variant="outline">{scope === 'user' && storedRow(feature.id, 'organisation') ? 'Organisation default' : 'Built-in default'}</Badge>}
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor={`${feature.id}-model`}>Model</Label>
+                  <Input
+                    id={`${feature.id}-model`}
+                    list="model-suggestions"
+                    value={settings.model}
+                    onChange={(e) => updateDraft(feature.id, { model: e.target.value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor={`${feature.id}-temperature`}>Temperature</Label>
+                  <Input
+                    id={`${feature.id}-temperature`}
+                    type="number"
+                    min={0}
+                    max={MAX_TEMPERATURE}
+                    step={0.1}
+                    value={settings.temperature}
+                    onChange={(e) => updateDraft(feature.id, { temperature: e.target.valueAsNumber })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor={`${feature.id}-max-tokens`}>Max tokens</Label>
+                  <Input
+                    id={`${feature.id}-max-tokens`}
+                    type="number"
+                    min={1}
+                    max={MAX_OUTPUT_TOKENS}
+                    step={100}
+                    value={settings.maxTokens}
+                    onChange={(e) => updateDraft(feature.id, { maxTokens: e.target.valueAsNumber })}
+                  />
+                </div>
+
+                <div className="flex items-center gap-2 h-10">
+                  <Switch
+                    id={`${feature.id}-json-mode`}
+                    checked={settings.jsonMode}
+                    onCheckedChange={(checked) => updateDraft(feature.id, { jsonMode: checked })}
+                    // JSON mode makes the provider reject prompts that don't ask for JSON
+                    disabled={!feature.structured}
+                  />
+                  <Label htmlFor={`${feature.id}-json-mode`}>JSON mode</Label>
+                </div>
+              </div>
+
+              <div className="flex gap-2 mt-4">
+                <Button
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => handleSave(feature.id)}
+                  disabled={isSaving || (!drafts[feature.id] && customised)}
+                >
+                  {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+                  <span>Save</span>
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-1"
+                  onClick={() => handleReset(feature.id)}
+                  disabled={isSaving || (!drafts[feature.id] && !customised)}
+                >
+                  <RotateCcw size={14} />
+                  <span>Reset</span>
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </GlassCard>
+  );
+};
+
+export default AIModelSettings;
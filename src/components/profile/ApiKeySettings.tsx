@@ -0,0 +1,335 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { CheckCircle2, KeyRound, Loader2, Pencil, Plus, Trash2, XCircle, Zap } from 'lucide-react';
+import { User } from '@supabase/supabase-js';
+import GlassCard from '@/components/ui-custom/GlassCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AIFeature } from '@/utils/llm/types';
+import { llmClient } from '@/utils/llm/client';
+import {
+  addUserKey,
+  AI_FEATURES,
+  deleteUserKey,
+  fetchFeatureKeys,
+  fetchUserKeys,
+  renameUserKey,
+  setFeatureKey,
+  testUserKey,
+  USER_KEY_PROVIDERS,
+  UserApiKey,
+  UserKeyProvider,
+} from '@/utils/userKeys';
+
+// Select items can't have an empty value, so "no default" gets its own marker
+const AUTOMATIC = 'automatic';
+
+const providerLabel = (provider: string) =>
+  USER_KEY_PROVIDERS.find(p => p.id === provider)?.label ?? provider;
+
+interface ApiKeySettingsProps {
+  user: User;
+}
+
+const ApiKeySettings = ({ user }: ApiKeySettingsProps) => {
+  const [keys, setKeys] = useState<UserApiKey[]>([]);
+  const [featureKeys, setFeatureKeys] = useState<Partial<Record<AIFeature, string>>>({});
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [testingKeyId, setTestingKeyId] = useState<string | null>(null);
+  const [editingKeyId, setEditingKeyId] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState<string>('');
+
+  const [provider, setProvider] = useState<UserKeyProvider>('openai');
+  const [label, setLabel] = useState<string>('');
+  const [apiKey, setApiKey] = useState<string>('');
+  const [baseUrl, setBaseUrl] = useState<string>('');
+
+  const loadKeys = useCallback(async () => {
+    try {
+      const [userKeys, defaults] = await Promise.all([fetchUserKeys(user), fetchFeatureKeys(user)]);
+      setKeys(userKeys);
+      setFeatureKeys(defaults);
+    } catch (error) {
+      toast.error('Failed to load your API keys');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const handleAddKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!apiKey.trim()) {
+      toast.error('Please enter an API key');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const created = await addUserKey({
+        provider,
+        label: label.trim() || providerLabel(provider),
+        apiKey: apiKey.trim(),
+        baseUrl: provider === 'azure-openai' ? baseUrl.trim() : undefined,
+      });
+      setKeys(prev => [created, ...prev]);
+      setLabel('');
+      setApiKey('');
+      setBaseUrl('');
+      toast.success('API key saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the API key');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTestKey = async (keyId: string) => {
+    setTestingKeyId(keyId);
+    try {
+      const result = await testUserKey(keyId);
+      setKeys(prev => prev.map(key => key.id === keyId
+        ? { ...key, last_test_ok: result.ok, last_tested_at: new Date().toISOString() }
+        : key));
+      if (result.ok) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to test the API key');
+    } finally {
+      setTestingKeyId(null);
+    }
+  };
+
+  const handleRename = async (keyId: string) => {
+    const newLabel = editingLabel.trim();
+    if (!newLabel) return;
+
+    try {
+      await renameUserKey(keyId, newLabel);
+      setKeys(prev => prev.map(key => key.id === keyId ? { ...key, label: newLabel } : key));
+      setEditingKeyId(null);
+    } catch (error) {
+      toast.error('Failed to rename the API key');
+    }
+  };
+
+  const handleDelete = async (keyId: string) => {
+    try {
+      await deleteUserKey(keyId);
+      setKeys(prev => prev.filter(key => key.id !== keyId));
+      // Feature defaults using the key are removed by the database
+      setFeatureKeys(prev => Object.fromEntries(
+        Object.entries(prev).filter(([, id]) => id !== keyId)
+      ));
+      toast.success('API key deleted');
+    } catch (error) {
+      toast.error('Failed to delete the API key');
+    }
+  };
+
+  const handleFeatureKeyChange = async (feature: AIFeature, value: string) => {
+    const keyId = value === AUTOMATIC ? null : value;
+    try {
+      await setFeatureKey(user, feature, keyId);
+      setFeatureKeys(prev => ({ ...prev, [feature]: keyId ?? undefined }));
+    } catch (error) {
+      toast.error('Failed to update the default key');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <GlassCard className="p-6 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </GlassCard>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <GlassCard className="p-6">
+        <h3 className="text-xl font-medium mb-2 flex items-center gap-2">
+          <KeyRound size={20} />
+          <span>Your API Keys</span>
+        </h3>
+        <p className="text-sm text-muted-foreground mb-6">
+          Keys you add here are encrypted and used instead of the organisation key.
+          Only keys for the active provider ({providerLabel(llmClient.providerId)}) are used.
+        </p>
+
+        {keys.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <KeyRound size={40} className="mx-auto mb-4 opacity-50" />
+            <p>You haven't added any keys yet. The organisation key is used for all requests.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {keys.map(key => (
+              <div key={key.id} className="flex flex-col md:flex-row md:items-center gap-3 border-b border-border pb-3">
+                <div className="flex-1 min-w-0">
+                  {editingKeyId === key.id ? (
+                    <div className="flex gap-2">
+                      <Input
+                        value={editingLabel}
+                        onChange={(e) => setEditingLabel(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleRename(key.id)}
+                        autoFocus
+                      />
+                      <Button size="sm" onClick={() => handleRename(key.id)}>Save</Button>
+                      <Button size="sm" variant="ghost" onClick={() => setEditingKeyId(null)}>Cancel</Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{key.label}</span>
+                      <Badge variant="secondary">{providerLabel(key.provider)}</Badge>
+                      {key.last_test_ok === true && <CheckCircle2 size={16} className="text-green-600" />}
+                      {key.last_test_ok === false && <XCircle size={16} className="text-destructive" />}
+                    </div>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    ••••{key.key_hint}
+                    {key.base_url && <span> · {key.base_url}</span>}
+                  </p>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => handleTestKey(key.id)}
+                    disabled={testingKeyId === key.id}
+                  >
+                    {testingKeyId === key.id ? <Loader2 size={14} className="animate-spin" /> : <Zap size={14} />}
+                    <span>Test</span>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setEditingKeyId(key.id);
+                      setEditingLabel(key.label);
+                    }}
+                    aria-label="Rename key"
+                  >
+                    <Pencil size={14} />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(key.id)}
+                    aria-label="Delete key"
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleAddKey} className="mt-6 grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="key-provider">Provider</Label>
+            <Select value={provider} onValueChange={(value) => setProvider(value as UserKeyProvider)}>
+              <SelectTrigger id="key-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {USER_KEY_PROVIDERS.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="key-label">Label</Label>
+            <Input
+              id="key-label"
+              placeholder="e.g. Personal OpenAI key"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="key-value">API key</Label>
+            <Input
+              id="key-value"
+              type="password"
+              autoComplete="off"
+              placeholder="sk-..."
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+            />
+          </div>
+
+          {provider === 'azure-openai' && (
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="key-endpoint">Endpoint</Label>
+              <Input
+                id="key-endpoint"
+                placeholder="https://my-resource.openai.azure.com"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="md:col-span-2">
+            <Button type="submit" className="gap-2" disabled={isSaving}>
+              {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Plus size={16} />}
+              <span>Add Key</span>
+            </Button>
+          </div>
+        </form>
+      </GlassCard>
+
+      <GlassCard className="p-6">
+        <h3 className="text-xl font-medium mb-2">Default Key per Feature</h3>
+        <p className="text-sm text-muted-foreground mb-6">
+          With "Automatic", your newest key for the active provider is used, or the organisation key if you have none.
+        </p>
+
+        <div className="space-y-4">
+          {AI_FEATURES.map(feature => (
+            <div key={feature.id} className="grid grid-cols-3 gap-4 items-center">
+              <span className="font-medium">{feature.label}</span>
+              <div className="col-span-2">
+                <Select
+                  value={featureKeys[feature.id] ?? AUTOMATIC}
+                  onValueChange={(value) => handleFeatureKeyChange(feature.id, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTOMATIC}>Automatic</SelectItem>
+                    {keys.map(key => (
+                      <SelectItem key={key.id} value={key.id}>
+                        {key.label} ({providerLabel(key.provider)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ))}
+        </div>
+      </GlassCard>
+    </div>
+  );
+};
+
+export default ApiKeySettings;
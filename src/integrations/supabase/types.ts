@@ -9,6 +9,21 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      app_admins: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       exam_attempts: {
         Row: {
           answers: Json | null
@@ -86,6 +101,146 @@ export type Database = {
         }
         Relationships: []
       }
+      llm_budgets: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          monthly_limit_usd: number
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          action?: string
+          created_at?: string
+          id?: string
+          monthly_limit_usd: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          monthly_limit_usd?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      llm_model_settings: {
+        Row: {
+          feature: string
+          id: string
+          json_mode: boolean
+          max_tokens: number
+          model: string
+          temperature: number
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          feature: string
+          id?: string
+          json_mode?: boolean
+          max_tokens: number
+          model: string
+          temperature: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          feature?: string
+          id?: string
+          json_mode?: boolean
+          max_tokens?: number
+          model?: string
+          temperature?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      llm_proxy_requests: {
+        Row: {
+          completion_tokens: number | null
+          cost_usd: number | null
+          created_at: string
+          feature: string | null
+          id: number
+          latency_ms: number | null
+          model: string | null
+          prompt_tokens: number | null
+          provider: string
+          status: number | null
+          user_id: string
+          user_key_id: string | null
+        }
+        Insert: {
+          completion_tokens?: number | null
+          cost_usd?: number | null
+          created_at?: string
+          feature?: string | null
+          id?: never
+          latency_ms?: number | null
+          model?: string | null
+          prompt_tokens?: number | null
+          provider: string
+          status?: number | null
+          user_id: string
+          user_key_id?: string | null
+        }
+        Update: {
+          completion_tokens?: number | null
+          cost_usd?: number | null
+          created_at?: string
+          feature?: string | null
+          id?: never
+          latency_ms?: number | null
+          model?: string | null
+          prompt_tokens?: number | null
+          provider?: string
+          status?: number | null
+          user_id?: string
+          user_key_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "llm_proxy_requests_user_key_id_fkey"
+            columns: ["user_key_id"]
+            isOneToOne: false
+            referencedRelation: "user_api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      llm_response_cache: {
+        Row: {
+          cache_key: string
+          content: string
+          created_at: string
+          expires_at: string
+          id: number
+          user_id: string
+        }
+        Insert: {
+          cache_key: string
+          content: string
+          created_at?: string
+          expires_at: string
+          id?: never
+          user_id: string
+        }
+        Update: {
+          cache_key?: string
+          content?: string
+          created_at?: string
+          expires_at?: string
+          id?: never
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -110,6 +265,39 @@ export type Database = {
         }
         Relationships: []
       }
+      prompt_template_versions: {
+        Row: {
+          content: string
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          template_id: string
+          version: number
+          weight: number
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          template_id: string
+          version: number
+          weight?: number
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          template_id?: string
+          version?: number
+          weight?: number
+        }
+        Relationships: []
+      }
       questions: {
         Row: {
           correct_option: number
@@ -151,17 +339,92 @@ export type Database = {
           },
         ]
       }
+      user_api_keys: {
+        Row: {
+          base_url: string | null
+          created_at: string
+          encrypted_key: string
+          id: string
+          key_hint: string
+          label: string
+          last_test_ok: boolean | null
+          last_tested_at: string | null
+          provider: string
+          user_id: string
+        }
+        Insert: {
+          base_url?: string | null
+          created_at?: string
+          encrypted_key: string
+          id?: string
+          key_hint: string
+          label: string
+          last_test_ok?: boolean | null
+          last_tested_at?: string | null
+          provider: string
+          user_id: string
+        }
+        Update: {
+          base_url?: string | null
+          created_at?: string
+          encrypted_key?: string
+          id?: string
+          key_hint?: string
+          label?: string
+          last_test_ok?: boolean | null
+          last_tested_at?: string | null
+          provider?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_feature_keys: {
+        Row: {
+          feature: string
+          key_id: string
+          user_id: string
+        }
+        Insert: {
+          feature: string
+          key_id: string
+          user_id: string
+        }
+        Update: {
+          feature?: string
+          key_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_feature_keys_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "user_api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      get_llm_monthly_spend: {
+        Args: {
+          p_user_id?: string
+        }
+        Returns: number
+      }
       get_user_role: {
         Args: {
           user_id: string
         }
         Returns: string
       }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
       is_student: {
         Args: {
           user_id: string
@@ -174,6 +437,16 @@ export type Database = {
         }
         Returns: boolean
       }
+      reserve_llm_request: {
+        Args: {
+          p_feature: string
+          p_limit: number
+          p_model: string
+          p_provider: string
+          p_user_id: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       user_role: "student" | "teacher"
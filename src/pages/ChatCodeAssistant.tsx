@@ -4,7 +4,8 @@ import { Copy, Play, Code, Loader2, Terminal, Sparkles, Info, Upload, Image as I
 import Header from '@/components/layout/Header';
 import GlassCard from '@/components/ui-custom/GlassCard';
 import AnimatedContainer from '@/components/ui-custom/AnimatedContainer';
-import openAIService from '@/utils/openai';
+import openAIService, { ChatContentPart, ChatMessage } from '@/utils/openai';
+import { LLMError } from '@/utils/llm/errors';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -59,6 +60,7 @@ const ChatAssistant = () => {
   const textInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const pasteAreaRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Auth
   const { user, loading } = useAuth();
@@ -271,6 +273,23 @@ const ChatAssistant = () => {
     setConversation(prev => [...prev, userMessage]);
     setIsProcessing(true);
     
+    // Updates the assistant bubble that is being streamed into (always the last message)
+    const updateStreamingMessage = (update: Partial<ConversationMessage>) => {
+      setConversation(prev => {
+        const last = prev[prev.length - 1];
+        if (!last || last.role !== 'assistant') return prev;
+        return [...prev.slice(0, -1), { ...last, ...update }];
+      });
+    };
+    // Drops the assistant bubble again if nothing was streamed into it
+    const removeEmptyStreamingMessage = () => {
+      setConversation(prev => {
+        const last = prev[prev.length - 1];
+        return last?.role === 'assistant' && !last.content ? prev.slice(0, -1) : prev;
+      });
+    };
+    let streamingMessageAdded = false;
+    
     try {
       // Create a system message to restrict to programming topics
       const systemMessage = `You are an expert programming assistant. Respond only to programming-related queries. 
@@ -285,17 +304,14 @@ const ChatAssistant = () => {
       For code screenshots, try to recreate the code if possible, fix errors, and explain solutions.
       For diagrams or mockups, provide implementation guidance with appropriate code examples.`;
       
-      // Get API key
-      await openAIService.ensureApiKey();
-      
       // Prepare messages for the API
-      const messages = [
+      const messages: ChatMessage[] = [
         {
           role: 'system',
           content: systemMessage
         },
-        ...conversation.map(msg => {
-          const content = [];
+        ...conversation.map((msg): ChatMessage => {
+          const content: ChatContentPart[] = [];
           
           // Add text content
           if (msg.content) {
@@ -317,8 +333,8 @@ const ChatAssistant = () => {
           
           return {
             role: msg.role,
-            content: content.length === 1 && content[0].type === 'text' 
-              ? content[0].text 
+            content: content.length === 1 && content[0].type === 'text'
+              ? content[0].text
               : content
           };
         }),
@@ -333,62 +349,66 @@ const ChatAssistant = () => {
         }
       ];
       
-      // Make API call
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${openAIService.getApiKey()}`
-        },
-        body: JSON.stringify({
-          model: "gpt-4o",
-          messages: messages,
-          temperature: 0.7,
-          max_tokens: 2000
-        })
+      // Add an empty assistant bubble and stream the reply into it
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setConversation(prev => [...prev, { role: 'assistant', content: '', timestamp: new Date() }]);
+      streamingMessageAdded = true;
+      
+      // Send through the shared LLM client so the configured provider is used
+      const aiResponse = await openAIService.chat({
+        messages: messages
+      }, {
+        onToken: (_token, content) => updateStreamingMessage({ content }),
+        signal: controller.signal
       });
       
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        const statusText = response.statusText;
-        const errorMessage = errorData?.error?.message || `API error: ${response.status} ${statusText}`;
-        
-        if (response.status === 413) {
-          throw new Error('The image is too large. Please use a smaller image or compress the current one.');
-        } else if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please wait a moment before trying again.');
-        } else {
-          throw new Error(errorMessage);
-        }
+      if (controller.signal.aborted && !aiResponse) {
+        // Stopped before the first token, so there is nothing to keep
+        removeEmptyStreamingMessage();
+        toast.info('Response stopped.');
+        return;
       }
       
-      const data = await response.json();
-      const aiResponse = data.choices[0].message.content;
-      
       // Extract code snippets
       const codeSnippets = extractCodeSnippets(aiResponse);
       
-      // Create assistant message
-      const assistantMessage: ConversationMessage = {
-        role: 'assistant',
+      // Finalize the streamed assistant message
+      updateStreamingMessage({
         content: aiResponse,
-        timestamp: new Date(),
         codeSnippets: codeSnippets.length > 0 ? codeSnippets : undefined
-      };
+      });
       
-      setConversation(prev => [...prev, assistantMessage]);
+      if (controller.signal.aborted) {
+        toast.info('Response stopped. The partial answer has been kept.');
+      }
       
       // Clean up the image after sending
       removeSelectedImage();
       
     } catch (error) {
+      if (streamingMessageAdded) {
+        removeEmptyStreamingMessage();
+      }
+      // Stop was pressed before the provider answered
+      if (error instanceof LLMError && error.kind === 'aborted') {
+        toast.info('Response stopped.');
+        return;
+      }
       console.error('Error processing request:', error);
-      toast.error('Error processing your request. Please try again.');
+      // Provider errors (rate limits, oversized images, quota...) carry an actionable message
+      toast.error(error instanceof LLMError ? error.message : 'Error processing your request. Please try again.');
     } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
     }
   };
   
+  // Stop the response that is currently streaming
+  const stopResponse = () => {
+    abortControllerRef.current?.abort();
+  };
+  
   // Extract code snippets from markdown response
   const extractCodeSnippets = (text: string): CodeSnippet[] => {
     const codeBlockRegex = /```([a-zA-Z0-9]+)?\n([\s\S]*?)```/g;
@@ -791,14 +811,26 @@ const ChatAssistant = () => {
                       )}
                     </div>
                     
-                    <Button 
-                      type="submit" 
-                      size="sm" 
-                      disabled={isProcessing || (!textInput.trim() && !selectedImage)}
-                      className="px-4"
-                    >
-                      Send
-                    </Button>
+                    {isProcessing ? (
+                      <Button 
+                        type="button" 
+                        size="sm" 
+                        variant="outline"
+                        onClick={stopResponse}
+                        className="px-4"
+                      >
+                        Stop
+                      </Button>
+                    ) : (
+                      <Button 
+                        type="submit" 
+                        size="sm" 
+                        disabled={!textInput.trim() && !selectedImage}
+                        className="px-4"
+                      >
+                        Send
+                      </Button>
+                    )}
                     
                     <input
                       type="file"
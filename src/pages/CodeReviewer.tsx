@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { toast } from 'sonner';
-import { FileText, Info, ChevronRight, Code, Copy, Check, AlertCircle, CheckCircle, AlertTriangle, GitFork, Database, LayoutTemplate, Share2, Download } from 'lucide-react';
+import { FileText, Info, ChevronRight, Code, Copy, Check, AlertCircle, CheckCircle, AlertTriangle, GitFork, Database, LayoutTemplate, Share2, Download, RefreshCw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import Header from '@/components/layout/Header';
 import GlassCard from '@/components/ui-custom/GlassCard';
 import AnimatedContainer from '@/components/ui-custom/AnimatedContainer';
@@ -26,7 +27,7 @@ import 'prismjs/components/prism-rust';
 import 'prismjs/components/prism-markdown';
 import 'prismjs/themes/prism.css';
 import mermaid from 'mermaid';
-import { DiagramResult } from '@/utils/openai';
+import { DiagramResult, ReviewResult } from '@/utils/openai';
 
 // Initialize mermaid
 mermaid.initialize({
@@ -54,21 +55,6 @@ interface FormData {
   errorDescription?: string;
 }
 
-interface CodeIssue {
-  type: 'error' | 'warning' | 'suggestion';
-  line: number;
-  message: string;
-  fix?: string;
-}
-
-interface ReviewResult {
-  summary: string;
-  issues: CodeIssue[];
-  improvements: string[];
-  score?: number;
-  fixedCode?: string;
-}
-
 const CodeReviewer = () => {
   const [reviewResult, setReviewResult] = useState<ReviewResult | null>(null);
   const [diagramResult, setDiagramResult] = useState<DiagramResult | null>(null);
@@ -81,6 +67,9 @@ const CodeReviewer = () => {
   const [windowWidth, setWindowWidth] = useState<number>(window.innerWidth);
   const editorRef = useRef<HTMLDivElement>(null);
   const diagramRef = useRef<HTMLDivElement>(null);
+  // Set by the Regenerate button so the next submit bypasses the response cache
+  const forceRegenerateRef = useRef<boolean>(false);
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
   const { user, loading } = useAuth();
   const navigate = useNavigate();
   
@@ -315,6 +304,16 @@ const CodeReviewer = () => {
       setApiKeyLoading(true);
       setReviewResult(null);
       setDiagramResult(null);
+      setCachedAt(null);
+      let fromCache = false;
+      const generationOptions = {
+        forceRegenerate: forceRegenerateRef.current,
+        onCacheHit: (createdAt: Date) => {
+          fromCache = true;
+          setCachedAt(createdAt);
+        },
+      };
+      forceRegenerateRef.current = false;
       
       // Toast notification that we're getting ready
       toast.info('Preparing to review your code...');
@@ -329,11 +328,16 @@ const CodeReviewer = () => {
         data.language, 
         data.reviewType,
         true,
-        data.errorDescription
+        data.errorDescription,
+        generationOptions
       );
       
       setReviewResult(result);
-      toast.success('Code review completed successfully');
+      if (fromCache) {
+        toast.info('Showing a cached review. Use Regenerate for a fresh one.');
+      } else {
+        toast.success('Code review completed successfully');
+      }
       
       // Generate diagram if requested
       if (data.includeVisualization && data.diagramType) {
@@ -344,7 +348,8 @@ const CodeReviewer = () => {
           const diagramResult = await openAIService.generateDiagram(
             data.codeSnippet,
             data.diagramType,
-            data.language
+            data.language,
+            { forceRegenerate: generationOptions.forceRegenerate }
           );
           
           setDiagramResult(diagramResult);
@@ -372,6 +377,11 @@ const CodeReviewer = () => {
     }
   };
 
+  const regenerate = () => {
+    forceRegenerateRef.current = true;
+    handleSubmit(onSubmit)();
+  };
+
   const loadExample = (example: string) => {
     let codeContent = '';
     
@@ -1050,16 +1060,33 @@ def quickProcess(file, drop_cols=[]):
                   <GlassCard className="p-6">
                     <div className="flex items-center justify-between mb-4">
                       <h3 className="text-xl font-medium">Review Summary</h3>
-                      {reviewResult.score && (
-                        <div className={`px-3 py-1.5 rounded-full font-medium ${
-                          reviewResult.score >= 80 ? 'bg-green-100 text-green-800' :
-                          reviewResult.score >= 60 ? 'bg-yellow-100 text-yellow-800' :
-                          'bg-red-100 text-red-800'
-                        }`}>
-                          Score: {reviewResult.score}/100
-                        </div>
-                      )}
+                      <div className="flex items-center gap-2">
+                        <Button 
+                          variant="ghost" 
+                          size="sm" 
+                          className="flex items-center gap-1"
+                          onClick={regenerate}
+                          disabled={isLoading || diagramLoading}
+                        >
+                          <RefreshCw size={14} />
+                          <span>Regenerate</span>
+                        </Button>
+                        {reviewResult.score && (
+                          <div className={`px-3 py-1.5 rounded-full font-medium ${
+                            reviewResult.score >= 80 ? 'bg-green-100 text-green-800' :
+                            reviewResult.score >= 60 ? 'bg-yellow-100 text-yellow-800' :
+                            'bg-red-100 text-red-800'
+                          }`}>
+                            Score: {reviewResult.score}/100
+                          </div>
+                        )}
+                      </div>
                     </div>
+                    {cachedAt && (
+                      <p className="text-xs text-muted-foreground mb-2">
+                        Cached {formatDistanceToNow(cachedAt, { addSuffix: true })}
+                      </p>
+                    )}
                     <p className="text-muted-foreground break-words overflow-x-auto" style={{ WebkitOverflowScrolling: 'touch' }}>{reviewResult.summary}</p>
                   </GlassCard>
                   
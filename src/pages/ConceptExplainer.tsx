@@ -7,6 +7,8 @@ import GlassCard from '@/components/ui-custom/GlassCard';
 import AnimatedContainer from '@/components/ui-custom/AnimatedContainer';
 import ExplanationResult from '@/components/ai/ExplanationResult';
 import openAIService from '@/utils/openai';
+import { PromptVersions } from '@/utils/prompts';
+import { markdownToPdf } from '@/utils/pdf';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -30,7 +32,6 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Skeleton } from "@/components/ui/skeleton";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
-import html2pdf from 'html2pdf.js';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { atomDark, prism } from 'react-syntax-highlighter/dist/esm/styles/prism';
 
@@ -41,129 +42,6 @@ interface FormData {
   programmingLanguage: string;
 }
 
-// Add a utility function to extract and format code blocks for PDF export
-const formatMarkdownForPdf = (markdown: string, programmingLanguage: string) => {
-  // Replace markdown code blocks with styled divs for better PDF rendering
-  let formattedContent = markdown.replace(
-    /```(\w+)?\n([\s\S]*?)```/g, 
-    (_, language, code) => {
-      const lang = language || programmingLanguage || 'javascript';
-      return `<div class="pdf-code-block" data-language="${lang}">${code}</div>`;
-    }
-  );
-  
-  // Format headings
-  formattedContent = formattedContent
-    .replace(/^# (.*$)/gm, '<h1 class="pdf-heading pdf-h1">$1</h1>')
-    .replace(/^## (.*$)/gm, '<h2 class="pdf-heading pdf-h2">$1</h2>')
-    .replace(/^### (.*$)/gm, '<h3 class="pdf-heading pdf-h3">$1</h3>');
-    
-  // Format bold and italic text
-  formattedContent = formattedContent
-    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-    .replace(/\*(.*?)\*/g, '<em>$1</em>');
-    
-  // Format lists
-  formattedContent = formattedContent
-    .replace(/^\s*\d+\.\s+(.*$)/gm, '<div class="pdf-list-item pdf-ordered">$1</div>')
-    .replace(/^\s*[\-\*]\s+(.*$)/gm, '<div class="pdf-list-item pdf-unordered">$1</div>');
-    
-  // Add paragraphs to text content
-  formattedContent = formattedContent
-    .replace(/^(?!<[hd]|$)(.*$)/gm, '<p class="pdf-paragraph">$1</p>');
-  
-  return formattedContent;
-};
-
-// Add CSS styles for PDF export
-const pdfStyles = `
-  .pdf-container {
-    font-family: 'Helvetica', Arial, sans-serif;
-    color: #333;
-    line-height: 1.5;
-    padding: 20px;
-    max-width: 800px;
-    margin: 0 auto;
-  }
-  .pdf-title {
-    font-size: 24px;
-    color: #2563eb;
-    margin-bottom: 20px;
-    text-align: center;
-    padding-bottom: 10px;
-    border-bottom: 1px solid #e5e7eb;
-  }
-  .pdf-heading {
-    margin-top: 25px;
-    margin-bottom: 15px;
-    color: #1e40af;
-  }
-  .pdf-h1 { font-size: 22px; }
-  .pdf-h2 { font-size: 20px; }
-  .pdf-h3 { font-size: 18px; }
-  .pdf-paragraph {
-    margin-bottom: 15px;
-    text-align: justify;
-  }
-  .pdf-code-block {
-    font-family: 'Courier New', monospace;
-    background-color: #f8f9fa;
-    border: 1px solid #e5e7eb;
-    border-radius: 4px;
-    padding: 12px;
-    margin: 15px 0;
-    overflow-x: auto;
-    white-space: pre;
-    font-size: 14px;
-    line-height: 1.4;
-    color: #374151;
-  }
-  .pdf-language-tag {
-    display: inline-block;
-    background-color: #e5e7eb;
-    border-radius: 4px;
-    padding: 2px 6px;
-    font-size: 12px;
-    margin-bottom: 8px;
-  }
-  .pdf-list-item {
-    margin: 8px 0;
-    padding-left: 20px;
-    position: relative;
-  }
-  .pdf-ordered:before {
-    content: "•";
-    position: absolute;
-    left: 5px;
-  }
-  .pdf-unordered:before {
-    content: "•";
-    position: absolute;
-    left: 5px;
-  }
-  .pdf-footer {
-    margin-top: 30px;
-    text-align: center;
-    font-size: 12px;
-    color: #6b7280;
-    border-top: 1px solid #e5e7eb;
-    padding-top: 15px;
-  }
-  .pdf-metadata {
-    display: flex;
-    justify-content: space-between;
-    margin-bottom: 20px;
-    font-size: 12px;
-    color: #6b7280;
-  }
-  .pdf-code-caption {
-    font-style: italic;
-    margin-top: 8px;
-    font-size: 12px;
-    color: #6b7280;
-  }
-`;
-
 const ConceptExplainer = () => {
   const [explanation, setExplanation] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -179,6 +57,12 @@ const ConceptExplainer = () => {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
   const explanationRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set by the Regenerate button so the next submit bypasses the response cache
+  const forceRegenerateRef = useRef<boolean>(false);
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
+  // Prompt template versions behind the current explanation, stored when it is saved
+  const [promptVersions, setPromptVersions] = useState<PromptVersions>({});
   
   // Check authentication
   useEffect(() => {
@@ -226,7 +110,7 @@ const ConceptExplainer = () => {
       
       if (user) {
         // Save to Supabase if user is logged in
-        savedExplanation = await saveExplanationToSupabase(user, topic, content);
+        savedExplanation = await saveExplanationToSupabase(user, topic, content, [], promptVersions);
         if (savedExplanation) {
           // Update the local state with the new explanation
           setSavedExplanations(prev => [savedExplanation as SavedExplanation, ...prev]);
@@ -236,7 +120,7 @@ const ConceptExplainer = () => {
         }
       } else {
         // Fallback to localStorage if not logged in
-        savedExplanation = saveExplanationToLocalStorage(topic, content);
+        savedExplanation = saveExplanationToLocalStorage(topic, content, promptVersions);
         setSavedExplanations(prev => [savedExplanation as SavedExplanation, ...prev]);
         toast.success('Explanation saved to your browser (login to save to your account)');
       }
@@ -295,8 +179,8 @@ const ConceptExplainer = () => {
     );
   };
 
-  // Function to export explanation as enhanced PDF
-  const exportAsPdf = async () => {
+  // Function to export explanation as a PDF with selectable text
+  const exportAsPdf = () => {
     if (!explanation || !currentTopic) {
       toast.error('No explanation to export');
       return;
@@ -304,116 +188,15 @@ const ConceptExplainer = () => {
     
     try {
       setIsExporting(true);
-      toast.loading('Preparing your PDF with enhanced formatting...', {
-        id: 'pdf-export',
-        duration: 5000,
-      });
-      
-      // Create a temporary div to render the content
-      const tempDiv = document.createElement('div');
-      tempDiv.className = 'pdf-container';
-      
-      // Add metadata and title
-      const date = new Date().toLocaleDateString();
-      const metadata = `
-        <div class="pdf-metadata">
-          <div>Generated on: ${date}</div>
-          <div>Topic: ${currentTopic}</div>
-        </div>
-      `;
-      
-      const title = `<h1 class="pdf-title">${currentTopic}</h1>`;
-      
-      // Format the markdown content
-      const formattedContent = formatMarkdownForPdf(explanation, watch('programmingLanguage'));
-      
-      // Add a footer
-      const footer = `
-        <div class="pdf-footer">
-          <p>Generated by LearnOmatic | AI-Powered Learning & Documentation Assistant</p>
-          <p>${date}</p>
-        </div>
-      `;
-      
-      // Add a table of contents placeholder
-      const tableOfContents = `
-        <div class="pdf-toc">
-          <h2 class="pdf-heading pdf-h2">Table of Contents</h2>
-          <div class="pdf-toc-content">
-            <!-- Will be filled programmatically -->
-          </div>
-        </div>
-      `;
-      
-      // Combine all elements
-      tempDiv.innerHTML = `
-        <style>${pdfStyles}</style>
-        ${metadata}
-        ${title}
-        ${tableOfContents}
-        ${formattedContent}
-        ${footer}
-      `;
-      
-      // Apply syntax highlighting to code blocks
-      const codeBlocks = tempDiv.querySelectorAll('.pdf-code-block');
-      codeBlocks.forEach((block: any) => {
-        const language = block.getAttribute('data-language') || 'javascript';
-        const code = block.textContent || '';
-        
-        // Create language tag
-        const languageTag = document.createElement('div');
-        languageTag.className = 'pdf-language-tag';
-        languageTag.textContent = language;
-        
-        // Create styled code element
-        const styledCode = document.createElement('pre');
-        styledCode.className = pdfTheme === 'dark' ? 'pdf-code-dark' : 'pdf-code-light';
-        styledCode.style.backgroundColor = pdfTheme === 'dark' ? '#282c34' : '#f8f9fa';
-        styledCode.style.color = pdfTheme === 'dark' ? '#abb2bf' : '#383a42';
-        styledCode.style.borderRadius = '4px';
-        styledCode.style.padding = '12px';
-        styledCode.style.overflowX = 'auto';
-        styledCode.style.fontFamily = 'Consolas, Monaco, "Andale Mono", monospace';
-        styledCode.style.fontSize = '14px';
-        styledCode.style.lineHeight = '1.5';
-        
-        // Add code with syntax coloring
-        // This is a simple approach - for more advanced syntax highlighting in PDF
-        // you would need to process the code through a syntax highlighter
-        styledCode.textContent = code;
-        
-        // Replace the original block with the styled elements
-        const container = document.createElement('div');
-        container.appendChild(languageTag);
-        container.appendChild(styledCode);
-        
-        // Optional: Add a caption
-        const caption = document.createElement('div');
-        caption.className = 'pdf-code-caption';
-        caption.textContent = `Example code in ${language}`;
-        container.appendChild(caption);
-        
-        block.replaceWith(container);
+      const pdf = markdownToPdf(explanation, {
+        title: currentTopic,
+        subtitle: 'Concept explanation',
+        codeTheme: pdfTheme,
       });
-      
-      // Generate PDF options
-      const options = {
-        margin: [15, 15, 15, 15], // top, left, bottom, right
-        filename: `${currentTopic.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_explanation.pdf`,
-        image: { type: 'jpeg', quality: 0.98 },
-        html2canvas: { scale: 2, useCORS: true },
-        jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' },
-      };
-      
-      // Generate the PDF
-      await html2pdf().from(tempDiv).set(options).save();
-      
-      toast.dismiss('pdf-export');
+      pdf.save(`${currentTopic.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_explanation.pdf`);
       toast.success('PDF downloaded successfully');
     } catch (error) {
       console.error('Error generating PDF:', error);
-      toast.dismiss('pdf-export');
       toast.error('Failed to generate PDF');
     } finally {
       setIsExporting(false);
@@ -454,6 +237,10 @@ const ConceptExplainer = () => {
       setApiKeyLoading(true);
       // Clear previous explanation when starting new request
       setExplanation('');
+      setCachedAt(null);
+      const forceRegenerate = forceRegenerateRef.current;
+      forceRegenerateRef.current = false;
+      let fromCache = false;
       
       // Toast notification that we're getting ready
       toast.info('Preparing to generate explanation...');
@@ -468,15 +255,40 @@ const ConceptExplainer = () => {
         duration: 9000,
       });
       
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      
+      // Render tokens as they arrive instead of waiting for the full completion
       const result = await openAIService.generateExplanation(
         data.topic, 
         data.includeCode, 
-        data.includeCode ? data.programmingLanguage : ''
+        data.includeCode ? data.programmingLanguage : '',
+        {
+          onToken: (_token, content) => {
+            toast.dismiss('explanation-progress');
+            setExplanation(content);
+          },
+          signal: controller.signal,
+        },
+        {
+          forceRegenerate,
+          onCacheHit: (createdAt) => {
+            fromCache = true;
+            setCachedAt(createdAt);
+          },
+          onPromptVersions: setPromptVersions,
+        }
       );
       
       setExplanation(result);
       toast.dismiss('explanation-progress');
-      toast.success('Explanation generated successfully');
+      if (controller.signal.aborted) {
+        toast.info('Generation stopped. The partial explanation has been kept.');
+      } else if (fromCache) {
+        toast.info('Showing a cached explanation. Use Regenerate for a fresh one.');
+      } else {
+        toast.success('Explanation generated successfully');
+      }
     } catch (error) {
       setApiKeyLoading(false);
       toast.dismiss('explanation-progress');
@@ -486,10 +298,20 @@ const ConceptExplainer = () => {
       }
       toast.error(errorMessage);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const regenerate = () => {
+    forceRegenerateRef.current = true;
+    handleSubmit(onSubmit)();
+  };
+
   const filteredExplanations = filterExplanations(savedExplanations);
 
   const interactiveExamples = [
@@ -640,7 +462,7 @@ const ConceptExplainer = () => {
                           variant="outline"
                           className="w-full gap-2 mt-2"
                           onClick={() => saveExplanation(currentTopic, explanation)}
-                          disabled={isSaving}
+                          disabled={isSaving || isLoading}
                         >
                           {isSaving ? (
                             <>
@@ -846,7 +668,7 @@ const ConceptExplainer = () => {
                       <DropdownMenuSeparator />
                       
                       <div className="px-2 py-1.5">
-                        <p className="text-xs text-muted-foreground mb-1">PDF Theme</p>
+                        <p className="text-xs text-muted-foreground mb-1">PDF Code Theme</p>
                         <ToggleGroup type="single" value={pdfTheme} onValueChange={(value) => value && setPdfTheme(value as 'light' | 'dark')}>
                           <ToggleGroupItem value="light" size="sm" className="text-xs">Light</ToggleGroupItem>
                           <ToggleGroupItem value="dark" size="sm" className="text-xs">Dark</ToggleGroupItem>
@@ -866,7 +688,7 @@ const ConceptExplainer = () => {
                         ) : (
                           <>
                             <FileText size={16} />
-                            <span>Enhanced PDF</span>
+                            <span>PDF</span>
                           </>
                         )}
                       </DropdownMenuItem>
@@ -885,7 +707,7 @@ const ConceptExplainer = () => {
               )}
               
               <div ref={explanationRef}>
-                {isLoading ? (
+                {isLoading && !explanation ? (
                   <GlassCard className="p-8">
                     <div className="flex flex-col items-center justify-center mb-8">
                       <div className="relative">
@@ -935,7 +757,14 @@ const ConceptExplainer = () => {
                     </div>
                   </GlassCard>
                 ) : explanation ? (
-                  <ExplanationResult content={explanation} isLoading={false} />
+                  <ExplanationResult
+                    content={explanation}
+                    isLoading={false}
+                    isStreaming={isLoading}
+                    onStop={stopGeneration}
+                    onRegenerate={regenerate}
+                    cachedAt={cachedAt}
+                  />
                 ) : (
                   <GlassCard className="p-8 flex flex-col items-center justify-center min-h-[400px] text-center">
                     <Brain size={48} className="text-muted-foreground mb-6 opacity-50" />
@@ -1,14 +1,43 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { toast } from 'sonner';
-import { FileText, Info, ChevronRight, Code, Copy, Check, Download, FileDown } from 'lucide-react';
+import { FileText, Info, ChevronRight, Code, Copy, Check, Download, FileDown, History, Lightbulb, Milestone, ScrollText } from 'lucide-react';
 import Header from '@/components/layout/Header';
 import GlassCard from '@/components/ui-custom/GlassCard';
 import AnimatedContainer from '@/components/ui-custom/AnimatedContainer';
 import ExplanationResult from '@/components/ai/ExplanationResult';
+import SymbolOutline from '@/components/docs/SymbolOutline';
+import InlineDocsDiff from '@/components/docs/InlineDocsDiff';
+import OpenApiExport from '@/components/docs/OpenApiExport';
+import ApiImportActions from '@/components/docs/ApiImportActions';
+import LocalRepositorySource from '@/components/docs/LocalRepositorySource';
+import RemoteRepositorySource from '@/components/docs/RemoteRepositorySource';
+import DocumentationSiteBuilder from '@/components/docs/DocumentationSiteBuilder';
+import DocumentExportMenu from '@/components/docs/DocumentExportMenu';
+import DocCoverageReport from '@/components/docs/DocCoverageReport';
+import DocDriftCheck from '@/components/docs/DocDriftCheck';
+import CommitHistorySource from '@/components/docs/CommitHistorySource';
+import DesignDocBuilder from '@/components/docs/DesignDocBuilder';
 import openAIService from '@/utils/openai';
+import { extractSymbols, isSymbolLanguage } from '@/utils/symbols';
+import { ApiEndpoint } from '@/utils/apiSpec';
+import { buildRepositoryAnalysis, parseRepositoryUrl, RepositorySnapshot } from '@/utils/repository';
+import { markdownToPdf } from '@/utils/pdf';
+import { UndocumentedSelection } from '@/utils/docCoverage';
+import {
+  buildReleases,
+  changeCount,
+  changelogLinks,
+  formatGitLog,
+  GitHistory,
+  parseCommitLog,
+  renderChangelog,
+  renderRelease,
+} from '@/utils/changelog';
+import { isDesignDocKind } from '@/utils/designDocs';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
@@ -26,40 +55,51 @@ import 'prismjs/components/prism-go';
 import 'prismjs/components/prism-rust';
 import 'prismjs/components/prism-markdown';
 import 'prismjs/themes/prism-tomorrow.css';
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
 
 interface FormData {
   codeSnippet: string;
   language: string;
   docType: DocType;
-  githubUrl?: string;
   apiEndpoints?: ApiEndpoint[];
+  // Changelog: where pull requests and issues link to, and the version of unreleased changes
+  repositoryUrl?: string;
+  releaseVersion?: string;
 }
 
-type DocType = 'function' | 'class' | 'readme' | 'github' | 'api';
+type DocType = 'function' | 'class' | 'readme' | 'github' | 'api' | 'changelog' | 'adr' | 'rfc' | 'design';
+
+const DOC_TYPE_LABELS: Record<DocType, string> = {
+  function: 'Function',
+  class: 'Class',
+  readme: 'README',
+  github: 'Repository',
+  api: 'API',
+  changelog: 'Changelog',
+  adr: 'ADR',
+  rfc: 'RFC',
+  design: 'Design Doc',
+};
 
-interface ApiEndpoint {
-  id: string;
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
-  path: string;
-  description: string;
-  requestParams?: ApiParam[];
-  responseFields?: ApiParam[];
-}
+// Local projects can have thousands of files; the rest are summarised as a count
+const MAX_LISTED_REPO_FILES = 100;
+
+// Repositories are read from a Git host or from a folder/zip on the user's machine
+type RepoSource = 'remote' | 'local';
+
+// Function and class docs can be a markdown page or comments written into the code,
+// or existing docs can be checked against the code
+type DocOutput = 'markdown' | 'inline' | 'drift';
 
-interface ApiParam {
-  id: string;
-  name: string;
-  type: string;
-  description: string;
-  required: boolean;
+interface InlineDocs {
+  original: string;
+  patched: string;
+  language: string;
 }
 
+
 const DocumentationGenerator = () => {
   const [documentation, setDocumentation] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [apiKeyLoading, setApiKeyLoading] = useState<boolean>(false);
   const [copied, setCopied] = useState<boolean>(false);
   const [editorValue, setEditorValue] = useState<string>('');
   const [exportLoading, setExportLoading] = useState<{pdf: boolean, markdown: boolean}>({
@@ -68,11 +108,16 @@ const DocumentationGenerator = () => {
   });
   const [apiEndpoints, setApiEndpoints] = useState<ApiEndpoint[]>([]);
   const [currentApiEndpoint, setCurrentApiEndpoint] = useState<ApiEndpoint | null>(null);
-  const [isAnalyzingRepo, setIsAnalyzingRepo] = useState<boolean>(false);
-  const [repoStructure, setRepoStructure] = useState<any>(null);
+  const [repoStructure, setRepoStructure] = useState<RepositorySnapshot | null>(null);
   const [repoFiles, setRepoFiles] = useState<string[]>([]);
+  const [repoSource, setRepoSource] = useState<RepoSource>('remote');
   const editorRef = useRef<HTMLDivElement>(null);
-  const documentationRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set by the Regenerate button so the next submit bypasses the response cache
+  const forceRegenerateRef = useRef<boolean>(false);
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
+  const [docOutput, setDocOutput] = useState<DocOutput>('markdown');
+  const [inlineDocs, setInlineDocs] = useState<InlineDocs | null>(null);
   const { user, loading } = useAuth();
   const navigate = useNavigate();
   
@@ -101,7 +146,6 @@ const DocumentationGenerator = () => {
       codeSnippet: '',
       language: 'javascript',
       docType: 'function',
-      githubUrl: '',
       apiEndpoints: []
     }
   });
@@ -113,7 +157,10 @@ const DocumentationGenerator = () => {
 
   const docType = watch('docType');
   const language = watch('language');
-  const githubUrl = watch('githubUrl');
+  // Checking existing docs replaces generating new ones
+  const driftMode = (docType === 'function' || docType === 'class') && isSymbolLanguage(language) && docOutput === 'drift';
+  // ADRs, RFCs and design docs are drafted from their guided form instead
+  const designDocMode = isDesignDocKind(docType);
 
   const getLanguageHighlighter = (lang: string) => {
     switch (lang) {
@@ -155,25 +202,44 @@ const DocumentationGenerator = () => {
   const onSubmit = async (data: FormData) => {
     try {
       setIsLoading(true);
-      setApiKeyLoading(true);
+      setDocumentation('');
+      setInlineDocs(null);
+      setCachedAt(null);
       
       // Toast notification that we're getting ready
       toast.info('Preparing to generate documentation...');
       
-      // Ensure API key is available
-      await openAIService.ensureApiKey();
-      setApiKeyLoading(false);
+      // Stream tokens into the preview as they arrive
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const streamOptions = {
+        onToken: (_token: string, content: string) => setDocumentation(content),
+        signal: controller.signal,
+      };
+      let fromCache = false;
+      const generationOptions = {
+        forceRegenerate: forceRegenerateRef.current,
+        onCacheHit: (createdAt: Date) => {
+          fromCache = true;
+          setCachedAt(createdAt);
+        },
+      };
+      forceRegenerateRef.current = false;
       
       let result = '';
       
       if (data.docType === 'github') {
-        // Handle GitHub repository documentation
-        if (!data.githubUrl || !validateGithubUrl(data.githubUrl)) {
-          throw new Error('Please enter a valid GitHub repository URL');
+        // Handle repository documentation
+        if (!repoStructure) {
+          throw new Error(repoSource === 'local'
+            ? 'Please choose a project folder or zip archive first'
+            : 'Please analyze the repository first');
         }
         
         // Create a structured description of the repository to send to the API
-        const repoDescription = `GitHub Repository: ${data.githubUrl}\n\n` +
+        const repoDescription = (repoSource === 'local'
+                                  ? `Local Repository: ${repoStructure.name}\n\n`
+                                  : `${repoStructure.source} Repository: ${repoStructure.name}\n\n`) +
                                `Files found: ${repoFiles.join(', ')}\n\n` +
                                `${data.codeSnippet || 'Please generate comprehensive documentation for this repository.'}`;
         
@@ -181,7 +247,9 @@ const DocumentationGenerator = () => {
         result = await openAIService.generateDocumentation(
           repoDescription,
           'markdown',
-          'readme'
+          'readme',
+          streamOptions,
+          generationOptions
         );
       } else if (data.docType === 'api') {
         // Handle API documentation
@@ -204,31 +272,157 @@ ${endpoint.responseFields?.length ? 'Response Fields:\n' + endpoint.responseFiel
         result = await openAIService.generateDocumentation(
           fullApiDescription,
           'markdown',
-          'readme'
+          'readme',
+          streamOptions,
+          generationOptions
+        );
+      } else if (data.docType === 'changelog') {
+        // The changelog is built from the commits as they are; the AI only writes the release notes
+        const commits = parseCommitLog(data.codeSnippet);
+        if (commits.length === 0) {
+          throw new Error('No commits found. Paste `git log` output or a list of commit messages, or read a local repository.');
+        }
+        const links = changelogLinks(data.repositoryUrl);
+        const releases = buildReleases(commits, data.releaseVersion);
+        const changelog = renderChangelog(releases, links);
+        setDocumentation(changelog);
+
+        const latest = releases[0];
+        if (!latest || changeCount(latest) === 0) {
+          result = changelog;
+        } else {
+          const notes = await openAIService.generateReleaseNotes(
+            renderRelease(latest, links),
+            data.repositoryUrl ? parseRepositoryUrl(data.repositoryUrl)?.name : undefined,
+            {
+              ...streamOptions,
+              onToken: (_token: string, content: string) => setDocumentation(`${changelog}\n---\n\n${content}`),
+            },
+            generationOptions
+          );
+          result = notes.trim() ? `${changelog}\n---\n\n${notes}` : changelog;
+        }
+      } else if (data.docType !== 'readme' && docOutput === 'inline') {
+        // Write doc comments into the source instead of a separate document
+        if (!isSymbolLanguage(data.language)) {
+          throw new Error('Inline doc comments are available for TypeScript, JavaScript, Python, Java and C# code');
+        }
+        const symbols = await extractSymbols(data.codeSnippet, data.language);
+        const patched = await openAIService.generateInlineDocs(
+          data.codeSnippet,
+          data.language,
+          symbols,
+          generationOptions
         );
+        if (patched === data.codeSnippet) {
+          toast.info('Every exported symbol already has a doc comment');
+          return;
+        }
+        setInlineDocs({ original: data.codeSnippet, patched, language: data.language });
+        toast.success(fromCache
+          ? 'Showing cached doc comments. Use Regenerate for a fresh version.'
+          : 'Doc comments generated. Review the changes before applying them.');
+        return;
       } else {
         // Handle regular code documentation (function, class, readme)
+        // Without a parsed inventory the code is still documented from the raw text
+        const symbols = data.docType === 'readme' ? null : await extractSymbols(data.codeSnippet, data.language)
+          .catch(error => {
+            console.error('Error parsing code:', error);
+            return null;
+          });
         result = await openAIService.generateDocumentation(
         data.codeSnippet,
         data.language,
-          data.docType as 'function' | 'class' | 'readme'
+          data.docType as 'function' | 'class' | 'readme',
+          streamOptions,
+          generationOptions,
+          symbols
       );
       }
       
       setDocumentation(result);
-      toast.success('Documentation generated successfully');
+      if (controller.signal.aborted) {
+        toast.info('Generation stopped. The partial documentation has been kept.');
+      } else if (fromCache) {
+        toast.info('Showing cached documentation. Use Regenerate for a fresh version.');
+      } else {
+        toast.success('Documentation generated successfully');
+      }
     } catch (error) {
-      setApiKeyLoading(false);
       let errorMessage = 'Failed to generate documentation';
       if (error instanceof Error) {
         errorMessage = error.message;
       }
       toast.error(errorMessage);
     } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Documents only the symbols the coverage report found without (complete) docs
+  const documentUndocumented = async (selection: UndocumentedSelection) => {
+    const controller = new AbortController();
+    try {
+      setIsLoading(true);
+      setDocumentation('');
+      setInlineDocs(null);
+      setCachedAt(null);
+
+      abortControllerRef.current = controller;
+      let fromCache = false;
+      const result = await openAIService.generateDocumentation(
+        selection.code,
+        selection.language,
+        selection.docType,
+        {
+          onToken: (_token: string, content: string) => setDocumentation(content),
+          signal: controller.signal,
+        },
+        {
+          onCacheHit: (createdAt: Date) => {
+            fromCache = true;
+            setCachedAt(createdAt);
+          },
+        },
+        selection.symbols
+      );
+
+      setDocumentation(result);
+      if (controller.signal.aborted) {
+        toast.info('Generation stopped. The partial documentation has been kept.');
+      } else if (fromCache) {
+        toast.info('Showing cached documentation. Use Regenerate for a fresh version.');
+      } else {
+        toast.success(`Documented ${selection.count} symbol${selection.count === 1 ? '' : 's'}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate documentation');
+    } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const regenerate = () => {
+    forceRegenerateRef.current = true;
+    handleSubmit(onSubmit)();
+  };
+
+  // Generate filename based on docType and language
+  const exportFileName = (extension: string) => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19);
+    return `documentation_${docType}_${language || 'readme'}_${timestamp}${extension}`;
+  };
+
+  // Repository docs are titled after the repository, the rest after their first heading
+  const exportTitle = repoStructure && (docType === 'github' || docType === 'readme') ? repoStructure.name : undefined;
+
   const exportToMarkdown = () => {
     setExportLoading(prev => ({ ...prev, markdown: true }));
     try {
@@ -239,12 +433,7 @@ ${endpoint.responseFields?.length ? 'Response Fields:\n' + endpoint.responseFiel
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      
-      // Generate filename based on docType and language
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19);
-      const fileName = `documentation_${docType}_${language || 'readme'}_${timestamp}.md`;
-      
-      a.download = fileName;
+      a.download = exportFileName('.md');
       document.body.appendChild(a);
       a.click();
       
@@ -261,58 +450,15 @@ ${endpoint.responseFields?.length ? 'Response Fields:\n' + endpoint.responseFiel
     }
   };
 
-  const exportToPDF = async () => {
-    if (!documentationRef.current) return;
-    
+  const exportToPDF = () => {
     setExportLoading(prev => ({ ...prev, pdf: true }));
     try {
-      toast.info('Preparing PDF export...');
-      
-      // Generate filename based on docType and language
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19);
-      const fileName = `documentation_${docType}_${language || 'readme'}_${timestamp}.pdf`;
-      
-      // Create a new jsPDF instance
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: 'a4',
-      });
-      
-      // Get the content element
-      const element = documentationRef.current;
-      
-      // Use html2canvas to capture the element
-      const canvas = await html2canvas(element, {
-        scale: 2, // Higher scale for better quality
-        useCORS: true,
-        logging: false,
-        backgroundColor: '#ffffff',
+      const pdf = markdownToPdf(documentation, {
+        title: exportTitle,
+        subtitle: `${DOC_TYPE_LABELS[docType]} documentation${docType === 'function' || docType === 'class' ? ` (${language})` : ''}`,
       });
-      
-      // Calculate dimensions to fit on PDF
-      const imgData = canvas.toDataURL('image/png');
-      const imgWidth = 210; // A4 width in mm
-      const pageHeight = 295; // A4 height in mm
-      const imgHeight = (canvas.height * imgWidth) / canvas.width;
-      let heightLeft = imgHeight;
-      let position = 0;
-      
-      // Add image to PDF
-      pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-      heightLeft -= pageHeight;
-      
-      // Add new pages if content is longer than one page
-      while (heightLeft > 0) {
-        position = heightLeft - imgHeight;
-        pdf.addPage();
-        pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-        heightLeft -= pageHeight;
-      }
-      
-      // Save the PDF
-      pdf.save(fileName);
-      
+      pdf.save(exportFileName('.pdf'));
+
       toast.success('Documentation exported as PDF');
     } catch (error) {
       console.error('Failed to export PDF', error);
@@ -1306,296 +1452,27 @@ Features:
 
   const placeholderText = docType === 'readme' 
     ? 'Enter a project description or overview here...' 
-    : 'Paste your code here...';
-
-  // Helper to validate GitHub URL
-  const validateGithubUrl = (url: string): boolean => {
-    const githubRegex = /^https?:\/\/(www\.)?github\.com\/[\w-]+\/[\w.-]+\/?$/;
-    return githubRegex.test(url);
-  };
-
-  // Function to analyze GitHub repository
-  const analyzeGitHubRepo = async (url: string) => {
-    if (!validateGithubUrl(url)) {
-      toast.error('Please enter a valid GitHub repository URL');
-      return;
+    : docType === 'changelog'
+      ? 'Paste `git log` output or conventional commit messages, one per line...'
+      : 'Paste your code here...';
+
+  // Puts the history of a local repository into the commit history field, as `git log` output
+  const applyCommitHistory = (history: GitHistory) => {
+    const log = formatGitLog(history.commits);
+    setValue('codeSnippet', log);
+    setEditorValue(log);
+    if (history.remoteUrl) {
+      setValue('repositoryUrl', history.remoteUrl);
     }
+  };
 
-    setIsAnalyzingRepo(true);
-    try {
-      // Extract owner and repo from URL
-      const urlParts = url.replace(/\/$/, '').split('/');
-      const owner = urlParts[urlParts.length - 2];
-      const repo = urlParts[urlParts.length - 1];
-      
-      toast.info(`Analyzing repository: ${owner}/${repo}...`);
-      
-      // First, fetch repository metadata
-      const repoResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}`);
-      if (!repoResponse.ok) {
-        throw new Error('Failed to fetch repository information');
-      }
-      const repoData = await repoResponse.json();
-
-      // Fetch repository tree (all files)
-      let treeData;
-      const treeResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/git/trees/main?recursive=1`);
-      if (treeResponse.ok) {
-        treeData = await treeResponse.json();
-      } else {
-        // If main branch doesn't exist, try master
-        const masterTreeResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/git/trees/master?recursive=1`);
-        if (!masterTreeResponse.ok) {
-          throw new Error('Failed to fetch repository contents');
-        }
-        treeData = await masterTreeResponse.json();
-      }
-
-      // Filter important files for analysis
-      const importantFiles = treeData.tree.filter((item: any) => {
-        const isImportant = (
-          // Documentation files
-          item.path.toLowerCase().includes('readme') ||
-          item.path.toLowerCase().includes('docs/') ||
-          item.path.toLowerCase().includes('documentation/') ||
-          // Configuration files
-          item.path.match(/\.(json|yaml|yml|xml|toml)$/) ||
-          // Source code files in root or src directory
-          (item.path.match(/\.(js|ts|jsx|tsx|py|java|cs|go|rb)$/) && 
-           (item.path.startsWith('src/') || !item.path.includes('/'))) ||
-          // Package management files
-          item.path.match(/(package\.json|requirements\.txt|pom\.xml|build\.gradle|gemfile)$/i)
-        );
-        return item.type === 'blob' && isImportant;
-      });
-
-      // Fetch content of important files
-      const fileContents = await Promise.all(
-        importantFiles.slice(0, 10).map(async (file: any) => {
-          const contentResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/contents/${file.path}`);
-          if (!contentResponse.ok) return null;
-          const contentData = await contentResponse.json();
-          return {
-            path: file.path,
-            content: atob(contentData.content)
-          };
-        })
-      );
-
-      // Filter out failed fetches
-      const validFileContents = fileContents.filter(f => f !== null);
-
-      // Build repository analysis
-      const repoAnalysis = {
-        name: repoData.name,
-        description: repoData.description,
-        language: repoData.language,
-        topics: repoData.topics || [],
-        stars: repoData.stargazers_count,
-        forks: repoData.forks_count,
-        lastUpdated: repoData.updated_at,
-        license: repoData.license?.name,
-        fileStructure: treeData.tree.map((item: any) => item.path),
-        analyzedFiles: validFileContents.map(file => ({
-          path: file.path,
-          content: file.content
-        }))
-      };
-
-      // Analyze dependencies and tech stack
-      const packageFiles = validFileContents.find(f => f.path.endsWith('package.json'));
-      const requirements = validFileContents.find(f => f.path.endsWith('requirements.txt'));
-      const gradleFile = validFileContents.find(f => f.path.endsWith('build.gradle'));
-      const pomFile = validFileContents.find(f => f.path.endsWith('pom.xml'));
-
-      let dependencies = {};
-      let techStack = [];
-
-      if (packageFiles) {
-        try {
-          const packageJson = JSON.parse(packageFiles.content);
-          dependencies = {
-            ...packageJson.dependencies,
-            ...packageJson.devDependencies
-          };
-          techStack.push('Node.js');
-          if (dependencies['react']) techStack.push('React');
-          if (dependencies['@angular/core']) techStack.push('Angular');
-          if (dependencies['vue']) techStack.push('Vue.js');
-        } catch (e) {
-          console.error('Error parsing package.json:', e);
-        }
-      }
-
-      if (requirements) {
-        techStack.push('Python');
-        const pythonDeps = requirements.content.split('\n')
-          .filter(line => line.trim() && !line.startsWith('#'))
-          .map(line => line.split('==')[0].split('>=')[0].trim());
-        dependencies = { ...dependencies, ...Object.fromEntries(pythonDeps.map(dep => [dep, '*'])) };
-      }
-
-      if (gradleFile) techStack.push('Java/Kotlin');
-      if (pomFile) techStack.push('Java');
-
-      // Analyze project structure and architecture
-      const srcFiles = validFileContents.filter(f => f.path.startsWith('src/') || f.path.startsWith('lib/'));
-      const testFiles = validFileContents.filter(f => f.path.includes('test/') || f.path.includes('spec/'));
-      const configFiles = validFileContents.filter(f => 
-        f.path.match(/\.(json|yaml|yml|xml|config|conf|ini)$/i) &&
-        !f.path.includes('package.json')
-      );
-
-      // Identify main components and features
-      const components = srcFiles.map(file => {
-        const isComponent = file.content.includes('class') || file.content.includes('function') || file.content.includes('interface');
-        if (!isComponent) return null;
-
-        const componentName = file.path.split('/').pop()?.split('.')[0];
-        const componentType = file.content.includes('class') ? 'Class' :
-                            file.content.includes('interface') ? 'Interface' : 'Function';
-        
-        // Extract exports and imports
-        const exports = file.content.match(/export\s+(default\s+)?(class|function|const|interface)\s+(\w+)/g) || [];
-        const imports = file.content.match(/import\s+.*?from\s+['"].*?['"];?/g) || [];
-
-        return {
-          name: componentName,
-          type: componentType,
-          path: file.path,
-          exports: exports.map(exp => exp.split(' ').pop()),
-          imports: imports.length,
-          loc: file.content.split('\n').length
-        };
-      }).filter(Boolean);
-
-      // Generate detailed documentation structure
-      const analysisDescription = `
-# ${repoAnalysis.name} Repository Analysis
-
-## Project Overview
-${repoAnalysis.description || 'No description provided'}
-
-## Technical Specifications
-- Primary Language: ${repoAnalysis.language}
-- Technology Stack: ${techStack.join(', ')}
-- Repository Statistics:
-  - Stars: ${repoAnalysis.stars}
-  - Forks: ${repoAnalysis.forks}
-  - Last Updated: ${new Date(repoAnalysis.lastUpdated).toLocaleDateString()}
-  - License: ${repoAnalysis.license || 'Not specified'}
-
-## Project Architecture
-### Directory Structure
-\`\`\`
-${repoAnalysis.fileStructure
-  .filter((path: string) => !path.includes('node_modules/'))
-  .filter((path: string) => !path.includes('dist/'))
-  .filter((path: string) => !path.includes('.git/'))
-  .slice(0, 30)
-  .map((path: string) => path)
-  .join('\n')}
-\`\`\`
-
-### Key Components
-${components.map(comp => `
-- ${comp?.name} (${comp?.type})
-  - Location: ${comp?.path}
-  - Exports: ${comp?.exports.join(', ')}
-  - Dependencies: ${comp?.imports} imports
-  - Size: ${comp?.loc} lines of code
-`).join('')}
-
-## Dependencies and Technical Requirements
-${Object.keys(dependencies).length > 0 ? `
-### Main Dependencies
-${Object.entries(dependencies)
-  .slice(0, 15)
-  .map(([dep, version]) => `- ${dep}: ${version}`)
-  .join('\n')}
-` : 'No dependency information available.'}
-
-## Configuration
-${configFiles.map(file => `
-### ${file.path}
-\`\`\`
-${file.content.slice(0, 300)}...
-\`\`\`
-`).join('\n')}
-
-## Testing and Quality Assurance
-${testFiles.length > 0 ? `
-Test files found: ${testFiles.length}
-Example test files:
-${testFiles.slice(0, 3).map(file => `- ${file.path}`).join('\n')}
-` : 'No test files identified in the repository.'}
-
-## Source Code Analysis
-${srcFiles.slice(0, 5).map(file => `
-### ${file.path}
-\`\`\`
-${file.content.slice(0, 500)}...
-\`\`\`
-`).join('\n')}
-
-## Documentation Requirements
-Please generate comprehensive documentation that includes:
-
-1. Detailed Project Overview
-   - Purpose and main features
-   - Target audience and use cases
-   - System requirements
-
-2. Architecture Documentation
-   - Component relationships and interactions
-   - Data flow between components
-   - Design patterns used
-   - System boundaries and external dependencies
-
-3. Setup and Installation Guide
-   - Step-by-step installation process
-   - Environment setup requirements
-   - Configuration instructions
-   - Troubleshooting common issues
-
-4. API Documentation (if applicable)
-   - Endpoint descriptions
-   - Request/response formats
-   - Authentication methods
-   - Rate limiting and security considerations
-
-5. Development Guide
-   - Code organization and structure
-   - Coding standards and conventions
-   - Build and deployment procedures
-   - Contributing guidelines
-
-6. Testing Strategy
-   - Testing approach and frameworks
-   - Test coverage and requirements
-   - Running and writing tests
-
-7. Maintenance and Operations
-   - Monitoring and logging
-   - Backup and recovery procedures
-   - Performance optimization guidelines
-   - Security best practices
-
-Please analyze the provided code and structure to create detailed documentation covering all these aspects.
-`;
-
-      setValue('codeSnippet', analysisDescription);
-      setEditorValue(analysisDescription);
-      setRepoStructure(repoAnalysis);
-      setRepoFiles(repoAnalysis.fileStructure);
-      
-      toast.success('Repository analyzed successfully');
-    } catch (error) {
-      console.error('Error analyzing repository:', error);
-      toast.error('Failed to analyze GitHub repository');
-    } finally {
-      setIsAnalyzingRepo(false);
-    }
+  // Puts the analysis of a repository, from any source, into the overview field
+  const applyRepositoryAnalysis = (snapshot: RepositorySnapshot) => {
+    const analysisDescription = buildRepositoryAnalysis(snapshot);
+    setValue('codeSnippet', analysisDescription);
+    setEditorValue(analysisDescription);
+    setRepoStructure(snapshot);
+    setRepoFiles(snapshot.fileStructure);
   };
 
   return (
@@ -1668,7 +1545,7 @@ Please analyze the provided code and structure to create detailed documentation
                               >
                                 <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z"/>
                               </svg>
-                          <span>GitHub</span>
+                          <span>Repository</span>
                             </Label>
                           </div>
                           <div>
@@ -1693,10 +1570,50 @@ Please analyze the provided code and structure to create detailed documentation
                           <span>API</span>
                             </Label>
                           </div>
+                          <div>
+                        <RadioGroupItem value="changelog" id="changelog" className="peer sr-only" />
+                            <Label
+                              htmlFor="changelog"
+                              className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-popover p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary"
+                            >
+                              <History className="mb-2 h-5 w-5" />
+                          <span>Changelog</span>
+                            </Label>
+                          </div>
+                          <div>
+                        <RadioGroupItem value="adr" id="adr" className="peer sr-only" />
+                            <Label
+                              htmlFor="adr"
+                              className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-popover p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary"
+                            >
+                              <Milestone className="mb-2 h-5 w-5" />
+                          <span>ADR</span>
+                            </Label>
+                          </div>
+                          <div>
+                        <RadioGroupItem value="rfc" id="rfc" className="peer sr-only" />
+                            <Label
+                              htmlFor="rfc"
+                              className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-popover p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary"
+                            >
+                              <Lightbulb className="mb-2 h-5 w-5" />
+                          <span>RFC</span>
+                            </Label>
+                          </div>
+                          <div>
+                        <RadioGroupItem value="design" id="design" className="peer sr-only" />
+                            <Label
+                              htmlFor="design"
+                              className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-popover p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary"
+                            >
+                              <ScrollText className="mb-2 h-5 w-5" />
+                          <span>Design Doc</span>
+                            </Label>
+                          </div>
                         </RadioGroup>
                       </div>
                       
-                      {docType !== 'readme' && docType !== 'github' && docType !== 'api' && (
+                      {docType !== 'readme' && docType !== 'github' && docType !== 'api' && docType !== 'changelog' && (
                         <div>
                           <Label htmlFor="language">Programming Language</Label>
                           <Select
@@ -1721,56 +1638,65 @@ Please analyze the provided code and structure to create detailed documentation
                       
                       {docType === 'github' && (
                       <div>
-                          <Label htmlFor="githubUrl">GitHub Repository URL</Label>
-                          <div className="flex items-center gap-2 mt-1">
-                            <input
-                              type="text"
-                              id="githubUrl"
-                              placeholder="https://github.com/username/repository"
-                              className="flex-1 bg-background px-3 py-2 rounded-md border border-input focus:outline-none focus:ring-2 focus:ring-primary"
-                              {...register('githubUrl', { 
-                                required: 'GitHub URL is required',
-                                pattern: {
-                                  value: /^https?:\/\/(www\.)?github\.com\/[\w-]+\/[\w.-]+\/?$/,
-                                  message: 'Please enter a valid GitHub repository URL'
-                                }
-                              })}
-                            />
-                            <Button
-                              type="button"
-                              variant="outline"
-                              onClick={() => analyzeGitHubRepo(githubUrl)}
-                              disabled={isAnalyzingRepo || !githubUrl}
-                              className="whitespace-nowrap"
-                            >
-                              {isAnalyzingRepo ? (
-                                <>
-                                  <div className="h-4 w-4 rounded-full border-2 border-t-transparent border-primary animate-spin mr-2"></div>
-                                  Analyzing...
-                                </>
-                              ) : 'Analyze Repo'}
-                            </Button>
-                          </div>
-                          {errors.githubUrl && (
-                            <p className="text-destructive text-sm mt-1">{errors.githubUrl.message}</p>
-                          )}
+                          <Label>Source</Label>
+                          <RadioGroup
+                            value={repoSource}
+                            className="flex gap-6 mt-2 mb-3"
+                            onValueChange={(value) => {
+                              setRepoSource(value as RepoSource);
+                              // An analysis from the other source no longer applies
+                              setRepoStructure(null);
+                              setRepoFiles([]);
+                            }}
+                          >
+                            <div className="flex items-center gap-2">
+                              <RadioGroupItem value="remote" id="source-remote" />
+                              <Label htmlFor="source-remote" className="font-normal cursor-pointer">Git host URL</Label>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <RadioGroupItem value="local" id="source-local" />
+                              <Label htmlFor="source-local" className="font-normal cursor-pointer">Local folder or .zip</Label>
+                            </div>
+                          </RadioGroup>
+
+                          {repoSource === 'local' ? (
+                            <>
+                              <LocalRepositorySource onAnalyzed={applyRepositoryAnalysis} />
+                              <Alert className="mt-3 bg-muted/30">
+                                <AlertDescription className="text-xs">
+                                  Choose a project folder or a .zip archive. Files are read in your browser and
+                                  .gitignore rules are respected; only the repository analysis is sent to the AI.
+                                </AlertDescription>
+                              </Alert>
+                            </>
+                          ) : (
+                          <>
+                          <RemoteRepositorySource onAnalyzed={applyRepositoryAnalysis} />
                           
                           <Alert className="mt-3 bg-muted/30">
                             <AlertDescription className="text-xs">
-                              Enter a GitHub repository URL and click "Analyze Repo" to fetch project structure.
+                              Enter a repository URL from GitHub, GitLab, Bitbucket or Gitea (hosted or self-hosted)
+                              and click "Analyze Repo" to fetch project structure.
                               The AI will analyze the repository files to create comprehensive documentation.
                             </AlertDescription>
                           </Alert>
+                          </>
+                          )}
                           
                           {repoFiles.length > 0 && (
                             <div className="mt-3 p-3 bg-muted/20 rounded-md">
                               <p className="text-sm font-medium mb-1">Repository Files:</p>
                               <div className="flex flex-wrap gap-1">
-                                {repoFiles.map((file, index) => (
+                                {repoFiles.slice(0, MAX_LISTED_REPO_FILES).map((file, index) => (
                                   <span key={index} className="px-2 py-1 bg-primary/10 text-xs rounded-md">
                                     {file}
                                   </span>
                                 ))}
+                                {repoFiles.length > MAX_LISTED_REPO_FILES && (
+                                  <span className="px-2 py-1 text-xs text-muted-foreground">
+                                    and {repoFiles.length - MAX_LISTED_REPO_FILES} more
+                                  </span>
+                                )}
                               </div>
                               <p className="text-xs text-muted-foreground mt-2">
                                 These files will be included in the documentation generation. 
@@ -1778,35 +1704,89 @@ Please analyze the provided code and structure to create detailed documentation
                               </p>
                             </div>
                           )}
+
+                          {repoStructure && (
+                            <DocumentationSiteBuilder snapshot={repoStructure} />
+                          )}
+
+                          {repoStructure && (
+                            <DocCoverageReport
+                              snapshot={repoStructure}
+                              onDocument={documentUndocumented}
+                              disabled={isLoading}
+                            />
+                          )}
                         </div>
                       )}
                       
+                      {docType === 'changelog' && (
+                        <div className="space-y-3">
+                          <CommitHistorySource onLoaded={applyCommitHistory} />
+                          <Alert className="bg-muted/30">
+                            <AlertDescription className="text-xs">
+                              Read the history of a local repository (the folder with its .git directory, or a .zip
+                              that includes it), or paste <code>git log</code> output or a list of commit messages
+                              below. Tags such as v1.2.0 mark the releases.
+                            </AlertDescription>
+                          </Alert>
+                          <div>
+                            <Label htmlFor="repositoryUrl">Repository URL</Label>
+                            <Input
+                              id="repositoryUrl"
+                              className="mt-1"
+                              placeholder="https://github.com/owner/repo (optional, for links)"
+                              {...register('repositoryUrl')}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="releaseVersion">Version of Unreleased Changes</Label>
+                            <Input
+                              id="releaseVersion"
+                              className="mt-1"
+                              placeholder="e.g. 1.3.0 (optional)"
+                              {...register('releaseVersion')}
+                            />
+                          </div>
+                        </div>
+                      )}
+
                       {docType === 'api' && (
                         <div className="space-y-4">
                           <div className="flex items-center justify-between">
                             <Label>API Endpoints</Label>
-                            <Button
-                              type="button"
-                              variant="outline"
-                              size="sm"
-                              onClick={() => {
-                                const newEndpoint: ApiEndpoint = {
-                                  id: `endpoint-${Date.now()}`,
-                                  method: 'GET',
-                                  path: '',
-                                  description: '',
-                                  requestParams: [],
-                                  responseFields: []
-                                };
-                                setApiEndpoints([...apiEndpoints, newEndpoint]);
-                                setValue('apiEndpoints', [...apiEndpoints, newEndpoint]);
-                                setCurrentApiEndpoint(newEndpoint);
-                              }}
-                              className="gap-1"
-                            >
-                              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-plus"><path d="M5 12h14"/><path d="M12 5v14"/></svg>
-                              Add Endpoint
-                            </Button>
+                            <div className="flex flex-wrap justify-end gap-2">
+                              <ApiImportActions
+                                endpoints={apiEndpoints}
+                                onChange={(updated) => {
+                                  setApiEndpoints(updated);
+                                  setValue('apiEndpoints', updated);
+                                  setCurrentApiEndpoint(updated.find(ep => ep.id === currentApiEndpoint?.id) ?? updated[0] ?? null);
+                                }}
+                              />
+                              <OpenApiExport endpoints={apiEndpoints} />
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  const newEndpoint: ApiEndpoint = {
+                                    id: `endpoint-${Date.now()}`,
+                                    method: 'GET',
+                                    path: '',
+                                    description: '',
+                                    requestParams: [],
+                                    responseFields: []
+                                  };
+                                  setApiEndpoints([...apiEndpoints, newEndpoint]);
+                                  setValue('apiEndpoints', [...apiEndpoints, newEndpoint]);
+                                  setCurrentApiEndpoint(newEndpoint);
+                                }}
+                                className="gap-1"
+                              >
+                                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-plus"><path d="M5 12h14"/><path d="M12 5v14"/></svg>
+                                Add Endpoint
+                              </Button>
+                            </div>
                           </div>
                           
                           {apiEndpoints.length === 0 ? (
@@ -2095,7 +2075,9 @@ Please analyze the provided code and structure to create detailed documentation
                         <Label htmlFor="codeSnippet">
                           {docType === 'readme' ? 'Project Description' : 
                            docType === 'github' ? 'Repository Overview' :
-                           docType === 'api' ? 'Additional Notes' : 'Code Snippet'}
+                           docType === 'api' ? 'Additional Notes' :
+                           docType === 'changelog' ? 'Commit History' :
+                           designDocMode ? 'Related Code (optional)' : 'Code Snippet'}
                         </Label>
                       <Button 
                         type="button" 
@@ -2108,12 +2090,12 @@ Please analyze the provided code and structure to create detailed documentation
                         {copied ? 'Copied!' : 'Copy'}
                       </Button>
                     </div>
-                    <div className={`code-editor-container border border-input overflow-hidden ${docType === 'readme' ? '' : 'bg-[#1e1e1e]'}`}>
-                      {docType === 'readme' ? (
+                    <div className={`code-editor-container border border-input overflow-hidden ${docType === 'readme' || docType === 'changelog' ? '' : 'bg-[#1e1e1e]'}`}>
+                      {docType === 'readme' || docType === 'changelog' ? (
                         <Textarea
                           id="codeSnippet"
                           placeholder={placeholderText}
-                          className="min-h-32 border-0 shadow-none focus-visible:ring-0 focus-visible:ring-transparent resize-y"
+                          className={`min-h-32 border-0 shadow-none focus-visible:ring-0 focus-visible:ring-transparent resize-y ${docType === 'changelog' ? 'font-mono text-xs' : ''}`}
                           {...register('codeSnippet', { required: 'This field is required' })}
                         />
                       ) : (
@@ -2176,7 +2158,76 @@ Please analyze the provided code and structure to create detailed documentation
                           <p className="text-destructive text-sm mt-1">{errors.codeSnippet.message}</p>
                         )}
                       </div>
-                      
+
+                      {(docType === 'function' || docType === 'class') && (
+                        <SymbolOutline code={editorValue} language={language} />
+                      )}
+
+                      {(docType === 'function' || docType === 'class') && isSymbolLanguage(language) && (
+                        <DocCoverageReport
+                          code={editorValue}
+                          language={language}
+                          onDocument={documentUndocumented}
+                          disabled={isLoading}
+                        />
+                      )}
+
+                      {(docType === 'function' || docType === 'class') && isSymbolLanguage(language) && (
+                        <div>
+                          <Label>Output</Label>
+                          <RadioGroup
+                            value={docOutput}
+                            className="flex gap-6 mt-2"
+                            onValueChange={(value) => setDocOutput(value as DocOutput)}
+                          >
+                            <div className="flex items-center gap-2">
+                              <RadioGroupItem value="markdown" id="output-markdown" />
+                              <Label htmlFor="output-markdown" className="font-normal cursor-pointer">Markdown document</Label>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <RadioGroupItem value="inline" id="output-inline" />
+                              <Label htmlFor="output-inline" className="font-normal cursor-pointer">Insert inline docs</Label>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <RadioGroupItem value="drift" id="output-drift" />
+                              <Label htmlFor="output-drift" className="font-normal cursor-pointer">Check existing docs</Label>
+                            </div>
+                          </RadioGroup>
+                        </div>
+                      )}
+
+                      {driftMode && (
+                        <DocDriftCheck
+                          code={editorValue}
+                          language={language}
+                          generatedDocs={documentation}
+                          onMarkdownUpdated={(markdown) => {
+                            setInlineDocs(null);
+                            setCachedAt(null);
+                            setDocumentation(markdown);
+                          }}
+                          onCommentsUpdated={(patched) => {
+                            setDocumentation('');
+                            setCachedAt(null);
+                            setInlineDocs({ original: editorValue, patched, language });
+                          }}
+                        />
+                      )}
+
+                      {isDesignDocKind(docType) && (
+                        <DesignDocBuilder
+                          kind={docType}
+                          code={editorValue}
+                          language={language}
+                          onDrafted={(markdown) => {
+                            setInlineDocs(null);
+                            setCachedAt(null);
+                            setDocumentation(markdown);
+                          }}
+                        />
+                      )}
+
+                      {!driftMode && !designDocMode && (
                       <Button 
                         type="submit" 
                         className="w-full gap-2"
@@ -2185,7 +2236,7 @@ Please analyze the provided code and structure to create detailed documentation
                         {isLoading ? (
                           <>
                             <div className="h-4 w-4 rounded-full border-2 border-t-transparent border-primary-foreground animate-spin"></div>
-                        <span>{apiKeyLoading ? 'Preparing API Key...' : 'Generating...'}</span>
+                        <span>Generating...</span>
                           </>
                         ) : (
                           <>
@@ -2195,6 +2246,7 @@ Please analyze the provided code and structure to create detailed documentation
                           </>
                         )}
                       </Button>
+                      )}
                     </form>
               </GlassCard>
             </AnimatedContainer>
@@ -2233,6 +2285,20 @@ Please analyze the provided code and structure to create detailed documentation
           
           <div className="lg:col-span-3">
             <AnimatedContainer animation="fade" delay={300}>
+              {inlineDocs && (
+                <InlineDocsDiff
+                  original={inlineDocs.original}
+                  patched={inlineDocs.patched}
+                  language={inlineDocs.language}
+                  isApplied={editorValue === inlineDocs.patched}
+                  onApply={(code) => {
+                    handleCodeChange(code);
+                    toast.success('Doc comments applied to the editor');
+                  }}
+                  onRegenerate={driftMode || designDocMode ? undefined : regenerate}
+                />
+              )}
+
               {documentation && (
                 <div>
                   <div className="bg-white dark:bg-slate-800 rounded-md shadow-sm mb-4 p-4 flex gap-3 justify-end">
@@ -2241,7 +2307,7 @@ Please analyze the provided code and structure to create detailed documentation
                       size="sm" 
                       className="flex items-center gap-1"
                       onClick={exportToMarkdown}
-                      disabled={exportLoading.markdown || !documentation}
+                      disabled={exportLoading.markdown || !documentation || isLoading}
                     >
                       {exportLoading.markdown ? (
                         <div className="h-4 w-4 rounded-full border-2 border-t-transparent border-primary animate-spin mr-1"></div>
@@ -2255,7 +2321,7 @@ Please analyze the provided code and structure to create detailed documentation
                       size="sm" 
                       className="flex items-center gap-1"
                       onClick={exportToPDF}
-                      disabled={exportLoading.pdf || !documentation}
+                      disabled={exportLoading.pdf || !documentation || isLoading}
                     >
                       {exportLoading.pdf ? (
                         <div className="h-4 w-4 rounded-full border-2 border-t-transparent border-primary animate-spin mr-1"></div>
@@ -2264,14 +2330,25 @@ Please analyze the provided code and structure to create detailed documentation
                       )}
                       <span>Export as PDF</span>
                     </Button>
+                    <DocumentExportMenu
+                      markdown={documentation}
+                      title={exportTitle}
+                      fileName={exportFileName}
+                      disabled={!documentation || isLoading}
+                    />
                   </div>
-                  <div ref={documentationRef}>
-              <ExplanationResult content={documentation} isLoading={isLoading} />
-                  </div>
+              <ExplanationResult
+                content={documentation}
+                isLoading={false}
+                isStreaming={isLoading}
+                onStop={stopGeneration}
+                onRegenerate={driftMode || designDocMode ? undefined : regenerate}
+                cachedAt={cachedAt}
+              />
                 </div>
               )}
               
-              {isLoading && (
+              {isLoading && !documentation && (
                 <GlassCard className="p-8">
                   <div className="flex flex-col items-center justify-center mb-8">
                     <div className="relative">
@@ -2348,7 +2425,7 @@ Please analyze the provided code and structure to create detailed documentation
                 </GlassCard>
               )}
               
-              {!documentation && !isLoading && (
+              {!documentation && !inlineDocs && !isLoading && (
                 <GlassCard className="p-8 flex flex-col items-center justify-center min-h-[400px] text-center">
                   <FileText size={48} className="text-muted-foreground mb-6 opacity-50" />
                   <h3 className="text-xl font-medium mb-2">No documentation generated yet</h3>
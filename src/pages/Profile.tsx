@@ -5,6 +5,8 @@ import { UserCircle, Mail, Calendar, LogOut, Settings, History, Key } from 'luci
 import Header from '@/components/layout/Header';
 import GlassCard from '@/components/ui-custom/GlassCard';
 import AnimatedContainer from '@/components/ui-custom/AnimatedContainer';
+import ApiKeySettings from '@/components/profile/ApiKeySettings';
+import AIModelSettings from '@/components/profile/AIModelSettings';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/context/AuthContext';
@@ -104,10 +106,12 @@ const Profile = () => {
           
           <AnimatedContainer animation="fade" delay={200}>
             <Tabs defaultValue="account">
-              <TabsList className="grid grid-cols-3 mb-6">
+              <TabsList className="grid grid-cols-5 mb-6">
                 <TabsTrigger value="account">Account Details</TabsTrigger>
                 <TabsTrigger value="activity">Activity</TabsTrigger>
                 <TabsTrigger value="security">Security</TabsTrigger>
+                <TabsTrigger value="api-keys">API Keys</TabsTrigger>
+                <TabsTrigger value="ai-settings">AI Settings</TabsTrigger>
               </TabsList>
               
               <TabsContent value="account">
@@ -204,6 +208,14 @@ const Profile = () => {
                   </div>
                 </GlassCard>
               </TabsContent>
+
+              <TabsContent value="api-keys">
+                <ApiKeySettings user={user} />
+              </TabsContent>
+
+              <TabsContent value="ai-settings">
+                <AIModelSettings user={user} />
+              </TabsContent>
             </Tabs>
           </AnimatedContainer>
         </div>
@@ -0,0 +1,346 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, FileCode2, RotateCcw, Save, Upload } from 'lucide-react';
+import Header from '@/components/layout/Header';
+import GlassCard from '@/components/ui-custom/GlassCard';
+import AnimatedContainer from '@/components/ui-custom/AnimatedContainer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/context/AuthContext';
+import { isAdmin } from '@/utils/usageStorage';
+import {
+  findUnknownVariables,
+  getPromptTemplate,
+  invalidatePromptTemplates,
+  PROMPT_TEMPLATES,
+  PromptTemplateId,
+} from '@/utils/prompts';
+import {
+  fetchTemplateVersions,
+  PromptTemplateVersion,
+  publishTemplateVersion,
+  setTemplateVersionWeight,
+} from '@/utils/promptStorage';
+
+const PromptTemplates = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [isUserAdmin, setIsUserAdmin] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const [templateId, setTemplateId] = useState<PromptTemplateId>(PROMPT_TEMPLATES[0].id);
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [content, setContent] = useState<string>(PROMPT_TEMPLATES[0].content);
+  const [notes, setNotes] = useState<string>('');
+  const [weight, setWeight] = useState<string>('100');
+  const [replaceLive, setReplaceLive] = useState<boolean>(true);
+
+  const template = getPromptTemplate(templateId);
+  const liveVersions = versions.filter(version => version.weight > 0);
+  const unknownVariables = useMemo(() => findUnknownVariables(content, templateId), [content, templateId]);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      toast.error('Please log in to view this page');
+      navigate('/login');
+    }
+  }, [user, loading, navigate]);
+
+  useEffect(() => {
+    if (!user) return;
+    isAdmin(user)
+      .then(setIsUserAdmin)
+      .finally(() => setIsLoading(false));
+  }, [user]);
+
+  const loadVersions = useCallback(async (id: PromptTemplateId, resetEditor: boolean) => {
+    try {
+      const list = await fetchTemplateVersions(id);
+      setVersions(list);
+      setWeights(Object.fromEntries(list.map(version => [version.id, String(version.weight)])));
+      if (resetEditor) {
+        // Start from what users currently get: the most-used live version, else the built-in text
+        const live = list.filter(version => version.weight > 0).sort((a, b) => b.weight - a.weight);
+        setContent(live[0]?.content ?? getPromptTemplate(id).content);
+        setNotes('');
+      }
+    } catch (error) {
+      toast.error('Failed to load template versions');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isUserAdmin) {
+      loadVersions(templateId, true);
+    }
+  }, [isUserAdmin, templateId, loadVersions]);
+
+  const updateWeights = async (changes: { id: string; weight: number }[]) => {
+    await Promise.all(changes.map(change => setTemplateVersionWeight(change.id, change.weight)));
+    invalidatePromptTemplates();
+  };
+
+  const handlePublish = async () => {
+    const share = Number(weight);
+    if (!content.trim()) {
+      toast.error('The template cannot be empty');
+      return;
+    }
+    if (!Number.isInteger(share) || share < 0 || share > 100) {
+      toast.error('Traffic share must be a whole number between 0 and 100');
+      return;
+    }
+    if (unknownVariables.length > 0) {
+      toast.error(`Unknown variables: ${unknownVariables.join(', ')}`);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const published = await publishTemplateVersion(user, templateId, content, notes, share);
+      if (replaceLive && share > 0) {
+        await updateWeights(liveVersions.map(version => ({ id: version.id, weight: 0 })));
+      }
+      invalidatePromptTemplates();
+      await loadVersions(templateId, false);
+      setNotes('');
+      toast.success(`Published version ${published.version}`);
+    } catch (error) {
+      toast.error('Failed to publish the template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveWeight = async (version: PromptTemplateVersion) => {
+    const share = Number(weights[version.id]);
+    if (!Number.isInteger(share) || share < 0 || share > 100) {
+      toast.error('Traffic share must be a whole number between 0 and 100');
+      return;
+    }
+    try {
+      await updateWeights([{ id: version.id, weight: share }]);
+      await loadVersions(templateId, false);
+      toast.success(`Version ${version.version} updated`);
+    } catch (error) {
+      toast.error('Failed to update the version');
+    }
+  };
+
+  const handleRestoreBuiltIn = async () => {
+    try {
+      await updateWeights(liveVersions.map(version => ({ id: version.id, weight: 0 })));
+      await loadVersions(templateId, true);
+      toast.success('The built-in template is live again');
+    } catch (error) {
+      toast.error('Failed to restore the built-in template');
+    }
+  };
+
+  if (loading || (user && isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="h-8 w-8 rounded-full border-4 border-t-transparent border-primary animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect via the useEffect hook
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-background/50">
+      <Header />
+
+      <main className="container mx-auto px-4 pt-32 pb-20">
+        <AnimatedContainer animation="fade" className="mb-8 text-center">
+          <h1 className="text-3xl md:text-4xl font-bold mb-4">
+            Prompt Templates
+          </h1>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Tune the prompts behind the AI features without a redeploy. Published versions override the built-in templates for the whole organisation.
+          </p>
+        </AnimatedContainer>
+
+        {!isUserAdmin ? (
+          <GlassCard className="max-w-xl mx-auto p-8 text-center">
+            <p className="text-muted-foreground">Only admins can edit prompt templates.</p>
+          </GlassCard>
+        ) : (
+          <div className="max-w-6xl mx-auto grid md:grid-cols-[260px_1fr] gap-8">
+            <AnimatedContainer animation="fade" delay={100}>
+              <GlassCard className="p-2">
+                {PROMPT_TEMPLATES.map(item => (
+                  <button
+                    key={item.id}
+                    type="button"
+                    onClick={() => setTemplateId(item.id)}
+                    className={cn(
+                      'w-full text-left px-4 py-3 rounded-lg transition-colors',
+                      item.id === templateId ? 'bg-primary/10 text-primary' : 'hover:bg-primary/5'
+                    )}
+                  >
+                    <div className="font-medium text-sm">{item.label}</div>
+                    <div className="text-xs text-muted-foreground">{item.id}</div>
+                  </button>
+                ))}
+              </GlassCard>
+            </AnimatedContainer>
+
+            <div className="space-y-8 min-w-0">
+              <AnimatedContainer animation="fade" delay={200}>
+                <GlassCard className="p-6">
+                  <h3 className="text-xl font-medium mb-1 flex items-center gap-2">
+                    <FileCode2 size={20} />
+                    <span>{template.label}</span>
+                  </h3>
+                  <p className="text-sm text-muted-foreground mb-4">{template.description}</p>
+
+                  {Object.keys(template.variables).length > 0 && (
+                    <div className="mb-4 space-y-1">
+                      <Label>Variables</Label>
+                      {Object.entries(template.variables).map(([name, description]) => (
+                        <p key={name} className="text-sm">
+                          <code className="text-primary">{`{{${name}}}`}</code>
+                          <span className="text-muted-foreground"> · {description}</span>
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  <Textarea
+                    className="font-mono text-xs min-h-[360px]"
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                  />
+                  {unknownVariables.length > 0 && (
+                    <p className="text-sm text-destructive mt-2 flex items-center gap-2">
+                      <AlertTriangle size={14} />
+                      <span>Unknown variables: {unknownVariables.join(', ')}</span>
+                    </p>
+                  )}
+
+                  <div className="grid sm:grid-cols-[1fr_140px] gap-4 mt-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="template-notes">Change notes</Label>
+                      <Input
+                        id="template-notes"
+                        placeholder="What changed and why"
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="template-weight">Traffic share</Label>
+                      <Input
+                        id="template-weight"
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={weight}
+                        onChange={(e) => setWeight(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center justify-between gap-4 mt-4">
+                    <div className="flex items-center gap-2">
+                      <Switch id="replace-live" checked={replaceLive} onCheckedChange={setReplaceLive} />
+                      <Label htmlFor="replace-live" className="font-normal">
+                        Replace the live versions (turn off to run an A/B test)
+                      </Label>
+                    </div>
+                    <Button className="gap-2" onClick={handlePublish} disabled={isSaving}>
+                      <Upload size={16} />
+                      <span>Publish Version</span>
+                    </Button>
+                  </div>
+                </GlassCard>
+              </AnimatedContainer>
+
+              <AnimatedContainer animation="fade" delay={300}>
+                <GlassCard className="p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-medium">Versions</h3>
+                    {liveVersions.length > 0 && (
+                      <Button variant="outline" size="sm" className="gap-2" onClick={handleRestoreBuiltIn}>
+                        <RotateCcw size={14} />
+                        <span>Restore Built-in</span>
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Live versions split the requests by their traffic share; each user always gets the same version.
+                  </p>
+
+                  <div className="space-y-3">
+                    {versions.map(version => (
+                      <div key={version.id} className="flex flex-wrap items-center justify-between gap-3 border-b border-border pb-3">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">Version {version.version}</span>
+                            {version.weight > 0 && <Badge>Live</Badge>}
+                          </div>
+                          <p className="text-sm text-muted-foreground truncate">
+                            {version.notes || 'No notes'} · {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => setContent(version.content)}>
+                            Edit Copy
+                          </Button>
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            className="w-20"
+                            aria-label={`Traffic share of version ${version.version}`}
+                            value={weights[version.id] ?? ''}
+                            onChange={(e) => setWeights(prev => ({ ...prev, [version.id]: e.target.value }))}
+                          />
+                          <Button variant="outline" size="icon" onClick={() => handleSaveWeight(version)}>
+                            <Save size={14} />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">Built-in (v{template.version})</span>
+                          {liveVersions.length === 0 && <Badge>Live</Badge>}
+                        </div>
+                        <p className="text-sm text-muted-foreground">Shipped with the app, used when no version is live</p>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => setContent(template.content)}>
+                        Edit Copy
+                      </Button>
+                    </div>
+                  </div>
+                </GlassCard>
+              </AnimatedContainer>
+            </div>
+          </div>
+        )}
+      </main>
+
+      <footer className="bg-background border-t border-border py-6">
+        <div className="container mx-auto px-4 text-center text-sm text-muted-foreground">
+          <p>© {new Date().getFullYear()} LearnOmatic | AI-Powered Learning & Documentation Assistant</p>
+        </div>
+      </footer>
+    </div>
+  );
+};
+
+export default PromptTemplates;
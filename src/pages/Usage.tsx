@@ -0,0 +1,343 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { format, subDays } from 'date-fns';
+import { Activity, BarChart3, Clock, Coins, FileCode2, Save, Trash2, Wallet } from 'lucide-react';
+import Header from '@/components/layout/Header';
+import GlassCard from '@/components/ui-custom/GlassCard';
+import AnimatedContainer from '@/components/ui-custom/AnimatedContainer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useAuth } from '@/context/AuthContext';
+import { AI_FEATURES } from '@/utils/userKeys';
+import {
+  Budget,
+  BudgetAction,
+  deleteBudget,
+  fetchBudgets,
+  fetchUsage,
+  groupUsage,
+  isAdmin,
+  saveBudget,
+  summariseUsage,
+  UsageRecord,
+} from '@/utils/usageStorage';
+
+const USAGE_DAYS = 30;
+// Select items can't have an empty value, so the organisation budget gets its own marker
+const ORGANISATION = 'organisation';
+
+const chartConfig = {
+  cost: {
+    label: 'Spend (USD)',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+const formatUsd = (value: number) => `$${value.toFixed(value < 1 ? 4 : 2)}`;
+const shortUserId = (userId: string) => userId.slice(0, 8);
+
+const featureLabel = (feature: string | null) =>
+  AI_FEATURES.find(f => f.id === feature)?.label ?? 'Other';
+
+const Usage = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [isUserAdmin, setIsUserAdmin] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  const [budgetScope, setBudgetScope] = useState<string>(ORGANISATION);
+  const [budgetLimit, setBudgetLimit] = useState<string>('');
+  const [budgetAction, setBudgetAction] = useState<BudgetAction>('warn');
+
+  useEffect(() => {
+    if (!loading && !user) {
+      toast.error('Please log in to view this page');
+      navigate('/login');
+    }
+  }, [user, loading, navigate]);
+
+  const loadUsage = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [usage, admin, budgetList] = await Promise.all([
+        fetchUsage(user, subDays(new Date(), USAGE_DAYS - 1)),
+        isAdmin(user),
+        fetchBudgets(),
+      ]);
+      setRecords(usage);
+      setIsUserAdmin(admin);
+      setBudgets(budgetList);
+    } catch (error) {
+      toast.error('Failed to load usage data');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const totals = useMemo(() => summariseUsage(records), [records]);
+
+  const perDay = useMemo(() => {
+    const byDay = new Map(groupUsage(records, record => format(new Date(record.created_at), 'yyyy-MM-dd'))
+      .map(group => [group.key, group]));
+    // Include days without requests so the chart has a continuous axis
+    return Array.from({ length: USAGE_DAYS }, (_, index) => {
+      const date = subDays(new Date(), USAGE_DAYS - 1 - index);
+      return { label: format(date, 'MMM d'), cost: byDay.get(format(date, 'yyyy-MM-dd'))?.cost ?? 0 };
+    });
+  }, [records]);
+
+  const perFeature = useMemo(
+    () => groupUsage(records, record => featureLabel(record.feature))
+      .map(group => ({ label: group.key, cost: group.cost, tokens: group.tokens }))
+      .sort((a, b) => b.cost - a.cost),
+    [records]
+  );
+
+  const perUser = useMemo(
+    () => groupUsage(records, record => record.user_id)
+      .map(group => ({ userId: group.key, label: shortUserId(group.key), cost: group.cost, requests: group.requests }))
+      .sort((a, b) => b.cost - a.cost),
+    [records]
+  );
+
+  const handleSaveBudget = async () => {
+    const limit = Number(budgetLimit);
+    if (!budgetLimit || Number.isNaN(limit) || limit < 0) {
+      toast.error('Please enter a valid monthly limit');
+      return;
+    }
+
+    const userId = budgetScope === ORGANISATION ? null : budgetScope;
+    const existing = budgets.find(budget => budget.user_id === userId);
+    try {
+      await saveBudget(userId, limit, budgetAction, existing?.id);
+      setBudgets(await fetchBudgets());
+      setBudgetLimit('');
+      toast.success('Budget saved');
+    } catch (error) {
+      toast.error('Failed to save the budget');
+    }
+  };
+
+  const handleDeleteBudget = async (budgetId: string) => {
+    try {
+      await deleteBudget(budgetId);
+      setBudgets(prev => prev.filter(budget => budget.id !== budgetId));
+      toast.success('Budget removed');
+    } catch (error) {
+      toast.error('Failed to remove the budget');
+    }
+  };
+
+  if (loading || (user && isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="h-8 w-8 rounded-full border-4 border-t-transparent border-primary animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect via the useEffect hook
+  }
+
+  const stats = [
+    { label: 'Spend', value: formatUsd(totals.costUsd), icon: <Coins size={20} /> },
+    { label: 'Requests', value: totals.requests.toLocaleString(), icon: <Activity size={20} /> },
+    { label: 'Tokens', value: (totals.promptTokens + totals.completionTokens).toLocaleString(), icon: <BarChart3 size={20} /> },
+    { label: 'Avg. latency', value: `${(totals.averageLatencyMs / 1000).toFixed(1)}s`, icon: <Clock size={20} /> },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-background/50">
+      <Header />
+
+      <main className="container mx-auto px-4 pt-32 pb-20">
+        <AnimatedContainer animation="fade" className="mb-8 text-center">
+          <h1 className="text-3xl md:text-4xl font-bold mb-4">
+            AI Usage
+          </h1>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            {isUserAdmin ? 'Spend and token usage across all users' : 'Your spend and token usage'} over the last {USAGE_DAYS} days
+          </p>
+          {isUserAdmin && (
+            <Button variant="outline" className="gap-2 mt-4" onClick={() => navigate('/prompts')}>
+              <FileCode2 size={16} />
+              <span>Prompt Templates</span>
+            </Button>
+          )}
+        </AnimatedContainer>
+
+        <div className="max-w-5xl mx-auto space-y-8">
+          <AnimatedContainer animation="fade" delay={100}>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {stats.map(stat => (
+                <GlassCard key={stat.label} className="p-4">
+                  <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                    {stat.icon}
+                    <span className="text-sm">{stat.label}</span>
+                  </div>
+                  <div className="text-2xl font-bold">{stat.value}</div>
+                </GlassCard>
+              ))}
+            </div>
+            {totals.unpricedRequests > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                {totals.unpricedRequests.toLocaleString()} request{totals.unpricedRequests === 1 ? '' : 's'} used a model without a price
+                and {totals.unpricedRequests === 1 ? 'is' : 'are'} not included in the spend.
+              </p>
+            )}
+          </AnimatedContainer>
+
+          <AnimatedContainer animation="fade" delay={200}>
+            <GlassCard className="p-6">
+              <h3 className="text-xl font-medium mb-4">Spend per Day</h3>
+              <ChartContainer config={chartConfig} className="h-[280px] w-full aspect-auto">
+                <BarChart data={perDay}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+                  <YAxis tickLine={false} axisLine={false} tickFormatter={(value) => `$${value}`} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="cost" fill="var(--color-cost)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </GlassCard>
+          </AnimatedContainer>
+
+          <AnimatedContainer animation="fade" delay={300}>
+            <div className={isUserAdmin ? 'grid md:grid-cols-2 gap-8' : ''}>
+              <GlassCard className="p-6">
+                <h3 className="text-xl font-medium mb-4">Spend per Feature</h3>
+                <ChartContainer config={chartConfig} className="h-[240px] w-full aspect-auto">
+                  <BarChart data={perFeature} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(value) => `$${value}`} />
+                    <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={150} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="cost" fill="var(--color-cost)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </GlassCard>
+
+              {isUserAdmin && (
+                <GlassCard className="p-6">
+                  <h3 className="text-xl font-medium mb-4">Spend per User</h3>
+                  <ChartContainer config={chartConfig} className="h-[240px] w-full aspect-auto">
+                    <BarChart data={perUser.slice(0, 10)} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(value) => `$${value}`} />
+                      <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={80} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="cost" fill="var(--color-cost)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </GlassCard>
+              )}
+            </div>
+          </AnimatedContainer>
+
+          <AnimatedContainer animation="fade" delay={400}>
+            <GlassCard className="p-6">
+              <h3 className="text-xl font-medium mb-2 flex items-center gap-2">
+                <Wallet size={20} />
+                <span>Monthly Budgets</span>
+              </h3>
+              <p className="text-sm text-muted-foreground mb-6">
+                Budgets cover spend on the organisation's keys. When one is exceeded, requests either show a warning or are blocked until the next month.
+              </p>
+
+              {budgets.length === 0 ? (
+                <p className="text-muted-foreground mb-6">No budgets have been set.</p>
+              ) : (
+                <div className="space-y-3 mb-6">
+                  {budgets.map(budget => (
+                    <div key={budget.id} className="flex items-center justify-between border-b border-border pb-3">
+                      <div>
+                        <span className="font-medium">
+                          {budget.user_id ? `User ${shortUserId(budget.user_id)}` : 'Organisation'}
+                        </span>
+                        <p className="text-sm text-muted-foreground">
+                          ${budget.monthly_limit_usd.toFixed(2)} per month · {budget.action === 'block' ? 'blocks requests' : 'warns'}
+                        </p>
+                      </div>
+                      {isUserAdmin && (
+                        <Button variant="outline" size="sm" onClick={() => handleDeleteBudget(budget.id)} aria-label="Remove budget">
+                          <Trash2 size={14} />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {isUserAdmin && (
+                <div className="grid gap-4 md:grid-cols-4 items-end">
+                  <div className="space-y-2">
+                    <Label htmlFor="budget-scope">Applies to</Label>
+                    <Select value={budgetScope} onValueChange={setBudgetScope}>
+                      <SelectTrigger id="budget-scope">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ORGANISATION}>Organisation</SelectItem>
+                        {perUser.map(entry => (
+                          <SelectItem key={entry.userId} value={entry.userId}>User {entry.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="budget-limit">Monthly limit (USD)</Label>
+                    <Input
+                      id="budget-limit"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={budgetLimit}
+                      onChange={(e) => setBudgetLimit(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="budget-action">When exceeded</Label>
+                    <Select value={budgetAction} onValueChange={(value) => setBudgetAction(value as BudgetAction)}>
+                      <SelectTrigger id="budget-action">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="warn">Warn</SelectItem>
+                        <SelectItem value="block">Block</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button className="gap-2" onClick={handleSaveBudget}>
+                    <Save size={16} />
+                    <span>Save Budget</span>
+                  </Button>
+                </div>
+              )}
+            </GlassCard>
+          </AnimatedContainer>
+        </div>
+      </main>
+
+      <footer className="bg-background border-t border-border py-6">
+        <div className="container mx-auto px-4 text-center text-sm text-muted-foreground">
+          <p>© {new Date().getFullYear()} LearnOmatic | AI-Powered Learning & Documentation Assistant</p>
+        </div>
+      </footer>
+    </div>
+  );
+};
+
+export default Usage;
@@ -1,11 +0,0 @@
-declare module 'html2pdf.js' {
-  function html2pdf(): {
-    from: (element: HTMLElement) => {
-      set: (options: any) => {
-        save: () => Promise<void>;
-      };
-    };
-  };
-  
-  export = html2pdf;
-} 
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+/**
+ * Schemas for the structured (JSON mode) responses. Every reviewCode,
+ * generateDiagram, generateInlineDocs, describeApiEndpoints and
+ * draftDesignDoc response is validated against these before it reaches the UI.
+ */
+
+// Models occasionally capitalise enum values ("Warning"), which is harmless
+const lowercase = (value: unknown) => typeof value === 'string' ? value.trim().toLowerCase() : value;
+
+export const CodeIssueSchema = z.object({
+  type: z.preprocess(lowercase, z.enum(['error', 'warning', 'suggestion'])),
+  line: z.coerce.number().int().nonnegative(),
+  message: z.string().min(1),
+  fix: z.string().nullish(),
+});
+
+export const ReviewResultSchema = z.object({
+  summary: z.string().min(1),
+  issues: z.array(CodeIssueSchema),
+  improvements: z.array(z.string()).default([]),
+  score: z.coerce.number().min(0).max(100).optional(),
+  fixedCode: z.string().optional(),
+});
+
+// Used when the caller asked for the complete fixed code
+export const ReviewResultWithFixSchema = ReviewResultSchema.extend({
+  fixedCode: z.string().min(1),
+});
+
+export const DiagramResultSchema = z.object({
+  title: z.string().min(1),
+  mermaidCode: z.string().min(1),
+  explanation: z.string().default(''),
+});
+
+export const InlineDocsResultSchema = z.object({
+  docs: z.array(z.object({
+    id: z.string().min(1),
+    summary: z.string().min(1),
+    params: z.array(z.object({
+      name: z.string(),
+      description: z.string(),
+    })).default([]),
+    returns: z.string().nullish().transform(value => value ?? undefined),
+  })),
+});
+
+export const ApiDescriptionsResultSchema = z.object({
+  endpoints: z.array(z.object({
+    id: z.string().min(1),
+    description: z.string().nullish().transform(value => value ?? undefined),
+    params: z.array(z.object({
+      id: z.string().min(1),
+      description: z.string(),
+    })).default([]),
+  })),
+});
+
+export const DesignDocDraftSchema = z.object({
+  sections: z.array(z.object({
+    id: z.string().min(1),
+    content: z.string(),
+  })),
+});
+
+export type CodeIssue = z.infer<typeof CodeIssueSchema>;
+export type ReviewResult = z.infer<typeof ReviewResultSchema>;
+export type DiagramResult = z.infer<typeof DiagramResultSchema>;
+export type InlineDocsResult = z.infer<typeof InlineDocsResultSchema>;
+export type ApiDescriptionsResult = z.infer<typeof ApiDescriptionsResultSchema>;
+export type DesignDocDraft = z.infer<typeof DesignDocDraftSchema>;
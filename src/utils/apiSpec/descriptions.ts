@@ -0,0 +1,57 @@
+import type { ApiDescriptionsResult } from '@/utils/aiSchemas';
+import { ApiEndpoint, ApiParam } from './types';
+
+const isMissing = (description: string | undefined) => !description?.trim();
+
+const paramsOf = (endpoint: ApiEndpoint) => [...(endpoint.requestParams ?? []), ...(endpoint.responseFields ?? [])];
+
+/**
+ * Number of empty descriptions: endpoints, request parameters and response
+ * fields together.
+ */
+export function countDescriptionGaps(endpoints: ApiEndpoint[]): number {
+  return endpoints.reduce((count, endpoint) =>
+    count + (isMissing(endpoint.description) ? 1 : 0) +
+    paramsOf(endpoint).filter(param => isMissing(param.description)).length, 0);
+}
+
+export const hasDescriptionGaps = (endpoint: ApiEndpoint) => countDescriptionGaps([endpoint]) > 0;
+
+// One line per endpoint and value, with the descriptions still to write marked as missing
+export function describeForGapFilling(endpoints: ApiEndpoint[]): string {
+  const describeParams = (label: string, params: ApiParam[] = []) => params.map(param => {
+    const details = [param.type, param.location, param.required ? 'required' : ''].filter(Boolean).join(', ');
+    return `  - ${label} id "${param.id}": ${param.name} (${details}): ${param.description.trim() || 'MISSING'}`;
+  });
+
+  return endpoints.map(endpoint => [
+    `- endpoint id "${endpoint.id}": ${endpoint.method} ${endpoint.path}: ${endpoint.description.trim() || 'MISSING'}`,
+    ...describeParams('parameter', endpoint.requestParams),
+    ...describeParams('response field', endpoint.responseFields),
+  ].join('\n')).join('\n');
+}
+
+/**
+ * Copies generated descriptions into the endpoints, only where the
+ * description is still empty.
+ */
+export function fillDescriptionGaps(endpoints: ApiEndpoint[], result: ApiDescriptionsResult): ApiEndpoint[] {
+  const byEndpoint = new Map(result.endpoints.map(entry => [entry.id, entry]));
+  const paramDescriptions = new Map(result.endpoints.flatMap(entry =>
+    entry.params.map(param => [param.id, param.description.trim()] as const)));
+
+  const fill = (params?: ApiParam[]) => params?.map(param =>
+    isMissing(param.description) && paramDescriptions.get(param.id)
+      ? { ...param, description: paramDescriptions.get(param.id) }
+      : param);
+
+  return endpoints.map(endpoint => {
+    const generated = byEndpoint.get(endpoint.id)?.description?.trim();
+    return {
+      ...endpoint,
+      description: isMissing(endpoint.description) && generated ? generated : endpoint.description,
+      requestParams: fill(endpoint.requestParams),
+      responseFields: fill(endpoint.responseFields),
+    };
+  });
+}
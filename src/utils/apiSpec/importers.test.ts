@@ -0,0 +1,337 @@
+import { describe, expect, it } from 'vitest';
+import { importApiFile, mergeImportedEndpoints } from './importers';
+import { ApiEndpoint, ApiParam } from './types';
+
+// e.g. "query:page:string", with a ! for required parameters; response fields have no location
+const paramsOf = (params: ApiParam[] = []) =>
+  params.map(param => `${param.location ? `${param.location}:` : ''}${param.name}:${param.type}${param.required ? '!' : ''}`);
+
+const endpointsOf = (text: string) => importApiFile(text).endpoints.map(endpoint => ({
+  route: `${endpoint.method} ${endpoint.path}`,
+  description: endpoint.description,
+  requestParams: paramsOf(endpoint.requestParams),
+  responseFields: paramsOf(endpoint.responseFields),
+}));
+
+describe('importApiFile', () => {
+  describe('OpenAPI 3', () => {
+    const spec = `openapi: 3.0.3
+info:
+  title: Pets
+  version: 1.0.0
+paths:
+  /pets/{petId}:
+    parameters:
+      - name: petId
+        in: path
+        schema: { type: string }
+    get:
+      summary: Fetches a pet
+      parameters:
+        - name: fields
+          in: query
+          description: Fields to include
+          schema: { type: array }
+        - name: Accept
+          in: header
+          schema: { type: string }
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema: { $ref: '#/components/schemas/Pet' }
+    put:
+      requestBody:
+        content:
+          application/json:
+            schema:
+              allOf:
+                - $ref: '#/components/schemas/Pet'
+                - type: object
+                  required: [name]
+                  properties:
+                    name: { type: string }
+      responses:
+        '204': { description: Updated }
+    trace:
+      responses:
+        '200': { description: OK }
+components:
+  schemas:
+    Pet:
+      type: object
+      required: [id]
+      properties:
+        id: { type: integer, description: Pet id }
+        tags:
+          type: array
+          items:
+            type: object
+            properties:
+              label: { type: string }
+`;
+
+    it('reads paths, parameters and $ref schemas', () => {
+      const [get] = endpointsOf(spec);
+
+      expect(get).toEqual({
+        route: 'GET /pets/{petId}',
+        description: 'Fetches a pet',
+        requestParams: ['path:petId:string!', 'query:fields:array'],
+        responseFields: ['id:number!', 'tags:array', 'tags[].label:string'],
+      });
+    });
+
+    it('merges allOf parts of a request body', () => {
+      const [, put] = endpointsOf(spec);
+
+      expect(put.requestParams).toEqual(['path:petId:string!', 'body:id:number!', 'body:tags:array', 'body:tags[].label:string', 'body:name:string!']);
+      expect(put.responseFields).toEqual([]);
+    });
+
+    it('skips methods the editor does not support', () => {
+      const result = importApiFile(spec);
+
+      expect(result.format).toBe('openapi3');
+      expect(result.endpoints).toHaveLength(2);
+      expect(result.warnings).toEqual(['TRACE /pets/{petId} was skipped: the editor supports GET, POST, PUT, DELETE, PATCH.']);
+    });
+
+    it('imports a spec without paths as no endpoints', () => {
+      const result = importApiFile(JSON.stringify({ openapi: '3.1.0', info: { title: 'Empty', version: '1' } }));
+
+      expect(result.endpoints).toEqual([]);
+    });
+
+    it('ignores references it cannot resolve', () => {
+      const [endpoint] = endpointsOf(JSON.stringify({
+        openapi: '3.1.0',
+        paths: {
+          '/users': {
+            post: {
+              requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Missing' } } } },
+              responses: { 200: { $ref: 'https://example.com/responses.json#/Ok' } },
+            },
+          },
+        },
+      }));
+
+      expect(endpoint).toEqual({ route: 'POST /users', description: '', requestParams: [], responseFields: [] });
+    });
+  });
+
+  describe('OpenAPI 2', () => {
+    it('prefixes the base path and reads body and formData parameters', () => {
+      const endpoints = endpointsOf(JSON.stringify({
+        swagger: '2.0',
+        basePath: '/v1/',
+        paths: {
+          '/users': {
+            post: {
+              description: 'Creates a user',
+              parameters: [
+                { name: 'user', in: 'body', schema: { type: 'object', required: ['email'], properties: { email: { type: 'string' } } } },
+                { name: 'avatar', in: 'formData', type: 'file' },
+              ],
+              responses: { 201: { description: 'Created', schema: { properties: { id: { type: 'integer' } } } } },
+            },
+          },
+        },
+      }));
+
+      expect(endpoints).toEqual([{
+        route: 'POST /v1/users',
+        description: 'Creates a user',
+        requestParams: ['body:email:string!', 'body:avatar:string'],
+        responseFields: ['id:number'],
+      }]);
+    });
+  });
+
+  describe('Postman', () => {
+    const collection = {
+      info: { name: 'Shop', schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json' },
+      item: [
+        {
+          name: 'Orders',
+          item: [
+            {
+              name: 'Get order',
+              request: {
+                method: 'GET',
+                description: 'Fetches an order',
+                url: {
+                  raw: '{{baseUrl}}/orders/:orderId?expand=items',
+                  path: ['orders', ':orderId'],
+                  query: [{ key: 'expand', value: 'items' }, { key: 'debug', disabled: true }],
+                  variable: [{ key: 'orderId', description: 'Order number' }],
+                },
+                header: [{ key: 'Authorization', value: 'Bearer x' }, { key: 'X-Tenant', value: 'acme' }],
+              },
+              response: [
+                { code: 404, body: '{"error":"not found"}' },
+                { code: 200, body: '{"id":1,"items":[{"sku":"A1"}]}' },
+              ],
+            },
+          ],
+        },
+        {
+          name: 'Create order',
+          request: {
+            method: 'POST',
+            url: '{{baseUrl}}/orders',
+            body: { mode: 'raw', raw: '{"customer":{"email":"a@example.com"},"paid":false}' },
+          },
+        },
+        { name: 'Orders for user', request: '{{baseUrl}}/users/{{userId}}/orders' },
+        { name: 'Inspect', request: { method: 'OPTIONS', url: '{{baseUrl}}/orders' } },
+      ],
+    };
+
+    it('reads folders, variables, query strings, headers and saved responses', () => {
+      const [get] = endpointsOf(JSON.stringify(collection));
+
+      expect(get).toEqual({
+        route: 'GET /orders/{orderId}',
+        description: 'Fetches an order',
+        requestParams: ['path:orderId:string!', 'query:expand:string', 'header:X-Tenant:string'],
+        responseFields: ['id:number', 'items:array', 'items[].sku:string'],
+      });
+    });
+
+    it('flattens a raw JSON body and turns {{variables}} in the path into parameters', () => {
+      const [, create, forUser] = endpointsOf(JSON.stringify(collection));
+
+      expect(create.route).toBe('POST /orders');
+      expect(create.requestParams).toEqual(['body:customer:object', 'body:customer.email:string', 'body:paid:boolean']);
+      expect(forUser.route).toBe('GET /users/{userId}/orders');
+      expect(forUser.requestParams).toEqual(['path:userId:string!']);
+    });
+
+    it('warns about unsupported methods', () => {
+      const result = importApiFile(JSON.stringify(collection));
+
+      expect(result.format).toBe('postman');
+      expect(result.warnings).toEqual(['"Inspect" was skipped: OPTIONS is not supported by the editor.']);
+    });
+
+    it('ignores a body that is not valid JSON', () => {
+      const [endpoint] = endpointsOf(JSON.stringify({
+        info: { name: 'Shop' },
+        item: [{ name: 'Create', request: { method: 'POST', url: '/orders', body: { mode: 'raw', raw: '{"id": ' } } }],
+      }));
+
+      expect(endpoint.requestParams).toEqual([]);
+    });
+
+    it('rejects collections older than v2', () => {
+      expect(() => importApiFile(JSON.stringify({
+        info: { name: 'Old', schema: 'https://schema.getpostman.com/json/collection/v1.0.0/collection.json' },
+        item: [],
+      }))).toThrow('Only Postman v2 collections can be imported');
+    });
+  });
+
+  describe('HAR', () => {
+    const entry = (request: object, response: object = {}) => ({
+      request: { method: 'GET', headers: [], queryString: [], ...request },
+      response: { status: 200, content: { mimeType: 'application/json' }, ...response },
+    });
+
+    const har = {
+      log: {
+        entries: [
+          entry(
+            { url: 'https://api.example.com/users/42/orders/5f1c0a2b9d3e4f5a6b7c8d9e?page=2', queryString: [{ name: 'page', value: '2' }] },
+            { content: { mimeType: 'application/json', text: '[{"total":12.5,"status":"paid"}]' } }
+          ),
+          entry(
+            { url: 'https://api.example.com/users/7/orders/0123456789abcdef01234567', headers: [{ name: 'Cookie', value: 'a=b' }, { name: 'X-Trace', value: '1' }] },
+            { content: { mimeType: 'application/json', encoding: 'base64', text: btoa('{"currency":"EUR"}') } }
+          ),
+          entry(
+            { method: 'POST', url: 'https://api.example.com/sessions', postData: { mimeType: 'application/json', text: '{"email":"a@example.com"}' } },
+            { status: 401, content: { mimeType: 'application/json', text: '{"error":"unauthorised"}' } }
+          ),
+          entry({ url: 'https://example.com/app.js' }, { content: { mimeType: 'application/javascript' } }),
+          entry({ method: 'HEAD', url: 'https://api.example.com/health' }),
+        ],
+      },
+    };
+
+    it('templates identifiers in paths and combines requests to the same endpoint', () => {
+      const [orders] = endpointsOf(JSON.stringify(har));
+
+      expect(orders).toEqual({
+        route: 'GET /users/{userId}/orders/{orderId}',
+        description: '',
+        requestParams: ['path:userId:string!', 'path:orderId:string!', 'query:page:string', 'header:X-Trace:string'],
+        responseFields: ['total:number', 'status:string', 'currency:string'],
+      });
+    });
+
+    it('reads request bodies but not the fields of failed responses', () => {
+      const [, session] = endpointsOf(JSON.stringify(har));
+
+      expect(session).toEqual({
+        route: 'POST /sessions',
+        description: '',
+        requestParams: ['body:email:string'],
+        responseFields: [],
+      });
+    });
+
+    it('skips non-JSON requests and warns about unsupported methods', () => {
+      const result = importApiFile(JSON.stringify(har));
+
+      expect(result.format).toBe('har');
+      expect(result.endpoints).toHaveLength(2);
+      expect(result.warnings).toEqual(['Requests using HEAD were skipped.']);
+    });
+
+    it('warns when nothing in the capture is an API request', () => {
+      const result = importApiFile(JSON.stringify({ log: { entries: [entry({ url: 'not a url' }), { response: {} }] } }));
+
+      expect(result.endpoints).toEqual([]);
+      expect(result.warnings).toEqual(['The capture has no JSON API requests.']);
+    });
+  });
+
+  describe('unreadable files', () => {
+    it('rejects malformed JSON', () => {
+      expect(() => importApiFile('{"openapi": "3.1.0", "paths": {')).toThrow('The file is not valid JSON or YAML.');
+    });
+
+    it('rejects a document that is not an object', () => {
+      expect(() => importApiFile('- GET /users')).toThrow('The file is not an API description.');
+    });
+
+    it('rejects an object in none of the formats', () => {
+      expect(() => importApiFile(JSON.stringify({ openapi: '4.0.0', paths: {} }))).toThrow('Unrecognised file.');
+    });
+  });
+});
+
+describe('mergeImportedEndpoints', () => {
+  const endpoint = (overrides: Partial<ApiEndpoint>): ApiEndpoint => ({
+    id: 'e1', method: 'GET', path: '/users/{id}', description: '', requestParams: [], responseFields: [], ...overrides,
+  });
+  const param = (name: string, description = ''): ApiParam => ({ id: name, name, type: 'string', description, required: false });
+
+  it('keeps what the user wrote and adds what was missing', () => {
+    const current = [endpoint({ path: '/users/:id', description: 'Mine', requestParams: [param('id'), param('q', 'Search')] })];
+    const imported = [
+      endpoint({ description: 'Imported', requestParams: [param('id', 'User id'), param('q', 'Query'), param('limit')] }),
+      endpoint({ method: 'DELETE' }),
+    ];
+
+    const { endpoints, added, updated } = mergeImportedEndpoints(current, imported);
+
+    expect(added).toBe(1);
+    expect(updated).toBe(1);
+    expect(endpoints[0].description).toBe('Mine');
+    expect(endpoints[0].requestParams?.map(({ name, description }) => `${name}:${description}`)).toEqual(['id:User id', 'q:Search', 'limit:']);
+    expect(endpoints[1].method).toBe('DELETE');
+  });
+});
@@ -0,0 +1,543 @@
+import { parse } from 'yaml';
+import { ApiEndpoint, ApiParam, ApiParamLocation, HttpMethod } from './types';
+import { normalizePath } from './openapi';
+
+export type ApiImportFormat = 'openapi2' | 'openapi3' | 'postman' | 'har';
+
+export interface ApiImportResult {
+  format: ApiImportFormat;
+  endpoints: ApiEndpoint[];
+  // Things that were skipped, e.g. unsupported methods
+  warnings: string[];
+}
+
+export const API_IMPORT_FORMAT_LABELS: Record<ApiImportFormat, string> = {
+  openapi2: 'OpenAPI 2.0 (Swagger)',
+  openapi3: 'OpenAPI 3',
+  postman: 'Postman collection',
+  har: 'HAR capture',
+};
+
+const METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+// Nested schemas and samples are flattened into dotted field names up to this depth
+const MAX_FIELD_DEPTH = 3;
+const MAX_FIELDS = 60;
+
+// Headers every request has; documenting them adds nothing
+const COMMON_HEADERS = new Set([
+  'accept', 'accept-encoding', 'accept-language', 'authorization', 'cache-control', 'connection',
+  'content-length', 'content-type', 'cookie', 'host', 'origin', 'pragma', 'referer', 'user-agent',
+]);
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toMethod = (method: unknown): HttpMethod | undefined => {
+  const upper = String(method ?? '').toUpperCase();
+  return (METHODS as string[]).includes(upper) ? upper as HttpMethod : undefined;
+};
+
+class IdSource {
+  private count = 0;
+  private readonly stamp = Date.now();
+
+  next(prefix: 'endpoint' | 'param') {
+    this.count++;
+    return `${prefix}-${this.stamp}-${this.count}`;
+  }
+}
+
+// The endpoint editor offers these types; richer schema types are mapped onto them
+function editorType(schema: Json | undefined): string {
+  switch (schema?.type) {
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+    case 'object':
+    case 'array':
+      return schema.type;
+    default:
+      return schema?.properties ? 'object' : 'string';
+  }
+}
+
+function sampleType(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null || value === undefined) return 'string';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'object') return 'object';
+  return 'string';
+}
+
+const textOf = (value: unknown): string => {
+  if (typeof value === 'string') return value.trim();
+  // Postman descriptions can be { content, type }
+  if (isObject(value) && typeof value.content === 'string') return value.content.trim();
+  return '';
+};
+
+const parseJson = (text: unknown): unknown => {
+  if (typeof text !== 'string' || !text.trim()) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// HAR stores binary response bodies base64 encoded
+const safeAtob = (text: unknown) => {
+  try {
+    return atob(String(text ?? ''));
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Fields of a JSON sample (a request body or response), with nested
+ * objects flattened to dotted names. Nothing in a sample says which fields
+ * are required, so none are.
+ */
+function fieldsFromSample(sample: unknown, ids: IdSource): ApiParam[] {
+  const fields: ApiParam[] = [];
+  const visit = (value: unknown, prefix: string, depth: number) => {
+    // Lists are described by their first element
+    const item = Array.isArray(value) ? value[0] : value;
+    if (!isObject(item) || depth >= MAX_FIELD_DEPTH) return;
+    for (const [key, child] of Object.entries(item)) {
+      if (fields.length >= MAX_FIELDS) return;
+      const name = `${prefix}${key}`;
+      fields.push({ id: ids.next('param'), name, type: sampleType(child), description: '', required: false });
+      visit(child, Array.isArray(child) ? `${name}[].` : `${name}.`, depth + 1);
+    }
+  };
+  visit(sample, Array.isArray(sample) ? '[].' : '', 0);
+  // A top-level list has no field names of its own
+  return fields.map(field => field.name.startsWith('[].') ? { ...field, name: field.name.slice(3) } : field);
+}
+
+// Fields with the same name from several samples are kept once
+function mergeFields(existing: ApiParam[], added: ApiParam[]): ApiParam[] {
+  const names = new Set(existing.map(field => `${field.location ?? ''}:${field.name}`));
+  return [...existing, ...added.filter(field => !names.has(`${field.location ?? ''}:${field.name}`))];
+}
+
+// OpenAPI 2 and 3
+
+class SpecReader {
+  constructor(private readonly spec: Json, private readonly ids: IdSource) {}
+
+  // Follows local references such as #/components/schemas/User
+  resolve(value: unknown, depth = 0): Json | undefined {
+    if (!isObject(value)) return undefined;
+    if (typeof value.$ref !== 'string' || depth > 10) return value;
+    if (!value.$ref.startsWith('#/')) return undefined;
+    const target = value.$ref
+      .slice(2)
+      .split('/')
+      .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<unknown>((node, segment) => isObject(node) ? node[segment] : undefined, this.spec);
+    return this.resolve(target, depth + 1);
+  }
+
+  // allOf parts are merged; for oneOf/anyOf the first alternative is documented
+  private flatten(schemaRef: unknown, depth = 0): Json | undefined {
+    const schema = this.resolve(schemaRef);
+    if (!schema || depth > 5) return schema;
+    if (Array.isArray(schema.allOf)) {
+      const parts = schema.allOf.map((part: unknown) => this.flatten(part, depth + 1)).filter(Boolean) as Json[];
+      return {
+        ...schema,
+        type: schema.type ?? 'object',
+        properties: Object.assign({}, schema.properties, ...parts.map(part => part.properties)),
+        required: [schema, ...parts].flatMap(part => Array.isArray(part.required) ? part.required : []),
+      };
+    }
+    const alternatives = schema.oneOf ?? schema.anyOf;
+    if (Array.isArray(alternatives) && alternatives.length > 0) {
+      return this.flatten(alternatives[0], depth + 1);
+    }
+    return schema;
+  }
+
+  schemaFields(schemaRef: unknown, location?: ApiParamLocation): ApiParam[] {
+    const fields: ApiParam[] = [];
+    const visit = (ref: unknown, prefix: string, depth: number) => {
+      let schema = this.flatten(ref);
+      if (schema?.type === 'array' || schema?.items) {
+        schema = this.flatten(schema.items);
+      }
+      if (!schema?.properties || depth >= MAX_FIELD_DEPTH) return;
+      const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+      for (const [key, childRef] of Object.entries(schema.properties)) {
+        if (fields.length >= MAX_FIELDS) return;
+        const child = this.flatten(childRef);
+        const name = `${prefix}${key}`;
+        fields.push({
+          id: this.ids.next('param'),
+          name,
+          type: editorType(child),
+          description: textOf(child?.description),
+          required: required.includes(key),
+          ...(location ? { location } : {}),
+        });
+        visit(child, child?.type === 'array' ? `${name}[].` : `${name}.`, depth + 1);
+      }
+    };
+    visit(schemaRef, '', 0);
+    return fields;
+  }
+
+  parameter(paramRef: unknown): { param?: ApiParam; body?: ApiParam[] } {
+    const param = this.resolve(paramRef);
+    if (!param?.name) return {};
+    if (param.in === 'body') {
+      return { body: this.schemaFields(param.schema, 'body') };
+    }
+    const location: ApiParamLocation | undefined =
+      param.in === 'formData' ? 'body'
+        : param.in === 'path' || param.in === 'query' || param.in === 'header' ? param.in
+        : undefined;
+    if (!location || (location === 'header' && COMMON_HEADERS.has(String(param.name).toLowerCase()))) {
+      return {};
+    }
+    return {
+      param: {
+        id: this.ids.next('param'),
+        name: String(param.name),
+        // OpenAPI 2 puts the type on the parameter itself
+        type: editorType(this.resolve(param.schema) ?? param),
+        description: textOf(param.description),
+        required: Boolean(param.required) || location === 'path',
+        location,
+      },
+    };
+  }
+}
+
+const jsonMediaType = (content: unknown): Json | undefined => {
+  if (!isObject(content)) return undefined;
+  const type = Object.keys(content).find(key => /json/i.test(key)) ?? Object.keys(content)[0];
+  const mediaType = type ? content[type] : undefined;
+  return isObject(mediaType) ? mediaType : undefined;
+};
+
+function importOpenApi(spec: Json, format: 'openapi2' | 'openapi3', ids: IdSource): ApiImportResult {
+  const reader = new SpecReader(spec, ids);
+  const endpoints: ApiEndpoint[] = [];
+  const warnings: string[] = [];
+  // OpenAPI 2 keeps the base path separately
+  const basePath = format === 'openapi2' && typeof spec.basePath === 'string' ? spec.basePath.replace(/\/$/, '') : '';
+
+  for (const [path, itemRef] of Object.entries(isObject(spec.paths) ? spec.paths : {})) {
+    const item = reader.resolve(itemRef);
+    if (!item) continue;
+    const sharedParams: unknown[] = Array.isArray(item.parameters) ? item.parameters : [];
+
+    for (const [key, operation] of Object.entries(item)) {
+      if (!isObject(operation) || key === 'parameters') continue;
+      const method = toMethod(key);
+      if (!method) {
+        warnings.push(`${key.toUpperCase()} ${path} was skipped: the editor supports ${METHODS.join(', ')}.`);
+        continue;
+      }
+
+      let requestParams: ApiParam[] = [];
+      for (const paramRef of [...sharedParams, ...(Array.isArray(operation.parameters) ? operation.parameters : [])]) {
+        const { param, body } = reader.parameter(paramRef);
+        // Operation parameters override path-level ones with the same name
+        if (param) requestParams = [...requestParams.filter(existing => existing.name !== param.name), param];
+        if (body) requestParams = mergeFields(requestParams, body);
+      }
+      const requestBody = reader.resolve(operation.requestBody);
+      if (requestBody) {
+        requestParams = mergeFields(requestParams, reader.schemaFields(jsonMediaType(requestBody.content)?.schema, 'body'));
+      }
+
+      const responses = isObject(operation.responses) ? operation.responses : {};
+      const successCode = Object.keys(responses).sort().find(code => /^2/.test(code)) ?? 'default';
+      const response = reader.resolve(responses[successCode]);
+      const responseSchema = format === 'openapi2' ? response?.schema : jsonMediaType(response?.content)?.schema;
+
+      endpoints.push({
+        id: ids.next('endpoint'),
+        method,
+        path: `${basePath}${path}`,
+        description: textOf(operation.description) || textOf(operation.summary),
+        requestParams,
+        responseFields: reader.schemaFields(responseSchema),
+      });
+    }
+  }
+  return { format, endpoints, warnings };
+}
+
+// Postman and HAR
+
+// Observed endpoints with the same method and path are combined
+function addObserved(endpoints: ApiEndpoint[], endpoint: ApiEndpoint) {
+  const existing = endpoints.find(candidate => candidate.method === endpoint.method && candidate.path === endpoint.path);
+  if (!existing) {
+    endpoints.push(endpoint);
+    return;
+  }
+  existing.description = existing.description || endpoint.description;
+  existing.requestParams = mergeFields(existing.requestParams ?? [], endpoint.requestParams ?? []);
+  existing.responseFields = mergeFields(existing.responseFields ?? [], endpoint.responseFields ?? []);
+}
+
+const namedParams = (
+  entries: unknown,
+  location: ApiParamLocation,
+  ids: IdSource,
+  keyField: 'key' | 'name'
+): ApiParam[] => (Array.isArray(entries) ? entries : [])
+  .filter(entry => isObject(entry) && entry[keyField] && !entry.disabled)
+  .filter(entry => location !== 'header' || !COMMON_HEADERS.has(String(entry[keyField]).toLowerCase()))
+  .map(entry => ({
+    id: ids.next('param'),
+    name: String(entry[keyField]),
+    type: 'string',
+    description: textOf(entry.description),
+    required: location === 'path',
+    location,
+  }));
+
+const bodyFields = (body: Json | undefined, ids: IdSource): ApiParam[] => {
+  if (!body) return [];
+  if (body.mode === 'urlencoded' || body.mode === 'formdata') {
+    return namedParams(body[body.mode], 'body', ids, 'key');
+  }
+  return fieldsFromSample(parseJson(body.raw), ids).map(field => ({ ...field, location: 'body' as const }));
+};
+
+function postmanPath(url: unknown): string {
+  if (isObject(url) && Array.isArray(url.path)) {
+    return `/${url.path.map(segment => isObject(segment) ? segment.value : segment).join('/')}`;
+  }
+  const raw = isObject(url) ? String(url.raw ?? '') : String(url ?? '');
+  // Drop the scheme and host, which are often a {{baseUrl}} variable
+  return raw.replace(/^(?:[a-z]+:\/\/)?[^/]*/i, '') || '/';
+}
+
+function importPostman(collection: Json, ids: IdSource): ApiImportResult {
+  const endpoints: ApiEndpoint[] = [];
+  const warnings: string[] = [];
+
+  const visit = (items: unknown) => {
+    for (const item of Array.isArray(items) ? items : []) {
+      if (!isObject(item)) continue;
+      // Folders nest further items
+      if (Array.isArray(item.item)) {
+        visit(item.item);
+        continue;
+      }
+      const request = isObject(item.request) ? item.request : { url: item.request, method: 'GET' };
+      const method = toMethod(request.method ?? 'GET');
+      if (!method) {
+        warnings.push(`"${item.name}" was skipped: ${request.method} is not supported by the editor.`);
+        continue;
+      }
+
+      // Postman variables ({{id}}) in the path become path parameters
+      const path = normalizePath(postmanPath(request.url).replace(/\{\{([^}]+)\}\}/g, '{$1}'));
+      const url = isObject(request.url) ? request.url : {};
+      const variables = namedParams(url.variable, 'path', ids, 'key');
+      const templateParams = [...path.matchAll(/\{([^}]+)\}/g)]
+        .map(match => match[1])
+        .filter(name => !variables.some(variable => variable.name === name))
+        .map(name => ({ id: ids.next('param'), name, type: 'string', description: '', required: true, location: 'path' as const }));
+
+      const savedResponse = (Array.isArray(item.response) ? item.response : [])
+        .find(response => isObject(response) && (typeof response.code !== 'number' || (response.code >= 200 && response.code < 300)));
+
+      addObserved(endpoints, {
+        id: ids.next('endpoint'),
+        method,
+        path,
+        description: textOf(request.description) || textOf(item.description),
+        requestParams: [
+          ...variables,
+          ...templateParams,
+          ...namedParams(url.query, 'query', ids, 'key'),
+          ...namedParams(request.header, 'header', ids, 'key'),
+          ...bodyFields(isObject(request.body) ? request.body : undefined, ids),
+        ],
+        responseFields: fieldsFromSample(parseJson(savedResponse?.body), ids),
+      });
+    }
+  };
+
+  visit(collection.item);
+  return { format: 'postman', endpoints, warnings };
+}
+
+const singular = (word: string) => word.replace(/ies$/, 'y').replace(/s$/, '');
+
+/**
+ * Replaces the parts of a captured URL path that look like identifiers
+ * with path parameters: /users/42/orders/9f1c... -> /users/{userId}/orders/{orderId}.
+ */
+function templatePath(pathname: string): string {
+  const segments = pathname.split('/');
+  const used = new Set<string>();
+  return segments.map((segment, index) => {
+    const isIdentifier = /^\d+$/.test(segment) ||
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ||
+      /^[0-9a-f]{24,}$/i.test(segment);
+    if (!isIdentifier) return segment;
+    const previous = segments[index - 1]?.replace(/[^A-Za-z0-9]/g, '');
+    let name = previous && !previous.startsWith('{') ? `${singular(previous)}Id` : 'id';
+    for (let suffix = 2; used.has(name); suffix++) name = `${name.replace(/\d+$/, '')}${suffix}`;
+    used.add(name);
+    return `{${name}}`;
+  }).join('/');
+}
+
+function importHar(har: Json, ids: IdSource): ApiImportResult {
+  const endpoints: ApiEndpoint[] = [];
+  const warnings: string[] = [];
+  const skippedMethods = new Set<string>();
+
+  const log = isObject(har.log) ? har.log : {};
+  for (const entry of Array.isArray(log.entries) ? log.entries : []) {
+    const request = entry?.request;
+    if (!isObject(request)) continue;
+    const method = toMethod(request.method);
+    if (!method) {
+      skippedMethods.add(String(request.method));
+      continue;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(String(request.url));
+    } catch {
+      continue;
+    }
+    const content = entry.response?.content;
+    // Captures include pages, scripts and images; only JSON APIs are documented
+    const isJsonResponse = /json/i.test(String(content?.mimeType ?? ''));
+    const postData = isObject(request.postData) ? request.postData : undefined;
+    const hasJsonBody = /json|form/i.test(String(postData?.mimeType ?? ''));
+    if (!isJsonResponse && !hasJsonBody) continue;
+
+    const path = templatePath(url.pathname);
+    const body = postData && Array.isArray(postData.params) && postData.params.length > 0
+      ? namedParams(postData.params, 'body', ids, 'name')
+      : fieldsFromSample(parseJson(postData?.text), ids).map(field => ({ ...field, location: 'body' as const }));
+    const status = Number(entry.response?.status ?? 0);
+
+    addObserved(endpoints, {
+      id: ids.next('endpoint'),
+      method,
+      path,
+      description: '',
+      requestParams: [
+        ...[...path.matchAll(/\{([^}]+)\}/g)].map(match => ({
+          id: ids.next('param'), name: match[1], type: 'string', description: '', required: true, location: 'path' as const,
+        })),
+        ...namedParams(request.queryString, 'query', ids, 'name'),
+        ...namedParams(request.headers, 'header', ids, 'name'),
+        ...body,
+      ],
+      responseFields: status >= 200 && status < 300 && isJsonResponse
+        ? fieldsFromSample(parseJson(content.encoding === 'base64' ? safeAtob(content.text) : content.text), ids)
+        : [],
+    });
+  }
+
+  if (skippedMethods.size > 0) {
+    warnings.push(`Requests using ${[...skippedMethods].join(', ')} were skipped.`);
+  }
+  if (endpoints.length === 0) {
+    warnings.push('The capture has no JSON API requests.');
+  }
+  return { format: 'har', endpoints, warnings };
+}
+
+/**
+ * Reads an OpenAPI 2/3 spec (JSON or YAML), a Postman v2.1 collection or a
+ * HAR capture into editor endpoints. Throws when the file is none of these.
+ */
+export function importApiFile(text: string): ApiImportResult {
+  let document: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser reads every format
+    document = parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON or YAML.');
+  }
+  if (!isObject(document)) {
+    throw new Error('The file is not an API description.');
+  }
+
+  const ids = new IdSource();
+  if (typeof document.swagger === 'string' && document.swagger.startsWith('2')) {
+    return importOpenApi(document, 'openapi2', ids);
+  }
+  if (typeof document.openapi === 'string' && document.openapi.startsWith('3')) {
+    return importOpenApi(document, 'openapi3', ids);
+  }
+  if (isObject(document.info) && Array.isArray(document.item)) {
+    if (typeof document.info.schema === 'string' && !document.info.schema.includes('v2.')) {
+      throw new Error('Only Postman v2 collections can be imported. Export the collection as v2.1.');
+    }
+    return importPostman(document, ids);
+  }
+  if (isObject(document.log) && Array.isArray(document.log.entries)) {
+    return importHar(document, ids);
+  }
+  throw new Error('Unrecognised file. Import an OpenAPI 2/3 spec, a Postman v2.1 collection or a HAR file.');
+}
+
+const endpointKey = (endpoint: ApiEndpoint) => `${endpoint.method} ${normalizePath(endpoint.path)}`;
+
+/**
+ * Adds imported endpoints to the editor. Endpoints that are already there
+ * keep everything the user wrote, including their description, and only
+ * gain the parameters and fields they were missing.
+ */
+export function mergeImportedEndpoints(
+  current: ApiEndpoint[],
+  imported: ApiEndpoint[]
+): { endpoints: ApiEndpoint[]; added: number; updated: number } {
+  const endpoints = [...current];
+  let added = 0;
+  let updated = 0;
+
+  for (const endpoint of imported) {
+    const index = endpoints.findIndex(existing => endpointKey(existing) === endpointKey(endpoint));
+    if (index === -1) {
+      endpoints.push(endpoint);
+      added++;
+      continue;
+    }
+    const existing = endpoints[index];
+    endpoints[index] = {
+      ...existing,
+      description: existing.description.trim() ? existing.description : endpoint.description,
+      requestParams: mergeByName(existing.requestParams ?? [], endpoint.requestParams ?? []),
+      responseFields: mergeByName(existing.responseFields ?? [], endpoint.responseFields ?? []),
+    };
+    updated++;
+  }
+  return { endpoints, added, updated };
+}
+
+// Existing parameters win; imported descriptions only fill empty ones
+function mergeByName(existing: ApiParam[], imported: ApiParam[]): ApiParam[] {
+  const merged = existing.map(param => {
+    const match = imported.find(candidate => candidate.name === param.name);
+    return match && !param.description.trim() && match.description
+      ? { ...param, description: match.description }
+      : param;
+  });
+  return [...merged, ...imported.filter(param => !existing.some(candidate => candidate.name === param.name))];
+}
@@ -0,0 +1,35 @@
+export type {
+  ApiEndpoint,
+  ApiInfo,
+  ApiParam,
+  ApiParamLocation,
+  HttpMethod,
+  OpenApiDocument,
+} from './types';
+
+export {
+  buildOpenApiDocument,
+  checkEndpoints,
+  fieldsToSchema,
+  normalizePath,
+  OPENAPI_VERSION,
+  serializeOpenApi,
+  typeToSchema,
+} from './openapi';
+export type { OpenApiFormat } from './openapi';
+
+export { validateOpenApiDocument } from './validate';
+
+export {
+  API_IMPORT_FORMAT_LABELS,
+  importApiFile,
+  mergeImportedEndpoints,
+} from './importers';
+export type { ApiImportFormat, ApiImportResult } from './importers';
+
+export {
+  countDescriptionGaps,
+  describeForGapFilling,
+  fillDescriptionGaps,
+  hasDescriptionGaps,
+} from './descriptions';
@@ -0,0 +1,319 @@
+import { stringify } from 'yaml';
+import {
+  ApiEndpoint,
+  ApiInfo,
+  ApiParam,
+  ApiParamLocation,
+  HttpMethod,
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiResponse,
+  OpenApiSchema,
+} from './types';
+
+export const OPENAPI_VERSION = '3.1.0';
+
+export type OpenApiFormat = 'yaml' | 'json';
+
+const BODY_METHODS: HttpMethod[] = ['POST', 'PUT', 'PATCH'];
+
+// Type names people write in the endpoint editor, mapped to JSON Schema
+const TYPE_SCHEMAS: Record<string, OpenApiSchema> = {
+  string: { type: 'string' },
+  text: { type: 'string' },
+  number: { type: 'number' },
+  float: { type: 'number' },
+  double: { type: 'number' },
+  decimal: { type: 'number' },
+  integer: { type: 'integer' },
+  int: { type: 'integer' },
+  long: { type: 'integer' },
+  boolean: { type: 'boolean' },
+  bool: { type: 'boolean' },
+  object: { type: 'object' },
+  map: { type: 'object' },
+  json: { type: 'object' },
+  array: { type: 'array', items: {} },
+  list: { type: 'array', items: {} },
+  date: { type: 'string', format: 'date' },
+  datetime: { type: 'string', format: 'date-time' },
+  'date-time': { type: 'string', format: 'date-time' },
+  timestamp: { type: 'string', format: 'date-time' },
+  uuid: { type: 'string', format: 'uuid' },
+  email: { type: 'string', format: 'email' },
+  uri: { type: 'string', format: 'uri' },
+  url: { type: 'string', format: 'uri' },
+  file: { type: 'string', format: 'binary' },
+  binary: { type: 'string', format: 'binary' },
+};
+
+const SUCCESS_DESCRIPTIONS: Record<string, string> = {
+  '200': 'Successful response',
+  '201': 'Created',
+  '204': 'No content',
+};
+
+/**
+ * Turns a path as typed by the user into an OpenAPI path template:
+ * `users/:id?expand=true` becomes `/users/{id}`.
+ */
+export function normalizePath(path: string): string {
+  const withoutQuery = path.trim().split(/[?#]/)[0];
+  const templated = withoutQuery.replace(/:([A-Za-z_][\w-]*)/g, '{$1}');
+  return templated.startsWith('/') ? templated : `/${templated}`;
+}
+
+const pathTemplateNames = (path: string) => [...path.matchAll(/\{([^}]+)\}/g)].map(match => match[1]);
+
+/**
+ * Schema for a type name such as `string`, `int`, `uuid`, `string[]` or
+ * `array<number>`. Unknown names are treated as strings.
+ */
+export function typeToSchema(type: string): OpenApiSchema {
+  const normalized = type.trim().toLowerCase();
+  const arrayOf = /^(?:array|list)<(.+)>$/.exec(normalized) ?? /^(.+)\[\]$/.exec(normalized);
+  if (arrayOf) {
+    return { type: 'array', items: typeToSchema(arrayOf[1]) };
+  }
+  return { ...(TYPE_SCHEMAS[normalized] ?? { type: 'string' }) };
+}
+
+const describedSchema = (param: ApiParam): OpenApiSchema => {
+  const description = param.description.trim();
+  return { ...typeToSchema(param.type), ...(description ? { description } : {}) };
+};
+
+// The object schema a dotted field path is added to, created on the way
+function containerFor(parent: OpenApiSchema, segment: string): OpenApiSchema {
+  const isArray = segment.endsWith('[]');
+  const key = isArray ? segment.slice(0, -2) : segment;
+  parent.properties = parent.properties ?? {};
+  const node = parent.properties[key] ?? {};
+  parent.properties[key] = node;
+  if (isArray) {
+    node.type = 'array';
+    node.items = node.items?.type === 'object' ? node.items : { type: 'object' };
+    return node.items;
+  }
+  node.type = 'object';
+  return node;
+}
+
+/**
+ * Object schema for a list of fields. Dotted names nest (`address.city`)
+ * and a `[]` suffix makes an array (`items[].id`, `tags[]`).
+ */
+export function fieldsToSchema(fields: ApiParam[]): OpenApiSchema {
+  const root: OpenApiSchema = { type: 'object', properties: {} };
+
+  for (const field of fields) {
+    const segments = field.name.split('.').map(segment => segment.trim()).filter(Boolean);
+    if (segments.length === 0) continue;
+
+    const parent = segments.slice(0, -1).reduce(containerFor, root);
+    const leaf = segments[segments.length - 1];
+    const isArray = leaf.endsWith('[]');
+    const key = isArray ? leaf.slice(0, -2) : leaf;
+    const schema = describedSchema(field);
+    const leafSchema = isArray
+      ? { type: 'array', items: typeToSchema(field.type), ...(schema.description ? { description: schema.description } : {}) }
+      : schema;
+
+    parent.properties = parent.properties ?? {};
+    const existing = parent.properties[key];
+    // A parent declared after its children keeps the nested properties
+    parent.properties[key] = existing
+      ? { ...existing, ...(leafSchema.description ? { description: leafSchema.description } : {}) }
+      : leafSchema;
+
+    if (field.required && !parent.required?.includes(key)) {
+      parent.required = [...(parent.required ?? []), key];
+    }
+  }
+  return root;
+}
+
+const locationOf = (param: ApiParam, endpoint: ApiEndpoint, templateNames: string[]): ApiParamLocation =>
+  param.location ??
+  (templateNames.includes(param.name) ? 'path' : BODY_METHODS.includes(endpoint.method) ? 'body' : 'query');
+
+const endpointLabel = (endpoint: ApiEndpoint) => `${endpoint.method} ${endpoint.path.trim() || '(no path)'}`;
+
+/**
+ * Problems that would make the exported document invalid or lose
+ * endpoints, described in terms of the endpoint editor.
+ */
+export function checkEndpoints(endpoints: ApiEndpoint[]): string[] {
+  if (endpoints.length === 0) {
+    return ['Add at least one endpoint to export an OpenAPI document.'];
+  }
+
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  for (const endpoint of endpoints) {
+    const label = endpointLabel(endpoint);
+    if (!endpoint.path.trim()) {
+      problems.push(`${label}: the path is empty.`);
+      continue;
+    }
+
+    const path = normalizePath(endpoint.path);
+    const key = `${endpoint.method} ${path}`;
+    if (seen.has(key)) {
+      problems.push(`${label}: the endpoint is defined more than once.`);
+    }
+    seen.add(key);
+
+    const templateNames = pathTemplateNames(path);
+    for (const param of endpoint.requestParams ?? []) {
+      if (!param.name.trim()) {
+        problems.push(`${label}: a request parameter has no name.`);
+      } else if (param.location === 'path' && !templateNames.includes(param.name)) {
+        problems.push(`${label}: "${param.name}" is a path parameter, but the path has no {${param.name}}.`);
+      }
+    }
+    if (endpoint.responseFields?.some(field => !field.name.trim())) {
+      problems.push(`${label}: a response field has no name.`);
+    }
+  }
+  return problems;
+}
+
+// e.g. GET /users/{id}/orders -> getUsersByIdOrders
+function operationIdFor(method: HttpMethod, path: string): string {
+  const words = path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => segment.replace(/^\{(.+)\}$/, 'by-$1'))
+    .flatMap(segment => segment.split(/[^A-Za-z0-9]+/))
+    .filter(Boolean);
+  return method.toLowerCase() + words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+}
+
+// Endpoints are grouped by their first literal segment, skipping prefixes like /api/v1
+function tagFor(path: string): string | undefined {
+  return path
+    .split('/')
+    .filter(Boolean)
+    .find(segment => !segment.startsWith('{') && !/^(api|v\d+)$/i.test(segment));
+}
+
+function summaryOf(description: string): string | undefined {
+  const firstSentence = description.trim().split(/(?<=[.!?])\s|\n/)[0].trim();
+  if (!firstSentence) return undefined;
+  return firstSentence.length > 120 ? `${firstSentence.slice(0, 117)}...` : firstSentence;
+}
+
+function buildOperation(endpoint: ApiEndpoint, path: string, operationId: string): OpenApiOperation {
+  const templateNames = pathTemplateNames(path);
+  const params = (endpoint.requestParams ?? []).filter(param => param.name.trim());
+  const located = params.map(param => ({ param, location: locationOf(param, endpoint, templateNames) }));
+
+  // Every name in the path template must be declared, even if the editor doesn't list it
+  const parameters: OpenApiParameter[] = templateNames.map(name => {
+    const param = params.find(candidate => candidate.name === name && (candidate.location ?? 'path') === 'path');
+    const description = param?.description.trim();
+    return {
+      name,
+      in: 'path',
+      required: true,
+      ...(description ? { description } : {}),
+      schema: param ? typeToSchema(param.type) : { type: 'string' },
+    };
+  });
+  located
+    .filter(({ location }) => location === 'query' || location === 'header')
+    .forEach(({ param, location }) => {
+      const description = param.description.trim();
+      parameters.push({
+        name: param.name,
+        in: location as 'query' | 'header',
+        required: param.required,
+        ...(description ? { description } : {}),
+        schema: typeToSchema(param.type),
+      });
+    });
+
+  const bodyFields = located.filter(({ location }) => location === 'body').map(({ param }) => param);
+  const responseFields = (endpoint.responseFields ?? []).filter(field => field.name.trim());
+
+  const status = endpoint.method === 'POST' ? '201'
+    : endpoint.method === 'DELETE' && responseFields.length === 0 ? '204'
+    : '200';
+  const response: OpenApiResponse = {
+    description: SUCCESS_DESCRIPTIONS[status],
+    ...(responseFields.length > 0
+      ? { content: { 'application/json': { schema: fieldsToSchema(responseFields) } } }
+      : {}),
+  };
+
+  const description = endpoint.description.trim();
+  const summary = summaryOf(description);
+  const tag = tagFor(path);
+  return {
+    operationId,
+    ...(summary ? { summary } : {}),
+    ...(description && description !== summary ? { description } : {}),
+    ...(tag ? { tags: [tag] } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(bodyFields.length > 0
+      ? {
+          requestBody: {
+            required: bodyFields.some(field => field.required),
+            content: { 'application/json': { schema: fieldsToSchema(bodyFields) } },
+          },
+        }
+      : {}),
+    responses: { [status]: response },
+  };
+}
+
+/**
+ * Builds an OpenAPI 3.1 document from the endpoint editor. Path template
+ * names become path parameters; other request parameters go in the query
+ * for GET/DELETE and in a JSON request body for POST/PUT/PATCH, unless the
+ * parameter says where it belongs. Response fields become the schema of the
+ * success response. Endpoints without a path are left out.
+ */
+export function buildOpenApiDocument(endpoints: ApiEndpoint[], info: ApiInfo): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {};
+  const tags = new Set<string>();
+  const operationIds = new Set<string>();
+
+  for (const endpoint of endpoints) {
+    if (!endpoint.path.trim()) continue;
+
+    const path = normalizePath(endpoint.path);
+    const baseId = operationIdFor(endpoint.method, path);
+    let operationId = baseId;
+    for (let suffix = 2; operationIds.has(operationId); suffix++) {
+      operationId = `${baseId}${suffix}`;
+    }
+    operationIds.add(operationId);
+
+    const operation = buildOperation(endpoint, path, operationId);
+    operation.tags?.forEach(tag => tags.add(tag));
+    paths[path] = { ...paths[path], [endpoint.method.toLowerCase()]: operation };
+  }
+
+  const description = info.description?.trim();
+  const serverUrl = info.serverUrl?.trim();
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: info.title.trim() || 'API',
+      version: info.version.trim() || '1.0.0',
+      ...(description ? { description } : {}),
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    ...(tags.size > 0 ? { tags: [...tags].sort().map(name => ({ name })) } : {}),
+    paths,
+  };
+}
+
+export function serializeOpenApi(document: OpenApiDocument, format: OpenApiFormat): string {
+  return format === 'json'
+    ? JSON.stringify(document, null, 2)
+    : stringify(document, { aliasDuplicateObjects: false, lineWidth: 0 });
+}
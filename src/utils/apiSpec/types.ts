@@ -0,0 +1,87 @@
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+// Where a request parameter is sent
+export type ApiParamLocation = 'path' | 'query' | 'header' | 'body';
+
+export interface ApiParam {
+  id: string;
+  // Nested fields use dots, e.g. "address.city"
+  name: string;
+  type: string;
+  description: string;
+  required: boolean;
+  // Absent for parameters typed in by hand: path template names are path
+  // parameters, the rest go in the body for POST/PUT/PATCH and the query otherwise
+  location?: ApiParamLocation;
+}
+
+export interface ApiEndpoint {
+  id: string;
+  method: HttpMethod;
+  path: string;
+  description: string;
+  requestParams?: ApiParam[];
+  responseFields?: ApiParam[];
+}
+
+export interface ApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+  serverUrl?: string;
+}
+
+// The subset of OpenAPI 3.1 the exporter writes
+
+export interface OpenApiSchema {
+  type?: string;
+  format?: string;
+  description?: string;
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  description?: string;
+  required: boolean;
+  schema: OpenApiSchema;
+}
+
+export interface OpenApiMediaType {
+  schema: OpenApiSchema;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, OpenApiMediaType>;
+  };
+  responses: Record<string, OpenApiResponse>;
+}
+
+export type OpenApiPathItem = Partial<Record<Lowercase<HttpMethod>, OpenApiOperation>>;
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  servers?: { url: string }[];
+  tags?: { name: string }[];
+  paths: Record<string, OpenApiPathItem>;
+}
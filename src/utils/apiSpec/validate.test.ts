@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { buildOpenApiDocument } from './openapi';
+import { OpenApiDocument } from './types';
+import { validateOpenApiDocument } from './validate';
+
+const documentWithSchema = (schema: object) => ({
+  openapi: '3.1.0',
+  info: { title: 'Pets', version: '1.0.0' },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        responses: {
+          '200': { description: 'OK', content: { 'application/json': { schema } } },
+        },
+      },
+    },
+  },
+}) as unknown as OpenApiDocument;
+
+describe('validateOpenApiDocument', () => {
+  it('accepts the exporter\'s document for a sample project', async () => {
+    const document = buildOpenApiDocument([
+      {
+        id: '1',
+        method: 'GET',
+        path: '/users/:id',
+        description: 'Fetches a user',
+        requestParams: [
+          { id: 'p1', name: 'id', type: 'string', description: 'User id', required: true },
+          { id: 'p2', name: 'fields', type: 'string[]', description: 'Fields to include', required: false },
+        ],
+        responseFields: [
+          { id: 'r1', name: 'name', type: 'string', description: 'Display name', required: true },
+          { id: 'r2', name: 'address.city', type: 'string', description: 'City', required: false },
+        ],
+      },
+      {
+        id: '2',
+        method: 'POST',
+        path: '/users',
+        description: 'Creates a user',
+        requestParams: [
+          { id: 'p3', name: 'name', type: 'string', description: 'Display name', required: true },
+          { id: 'p4', name: 'age', type: 'integer', description: 'Age in years', required: false },
+        ],
+      },
+    ], { title: 'Users API', version: '2.0.0', serverUrl: 'https://api.example.com' });
+
+    expect(await validateOpenApiDocument(document)).toEqual([]);
+  });
+
+  it('accepts a schema with OpenAPI annotation keywords', async () => {
+    const schema = { type: 'object', properties: { id: { type: 'integer' } }, example: { id: 1 }, xml: { name: 'pet' } };
+
+    expect(await validateOpenApiDocument(documentWithSchema(schema))).toEqual([]);
+  });
+
+  it('rejects a Schema Object with an unknown type', async () => {
+    const problems = await validateOpenApiDocument(documentWithSchema({ type: 'objectx' }));
+
+    expect(problems.some(problem => problem.startsWith('/paths/~1pets/get/responses/200/content/application~1json/schema/type'))).toBe(true);
+  });
+
+  it('rejects a Schema Object with a malformed property', async () => {
+    const problems = await validateOpenApiDocument(documentWithSchema({ type: 'object', required: 'id' }));
+
+    expect(problems.length).toBeGreaterThan(0);
+  });
+
+  it('reports a missing required field', async () => {
+    const problems = await validateOpenApiDocument({ openapi: '3.1.0', paths: {} } as unknown as OpenApiDocument);
+
+    expect(problems).toContain('/: missing "info"');
+  });
+});
@@ -0,0 +1,51 @@
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import { OpenApiDocument } from './types';
+
+let validator: Promise<ValidateFunction> | null = null;
+
+// The specification points Schema Objects at the base dialect with a
+// $dynamicRef that Ajv resolves to the wrong schema, and its own definition of
+// a schema only requires an object or boolean. Schema Objects are checked
+// against JSON Schema 2020-12 instead, which OpenAPI 3.1's default dialect
+// extends with a few annotation keywords that the meta-schema allows
+const withSchemaDialect = (specification: object) => {
+  const schema = JSON.parse(JSON.stringify(specification).replace(/"\$dynamicRef":"#meta"/g, '"$ref":"#/$defs/schema"'));
+  schema.$defs.schema = { $ref: 'https://json-schema.org/draft/2020-12/schema' };
+  return schema;
+};
+
+// Ajv and the specification schemas are only downloaded when something is validated
+const loadValidator = () => {
+  validator = validator ?? Promise.all([
+    import('ajv/dist/2020'),
+    import('@apidevtools/openapi-schemas'),
+  ]).then(([{ default: Ajv2020 }, { openapiV31 }]) =>
+    // Formats are informational in OpenAPI, so they aren't checked
+    new Ajv2020({ allErrors: true, strict: false, validateFormats: false }).compile(withSchemaDialect(openapiV31)));
+  return validator;
+};
+
+const describeError = (error: ErrorObject) => {
+  const location = error.instancePath || '/';
+  if (error.keyword === 'required') {
+    return `${location}: missing "${error.params.missingProperty}"`;
+  }
+  if (error.keyword === 'unevaluatedProperties' || error.keyword === 'additionalProperties') {
+    const property = error.params.unevaluatedProperty ?? error.params.additionalProperty;
+    return `${location}: unexpected property "${property}"`;
+  }
+  return `${location}: ${error.message}`;
+};
+
+/**
+ * Validates a document against the official OpenAPI 3.1 JSON Schema.
+ * Returns the problems found, or an empty list for a valid document.
+ */
+export async function validateOpenApiDocument(document: OpenApiDocument): Promise<string[]> {
+  const validate = await loadValidator();
+  if (validate(document)) {
+    return [];
+  }
+  // allErrors reports every failed alternative of a oneOf, which repeats itself
+  return [...new Set((validate.errors ?? []).map(describeError))];
+}
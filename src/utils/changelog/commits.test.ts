@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { parseChange, parseCommitLog } from './commits';
+import { Commit } from './types';
+
+const commit = (subject: string, body = ''): Commit => ({ subject, body, tags: [], merge: false });
+
+describe('parseCommitLog', () => {
+  it('reads the default git log format with decorations and merges', () => {
+    const log = `commit 1a2b3c4d5e6f (HEAD -> main, tag: v1.2.0)
+Author: Ada Lovelace <ada@example.com>
+Date:   Mon Oct 5 10:00:00 2026 +0200
+
+    feat(export): add PDF export (#12)
+
+    Closes #7
+
+commit 9f8e7d6c5b4a
+Merge: 1111111 2222222
+Author: Ada Lovelace <ada@example.com>
+Date:   Sun Oct 4 09:00:00 2026 +0200
+
+    Merge branch 'feature/pdf'
+`;
+
+    expect(parseCommitLog(log)).toEqual([
+      {
+        hash: '1a2b3c4d5e6f',
+        tags: ['v1.2.0'],
+        author: 'Ada Lovelace',
+        date: '2026-10-05T08:00:00.000Z',
+        subject: 'feat(export): add PDF export (#12)',
+        body: 'Closes #7',
+        merge: false,
+      },
+      {
+        hash: '9f8e7d6c5b4a',
+        tags: [],
+        author: 'Ada Lovelace',
+        date: '2026-10-04T07:00:00.000Z',
+        parents: ['1111111', '2222222'],
+        subject: "Merge branch 'feature/pdf'",
+        body: '',
+        merge: true,
+      },
+    ]);
+  });
+
+  it('reads --oneline output and plain lists of messages', () => {
+    expect(parseCommitLog('abc1234 (tag: v2.0) fix: crash on empty input\n- Add dark mode\n\n')).toEqual([
+      { hash: 'abc1234', tags: ['v2.0'], subject: 'fix: crash on empty input', body: '', merge: false },
+      { tags: [], subject: 'Add dark mode', body: '', merge: false },
+    ]);
+  });
+
+  it('keeps lines that are not commits as plain messages', () => {
+    const commits = parseCommitLog('  \n???\nWIP!!\n');
+
+    expect(commits.map(entry => entry.subject)).toEqual(['???', 'WIP!!']);
+    expect(parseCommitLog('')).toEqual([]);
+  });
+
+  it('ignores text before the first commit and an unparseable date', () => {
+    const log = 'garbage before\ncommit abcdef1\nDate:   not a date\n\n    chore: tidy up\n';
+
+    expect(parseCommitLog(log)).toEqual([
+      { hash: 'abcdef1', tags: [], date: undefined, subject: 'chore: tidy up', body: '', merge: false },
+    ]);
+  });
+});
+
+describe('parseChange', () => {
+  it('reads the type, scope, breaking marker and references', () => {
+    expect(parseChange(commit('feat(api)!: drop v1 endpoints (#42)', 'BREAKING CHANGE: use /v2 instead.\n\nFixes #3'))).toMatchObject({
+      type: 'feat',
+      scope: 'api',
+      description: 'drop v1 endpoints',
+      breaking: true,
+      breakingNote: 'use /v2 instead.',
+      references: [{ kind: 'pull', number: 42 }, { kind: 'issue', number: 3 }],
+    });
+  });
+
+  it('keeps the subject of a message that is not a Conventional Commit', () => {
+    expect(parseChange(commit('Fixed the: thing with spaces'))).toMatchObject({
+      type: undefined,
+      scope: undefined,
+      description: 'Fixed the: thing with spaces',
+      breaking: false,
+      references: [],
+    });
+    expect(parseChange(commit(''))).toMatchObject({ type: undefined, description: '' });
+  });
+
+  it('reads reverts and GitLab merge requests', () => {
+    expect(parseChange(commit('Revert "feat: add export"'))).toMatchObject({ type: 'revert', description: 'Revert "feat: add export"' });
+    expect(parseChange(commit('fix: login loop (!17)')).references).toEqual([{ kind: 'pull', number: 17 }]);
+  });
+});
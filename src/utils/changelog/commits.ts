@@ -0,0 +1,140 @@
+import { ChangeEntry, Commit, CommitReference } from './types';
+
+// "commit 1a2b3c4 (HEAD -> main, tag: v1.2.0)" from `git log`, with or without --decorate
+const COMMIT_LINE = /^commit ([0-9a-f]{7,64})(?:\s+\((.*)\))?\s*$/;
+// "1a2b3c4 (tag: v1.2.0) feat: add export" from `git log --oneline`
+const ONELINE = /^([0-9a-f]{7,64})(?:\s+\(([^)]*)\))?\s+(.+)$/;
+// "feat(parser)!: drop the legacy syntax"
+const CONVENTIONAL = /^([a-zA-Z]+)(?:\(([^)]*)\))?(!)?:\s+(.+)$/;
+
+const tagsOf = (decorations = '') => decorations
+  .split(',')
+  .map(decoration => /^\s*tag:\s*(.+?)\s*$/.exec(decoration)?.[1])
+  .filter(Boolean);
+
+function isoDate(text: string): string | undefined {
+  const time = Date.parse(text.trim());
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+const isMergeSubject = (subject: string) => /^Merge (pull request|branch|remote-tracking branch|tag)\b/.test(subject);
+
+function commitOf(fields: Omit<Commit, 'subject' | 'body' | 'merge'> & { merge?: boolean }, message: string): Commit {
+  const [subject = '', ...rest] = message.trim().split('\n');
+  return {
+    ...fields,
+    subject: subject.trim(),
+    body: rest.join('\n').trim(),
+    merge: fields.merge || isMergeSubject(subject.trim()),
+  };
+}
+
+// `git log` in its default, medium or fuller format, optionally with --stat
+function parseFullLog(lines: string[]): Commit[] {
+  const commits: Commit[] = [];
+  let current: { fields: Omit<Commit, 'subject' | 'body' | 'merge'> & { merge?: boolean }; message: string[] } | undefined;
+  const flush = () => {
+    if (current) commits.push(commitOf(current.fields, current.message.join('\n')));
+  };
+
+  for (const line of lines) {
+    const start = COMMIT_LINE.exec(line);
+    if (start) {
+      flush();
+      current = { fields: { hash: start[1], tags: tagsOf(start[2]) }, message: [] };
+      continue;
+    }
+    if (!current) continue;
+    // The message is indented by four spaces; --stat and --name-only lines are not
+    if (line.startsWith('    ')) {
+      current.message.push(line.slice(4));
+      continue;
+    }
+    if (!line.trim()) {
+      if (current.message.length > 0) current.message.push('');
+      continue;
+    }
+    const header = /^(\w+):\s+(.*)$/.exec(line);
+    if (!header || current.message.length > 0) continue;
+    const [, name, value] = header;
+    if (name === 'Merge') {
+      current.fields.merge = true;
+      current.fields.parents = value.trim().split(/\s+/);
+    }
+    if (name === 'Author') current.fields.author = value.replace(/\s*<[^>]*>$/, '').trim();
+    if (name === 'Date' || name === 'AuthorDate') current.fields.date = isoDate(value);
+  }
+  flush();
+  return commits;
+}
+
+/**
+ * Reads commits from text: `git log` output (default, medium, fuller or
+ * --oneline format, with or without --decorate), or a plain list of commit
+ * messages, one per line. Tags shown by --decorate mark the releases.
+ */
+export function parseCommitLog(text: string): Commit[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines.some(line => COMMIT_LINE.test(line))) {
+    return parseFullLog(lines);
+  }
+  return lines
+    .map(line => line.trim().replace(/^[-*+]\s+/, ''))
+    .filter(Boolean)
+    .map(line => {
+      const oneline = ONELINE.exec(line);
+      return oneline
+        ? commitOf({ hash: oneline[1], tags: tagsOf(oneline[2]) }, oneline[3])
+        : commitOf({ tags: [] }, line);
+    });
+}
+
+function referencesIn(subject: string, body: string): { references: CommitReference[]; subject: string } {
+  const references: CommitReference[] = [];
+  const add = (kind: CommitReference['kind'], number: string) => {
+    if (!references.some(reference => reference.number === Number(number))) {
+      references.push({ kind, number: Number(number) });
+    }
+  };
+
+  // Squash merges on GitHub end the subject with the pull request, e.g. "(#42)"
+  let cleaned = subject.replace(/\s*\(((?:#\d+(?:,\s*)?)+)\)\s*$/, (_match, numbers: string) => {
+    numbers.match(/\d+/g).forEach(number => add('pull', number));
+    return '';
+  });
+  for (const match of `${subject}\n${body}`.matchAll(/\b(?:pull request|PR|merge request|MR)\s*#?(\d+)|See merge request \S*!(\d+)/gi)) {
+    add('pull', match[1] ?? match[2]);
+  }
+  // GitLab writes merge requests as "!42"
+  cleaned = cleaned.replace(/\s*\(!(\d+)\)\s*$/, (_match, number: string) => {
+    add('pull', number);
+    return '';
+  });
+  for (const match of `${cleaned}\n${body}`.matchAll(/(?:^|[\s(,])#(\d+)\b/g)) {
+    add('issue', match[1]);
+  }
+  return { references, subject: cleaned.trim() };
+}
+
+/**
+ * Reads a commit message as a Conventional Commit: its type, scope,
+ * whether it breaks compatibility, and the pull requests and issues it
+ * mentions. Other messages keep their subject as the description.
+ */
+export function parseChange(commit: Commit): ChangeEntry {
+  const { references, subject } = referencesIn(commit.subject, commit.body);
+  // A BREAKING CHANGE footer runs until the next blank line
+  const footer = /(?:^|\n)BREAKING[ -]CHANGES?:\s*([\s\S]*?)(?:\n\s*\n|$)/.exec(commit.body)?.[1]?.trim();
+  const revert = /^Revert "(.+)"$/.exec(subject);
+  const conventional = revert ? undefined : CONVENTIONAL.exec(subject);
+
+  return {
+    commit,
+    type: revert ? 'revert' : conventional?.[1].toLowerCase(),
+    scope: conventional?.[2]?.trim() || undefined,
+    description: revert ? `Revert "${revert[1]}"` : conventional?.[4].trim() ?? subject,
+    breaking: !!conventional?.[3] || footer !== undefined,
+    breakingNote: footer || undefined,
+    references,
+  };
+}
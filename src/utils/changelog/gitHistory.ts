@@ -0,0 +1,417 @@
+import { inflateSync, strFromU8, unzipSync, unzlibSync } from 'fflate';
+import { Commit } from './types';
+
+// Enough for several releases; older history rarely belongs in new release notes
+export const MAX_HISTORY_COMMITS = 1000;
+
+/**
+ * Read access to the files of a .git directory, by their path inside it
+ * (e.g. "refs/heads/main").
+ */
+interface GitFiles {
+  paths: string[];
+  read: (path: string) => Promise<Uint8Array | undefined>;
+}
+
+interface GitObject {
+  type: 'commit' | 'tree' | 'blob' | 'tag';
+  data: Uint8Array;
+}
+
+const OBJECT_TYPES: Record<number, GitObject['type']> = { 1: 'commit', 2: 'tree', 3: 'blob', 4: 'tag' };
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * A pack file and its version 2 index. Objects are found by binary search
+ * in the index and inflated from the pack on demand.
+ */
+class PackFile {
+  private readonly count: number;
+  private readonly view: DataView;
+
+  constructor(private readonly index: Uint8Array, private readonly pack: Uint8Array) {
+    this.view = new DataView(index.buffer, index.byteOffset, index.byteLength);
+    if (this.view.getUint32(0) !== 0xff744f63 || this.view.getUint32(4) !== 2) {
+      throw new Error('Unsupported pack index version');
+    }
+    this.count = this.view.getUint32(8 + 255 * 4);
+  }
+
+  private offsetOf(hash: string): number | undefined {
+    const first = parseInt(hash.slice(0, 2), 16);
+    let low = first === 0 ? 0 : this.view.getUint32(8 + (first - 1) * 4);
+    let high = this.view.getUint32(8 + first * 4);
+    const names = 8 + 256 * 4;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      const name = hex(this.index.subarray(names + middle * 20, names + middle * 20 + 20));
+      if (name === hash) {
+        const offsets = names + this.count * 24;
+        const offset = this.view.getUint32(offsets + middle * 4);
+        if (!(offset & 0x80000000)) return offset;
+        // Packs over 2 GB keep large offsets in a separate table
+        const large = offsets + this.count * 4 + (offset & 0x7fffffff) * 8;
+        return this.view.getUint32(large) * 2 ** 32 + this.view.getUint32(large + 4);
+      }
+      if (name < hash) low = middle + 1;
+      else high = middle;
+    }
+    return undefined;
+  }
+
+  has(hash: string): boolean {
+    return this.offsetOf(hash) !== undefined;
+  }
+
+  async read(hash: string, resolveBase: (hash: string) => Promise<GitObject | undefined>): Promise<GitObject | undefined> {
+    const offset = this.offsetOf(hash);
+    return offset === undefined ? undefined : this.readAt(offset, resolveBase);
+  }
+
+  private async readAt(offset: number, resolveBase: (hash: string) => Promise<GitObject | undefined>): Promise<GitObject | undefined> {
+    let position = offset;
+    let byte = this.pack[position++];
+    const type = (byte >> 4) & 7;
+    let size = byte & 15;
+    let shift = 4;
+    while (byte & 0x80) {
+      byte = this.pack[position++];
+      size += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    }
+
+    let base: Promise<GitObject | undefined> | undefined;
+    if (type === OFS_DELTA) {
+      byte = this.pack[position++];
+      let distance = byte & 0x7f;
+      while (byte & 0x80) {
+        byte = this.pack[position++];
+        distance = ((distance + 1) * 128) + (byte & 0x7f);
+      }
+      base = this.readAt(offset - distance, resolveBase);
+    } else if (type === REF_DELTA) {
+      base = resolveBase(hex(this.pack.subarray(position, position + 20)));
+      position += 20;
+    }
+
+    // Skip the two-byte zlib header; inflating stops at the end of the stream
+    const data = inflateSync(this.pack.subarray(position + 2), { out: new Uint8Array(size) });
+    if (!base) {
+      return OBJECT_TYPES[type] ? { type: OBJECT_TYPES[type], data } : undefined;
+    }
+    const baseObject = await base;
+    return baseObject ? { type: baseObject.type, data: applyDelta(baseObject.data, data) } : undefined;
+  }
+}
+
+function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  let position = 0;
+  const size = () => {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = delta[position++];
+      value += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value;
+  };
+  size();
+  const result = new Uint8Array(size());
+  let written = 0;
+
+  while (position < delta.length) {
+    const op = delta[position++];
+    if (op & 0x80) {
+      // Copy from the base: which offset and size bytes follow is given by the op's bits
+      let copyOffset = 0;
+      let copySize = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        if (op & (1 << bit)) copyOffset += delta[position++] * 2 ** (bit * 8);
+      }
+      for (let bit = 0; bit < 3; bit++) {
+        if (op & (1 << (4 + bit))) copySize += delta[position++] * 2 ** (bit * 8);
+      }
+      result.set(base.subarray(copyOffset, copyOffset + (copySize || 0x10000)), written);
+      written += copySize || 0x10000;
+    } else if (op > 0) {
+      result.set(delta.subarray(position, position + op), written);
+      position += op;
+      written += op;
+    }
+  }
+  return result;
+}
+
+/**
+ * Reads objects and refs from a .git directory, loose or packed. Only
+ * what the history walk needs is decompressed.
+ */
+class GitRepository {
+  private packs: PackFile[] | undefined;
+
+  constructor(private readonly files: GitFiles) {}
+
+  private async loadPacks(): Promise<PackFile[]> {
+    if (!this.packs) {
+      const indexes = this.files.paths.filter(path => /^objects\/pack\/pack-[0-9a-f]+\.idx$/.test(path));
+      const packs = await Promise.all(indexes.map(async path => {
+        const [index, pack] = await Promise.all([this.files.read(path), this.files.read(path.replace(/\.idx$/, '.pack'))]);
+        return index && pack ? new PackFile(index, pack) : undefined;
+      }));
+      this.packs = packs.filter(Boolean);
+    }
+    return this.packs;
+  }
+
+  async readObject(hash: string): Promise<GitObject | undefined> {
+    const loose = await this.files.read(`objects/${hash.slice(0, 2)}/${hash.slice(2)}`);
+    if (loose) {
+      const data = unzlibSync(loose);
+      const headerEnd = data.indexOf(0);
+      const type = strFromU8(data.subarray(0, headerEnd)).split(' ')[0] as GitObject['type'];
+      return { type, data: data.subarray(headerEnd + 1) };
+    }
+    const pack = (await this.loadPacks()).find(candidate => candidate.has(hash));
+    return pack?.read(hash, base => this.readObject(base));
+  }
+
+  async readText(path: string): Promise<string | undefined> {
+    const bytes = await this.files.read(path);
+    return bytes ? strFromU8(bytes) : undefined;
+  }
+
+  // Refs and, for annotated tags, the commit they point at ("^" lines)
+  private async packedRefs(): Promise<{ name: string; hash: string; peeled?: string }[]> {
+    const refs: { name: string; hash: string; peeled?: string }[] = [];
+    for (const line of (await this.readText('packed-refs') ?? '').split('\n')) {
+      const peeled = /^\^([0-9a-f]{40,64})/.exec(line);
+      if (peeled && refs.length > 0) {
+        refs[refs.length - 1].peeled = peeled[1];
+        continue;
+      }
+      const ref = /^([0-9a-f]{40,64}) (\S+)/.exec(line);
+      if (ref) refs.push({ hash: ref[1], name: ref[2] });
+    }
+    return refs;
+  }
+
+  async resolveRef(name: string, depth = 0): Promise<string | undefined> {
+    const loose = (await this.readText(name))?.trim();
+    if (loose?.startsWith('ref: ')) {
+      return depth < 5 ? this.resolveRef(loose.slice(5).trim(), depth + 1) : undefined;
+    }
+    if (loose && /^[0-9a-f]{40,64}$/.test(loose)) return loose;
+    return (await this.packedRefs()).find(ref => ref.name === name)?.hash;
+  }
+
+  // Release tags by the commit they mark; annotated tags are followed to their commit
+  async tagsByCommit(): Promise<Map<string, string[]>> {
+    const tags = new Map<string, string>();
+    for (const ref of await this.packedRefs()) {
+      if (ref.name.startsWith('refs/tags/')) tags.set(ref.name.slice('refs/tags/'.length), ref.peeled ?? ref.hash);
+    }
+    for (const path of this.files.paths.filter(path => path.startsWith('refs/tags/'))) {
+      const hash = (await this.readText(path))?.trim();
+      if (hash) tags.set(path.slice('refs/tags/'.length), hash);
+    }
+
+    const byCommit = new Map<string, string[]>();
+    for (const [name, hash] of tags) {
+      let target = hash;
+      let object = await this.readObject(target).catch(() => undefined);
+      for (let depth = 0; object?.type === 'tag' && depth < 5; depth++) {
+        target = /^object ([0-9a-f]+)/m.exec(strFromU8(object.data))?.[1];
+        object = target ? await this.readObject(target).catch(() => undefined) : undefined;
+      }
+      if (target && object?.type === 'commit') {
+        byCommit.set(target, [...(byCommit.get(target) ?? []), name]);
+      }
+    }
+    return byCommit;
+  }
+}
+
+interface ParsedCommit {
+  hash: string;
+  parents: string[];
+  author?: string;
+  authorTime?: number;
+  commitTime: number;
+  message: string;
+}
+
+function parseCommitObject(hash: string, data: Uint8Array): ParsedCommit {
+  const text = strFromU8(data);
+  const split = text.indexOf('\n\n');
+  const headers = split === -1 ? text : text.slice(0, split);
+  const parents: string[] = [];
+  let author: string | undefined;
+  let authorTime: number | undefined;
+  let commitTime = 0;
+  // Continuation lines of multi-line headers, like signatures, start with a space
+  for (const line of headers.split('\n').filter(line => !line.startsWith(' '))) {
+    const [key, ...rest] = line.split(' ');
+    const value = rest.join(' ');
+    if (key === 'parent') parents.push(value);
+    const identity = /^(.*) <[^>]*> (\d+) [+-]\d{4}$/.exec(value);
+    if (key === 'author' && identity) {
+      author = identity[1];
+      authorTime = Number(identity[2]);
+    }
+    if (key === 'committer' && identity) commitTime = Number(identity[2]);
+  }
+  return { hash, parents, author, authorTime, commitTime, message: split === -1 ? '' : text.slice(split + 2) };
+}
+
+export interface GitHistory {
+  commits: Commit[];
+  // URL of the "origin" remote, for links to pull requests and issues
+  remoteUrl?: string;
+  // The walk stopped at MAX_HISTORY_COMMITS
+  truncated: boolean;
+}
+
+/**
+ * Walks the history from HEAD, newest commit first by commit date, like
+ * `git log` does.
+ */
+async function readHistory(files: GitFiles, maxCommits = MAX_HISTORY_COMMITS): Promise<GitHistory> {
+  const repository = new GitRepository(files);
+  const head = await repository.resolveRef('HEAD');
+  if (!head) {
+    throw new Error('The repository has no commits yet.');
+  }
+  const tags = await repository.tagsByCommit();
+  const config = await repository.readText('config') ?? '';
+  const remoteUrl = /\[remote "origin"\][^[]*?\burl\s*=\s*(\S+)/.exec(config)?.[1];
+
+  const commits: Commit[] = [];
+  const seen = new Set<string>([head]);
+  const queue: ParsedCommit[] = [];
+  const enqueue = async (hash: string) => {
+    const object = await repository.readObject(hash);
+    if (object?.type === 'commit') queue.push(parseCommitObject(hash, object.data));
+  };
+  await enqueue(head);
+
+  while (queue.length > 0 && commits.length < maxCommits) {
+    queue.sort((a, b) => b.commitTime - a.commitTime);
+    const next = queue.shift();
+    const [subject = '', ...rest] = next.message.trim().split('\n');
+    commits.push({
+      hash: next.hash,
+      author: next.author,
+      date: new Date((next.authorTime ?? next.commitTime) * 1000).toISOString(),
+      subject: subject.trim(),
+      body: rest.join('\n').trim(),
+      tags: tags.get(next.hash) ?? [],
+      parents: next.parents,
+      merge: next.parents.length > 1,
+    });
+    for (const parent of next.parents.filter(parent => !seen.has(parent))) {
+      seen.add(parent);
+      // Shallow clones end at commits whose parents aren't there
+      await enqueue(parent).catch(error => console.error(`Error reading commit ${parent}:`, error));
+    }
+  }
+  return { commits, remoteUrl, truncated: queue.length > 0 };
+}
+
+const NO_HISTORY = 'No git history found. Choose the project folder itself, including its .git directory, or a .zip archive that contains it.';
+
+// The path of the .git directory, e.g. "project/.git/", from the paths of a folder or archive
+function gitDirectoryOf(paths: string[]): string | undefined {
+  const head = paths
+    .filter(path => path === '.git/HEAD' || path.endsWith('/.git/HEAD'))
+    .sort((a, b) => a.length - b.length)[0];
+  return head?.slice(0, -'HEAD'.length);
+}
+
+/**
+ * Reads the commit history of a folder chosen with a directory picker.
+ * Nothing is uploaded; the .git directory is read in the browser.
+ */
+export async function readFolderHistory(files: File[]): Promise<GitHistory> {
+  const byPath = new Map(files.map(file => [(file.webkitRelativePath || file.name).replace(/\\/g, '/'), file]));
+  const gitDirectory = gitDirectoryOf([...byPath.keys()]);
+  if (!gitDirectory) {
+    throw new Error(NO_HISTORY);
+  }
+  const paths = [...byPath.keys()].filter(path => path.startsWith(gitDirectory)).map(path => path.slice(gitDirectory.length));
+  return readHistory({
+    paths,
+    read: async path => {
+      const file = byPath.get(gitDirectory + path);
+      return file ? new Uint8Array(await file.arrayBuffer()) : undefined;
+    },
+  });
+}
+
+/**
+ * Reads the commit history from a .zip archive of a repository. Archives
+ * downloaded from a Git host usually leave the .git directory out.
+ */
+export async function readZipHistory(file: File): Promise<GitHistory> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const names: string[] = [];
+  try {
+    // Listing pass: rejecting every entry skips decompression
+    unzipSync(data, {
+      filter: entry => {
+        names.push(entry.name);
+        return false;
+      },
+    });
+  } catch (error) {
+    console.error('Error reading zip archive:', error);
+    throw new Error('The file is not a valid zip archive.');
+  }
+
+  const gitDirectory = gitDirectoryOf(names);
+  if (!gitDirectory) {
+    throw new Error(NO_HISTORY);
+  }
+  const paths = names.filter(name => name.startsWith(gitDirectory) && !name.endsWith('/')).map(name => name.slice(gitDirectory.length));
+  const wanted = new Set(paths);
+  const extracted = new Map<string, Uint8Array>();
+  return readHistory({
+    paths,
+    read: async path => {
+      if (!wanted.has(path)) return undefined;
+      if (!extracted.has(path)) {
+        const name = gitDirectory + path;
+        extracted.set(path, unzipSync(data, { filter: entry => entry.name === name })[name]);
+      }
+      return extracted.get(path);
+    },
+  });
+}
+
+/**
+ * Writes commits as `git log --decorate` output, so history read from a
+ * repository can be reviewed and edited like pasted history.
+ */
+export function formatGitLog(commits: Commit[]): string {
+  return commits.map(commit => {
+    const decorations = commit.tags.length > 0 ? ` (${commit.tags.map(tag => `tag: ${tag}`).join(', ')})` : '';
+    const message = [commit.subject, ...(commit.body ? ['', commit.body] : [])]
+      .join('\n')
+      .split('\n')
+      .map(line => (line ? `    ${line}` : ''))
+      .join('\n');
+    return [
+      `commit ${commit.hash}${decorations}`,
+      ...(commit.parents?.length > 1 ? [`Merge: ${commit.parents.map(parent => parent.slice(0, 7)).join(' ')}`] : []),
+      ...(commit.author ? [`Author: ${commit.author}`] : []),
+      ...(commit.date ? [`Date:   ${commit.date}`] : []),
+      '',
+      message,
+      '',
+    ].join('\n');
+  }).join('\n');
+}
@@ -0,0 +1,14 @@
+export type { ChangeCategory, ChangeEntry, Commit, CommitReference, Release } from './types';
+export { parseChange, parseCommitLog } from './commits';
+export {
+  buildReleases,
+  categoryOf,
+  CHANGE_CATEGORIES,
+  changeCount,
+  renderChangelog,
+  renderRelease,
+} from './keepAChangelog';
+export { changelogLinks } from './links';
+export type { ChangelogLinks } from './links';
+export { formatGitLog, MAX_HISTORY_COMMITS, readFolderHistory, readZipHistory } from './gitHistory';
+export type { GitHistory } from './gitHistory';
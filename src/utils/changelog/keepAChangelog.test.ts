@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { buildReleases, categoryOf, renderChangelog } from './keepAChangelog';
+import { changelogLinks } from './links';
+import { parseChange, parseCommitLog } from './commits';
+import { Commit } from './types';
+
+const commit = (subject: string, fields: Partial<Commit> = {}): Commit => ({ subject, body: '', tags: [], merge: false, ...fields });
+
+describe('categoryOf', () => {
+  it.each([
+    ['feat: add export', 'Added'],
+    ['feat!: change the export format', 'Changed'],
+    ['fix: crash on save', 'Fixed'],
+    ['fix: escape HTML to prevent XSS', 'Security'],
+    ['refactor: remove the legacy parser', 'Removed'],
+    ['chore: deprecate the v1 client', 'Deprecated'],
+    ['perf: faster parsing', 'Changed'],
+    ['Implement search', 'Added'],
+    ['Resolve crash on startup', 'Fixed'],
+    ['Tweak the colours', 'Changed'],
+    ['docs: explain the setup', undefined],
+    ['ci!: require Node 20', 'Changed'],
+  ])('puts "%s" under %s', (subject, category) => {
+    expect(categoryOf(parseChange(commit(subject)))).toBe(category);
+  });
+});
+
+describe('buildReleases', () => {
+  it('splits the commits at version tags and skips merges and housekeeping', () => {
+    const releases = buildReleases([
+      commit('feat: add search'),
+      commit('Release 1.1.0', { tags: ['v1.1.0'], date: '2026-10-01T12:00:00Z' }),
+      commit('fix: crash on save'),
+      commit("Merge branch 'fix'", { merge: true }),
+      commit('docs: update README'),
+      commit('Initial commit', { tags: ['not-a-version', 'v1.0.0'] }),
+    ]);
+
+    expect(releases.map(release => ({
+      version: release.version,
+      date: release.date,
+      changes: Object.fromEntries(Object.entries(release.changes).map(([category, entries]) => [category, entries.map(entry => entry.description)])),
+      internal: release.internal.map(entry => entry.description),
+    }))).toEqual([
+      { version: undefined, date: undefined, changes: { Added: ['add search'] }, internal: [] },
+      { version: '1.1.0', date: '2026-10-01', changes: { Fixed: ['crash on save'] }, internal: ['update README'] },
+      { version: '1.0.0', date: undefined, changes: {}, internal: [] },
+    ]);
+  });
+
+  it('drops an empty unreleased section and names it after the next version', () => {
+    expect(buildReleases([commit('Release 1.0.0', { tags: ['v1.0.0'] })]).map(release => release.version)).toEqual(['1.0.0']);
+    expect(buildReleases([commit('fix: typo')], 'v2.0.0')[0].version).toBe('2.0.0');
+  });
+});
+
+describe('renderChangelog', () => {
+  it('writes Keep a Changelog sections with links to the host', () => {
+    const commits = parseCommitLog([
+      '1111111 feat(ui)!: new layout (#5)',
+      '2222222 fix: wrong total',
+      '3333333 (tag: v1.0.0) feat: first release',
+      '4444444 (tag: v0.9.0) feat: beta',
+    ].join('\n'));
+
+    const changelog = renderChangelog(buildReleases(commits), changelogLinks('https://github.com/acme/shop'));
+
+    expect(changelog).toContain(`## [Unreleased]
+
+### Changed
+
+- **BREAKING:** **ui:** New layout ([#5](https://github.com/acme/shop/pull/5))
+
+### Fixed
+
+- Wrong total ([2222222](https://github.com/acme/shop/commit/2222222))
+
+## [1.0.0]
+
+### Added
+
+- First release ([3333333](https://github.com/acme/shop/commit/3333333))`);
+    expect(changelog.endsWith(`[Unreleased]: https://github.com/acme/shop/compare/v1.0.0...HEAD
+[1.0.0]: https://github.com/acme/shop/compare/v0.9.0...v1.0.0
+`)).toBe(true);
+  });
+
+  it('writes a changelog without links for an unknown host', () => {
+    const changelog = renderChangelog(buildReleases([commit('chore: tidy', { tags: ['v1.0.0'] })]), changelogLinks('not a url'));
+
+    expect(changelog).toContain('## [1.0.0]\n\n_No user-facing changes._\n');
+  });
+});
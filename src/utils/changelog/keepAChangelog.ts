@@ -0,0 +1,163 @@
+import { parseChange } from './commits';
+import { ChangelogLinks } from './links';
+import { ChangeCategory, ChangeEntry, Commit, Release } from './types';
+
+export const CHANGE_CATEGORIES: ChangeCategory[] = ['Added', 'Changed', 'Deprecated', 'Removed', 'Fixed', 'Security'];
+
+// Conventional Commit types that don't change what users get
+const INTERNAL_TYPES = new Set(['docs', 'doc', 'style', 'test', 'tests', 'ci', 'build', 'chore', 'release', 'wip']);
+
+// Release tags such as "v1.2.0", "1.2" or "release-2.0.0-beta.1"
+const VERSION_TAG = /^(?:v|release[-/]?|version[-/]?)?(\d+\.\d+(?:\.\d+)?(?:[-+][\w.-]+)?)$/i;
+
+const versionOf = (tag: string) => VERSION_TAG.exec(tag)?.[1];
+
+// Commits that only start the project or cut a release, e.g. "Release 1.2.0" or "Bump version to 1.2.0"
+const isHousekeeping = (entry: ChangeEntry) =>
+  /^(initial commit|first commit|release|bump version|version bump|prepare release|v?\d+\.\d+\.\d+$)/i.test(entry.description)
+  && (!entry.type || INTERNAL_TYPES.has(entry.type));
+
+const mentionsSecurity = (text: string) => /\b(security|vulnerab\w*|CVE-\d{4}-\d+|XSS|CSRF|injection)\b/i.test(text);
+
+/**
+ * The Keep a Changelog section for a change, or undefined for internal
+ * changes. Conventional Commits are sorted by type; other messages by the
+ * verb they start with.
+ */
+export function categoryOf(entry: ChangeEntry): ChangeCategory | undefined {
+  const { type, description, scope } = entry;
+  if (type === 'security' || type === 'sec' || (type === 'fix' && mentionsSecurity(`${scope ?? ''} ${description}`))) {
+    return 'Security';
+  }
+  if (type === 'deprecate' || /^deprecat/i.test(description)) return 'Deprecated';
+  if (/^(remove|delete|drop)\b/i.test(description) && type !== 'fix') return 'Removed';
+  // A breaking feature changes how something that exists already works
+  if (type === 'feat' || type === 'feature') return entry.breaking ? 'Changed' : 'Added';
+  if (type === 'fix' || type === 'bugfix' || type === 'hotfix') return 'Fixed';
+  if (type && INTERNAL_TYPES.has(type)) {
+    // Breaking build or tooling changes still matter to users
+    return entry.breaking ? 'Changed' : undefined;
+  }
+  if (type) return 'Changed';
+  if (/^(add|adds|added|implement|introduce|support|create|allow|enable)\b/i.test(description)) return 'Added';
+  if (/^(fix|fixes|fixed|resolve|correct|patch|prevent|handle)\b/i.test(description)) return 'Fixed';
+  if (mentionsSecurity(description)) return 'Security';
+  return 'Changed';
+}
+
+const dayOf = (date?: string) => date?.slice(0, 10);
+
+/**
+ * Splits commits, newest first, into releases at their version tags.
+ * Commits newer than the latest tag are unreleased, or belong to
+ * `nextVersion` when one is given. Merge commits and commits that only
+ * cut a release are left out.
+ */
+export function buildReleases(commits: Commit[], nextVersion?: string): Release[] {
+  const releases: Release[] = [];
+  const version = nextVersion?.trim().replace(/^v(?=\d)/, '');
+  let current: Release = {
+    version: version || undefined,
+    date: version ? new Date().toISOString().slice(0, 10) : undefined,
+    changes: {},
+    internal: [],
+  };
+
+  for (const commit of commits) {
+    const tag = commit.tags.find(name => versionOf(name));
+    if (tag) {
+      releases.push(current);
+      current = { version: versionOf(tag), tag, date: dayOf(commit.date), changes: {}, internal: [] };
+    }
+    if (commit.merge) continue;
+    const entry = parseChange(commit);
+    if (isHousekeeping(entry)) continue;
+    const category = categoryOf(entry);
+    if (category) {
+      current.changes[category] = [...(current.changes[category] ?? []), entry];
+    } else {
+      current.internal.push(entry);
+    }
+  }
+  releases.push(current);
+
+  // An empty unreleased section says nothing
+  return releases.filter((release, index) => index > 0 || release.version || changeCount(release) > 0);
+}
+
+export const changeCount = (release: Release) =>
+  CHANGE_CATEGORIES.reduce((count, category) => count + (release.changes[category]?.length ?? 0), 0);
+
+const shortHash = (hash: string) => hash.slice(0, 7);
+
+function entryLine(entry: ChangeEntry, links?: ChangelogLinks): string {
+  const refs = entry.references.map(reference => {
+    const url = links?.reference(reference);
+    const label = links?.label(reference) ?? `#${reference.number}`;
+    return url ? `[${label}](${url})` : label;
+  });
+  // Without a pull request to point at, the commit is the reference
+  if (refs.length === 0 && entry.commit.hash) {
+    const hash = shortHash(entry.commit.hash);
+    refs.push(links ? `[${hash}](${links.commit(entry.commit.hash)})` : hash);
+  }
+  const breaking = entry.breaking ? '**BREAKING:** ' : '';
+  const scope = entry.scope ? `**${entry.scope}:** ` : '';
+  const description = entry.description.charAt(0).toUpperCase() + entry.description.slice(1);
+  const line = `- ${breaking}${scope}${description}${refs.length > 0 ? ` (${refs.join(', ')})` : ''}`;
+  return entry.breakingNote ? `${line}\n  ${entry.breakingNote.replace(/\n/g, '\n  ')}` : line;
+}
+
+// Breaking changes first, then grouped by scope, unscoped changes leading
+const byImportance = (a: ChangeEntry, b: ChangeEntry) =>
+  Number(b.breaking) - Number(a.breaking) || (a.scope ?? '').localeCompare(b.scope ?? '');
+
+function releaseHeading(release: Release): string {
+  if (!release.version) return '## [Unreleased]';
+  return `## [${release.version}]${release.date ? ` - ${release.date}` : ''}`;
+}
+
+/**
+ * The changes of one release as a Keep a Changelog section, starting with
+ * its "## [version] - date" heading.
+ */
+export function renderRelease(release: Release, links?: ChangelogLinks): string {
+  const sections = CHANGE_CATEGORIES
+    .filter(category => release.changes[category]?.length)
+    .map(category => [
+      `### ${category}`,
+      '',
+      ...[...release.changes[category]].sort(byImportance).map(entry => entryLine(entry, links)),
+    ].join('\n'));
+  const body = sections.length > 0 ? sections.join('\n\n') : '_No user-facing changes._';
+  return `${releaseHeading(release)}\n\n${body}`;
+}
+
+/**
+ * A complete CHANGELOG.md in the Keep a Changelog format
+ * (https://keepachangelog.com/en/1.1.0/), with compare links between the
+ * releases when the repository's host supports them.
+ */
+export function renderChangelog(releases: Release[], links?: ChangelogLinks): string {
+  const intro = [
+    '# Changelog',
+    '',
+    'All notable changes to this project will be documented in this file.',
+    '',
+    'The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/),',
+    'and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).',
+  ].join('\n');
+
+  // Each release compares with the tag of the one before it
+  const compareLinks = links?.compare ? releases.flatMap((release, index) => {
+    const previous = releases.slice(index + 1).find(other => other.tag)?.tag;
+    const to = release.tag ?? 'HEAD';
+    return previous ? [`[${release.version ?? 'Unreleased'}]: ${links.compare(previous, to)}`] : [];
+  }) : [];
+
+  return [
+    intro,
+    ...releases.map(release => renderRelease(release, links)),
+    ...(compareLinks.length > 0 ? [compareLinks.join('\n')] : []),
+  ].join('\n\n') + '\n';
+}
@@ -0,0 +1,77 @@
+import { parseRepositoryUrl, RepositoryHostId, RepositoryLocation } from '@/utils/repository';
+import { CommitReference } from './types';
+
+interface HostLinks {
+  pull: (number: number) => string;
+  // Bitbucket Data Center has no issue tracker of its own
+  issue?: (number: number) => string;
+  commit: (hash: string) => string;
+  // Changes between two refs; `to` is "HEAD" for unreleased changes
+  compare?: (from: string, to: string) => string;
+  // GitLab writes merge requests as "!42"
+  pullPrefix?: string;
+}
+
+const LINKS: Record<RepositoryHostId, (web: string) => HostLinks> = {
+  'github': web => ({
+    pull: number => `${web}/pull/${number}`,
+    issue: number => `${web}/issues/${number}`,
+    commit: hash => `${web}/commit/${hash}`,
+    compare: (from, to) => `${web}/compare/${from}...${to}`,
+  }),
+  'gitlab': web => ({
+    pull: number => `${web}/-/merge_requests/${number}`,
+    issue: number => `${web}/-/issues/${number}`,
+    commit: hash => `${web}/-/commit/${hash}`,
+    compare: (from, to) => `${web}/-/compare/${from}...${to}`,
+    pullPrefix: '!',
+  }),
+  'bitbucket': web => ({
+    pull: number => `${web}/pull-requests/${number}`,
+    issue: number => `${web}/issues/${number}`,
+    commit: hash => `${web}/commits/${hash}`,
+  }),
+  'bitbucket-server': web => ({
+    pull: number => `${web}/pull-requests/${number}`,
+    commit: hash => `${web}/commits/${hash}`,
+  }),
+  'gitea': web => ({
+    pull: number => `${web}/pulls/${number}`,
+    issue: number => `${web}/issues/${number}`,
+    commit: hash => `${web}/commit/${hash}`,
+    compare: (from, to) => `${web}/compare/${from}...${to}`,
+  }),
+};
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+function webUrlOf(repo: RepositoryLocation): string {
+  return repo.host === 'bitbucket-server'
+    ? `${repo.baseUrl}/projects/${encodeURIComponent(repo.owner)}/repos/${encodeURIComponent(repo.name)}`
+    : `${repo.baseUrl}/${encodePath(repo.owner)}/${encodeURIComponent(repo.name)}`;
+}
+
+export interface ChangelogLinks {
+  // "#42", or "!42" for a GitLab merge request
+  label: (reference: CommitReference) => string;
+  reference: (reference: CommitReference) => string | undefined;
+  commit: (hash: string) => string;
+  compare?: (from: string, to: string) => string;
+}
+
+/**
+ * Link builders for a repository URL, e.g. the origin remote of a local
+ * repository. Undefined when the URL isn't a repository on a known host;
+ * the changelog is written without links then.
+ */
+export function changelogLinks(repositoryUrl?: string): ChangelogLinks | undefined {
+  const repo = repositoryUrl?.trim() ? parseRepositoryUrl(repositoryUrl) : null;
+  if (!repo) return undefined;
+  const links = LINKS[repo.host](webUrlOf(repo));
+  return {
+    label: reference => `${reference.kind === 'pull' ? links.pullPrefix ?? '#' : '#'}${reference.number}`,
+    reference: reference => reference.kind === 'pull' ? links.pull(reference.number) : links.issue?.(reference.number),
+    commit: links.commit,
+    compare: links.compare,
+  };
+}
@@ -0,0 +1,55 @@
+// Pull (merge) requests and issues are linked differently on every host
+export interface CommitReference {
+  kind: 'pull' | 'issue';
+  number: number;
+}
+
+/**
+ * One commit, read from `git log` output, a list of commit messages or the
+ * .git directory of a local repository.
+ */
+export interface Commit {
+  // Absent when only the message was given
+  hash?: string;
+  author?: string;
+  // ISO 8601
+  date?: string;
+  subject: string;
+  body: string;
+  // Tags pointing at this commit, e.g. "v1.2.0"
+  tags: string[];
+  // Only known for history read from a repository or `git log` output
+  parents?: string[];
+  merge: boolean;
+}
+
+/**
+ * A commit message read as a Conventional Commit, e.g.
+ * "feat(parser)!: drop the legacy syntax (#42)". Messages that don't follow
+ * the convention have no type and keep their whole subject as the description.
+ */
+export interface ChangeEntry {
+  commit: Commit;
+  type?: string;
+  scope?: string;
+  description: string;
+  breaking: boolean;
+  // Text of a BREAKING CHANGE footer
+  breakingNote?: string;
+  references: CommitReference[];
+}
+
+// The sections Keep a Changelog defines, in the order it lists them
+export type ChangeCategory = 'Added' | 'Changed' | 'Deprecated' | 'Removed' | 'Fixed' | 'Security';
+
+export interface Release {
+  // Without a leading "v", e.g. "1.2.0"; absent for unreleased changes
+  version?: string;
+  // The tag as written in the repository, used for compare links
+  tag?: string;
+  // YYYY-MM-DD
+  date?: string;
+  changes: Partial<Record<ChangeCategory, ChangeEntry[]>>;
+  // Documentation, tests, CI and other changes users don't notice
+  internal: ChangeEntry[];
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import {
+  addAdr,
+  adrFileName,
+  adrId,
+  exportAdrLog,
+  nextAdrNumber,
+  parseAdrFile,
+  readAdrFiles,
+  renderAdrIndex,
+  withStatus,
+} from './adrLog';
+import { AdrRecord } from './types';
+
+const adr = (number: number, title: string, fields: Partial<AdrRecord> = {}): AdrRecord => ({
+  number,
+  title,
+  status: 'accepted',
+  fileName: adrFileName(number, title),
+  content: `# ${title}\n\n## Status\n\naccepted\n`,
+  ...fields,
+});
+
+const pickedFile = (path: string, content: string) => {
+  const file = new File([content], path.split('/').pop()!);
+  Object.defineProperty(file, 'webkitRelativePath', { value: path });
+  return file;
+};
+
+describe('ADR numbering', () => {
+  it('pads numbers to four digits in ids and file names', () => {
+    expect(adrId(7)).toBe('ADR-0007');
+    expect(adrId(12345)).toBe('ADR-12345');
+    expect(adrFileName(7, 'Use PostgreSQL')).toBe('0007-use-postgresql.md');
+  });
+
+  it('slugifies titles to plain ASCII', () => {
+    expect(adrFileName(1, 'Café: ship the "über" API / v2!')).toBe('0001-cafe-ship-the-uber-api-v2.md');
+    expect(adrFileName(2, '???')).toBe('0002-decision.md');
+    expect(adrFileName(3, 'a '.repeat(40))).toMatch(/^0003-(a-)*a\.md$/);
+  });
+
+  it('takes the number after the highest one, even with gaps', () => {
+    expect(nextAdrNumber([])).toBe(1);
+    expect(nextAdrNumber([adr(1, 'First'), adr(5, 'Fifth'), adr(3, 'Third')])).toBe(6);
+  });
+});
+
+describe('parseAdrFile', () => {
+  it('reads MADR front matter', () => {
+    const content = '---\nstatus: "accepted"\ndate: 2026-03-01\n---\n# Use PostgreSQL\n\nContext.';
+
+    expect(parseAdrFile('docs/adr/0007-use-postgresql.md', content)).toEqual({
+      number: 7,
+      title: 'Use PostgreSQL',
+      status: 'accepted',
+      date: '2026-03-01',
+      fileName: '0007-use-postgresql.md',
+      content,
+    });
+  });
+
+  it('reads MADR 2 status lines and numbered headings', () => {
+    expect(parseAdrFile('0002-queue.md', '# ADR-0002: Use a queue\n\n* Status: proposed\n* Date: 2026-01-05\n'))
+      .toMatchObject({ number: 2, title: 'Use a queue', status: 'proposed', date: '2026-01-05' });
+  });
+
+  it('reads Nygard status sections', () => {
+    expect(parseAdrFile('0003-record-decisions.md', '# 3. Record decisions\n\nDate: 2026-01-02\n\n## Status\n\nSuperseded by 4\n'))
+      .toMatchObject({ number: 3, title: 'Record decisions', status: 'Superseded by 4', date: '2026-01-02' });
+  });
+
+  it('falls back to the file name and an unknown status', () => {
+    expect(parseAdrFile('0004-split-the-monolith.md', 'No heading here.'))
+      .toMatchObject({ title: 'split the monolith', status: 'unknown', date: undefined });
+  });
+
+  it('skips files that are not named like ADRs', () => {
+    expect(parseAdrFile('docs/adr/README.md', '# Index')).toBeUndefined();
+    expect(parseAdrFile('docs/adr/template.md', '# Title')).toBeUndefined();
+  });
+});
+
+describe('readAdrFiles', () => {
+  it('reads the ADRs among the picked files in number order', async () => {
+    const records = await readAdrFiles([
+      pickedFile('adr/0010-cache.md', '# Cache'),
+      pickedFile('adr/README.md', '# Index'),
+      pickedFile('adr\\0002-queue.md', '# Queue'),
+    ]);
+
+    expect(records.map(record => [record.number, record.title])).toEqual([[2, 'Queue'], [10, 'Cache']]);
+  });
+});
+
+describe('withStatus', () => {
+  it('replaces the status in front matter and quotes values YAML would misread', () => {
+    expect(withStatus('---\nstatus: accepted\n---\n# Title', 'superseded by [ADR-0002](0002-b.md)'))
+      .toBe('---\nstatus: "superseded by [ADR-0002](0002-b.md)"\n---\n# Title');
+  });
+
+  it('adds a status to front matter without one', () => {
+    expect(withStatus('---\ndate: 2026-01-01\n---\n# Title', 'deprecated'))
+      .toBe('---\ndate: 2026-01-01\nstatus: deprecated\n---\n# Title');
+  });
+
+  it('replaces MADR 2 status lines and Nygard status sections', () => {
+    expect(withStatus('# Title\n\n* Status: proposed\n', 'accepted')).toBe('# Title\n\n* Status: accepted\n');
+    expect(withStatus('# Title\n\n## Status\n\nproposed\n\n## Context\n', 'accepted'))
+      .toBe('# Title\n\n## Status\n\naccepted\n\n## Context\n');
+  });
+
+  it('leaves content without a status alone', () => {
+    expect(withStatus('# Title\n\nJust text.', 'accepted')).toBe('# Title\n\nJust text.');
+  });
+});
+
+describe('addAdr', () => {
+  it('adds the record in number order', () => {
+    const records = addAdr([adr(1, 'First'), adr(3, 'Third')], adr(2, 'Second'));
+
+    expect(records.map(record => record.number)).toEqual([1, 2, 3]);
+  });
+
+  it('replaces a record with the same number', () => {
+    const records = addAdr([adr(1, 'First')], adr(1, 'First, revised'));
+
+    expect(records.map(record => record.title)).toEqual(['First, revised']);
+  });
+
+  it('marks the superseded ADR and links it to the new one', () => {
+    const first = adr(1, 'Use MySQL');
+    const second = adr(2, 'Use PostgreSQL');
+
+    const [superseded, replacement] = addAdr([first], second, 1);
+
+    expect(superseded.status).toBe('superseded by ADR-0002');
+    expect(superseded.content).toBe('# Use MySQL\n\n## Status\n\nsuperseded by [ADR-0002](0002-use-postgresql.md)\n');
+    expect(replacement).toBe(second);
+  });
+
+  it('does not change the existing records', () => {
+    const first = adr(1, 'Use MySQL');
+
+    addAdr([first], adr(2, 'Use PostgreSQL'), 1);
+
+    expect(first.status).toBe('accepted');
+  });
+});
+
+describe('renderAdrIndex', () => {
+  it('lists every ADR with a link, escaping table characters', () => {
+    const index = renderAdrIndex([
+      adr(1, 'Use MySQL', { status: 'superseded by ADR-0002', date: '2026-01-01' }),
+      adr(2, 'Read | write split'),
+    ]);
+
+    expect(index).toContain('| [ADR-0001](0001-use-mysql.md) | Use MySQL | superseded by ADR-0002 | 2026-01-01 |');
+    expect(index).toContain('| [ADR-0002](0002-read-write-split.md) | Read \\| write split | accepted |  |');
+  });
+});
+
+describe('exportAdrLog', () => {
+  it('packs every ADR and the index under the directory', async () => {
+    const blob = exportAdrLog([adr(1, 'Use MySQL')], 'architecture/decisions');
+    const files = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(blob.type).toBe('application/zip');
+    expect(Object.keys(files).sort()).toEqual(['architecture/decisions/0001-use-mysql.md', 'architecture/decisions/README.md']);
+    expect(strFromU8(files['architecture/decisions/README.md'])).toContain('[ADR-0001](0001-use-mysql.md)');
+  });
+});
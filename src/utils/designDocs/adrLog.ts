@@ -0,0 +1,139 @@
+import { strToU8, zipSync, Zippable } from 'fflate';
+import { AdrRecord } from './types';
+
+// "0007-use-postgresql.md", the naming adr-tools and MADR use
+const ADR_FILE = /(?:^|\/)(\d{1,5})-[^/]+\.md$/i;
+
+export const DEFAULT_ADR_DIRECTORY = 'docs/adr';
+
+export const adrId = (number: number) => `ADR-${String(number).padStart(4, '0')}`;
+
+const slugify = (title: string) => title
+  .toLowerCase()
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '')
+  .slice(0, 60)
+  .replace(/-+$/, '') || 'decision';
+
+export const adrFileName = (number: number, title: string) => `${String(number).padStart(4, '0')}-${slugify(title)}.md`;
+
+export const nextAdrNumber = (records: AdrRecord[]) => Math.max(0, ...records.map(record => record.number)) + 1;
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---/;
+
+/**
+ * Reads an existing ADR file, in MADR (with or without front matter) or
+ * Michael Nygard's format. Files not named like "0007-title.md" aren't ADRs.
+ */
+export function parseAdrFile(path: string, content: string): AdrRecord | undefined {
+  const match = ADR_FILE.exec(path);
+  if (!match) return undefined;
+  const frontMatter = FRONT_MATTER.exec(content)?.[1] ?? '';
+  const field = (name: string) => new RegExp(`^${name}:\\s*(.+)$`, 'mi').exec(frontMatter)?.[1]?.trim().replace(/^["']|["']$/g, '');
+
+  const heading = /^#\s+(.+)$/m.exec(content.replace(FRONT_MATTER, ''))?.[1] ?? '';
+  const fileName = path.split('/').pop();
+  const status = field('status')
+    // MADR 2 writes "* Status: accepted"; Nygard has a "## Status" section
+    ?? /^[*-]?\s*Status:\s*(.+)$/mi.exec(content)?.[1]
+    ?? /^##\s*Status\s*\n+(.+)$/mi.exec(content)?.[1];
+  const date = field('date') ?? /^[*-]?\s*Date:\s*(\d{4}-\d{2}-\d{2})/mi.exec(content)?.[1];
+
+  return {
+    number: Number(match[1]),
+    // "ADR-0007: Title" and "7. Title" headings are numbered already
+    title: heading.replace(/^(ADR[- ]?\d+\s*[:.-]\s*|\d+\.\s+)/i, '').trim() || fileName.replace(/^\d+-|\.md$/gi, '').replace(/-/g, ' '),
+    status: status?.trim().replace(/\s*[*_]+$/, '') || 'unknown',
+    date,
+    fileName,
+    content,
+  };
+}
+
+/**
+ * Reads the ADRs among files picked from a folder, e.g. docs/adr. Other
+ * files, such as the index or a template, are skipped.
+ */
+export async function readAdrFiles(files: File[]): Promise<AdrRecord[]> {
+  const records = await Promise.all(files.map(async file => {
+    const path = (file.webkitRelativePath || file.name).replace(/\\/g, '/');
+    return ADR_FILE.test(path) ? parseAdrFile(path, await file.text()) : undefined;
+  }));
+  return records.filter(Boolean).sort((a, b) => a.number - b.number);
+}
+
+// YAML needs quotes around values with a colon or a link
+const yamlValue = (value: string) => /[:[\]#]/.test(value) ? JSON.stringify(value) : value;
+
+/**
+ * Changes the status written in an ADR file, wherever its format keeps it.
+ */
+export function withStatus(content: string, status: string): string {
+  if (FRONT_MATTER.test(content)) {
+    return content.replace(FRONT_MATTER, block => /^status:/mi.test(block)
+      ? block.replace(/^status:.*$/mi, `status: ${yamlValue(status)}`)
+      : block.replace(/\r?\n---$/, `\nstatus: ${yamlValue(status)}\n---`));
+  }
+  if (/^[*-]?\s*Status:/mi.test(content)) {
+    return content.replace(/^([*-]?\s*Status:\s*).*$/mi, `$1${status}`);
+  }
+  if (/^##\s*Status\s*\n+.+$/mi.test(content)) {
+    return content.replace(/^(##\s*Status\s*\n+).+$/mi, `$1${status}`);
+  }
+  return content;
+}
+
+/**
+ * Adds a new ADR to the log. When it supersedes an earlier one, that ADR
+ * is kept but its status points to the new decision.
+ */
+export function addAdr(records: AdrRecord[], record: AdrRecord, supersedes?: number): AdrRecord[] {
+  const updated = records
+    .filter(existing => existing.number !== record.number)
+    .map(existing => existing.number === supersedes
+      ? {
+        ...existing,
+        status: `superseded by ${adrId(record.number)}`,
+        content: withStatus(existing.content, `superseded by [${adrId(record.number)}](${record.fileName})`),
+      }
+      : existing);
+  return [...updated, record].sort((a, b) => a.number - b.number);
+}
+
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/**
+ * The index of the decision log, kept as README.md next to the ADRs so
+ * Git hosts show it when the directory is opened.
+ */
+export function renderAdrIndex(records: AdrRecord[]): string {
+  const rows = records.map(record =>
+    `| [${adrId(record.number)}](${record.fileName}) | ${cell(record.title)} | ${cell(record.status)} | ${record.date ?? ''} |`);
+  return [
+    '# Architecture Decision Records',
+    '',
+    'Architecturally significant decisions of this project, one numbered file per decision.',
+    'New decisions take the next number; superseded decisions are kept and link to the decision that replaced them.',
+    '',
+    '| ADR | Decision | Status | Date |',
+    '| --- | --- | --- | --- |',
+    ...rows,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Packs the decision log as a zip: every ADR plus the index, under
+ * `directory` so it can be unpacked at the repository root.
+ */
+export function exportAdrLog(records: AdrRecord[], directory = DEFAULT_ADR_DIRECTORY): Blob {
+  const zippable: Zippable = {};
+  for (const record of records) {
+    zippable[`${directory}/${record.fileName}`] = strToU8(record.content);
+  }
+  zippable[`${directory}/README.md`] = strToU8(renderAdrIndex(records));
+  // fflate types the result with a generic buffer, which Blob does not accept
+  return new Blob([zipSync(zippable) as BlobPart], { type: 'application/zip' });
+}
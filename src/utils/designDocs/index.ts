@@ -0,0 +1,22 @@
+export type {
+  AdrRecord,
+  DesignDocAnswers,
+  DesignDocField,
+  DesignDocKind,
+  DesignDocTemplate,
+  TemplateSection,
+} from './types';
+export { DESIGN_DOC_TEMPLATES, isDesignDocKind } from './templates';
+export { renderDesignDoc } from './render';
+export {
+  addAdr,
+  adrFileName,
+  adrId,
+  DEFAULT_ADR_DIRECTORY,
+  exportAdrLog,
+  nextAdrNumber,
+  parseAdrFile,
+  readAdrFiles,
+  renderAdrIndex,
+  withStatus,
+} from './adrLog';
@@ -0,0 +1,54 @@
+import { AdrRecord, DesignDocAnswers, DesignDocTemplate } from './types';
+
+// Drafted sections sometimes repeat their heading; the template adds it already
+const withoutHeading = (content: string, heading: string) =>
+  content.trim().replace(new RegExp(`^#{1,6}\\s*${heading.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\n+`, 'i'), '').trim();
+
+function metadata(template: DesignDocTemplate, answers: DesignDocAnswers): string {
+  if (template.kind === 'adr') {
+    // MADR keeps the metadata in YAML front matter
+    return [
+      '---',
+      `status: ${answers.status}`,
+      `date: ${answers.date}`,
+      ...(answers.people.trim() ? [`decision-makers: ${answers.people.trim()}`] : []),
+      '---',
+      '',
+      '',
+    ].join('\n');
+  }
+  return '';
+}
+
+function byline(template: DesignDocTemplate, answers: DesignDocAnswers): string {
+  if (template.kind === 'adr') return '';
+  const capitalised = answers.status.charAt(0).toUpperCase() + answers.status.slice(1);
+  return [
+    `- **Status:** ${capitalised}`,
+    ...(answers.people.trim() ? [`- **Authors:** ${answers.people.trim()}`] : []),
+    `- **Date:** ${answers.date}`,
+  ].join('\n') + '\n\n';
+}
+
+/**
+ * Puts a document together from the template, the form answers and the
+ * sections the model drafted. Headings and metadata always come from the
+ * template, so the document keeps its format whatever the model returns.
+ */
+export function renderDesignDoc(
+  template: DesignDocTemplate,
+  answers: DesignDocAnswers,
+  drafts: Record<string, string>,
+  supersedes?: AdrRecord
+): string {
+  const sections = template.sections.flatMap(section => {
+    let content = section.fromAnswers ? section.fromAnswers(answers) : withoutHeading(drafts[section.id] ?? '', section.heading);
+    if (section.id === 'moreInformation' && supersedes) {
+      content = [`Supersedes [ADR-${String(supersedes.number).padStart(4, '0')}](${supersedes.fileName}).`, content]
+        .filter(Boolean)
+        .join('\n\n');
+    }
+    return content.trim() ? [`${'#'.repeat(section.level ?? 2)} ${section.heading}\n\n${content.trim()}`] : [];
+  });
+  return `${metadata(template, answers)}# ${answers.title.trim()}\n\n${byline(template, answers)}${sections.join('\n\n')}\n`;
+}
@@ -0,0 +1,178 @@
+import { DesignDocKind, DesignDocTemplate } from './types';
+
+const bullets = (items: string[]) => items.map(item => `* ${item}`).join('\n');
+
+const ADR_TEMPLATE: DesignDocTemplate = {
+  kind: 'adr',
+  label: 'Architecture Decision Record',
+  format: 'Architecture Decision Record (ADR) in the MADR format (https://adr.github.io/madr/)',
+  statuses: ['proposed', 'accepted', 'rejected', 'deprecated'],
+  fields: {
+    title: { label: 'Decision', placeholder: 'Short title of the problem and its solution, e.g. "Use PostgreSQL for persistence"' },
+    people: { label: 'Decision Makers', placeholder: 'Names, comma separated' },
+    context: { label: 'Context and Problem Statement', placeholder: 'What is the situation, and what question does the decision answer?' },
+    drivers: { label: 'Decision Drivers', placeholder: 'One per line, e.g. "Must support transactions"' },
+    options: { label: 'Considered Options', placeholder: 'One per line' },
+    chosenOption: { label: 'Chosen Option', placeholder: 'Leave empty while the decision is open' },
+    rationale: { label: 'Justification', placeholder: 'Why this option beats the others' },
+    consequences: { label: 'Consequences', placeholder: 'What becomes easier or harder because of the decision' },
+  },
+  sections: [
+    {
+      id: 'context',
+      heading: 'Context and Problem Statement',
+      guidance: 'Two to four paragraphs describing the situation and the problem, ending with the question the decision answers. Mention the parts of the related code that are affected.',
+    },
+    {
+      id: 'drivers',
+      heading: 'Decision Drivers',
+      guidance: 'Given by the answers.',
+      fromAnswers: answers => bullets(answers.drivers),
+    },
+    {
+      id: 'options',
+      heading: 'Considered Options',
+      guidance: 'Given by the answers.',
+      fromAnswers: answers => bullets(answers.options),
+    },
+    {
+      id: 'outcome',
+      heading: 'Decision Outcome',
+      guidance: 'Start with: Chosen option: "<option>", because <justification>. Refer to the decision drivers it satisfies. When no option is chosen yet, say the decision is open and what is needed to make it.',
+    },
+    {
+      id: 'consequences',
+      heading: 'Consequences',
+      level: 3,
+      guidance: 'A bullet list where every item starts with "Good, because" or "Bad, because".',
+    },
+    {
+      id: 'prosAndCons',
+      heading: 'Pros and Cons of the Options',
+      guidance: 'For every considered option, a "### <option>" heading, one sentence describing it, then bullets starting with "Good, because", "Neutral, because" or "Bad, because".',
+    },
+    {
+      id: 'moreInformation',
+      heading: 'More Information',
+      guidance: 'How and when the decision should be revisited, and the related code or decisions. Leave empty when there is nothing to add.',
+    },
+  ],
+};
+
+const RFC_TEMPLATE: DesignDocTemplate = {
+  kind: 'rfc',
+  label: 'Request for Comments',
+  format: 'Request for Comments (RFC) that proposes a change for review',
+  statuses: ['draft', 'in review', 'accepted', 'rejected', 'implemented', 'withdrawn'],
+  fields: {
+    title: { label: 'Proposal', placeholder: 'Short title of the proposed change' },
+    people: { label: 'Authors', placeholder: 'Names, comma separated' },
+    context: { label: 'Motivation', placeholder: 'Why is the change needed? What problem or use case does it address?' },
+    drivers: { label: 'Goals', placeholder: 'One per line' },
+    options: { label: 'Alternatives', placeholder: 'One per line, including the proposed approach' },
+    chosenOption: { label: 'Proposed Approach', placeholder: 'The alternative this RFC proposes' },
+    rationale: { label: 'Rationale', placeholder: 'Why this approach over the alternatives' },
+    consequences: { label: 'Drawbacks', placeholder: 'Costs, risks and reasons not to do this' },
+  },
+  sections: [
+    {
+      id: 'summary',
+      heading: 'Summary',
+      guidance: 'One paragraph explaining the proposal.',
+    },
+    {
+      id: 'motivation',
+      heading: 'Motivation',
+      guidance: 'Why the change is needed, the use cases it supports and the outcome it should have.',
+    },
+    {
+      id: 'goals',
+      heading: 'Goals',
+      guidance: 'Given by the answers.',
+      fromAnswers: answers => bullets(answers.drivers),
+    },
+    {
+      id: 'design',
+      heading: 'Detailed Design',
+      guidance: 'The proposed approach in enough detail to review and implement it: components, interfaces and data involved, with short code or API examples based on the related code.',
+    },
+    {
+      id: 'drawbacks',
+      heading: 'Drawbacks',
+      guidance: 'Why we might not want to do this, from the drawbacks given.',
+    },
+    {
+      id: 'alternatives',
+      heading: 'Rationale and Alternatives',
+      guidance: 'Why the proposed approach is the best of the alternatives, and for each other alternative what it is and why it was not chosen.',
+    },
+    {
+      id: 'unresolved',
+      heading: 'Unresolved Questions',
+      guidance: 'A bullet list of the questions to settle during review or implementation.',
+    },
+  ],
+};
+
+const DESIGN_TEMPLATE: DesignDocTemplate = {
+  kind: 'design',
+  label: 'Design Document',
+  format: 'software design document describing how a system or feature will be built',
+  statuses: ['draft', 'in review', 'approved', 'implemented', 'obsolete'],
+  fields: {
+    title: { label: 'Title', placeholder: 'Name of the system or feature' },
+    people: { label: 'Authors', placeholder: 'Names, comma separated' },
+    context: { label: 'Context and Scope', placeholder: 'What is being built, for whom, and what is around it?' },
+    drivers: { label: 'Goals and Requirements', placeholder: 'One per line; prefix non-goals with "Non-goal:"' },
+    options: { label: 'Approaches Considered', placeholder: 'One per line' },
+    chosenOption: { label: 'Chosen Approach', placeholder: 'The approach the design uses' },
+    rationale: { label: 'Rationale', placeholder: 'Why this approach' },
+    consequences: { label: 'Risks and Trade-offs', placeholder: 'What could go wrong, and what the design gives up' },
+  },
+  sections: [
+    {
+      id: 'context',
+      heading: 'Context and Scope',
+      guidance: 'The background and the boundaries of the system or feature, including the existing code it builds on.',
+    },
+    {
+      id: 'goals',
+      heading: 'Goals and Non-Goals',
+      guidance: 'A "Goals" bullet list and a "Non-goals" bullet list, from the goals given. List non-goals only when given.',
+    },
+    {
+      id: 'overview',
+      heading: 'Overview',
+      guidance: 'A short overview of the chosen approach that a new team member could follow.',
+    },
+    {
+      id: 'design',
+      heading: 'Detailed Design',
+      guidance: 'Components, data model, APIs and interactions, with sub-headings where useful and short examples based on the related code.',
+    },
+    {
+      id: 'alternatives',
+      heading: 'Alternatives Considered',
+      guidance: 'Every other approach, with its trade-offs and why it was not chosen.',
+    },
+    {
+      id: 'crossCutting',
+      heading: 'Cross-Cutting Concerns',
+      guidance: 'Security, privacy, performance, observability and migration, each only when the design affects it.',
+    },
+    {
+      id: 'risks',
+      heading: 'Risks and Trade-offs',
+      guidance: 'A bullet list of the risks and trade-offs, with mitigations where known.',
+    },
+  ],
+};
+
+export const DESIGN_DOC_TEMPLATES: Record<DesignDocKind, DesignDocTemplate> = {
+  adr: ADR_TEMPLATE,
+  rfc: RFC_TEMPLATE,
+  design: DESIGN_TEMPLATE,
+};
+
+export const isDesignDocKind = (value: string): value is DesignDocKind =>
+  Object.keys(DESIGN_DOC_TEMPLATES).includes(value);
@@ -0,0 +1,60 @@
+// Architecture Decision Record (MADR), request for comments or design document
+export type DesignDocKind = 'adr' | 'rfc' | 'design';
+
+/**
+ * The answers of the guided form. Every template asks the same questions,
+ * worded for the kind of document.
+ */
+export interface DesignDocAnswers {
+  title: string;
+  status: string;
+  // YYYY-MM-DD
+  date: string;
+  // Decision makers of an ADR, authors of an RFC or design doc; comma separated
+  people: string;
+  context: string;
+  // Decision drivers, goals or requirements, one per entry
+  drivers: string[];
+  options: string[];
+  // One of `options`; empty while the decision is still open
+  chosenOption: string;
+  rationale: string;
+  consequences: string;
+  // ADRs only: the number of an earlier ADR this decision replaces
+  supersedes?: number;
+}
+
+export type DesignDocField = 'title' | 'people' | 'context' | 'drivers' | 'options' | 'chosenOption' | 'rationale' | 'consequences';
+
+export interface TemplateSection {
+  id: string;
+  heading: string;
+  // Sub-sections, e.g. MADR's "Consequences" under "Decision Outcome"
+  level?: 2 | 3;
+  // What the section should say, sent to the model with the answers
+  guidance: string;
+  // Sections written from the answers as they are; the model only drafts the others
+  fromAnswers?: (answers: DesignDocAnswers) => string;
+}
+
+export interface DesignDocTemplate {
+  kind: DesignDocKind;
+  label: string;
+  // Names the format for the model, e.g. "Architecture Decision Record in the MADR format"
+  format: string;
+  statuses: string[];
+  fields: Record<DesignDocField, { label: string; placeholder: string }>;
+  sections: TemplateSection[];
+}
+
+/**
+ * One numbered ADR file of a decision log, e.g. "0007-use-postgresql.md".
+ */
+export interface AdrRecord {
+  number: number;
+  title: string;
+  status: string;
+  date?: string;
+  fileName: string;
+  content: string;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { analyseCoverage, selectCoverageFiles } from './analyse';
+import * as symbols from '@/utils/symbols';
+
+const SERVICE = `/**
+ * Stores users.
+ */
+export class UserService {
+  /**
+   * Finds a user.
+   * @param id The user id.
+   */
+  find(id: string): User {
+    return null;
+  }
+
+  remove(id: string): void {}
+}
+
+/**
+ * Formats a name.
+ * @param name The name.
+ * @returns The formatted name.
+ */
+export function format(name: string): string {
+  return name;
+}`;
+
+describe('selectCoverageFiles', () => {
+  it('skips dependencies, tests and languages without a parser', () => {
+    const paths = ['src/app.ts', 'src/app.test.ts', 'node_modules/lib/index.js', 'main.go', 'lib/tool.py'];
+
+    expect(selectCoverageFiles(paths)).toEqual({ paths: ['src/app.ts', 'lib/tool.py'], total: 2 });
+  });
+});
+
+describe('analyseCoverage', () => {
+  it('rates each public function, class and method', async () => {
+    const report = await analyseCoverage([{ path: 'src/users.ts', content: SERVICE }]);
+
+    expect(report.modules[0].files[0].symbols.map(({ name, status, missing }) => ({ name, status, missing }))).toEqual([
+      { name: 'UserService', status: 'documented', missing: [] },
+      { name: 'UserService.find', status: 'partial', missing: ['return value'] },
+      { name: 'UserService.remove', status: 'undocumented', missing: [] },
+      { name: 'format', status: 'documented', missing: [] },
+    ]);
+    expect(report).toMatchObject({ total: 4, documented: 2, partial: 1, undocumented: 1, percent: 50 });
+  });
+
+  it('groups files by directory and counts a file without symbols as covered', async () => {
+    const report = await analyseCoverage([
+      { path: 'src/users.ts', content: SERVICE },
+      { path: 'index.ts', content: 'export const VERSION = "1.0";' },
+      { path: 'README.md', content: '# Readme' },
+    ]);
+
+    expect(report.modules.map(module => [module.path, module.percent])).toEqual([['.', 100], ['src', 50]]);
+  });
+
+  it('reports files that fail to parse and keeps going', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const extract = vi.spyOn(symbols, 'extractSymbols').mockRejectedValueOnce(new Error('parser crashed'));
+
+    const report = await analyseCoverage([
+      { path: 'broken.py', content: 'def broken(' },
+      { path: 'ok.py', content: 'def ok():\n    """Fine."""\n' },
+    ]);
+
+    expect(report.failed).toEqual(['broken.py']);
+    expect(report.modules[0].files.map(file => file.path)).toEqual(['ok.py']);
+    extract.mockRestore();
+  });
+});
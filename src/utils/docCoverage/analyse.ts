@@ -0,0 +1,90 @@
+import { sourceLanguageOf } from '@/utils/docSite';
+import { extractSymbols, isSymbolLanguage, publicSymbols, SymbolKind } from '@/utils/symbols';
+import { assessDocumentation } from './assess';
+import { CoverageCounts, CoverageReport, CoverageSource, FileCoverage, ModuleCoverage, SymbolCoverage } from './types';
+
+// Parsing is local, but reading files from a Git host is one request each
+export const MAX_COVERAGE_FILES = 400;
+
+const COVERED_KINDS: SymbolKind[] = ['function', 'class', 'method'];
+
+/**
+ * The project files the report covers: sources in a language with a
+ * parser, outside dependencies, build output and tests.
+ */
+export function selectCoverageFiles(paths: string[]): { paths: string[]; total: number } {
+  const candidates = paths.filter(path => {
+    const language = sourceLanguageOf(path);
+    return language !== undefined && isSymbolLanguage(language);
+  });
+  return { paths: candidates.slice(0, MAX_COVERAGE_FILES), total: candidates.length };
+}
+
+const countsOf = (symbols: SymbolCoverage[]): CoverageCounts => {
+  const count = (status: SymbolCoverage['status']) => symbols.filter(symbol => symbol.status === status).length;
+  const documented = count('documented');
+  return {
+    total: symbols.length,
+    documented,
+    partial: count('partial'),
+    undocumented: count('undocumented'),
+    percent: symbols.length === 0 ? 100 : Math.round((documented / symbols.length) * 100),
+  };
+};
+
+const directoryOf = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '.');
+
+/**
+ * Parses every source and rates the docs of each public function, class
+ * and method, with totals per file, per directory and overall.
+ */
+export async function analyseCoverage(sources: CoverageSource[]): Promise<CoverageReport> {
+  const files: FileCoverage[] = [];
+  const failed: string[] = [];
+
+  for (const source of sources) {
+    const language = source.language ?? sourceLanguageOf(source.path);
+    if (!language || !isSymbolLanguage(language)) continue;
+
+    let inventory;
+    try {
+      inventory = await extractSymbols(source.content, language);
+    } catch (error) {
+      console.error(`Error parsing ${source.path}:`, error);
+      failed.push(source.path);
+      continue;
+    }
+    if (!inventory) continue;
+
+    const symbols: SymbolCoverage[] = [];
+    for (const symbol of publicSymbols(inventory)) {
+      if (COVERED_KINDS.includes(symbol.kind)) {
+        symbols.push({ name: symbol.name, kind: symbol.kind, line: symbol.startLine, symbol, ...assessDocumentation(symbol, language) });
+      }
+      // Interface members are covered by the interface's own docs
+      if (symbol.kind !== 'class') continue;
+      for (const member of symbol.children.filter(child => COVERED_KINDS.includes(child.kind))) {
+        symbols.push({
+          name: `${symbol.name}.${member.name}`,
+          kind: member.kind,
+          line: member.startLine,
+          symbol: member,
+          parent: symbol,
+          ...assessDocumentation(member, language),
+        });
+      }
+    }
+    files.push({ path: source.path, language, content: source.content, inventory, symbols, ...countsOf(symbols) });
+  }
+
+  const byDirectory = new Map<string, FileCoverage[]>();
+  for (const file of [...files].sort((a, b) => a.path.localeCompare(b.path))) {
+    const directory = directoryOf(file.path);
+    byDirectory.set(directory, [...(byDirectory.get(directory) ?? []), file]);
+  }
+  const modules: ModuleCoverage[] = [...byDirectory.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([path, moduleFiles]) => ({ path, files: moduleFiles, ...countsOf(moduleFiles.flatMap(file => file.symbols)) }));
+
+  return { modules, failed, ...countsOf(files.flatMap(file => file.symbols)) };
+}
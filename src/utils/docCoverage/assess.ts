@@ -0,0 +1,36 @@
+import { CodeSymbol, SymbolLanguage } from '@/utils/symbols';
+import { commentParams, commentReturns } from './docComments';
+import { DocStatus } from './types';
+
+// Declared return types that leave nothing to describe
+const NO_RESULT = /^(void|undefined|never|None|Promise<void>|Promise<undefined>|Task|ValueTask)$/;
+
+export const returnsNothing = (returnType: string) => NO_RESULT.test(returnType.trim());
+
+// Destructured parameters have no single name to document
+export const isNamedParam = (name: string) => /^[\w$]+$/.test(name);
+
+/**
+ * Rates a symbol's doc comment: none at all, one that leaves parameters or
+ * the return value undescribed, or a complete one. Return values only
+ * count when the code declares a return type.
+ */
+export function assessDocumentation(symbol: CodeSymbol, language: SymbolLanguage): { status: DocStatus; missing: string[] } {
+  const doc = symbol.docComment?.trim();
+  if (!doc) {
+    return { status: 'undocumented', missing: [] };
+  }
+  if (symbol.kind !== 'function' && symbol.kind !== 'method' && symbol.kind !== 'constructor') {
+    return { status: 'documented', missing: [] };
+  }
+
+  const described = new Set(commentParams(doc, language).map(param => param.name));
+  const missing = symbol.params
+    .filter(param => isNamedParam(param.name) && !described.has(param.name))
+    .map(param => `parameter ${param.name}`);
+  const returnType = symbol.returnType?.trim();
+  if (symbol.kind !== 'constructor' && returnType && !returnsNothing(returnType) && !commentReturns(doc, language)) {
+    missing.push('return value');
+  }
+  return { status: missing.length > 0 ? 'partial' : 'documented', missing };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { commentExamples, commentParams, commentReturns } from './docComments';
+
+describe('commentParams', () => {
+  it('reads JSDoc tags with types, optional names and nested fields', () => {
+    const doc = '@param {string} id The id.\n@param [limit=10] Page size.\n@param options.verbose Log more.';
+
+    expect(commentParams(doc, 'javascript')).toEqual([
+      { name: 'id', type: 'string' },
+      { name: 'limit', type: undefined },
+      { name: 'options', type: undefined },
+    ]);
+  });
+
+  it('reads Google, NumPy and Sphinx docstrings', () => {
+    const google = 'Sums values.\n\nArgs:\n    values (list[int]): The values.\n    **kwargs: Ignored.\n\nReturns:\n    int: The total.';
+    const numpy = 'Sums values.\n\nParameters\n----------\nvalues : list\n    The values.';
+    const sphinx = ':param values: The values.\n:type values: list\n:param int start: First index.';
+
+    expect(commentParams(google, 'python')).toEqual([
+      { name: 'values', type: 'list[int]' },
+      { name: 'kwargs', type: undefined },
+    ]);
+    expect(commentParams(numpy, 'python')).toEqual([{ name: 'values', type: 'list' }]);
+    expect(commentParams(sphinx, 'python')).toEqual([
+      { name: 'values', type: 'list' },
+      { name: 'start', type: 'int' },
+    ]);
+  });
+
+  it('reads C# <param> elements', () => {
+    expect(commentParams('<summary>Saves.</summary>\n<param name="item">The item.</param>', 'csharp'))
+      .toEqual([{ name: 'item' }]);
+  });
+});
+
+describe('commentReturns', () => {
+  it('finds the documented return value and its type', () => {
+    expect(commentReturns('@returns {number} The total.', 'javascript')).toEqual({ type: 'number' });
+    expect(commentReturns('@return The total.', 'java')).toEqual({ type: undefined });
+    expect(commentReturns('Returns:\n    int: The total.', 'python')).toEqual({ type: 'int' });
+    expect(commentReturns(':rtype: str', 'python')).toEqual({ type: 'str' });
+    expect(commentReturns('<returns>The total.</returns>', 'csharp')).toEqual({});
+  });
+
+  it('is undefined when no return value is described', () => {
+    expect(commentReturns('Sums the values.', 'typescript')).toBeUndefined();
+    expect(commentReturns('Sums the values.', 'python')).toBeUndefined();
+  });
+});
+
+describe('commentExamples', () => {
+  it('reads @example blocks without their fences', () => {
+    const doc = 'Adds.\n@example\n```ts\nadd(1, 2);\n```\n@returns The sum.';
+
+    expect(commentExamples(doc, 'typescript').map(example => example.trim())).toEqual(['add(1, 2);']);
+  });
+
+  it('reads Python doctests', () => {
+    expect(commentExamples('Adds.\n\n>>> add(1, 2)\n3', 'python')).toEqual(['add(1, 2)']);
+  });
+});
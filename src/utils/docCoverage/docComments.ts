@@ -0,0 +1,105 @@
+import { SymbolLanguage } from '@/utils/symbols';
+
+export interface CommentParam {
+  name: string;
+  // Type stated in the comment, e.g. JSDoc "{string}" or Google "name (int):"
+  type?: string;
+}
+
+const PYTHON_PARAM_SECTION = /^(Args|Arguments|Parameters|Params|Keyword Args|Keyword Arguments|Other Parameters)\s*:?\s*$/;
+const PYTHON_OTHER_SECTION = /^(Returns?|Yields?|Raises|Examples?|Notes?|Attributes|See Also|Warnings?|References)\s*:?\s*$/;
+const PYTHON_RESULT_SECTION = /^\s*(Returns?|Yields?)\s*:?\s*$/;
+
+function pythonParams(doc: string): CommentParam[] {
+  const params: CommentParam[] = [];
+  // Sphinx: ":param name:" or ":param type name:", with ":type name: T" alongside
+  for (const match of doc.matchAll(/:param\s+(?:([^:]*)\s)?\*{0,2}(\w+)\s*:/g)) {
+    const typeLine = new RegExp(`:type\\s+${match[2]}\\s*:\\s*(.+)`).exec(doc);
+    params.push({ name: match[2], type: match[1]?.trim() || typeLine?.[1].trim() });
+  }
+  // Google and NumPy: "name (type): ..." or "name : type" under an Args/Parameters heading
+  let inSection = false;
+  for (const line of doc.split('\n')) {
+    const trimmed = line.trim();
+    if (PYTHON_PARAM_SECTION.test(trimmed)) {
+      inSection = true;
+    } else if (PYTHON_OTHER_SECTION.test(trimmed)) {
+      inSection = false;
+    } else if (inSection) {
+      const match = /^\*{0,2}(\w+)\s*(?:\(([^)]*)\))?\s*:\s*(.*)$/.exec(trimmed);
+      if (match) {
+        // NumPy puts the type after the colon: "name : int"
+        const numpyType = !match[2] && /\s:/.test(trimmed) ? match[3].trim() : undefined;
+        params.push({ name: match[1], type: match[2]?.trim() || numpyType || undefined });
+      }
+    }
+  }
+  return params;
+}
+
+/**
+ * Parameters a doc comment describes, in the order it lists them.
+ */
+export function commentParams(doc: string, language: SymbolLanguage): CommentParam[] {
+  switch (language) {
+    case 'python':
+      return pythonParams(doc);
+    case 'csharp':
+      return [...doc.matchAll(/<param\s+name\s*=\s*"([^"]+)"/g)].map(match => ({ name: match[1] }));
+    default:
+      // "@param {Type} name", "@param [name=default]" and "@param options.field"
+      return [...doc.matchAll(/@param\s+(?:\{([^}]*)\}\s*)?\[?([\w$]+)/g)]
+        .map(match => ({ name: match[2], type: match[1]?.trim() || undefined }));
+  }
+}
+
+/**
+ * The return value a doc comment describes, with its type when the comment
+ * states one; undefined when it describes none.
+ */
+export function commentReturns(doc: string, language: SymbolLanguage): { type?: string } | undefined {
+  switch (language) {
+    case 'python': {
+      const rtype = /:rtype:\s*(.+)/.exec(doc);
+      if (rtype) return { type: rtype[1].trim() };
+      if (/:(returns?|yields?):/.test(doc)) return {};
+      const lines = doc.split('\n');
+      const heading = lines.findIndex(line => PYTHON_RESULT_SECTION.test(line));
+      if (heading === -1) return undefined;
+      // Google: "int: The total."; NumPy: "int" on its own line after the dashes
+      const first = lines.slice(heading + 1).find(line => line.trim() && !/^\s*-+\s*$/.test(line))?.trim() ?? '';
+      const type = /^([\w.[\], |]+?)\s*:/.exec(first)?.[1] ?? (/^[\w.[\], |]+$/.test(first) ? first : undefined);
+      return { type };
+    }
+    case 'csharp':
+      return /<returns>/.test(doc) ? {} : undefined;
+    default: {
+      const match = /@returns?\b(?:\s*\{([^}]*)\})?/.exec(doc);
+      return match ? { type: match[1]?.trim() || undefined } : undefined;
+    }
+  }
+}
+
+/**
+ * Usage examples in a doc comment: JSDoc and Javadoc @example blocks,
+ * fenced code, C# <code> elements and Python doctest lines.
+ */
+export function commentExamples(doc: string, language: SymbolLanguage): string[] {
+  const examples = [...doc.matchAll(/```[^\n]*\n([\s\S]*?)```/g)].map(match => match[1]);
+  switch (language) {
+    case 'python': {
+      const doctest = doc.split('\n')
+        .filter(line => /^\s*(>>>|\.\.\.)\s?/.test(line))
+        .map(line => line.replace(/^\s*(>>>|\.\.\.)\s?/, ''));
+      return doctest.length > 0 ? [...examples, doctest.join('\n')] : examples;
+    }
+    case 'csharp':
+      return [...examples, ...[...doc.matchAll(/<code>([\s\S]*?)<\/code>/g)].map(match => match[1])];
+    default: {
+      // @example blocks usually hold the fenced code themselves
+      const tagged = [...doc.matchAll(/@example\b([\s\S]*?)(?=\n\s*@\w|$)/g)]
+        .map(match => match[1].replace(/```[^\n]*/g, '').replace(/<\/?(pre|code)>/g, ''));
+      return tagged.length > 0 ? tagged : examples;
+    }
+  }
+}
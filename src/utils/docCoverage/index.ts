@@ -0,0 +1,15 @@
+export type {
+  CoverageCounts,
+  CoverageReport,
+  CoverageSource,
+  DocStatus,
+  FileCoverage,
+  ModuleCoverage,
+  SymbolCoverage,
+} from './types';
+export { assessDocumentation, isNamedParam, returnsNothing } from './assess';
+export { commentExamples, commentParams, commentReturns } from './docComments';
+export type { CommentParam } from './docComments';
+export { analyseCoverage, MAX_COVERAGE_FILES, selectCoverageFiles } from './analyse';
+export { selectUndocumented } from './selection';
+export type { UndocumentedSelection } from './selection';
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { analyseCoverage } from './analyse';
+import { selectUndocumented } from './selection';
+
+const SOURCES = [
+  {
+    path: 'src/users.ts',
+    content: `/**
+ * Stores users.
+ */
+export class UserService {
+  /**
+   * Finds a user.
+   */
+  find(id: string): User {
+    return null;
+  }
+
+  remove(id: string): void {}
+}`,
+  },
+  { path: 'src/math.ts', content: 'export function add(a: number, b: number): number {\n  return a + b;\n}' },
+  { path: 'tools/run.py', content: 'def run():\n    pass\n' },
+];
+
+const filesOf = async () => (await analyseCoverage(SOURCES)).modules.flatMap(module => module.files);
+
+describe('selectUndocumented', () => {
+  it('picks the language with the most symbols to document', async () => {
+    const selection = selectUndocumented(await filesOf());
+
+    expect(selection).toMatchObject({ language: 'typescript', docType: 'function', count: 2 });
+    expect(selection.symbols.symbols.map(symbol => symbol.name)).toEqual(['add', 'UserService.remove']);
+    expect(selection.code).toBe([
+      '// File: src/math.ts',
+      'export function add(a: number, b: number): number {\n  return a + b;\n}',
+      '// File: src/users.ts',
+      '// Member of class UserService\n  remove(id: string): void {}',
+    ].join('\n\n'));
+  });
+
+  it('includes partially documented symbols when asked', async () => {
+    const selection = selectUndocumented(await filesOf(), { includePartial: true });
+
+    expect(selection.symbols.symbols.map(symbol => symbol.name)).toEqual(['add', 'UserService.find', 'UserService.remove']);
+  });
+
+  it('is null when the language has nothing left to document', async () => {
+    expect(selectUndocumented(await filesOf(), { language: 'java' })).toBeNull();
+  });
+});
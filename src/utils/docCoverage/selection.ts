@@ -0,0 +1,77 @@
+import { CodeSymbol, SymbolInventory, SymbolLanguage } from '@/utils/symbols';
+import { FileCoverage, SymbolCoverage } from './types';
+
+export interface UndocumentedSelection {
+  // Source of the selected symbols only, each file introduced by a comment
+  code: string;
+  language: SymbolLanguage;
+  docType: 'function' | 'class';
+  // Inventory of the selected symbols, for generateDocumentation
+  symbols: SymbolInventory;
+  count: number;
+}
+
+const needsDocs = (entry: SymbolCoverage, includePartial: boolean) =>
+  entry.status === 'undocumented' || (includePartial && entry.status === 'partial');
+
+/**
+ * Gathers the symbols that still need docs into one documentation request:
+ * their source and an inventory listing only them. A request covers one
+ * language; by default the one with the most symbols to document.
+ */
+export function selectUndocumented(
+  files: FileCoverage[],
+  options: { includePartial?: boolean; language?: SymbolLanguage } = {}
+): UndocumentedSelection | null {
+  const includePartial = options.includePartial ?? false;
+  const pending = (file: FileCoverage) => file.symbols.filter(entry => needsDocs(entry, includePartial)).length;
+
+  const perLanguage = new Map<SymbolLanguage, number>();
+  for (const file of files) {
+    perLanguage.set(file.language, (perLanguage.get(file.language) ?? 0) + pending(file));
+  }
+  const language = options.language ?? [...perLanguage.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  if (!language || !perLanguage.get(language)) {
+    return null;
+  }
+
+  const comment = language === 'python' ? '#' : '//';
+  const parts: string[] = [];
+  const symbols: CodeSymbol[] = [];
+  let count = 0;
+  let hasClass = false;
+
+  for (const file of files.filter(candidate => candidate.language === language && pending(candidate) > 0)) {
+    const lines = file.content.split('\n');
+    const sourceOf = (symbol: CodeSymbol) => lines.slice(symbol.startLine - 1, symbol.endLine).join('\n');
+    const selected = file.symbols.filter(entry => needsDocs(entry, includePartial));
+    const selectedClasses = new Set(selected.filter(entry => !entry.parent).map(entry => entry.symbol));
+    const blocks = [`${comment} File: ${file.path}`];
+
+    for (const entry of selected) {
+      count += 1;
+      if (!entry.parent) {
+        hasClass = hasClass || entry.kind === 'class';
+        blocks.push(sourceOf(entry.symbol));
+        // Only the members that need docs are listed; the rest already have them
+        symbols.push({
+          ...entry.symbol,
+          children: entry.symbol.children.filter(child => selected.some(other => other.symbol === child)),
+        });
+      } else if (!selectedClasses.has(entry.parent)) {
+        // Members of documented classes are sent without the rest of the class
+        blocks.push(`${comment} Member of ${entry.parent.kind} ${entry.parent.name}\n${sourceOf(entry.symbol)}`);
+        symbols.push({ ...entry.symbol, name: entry.name, children: [] });
+      }
+    }
+    parts.push(blocks.join('\n\n'));
+  }
+
+  return {
+    code: parts.join('\n\n'),
+    language,
+    docType: hasClass ? 'class' : 'function',
+    symbols: { language, symbols, diagnostics: [] },
+    count,
+  };
+}
@@ -0,0 +1,52 @@
+import { CodeSymbol, SymbolInventory, SymbolKind, SymbolLanguage } from '@/utils/symbols';
+
+export type DocStatus = 'documented' | 'partial' | 'undocumented';
+
+export interface SymbolCoverage {
+  // Methods are qualified with their class, e.g. "UserService.create"
+  name: string;
+  kind: SymbolKind;
+  line: number;
+  status: DocStatus;
+  // What partial docs leave out, e.g. "parameter id" or "return value"
+  missing: string[];
+  symbol: CodeSymbol;
+  // Class of a method
+  parent?: CodeSymbol;
+}
+
+export interface CoverageCounts {
+  total: number;
+  documented: number;
+  partial: number;
+  undocumented: number;
+  // Share of fully documented symbols, 0-100; 100 when there is nothing to document
+  percent: number;
+}
+
+export interface FileCoverage extends CoverageCounts {
+  path: string;
+  language: SymbolLanguage;
+  content: string;
+  inventory: SymbolInventory;
+  symbols: SymbolCoverage[];
+}
+
+// Files grouped by directory; the project root is "."
+export interface ModuleCoverage extends CoverageCounts {
+  path: string;
+  files: FileCoverage[];
+}
+
+export interface CoverageReport extends CoverageCounts {
+  modules: ModuleCoverage[];
+  // Files that could not be parsed
+  failed: string[];
+}
+
+export interface CoverageSource {
+  path: string;
+  content: string;
+  // Taken from the extension when absent
+  language?: string;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { detectDrift } from './compare';
+
+const CART = `export class Cart {
+  /**
+   * Adds an item.
+   * @param product The product.
+   * @param count How many.
+   */
+  add(item: Item, quantity: number): void {}
+
+  /**
+   * The total price.
+   * @returns {string} The total.
+   */
+  total(): number {
+    return 0;
+  }
+}
+
+export function checkout(cart: Cart, coupon?: string): Receipt {
+  return null;
+}`;
+
+const issuesOf = (report: Awaited<ReturnType<typeof detectDrift>>['report']) =>
+  Object.fromEntries(report.symbols.map(symbol => [symbol.name, symbol.issues.map(issue => issue.kind)]));
+
+describe('detectDrift from doc comments', () => {
+  it('finds renamed parameters and changed return types', async () => {
+    const { report } = await detectDrift(CART, 'typescript', 'comments');
+
+    expect(report.checked).toBe(2);
+    expect(issuesOf(report)).toEqual({
+      'Cart.add': ['renamed-param', 'renamed-param'],
+      'Cart.total': ['return-type'],
+    });
+    expect(report.symbols[0].issues[0].message).toBe('Parameter `product` was renamed to `item`');
+  });
+
+  it('reports nothing for comments that match the code', async () => {
+    const code = '/**\n * Adds.\n * @param a First.\n * @param b Second.\n * @returns The sum.\n */\nexport function add(a: number, b: number): number {\n  return a + b;\n}';
+
+    const { report } = await detectDrift(code, 'typescript', 'comments');
+
+    expect(report).toEqual({ source: 'comments', checked: 1, symbols: [], sections: [] });
+  });
+});
+
+describe('detectDrift from markdown', () => {
+  it('reports a renamed symbol as removed from the code and new to the docs', async () => {
+    const code = 'export function sum(a: number, b: number): number {\n  return a + b;\n}';
+    const markdown = '# Math\n\n## add(a, b)\n\nAdds two numbers.\n\n```ts\nadd(1, 2);\n```\n';
+
+    const { report } = await detectDrift(code, 'typescript', 'markdown', markdown);
+
+    expect(report.checked).toBe(0);
+    expect(report.symbols.map(({ name, status }) => ({ name, status }))).toEqual([
+      { name: 'add', status: 'removed' },
+      { name: 'sum', status: 'new' },
+    ]);
+    expect(report.sections[0].lines).toEqual({ start: 3, end: 9 });
+  });
+
+  it('ignores headings that do not name a symbol', async () => {
+    const code = 'export function add(a: number, b: number): number {\n  return a + b;\n}';
+    const markdown = '# Math\n\n## Getting started\n\nInstall it.\n\n## Helpers\n\nUse `add` to add numbers.\n';
+
+    const { report } = await detectDrift(code, 'typescript', 'markdown', markdown);
+
+    expect(report).toEqual({ source: 'markdown', checked: 0, symbols: [], sections: [] });
+  });
+
+  it('reads parameters from a table and checks the examples', async () => {
+    const markdown = `## Cart
+
+### checkout()
+
+**Parameters**
+
+| Name | Type | Description |
+| --- | --- | --- |
+| cart | \`Cart\` | The cart. |
+| discount | \`number\` | Percentage off. |
+
+\`\`\`ts
+checkout(cart, 10, true);
+\`\`\`
+`;
+
+    const { report } = await detectDrift(CART, 'typescript', 'markdown', markdown);
+    const checkout = report.symbols.find(symbol => symbol.name === 'checkout');
+
+    expect(checkout.issues.map(issue => issue.message)).toEqual([
+      'Parameter `discount` was renamed to `coupon`',
+      'An example passes 3 arguments, but `checkout` takes at most 2',
+    ]);
+  });
+
+  it('qualifies method headings with their class', async () => {
+    const markdown = '## class Cart\n\n### add(item, quantity)\n\n### total()\n\nReturns the total.\n';
+
+    const { report } = await detectDrift(CART, 'typescript', 'markdown', markdown);
+
+    expect(report.sections.map(section => section.name)).toEqual(['Cart', 'Cart.add', 'Cart.total']);
+    expect(report.symbols.map(({ name, status }) => ({ name, status }))).toEqual([{ name: 'checkout', status: 'new' }]);
+  });
+});
+
+describe('detectDrift', () => {
+  it('rejects languages without a parser', async () => {
+    await expect(detectDrift('fn main() {}', 'rust', 'comments')).rejects.toThrow('Drift detection is available for');
+  });
+});
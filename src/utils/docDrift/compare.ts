@@ -0,0 +1,255 @@
+import { commentExamples, commentParams, commentReturns, isNamedParam, returnsNothing } from '@/utils/docCoverage';
+import { CodeSymbol, extractSymbols, isSymbolLanguage, publicSymbols, SymbolInventory, SymbolLanguage } from '@/utils/symbols';
+import { documentedInMarkdown } from './markdown';
+import { findCalls } from './signature';
+import { DocumentedSymbol, DriftIssue, DriftReport, DriftSource, SymbolDrift } from './types';
+
+const CHECKED_KINDS: CodeSymbol['kind'][] = ['function', 'class', 'interface', 'method', 'constructor'];
+// Constructors are documented with their class when the docs have no section for them
+const REPORTED_NEW_KINDS: CodeSymbol['kind'][] = ['function', 'class', 'method'];
+
+interface CodeEntry {
+  // Qualified with the class for members, e.g. "Cart.add"
+  name: string;
+  symbol: CodeSymbol;
+  parent?: CodeSymbol;
+}
+
+function codeEntries(inventory: SymbolInventory): CodeEntry[] {
+  return publicSymbols(inventory).flatMap(symbol => [
+    ...(CHECKED_KINDS.includes(symbol.kind) ? [{ name: symbol.name, symbol }] : []),
+    ...symbol.children
+      .filter(child => CHECKED_KINDS.includes(child.kind))
+      .map(child => ({ name: `${symbol.name}.${child.name}`, symbol: child, parent: symbol })),
+  ]);
+}
+
+const shortName = (name: string) => name.split('.').pop();
+
+/**
+ * Code symbols a documented name may refer to: the qualified name, else the
+ * plain name of a function or member. Overloads give several.
+ */
+function candidatesFor(name: string, entries: CodeEntry[]): CodeEntry[] {
+  const exact = entries.filter(entry => entry.name === name);
+  if (exact.length > 0 || name.includes('.')) return exact;
+  return entries.filter(entry => shortName(entry.name) === name);
+}
+
+// The overload whose parameters the docs describe best
+const bestMatch = (doc: DocumentedSymbol, candidates: CodeEntry[]) => candidates
+  .map(entry => ({
+    entry,
+    score: (doc.params ?? []).filter(param => entry.symbol.params.some(codeParam => codeParam.name === param.name)).length
+      - Math.abs((doc.params?.length ?? 0) - entry.symbol.params.length) / 10,
+  }))
+  .sort((a, b) => b.score - a.score)[0]?.entry;
+
+// Docs often write "string, optional" or "Number" for a declared "string" or "number"
+const normaliseType = (type: string) => type
+  .replace(/^\{|\}$/g, '')
+  .replace(/[,(]?\s*optional\)?$/i, '')
+  .replace(/\s+/g, '')
+  .toLowerCase();
+
+const list = (names: string[]) => names.map(name => `\`${name}\``).join(', ');
+
+function compareParams(doc: DocumentedSymbol, symbol: CodeSymbol): DriftIssue[] {
+  const issues: DriftIssue[] = [];
+  const code = symbol.params.filter(param => isNamedParam(param.name));
+  const documented = doc.params.filter((param, index) =>
+    doc.params.findIndex(other => other.name === param.name) === index);
+  const documentedNames = documented.map(param => param.name);
+  const codeNames = code.map(param => param.name);
+
+  const fresh = code.filter(param => !documentedNames.includes(param.name));
+  for (const [index, name] of documentedNames.entries()) {
+    if (codeNames.includes(name)) continue;
+    // An undocumented parameter in the same position is most likely the same one renamed
+    const renamed = fresh.find(param => param === code[index]);
+    if (renamed) {
+      fresh.splice(fresh.indexOf(renamed), 1);
+      issues.push({ kind: 'renamed-param', message: `Parameter \`${name}\` was renamed to \`${renamed.name}\`` });
+    } else {
+      issues.push({ kind: 'removed-param', message: `Documents parameter \`${name}\`, which no longer exists` });
+    }
+  }
+  for (const param of fresh) {
+    issues.push(param.optional || param.rest
+      ? { kind: 'undocumented-param', message: `Optional parameter \`${param.name}\` is not documented` }
+      : { kind: 'new-param', message: `New required parameter \`${param.name}\` is not documented` });
+  }
+
+  const sharedOrder = (names: string[], others: string[]) => names.filter(name => others.includes(name));
+  const documentedOrder = sharedOrder(documentedNames, codeNames);
+  const codeOrder = sharedOrder(codeNames, documentedNames);
+  if (documentedOrder.join(',') !== codeOrder.join(',')) {
+    issues.push({
+      kind: 'param-order',
+      message: `Documents the parameters in the order ${list(documentedOrder)}, but the code takes ${list(codeOrder)}`,
+    });
+  }
+
+  for (const param of documented) {
+    const declared = code.find(codeParam => codeParam.name === param.name)?.type;
+    if (param.type && declared && normaliseType(param.type) !== normaliseType(declared)) {
+      issues.push({
+        kind: 'param-type',
+        message: `Parameter \`${param.name}\` is documented as \`${param.type}\`, but declared as \`${declared}\``,
+      });
+    }
+  }
+  return issues;
+}
+
+function compareExamples(doc: DocumentedSymbol, entry: CodeEntry, language: SymbolLanguage): DriftIssue[] {
+  const { symbol, parent } = entry;
+  const isConstructor = symbol.kind === 'constructor';
+  const callee = isConstructor ? parent?.name : symbol.name;
+  if (!callee) return [];
+
+  const params = symbol.params;
+  const hasRest = params.some(param => param.rest);
+  const required = params.filter(param => !param.optional && !param.rest);
+  const maximum = params.filter(param => !param.rest).length;
+  const messages = new Set<string>();
+
+  for (const call of doc.examples.flatMap(example => findCalls(example, callee, language, isConstructor))) {
+    if (call.spread) continue;
+    const unknown = hasRest ? [] : call.keywords.filter(keyword => !params.some(param => param.name === keyword));
+    const missing = required.slice(call.positional).filter(param => !call.keywords.includes(param.name));
+    if (!hasRest && call.positional > maximum) {
+      messages.add(`An example passes ${call.positional} arguments, but \`${callee}\` takes at most ${maximum}`);
+    } else if (missing.length > 0) {
+      messages.add(`An example leaves out the required ${missing.length === 1 ? 'parameter' : 'parameters'} ${list(missing.map(param => param.name))}`);
+    }
+    if (unknown.length > 0) {
+      messages.add(`An example passes ${list(unknown)}, which \`${callee}\` no longer accepts`);
+    }
+  }
+  return [...messages].map(message => ({ kind: 'example', message }));
+}
+
+function compareSymbol(doc: DocumentedSymbol, entry: CodeEntry, language: SymbolLanguage, overloaded: boolean): DriftIssue[] {
+  const { symbol } = entry;
+  if (symbol.kind !== 'function' && symbol.kind !== 'method' && symbol.kind !== 'constructor') {
+    return [];
+  }
+
+  const issues = doc.params ? compareParams(doc, symbol) : [];
+  const returnType = symbol.returnType?.trim();
+  if (symbol.kind !== 'constructor' && doc.returns && returnType) {
+    if (returnsNothing(returnType)) {
+      issues.push({ kind: 'return-removed', message: `Documents a return value, but it now returns \`${returnType}\`` });
+    } else if (doc.returns.type && normaliseType(doc.returns.type) !== normaliseType(returnType)) {
+      issues.push({
+        kind: 'return-type',
+        message: `The return value is documented as \`${doc.returns.type}\`, but declared as \`${returnType}\``,
+      });
+    }
+  }
+  // Calls can't be told apart between overloads
+  return overloaded ? issues : [...issues, ...compareExamples(doc, entry, language)];
+}
+
+function documentedInComments(entries: CodeEntry[], language: SymbolLanguage): { doc: DocumentedSymbol; entry: CodeEntry }[] {
+  return entries
+    .filter(entry => entry.symbol.docComment)
+    .map(entry => {
+      const comment = entry.symbol.docComment;
+      const params = commentParams(comment, language);
+      return {
+        entry,
+        doc: {
+          name: entry.name,
+          params: params.length > 0 ? params : undefined,
+          returns: commentReturns(comment, language),
+          examples: commentExamples(comment, language),
+        },
+      };
+    });
+}
+
+// Whether markdown mentions a symbol without a section of its own, e.g. in a table of methods
+const mentions = (markdown: string, name: string) =>
+  markdown.includes(`\`${name}\``) || new RegExp(`(^|[^\\w$])${name.replace(/\$/g, '\\$')}\\s*\\(`).test(markdown);
+
+/**
+ * Compares existing documentation with the current code: the symbols'
+ * doc comments, or a markdown document with a section per symbol. Finds
+ * renamed, removed and new parameters, changed return types, examples
+ * calling the code in ways it no longer accepts, and, for markdown,
+ * documented symbols that are gone and public ones it doesn't cover.
+ */
+export async function detectDrift(
+  code: string,
+  language: string,
+  source: DriftSource,
+  markdown = ''
+): Promise<{ report: DriftReport; inventory: SymbolInventory }> {
+  if (!isSymbolLanguage(language)) {
+    throw new Error('Drift detection is available for TypeScript, JavaScript, Python, Java and C# code');
+  }
+  const inventory = await extractSymbols(code, language);
+  if (!inventory) {
+    throw new Error('Add the source code to compare the documentation with');
+  }
+  const entries = codeEntries(inventory);
+  const overloaded = (name: string) => entries.filter(entry => entry.name === name).length > 1;
+
+  if (source === 'comments') {
+    const documented = documentedInComments(entries, language);
+    const symbols: SymbolDrift[] = documented
+      .map(({ doc, entry }) => ({
+        name: entry.name,
+        status: 'stale' as const,
+        issues: compareSymbol(doc, entry, language, overloaded(entry.name)),
+        documented: doc,
+        symbol: entry.symbol,
+      }))
+      .filter(drift => drift.issues.length > 0);
+    return { report: { source, checked: documented.length, symbols, sections: [] }, inventory };
+  }
+
+  const documented = documentedInMarkdown(markdown, language, {
+    isSymbol: name => candidatesFor(name, entries).length > 0,
+    isClass: name => candidatesFor(name, entries).some(entry => entry.symbol.kind === 'class' || entry.symbol.kind === 'interface'),
+  });
+  const symbols: SymbolDrift[] = [];
+  const matched = new Set<CodeEntry>();
+  let checked = 0;
+
+  for (const doc of documented) {
+    const entry = bestMatch(doc, candidatesFor(doc.name, entries));
+    if (!entry) {
+      symbols.push({
+        name: doc.name,
+        status: 'removed',
+        issues: [{ kind: 'removed-symbol', message: 'Documented, but no longer in the code' }],
+        documented: doc,
+      });
+      continue;
+    }
+    checked++;
+    matched.add(entry);
+    const issues = compareSymbol(doc, entry, language, overloaded(entry.name));
+    if (issues.length > 0) {
+      symbols.push({ name: entry.name, status: 'stale', issues, documented: doc, symbol: entry.symbol });
+    }
+  }
+
+  const documentedClasses = new Set([...matched].filter(entry => !entry.parent).map(entry => entry.symbol));
+  for (const entry of entries) {
+    if (matched.has(entry) || !REPORTED_NEW_KINDS.includes(entry.symbol.kind)) continue;
+    // Members of an undocumented class are covered by reporting the class
+    if (entry.parent && !documentedClasses.has(entry.parent)) continue;
+    if (mentions(markdown, shortName(entry.name))) continue;
+    symbols.push({
+      name: entry.name,
+      status: 'new',
+      issues: [{ kind: 'new-symbol', message: `Public ${entry.symbol.kind} that the documentation doesn't cover` }],
+      symbol: entry.symbol,
+    });
+  }
+  return { report: { source, checked, symbols, sections: documented }, inventory };
+}
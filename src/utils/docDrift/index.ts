@@ -0,0 +1,16 @@
+export type {
+  DocumentedParam,
+  DocumentedSymbol,
+  DriftIssue,
+  DriftKind,
+  DriftReport,
+  DriftSource,
+  SymbolDrift,
+} from './types';
+export { detectDrift } from './compare';
+export { documentedInMarkdown, symbolHeading } from './markdown';
+export type { SymbolHeading, SymbolLookup } from './markdown';
+export { findCalls, signatureParams } from './signature';
+export type { CallSite } from './signature';
+export { refreshDocComments, refreshMarkdownDocs } from './refresh';
+export type { DriftProgress, DriftRefreshOptions } from './refresh';
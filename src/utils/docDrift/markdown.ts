@@ -0,0 +1,230 @@
+import type { Heading, List, Nodes, RootContent, Table } from 'mdast';
+import { parseMarkdown, textOf } from '@/utils/docExport';
+import { SymbolLanguage } from '@/utils/symbols';
+import { signatureParams } from './signature';
+import { DocumentedParam, DocumentedSymbol } from './types';
+
+// What the text under a sub-heading such as "Parameters" or "Returns" describes
+type Context = 'params' | 'returns' | 'signature' | 'other';
+
+const contextOf = (label: string): Context => {
+  if (/\b(param(eter)?s?|arg(ument)?s?)\b/i.test(label)) return 'params';
+  if (/\b(returns?|return value|result)\b/i.test(label)) return 'returns';
+  if (/\b(syntax|signature|declaration|definition)\b/i.test(label)) return 'signature';
+  return 'other';
+};
+
+// Emoji and other decoration often lead generated headings
+const cleanHeading = (text: string) => text.replace(/^[^\p{L}\p{N}_$`]+/u, '').trim();
+
+const SYMBOL_HEADING = /^(?:(?:class|function|method|constructor|def|async|static|public|export)\s*:?\s+)*([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*(<[^>]*>)?\s*(\([^)]*\)?)?\s*(.*)$/;
+const KIND_PREFIX = /^(class|function|method|constructor|def)\b/i;
+
+export interface SymbolHeading {
+  name: string;
+  // Written like code, with parentheses or a kind keyword, so it names a symbol even if the code lacks it
+  codeLike: boolean;
+  // "add(a, b)" when the heading lists parameters
+  signature?: string;
+}
+
+/**
+ * The symbol a heading may document, e.g. "🔧 add()", "`Cart.add(item)`"
+ * or "class Cart". Headings with trailing prose, like "Getting started",
+ * are never symbol headings.
+ */
+export function symbolHeading(heading: Heading): SymbolHeading | undefined {
+  const text = cleanHeading(textOf(heading));
+  const match = SYMBOL_HEADING.exec(text);
+  if (!match) return undefined;
+  const [, name, , parens, rest] = match;
+  if (rest && !/^([:\-—–→]|->)/.test(rest)) return undefined;
+  return {
+    name,
+    codeLike: !!parens || KIND_PREFIX.test(text),
+    // Generated docs often write "add()" whatever the parameters, so empty parentheses say nothing
+    signature: parens && parens.replace(/[()\s]/g, '') ? `${name.split('.').pop()}${parens}` : undefined,
+  };
+}
+
+export interface SymbolLookup {
+  // Whether the code declares a symbol of this name, plain or qualified
+  isSymbol: (name: string) => boolean;
+  isClass: (name: string) => boolean;
+}
+
+const cellText = (node: Nodes) => textOf(node).trim();
+
+// "`...options`", "**name?**" or "[name=1]" to the bare parameter name
+const paramName = (text: string) => text
+  .replace(/^[`*[\s]+|[`*\]\s]+$/g, '')
+  .replace(/=.*$/, '')
+  .replace(/^(\.\.\.|\*{1,2})/, '')
+  .replace(/\?$/, '')
+  .trim();
+
+function tableParams(table: Table): DocumentedParam[] | undefined {
+  const [header, ...rows] = table.children;
+  const labels = header.children.map(cell => cellText(cell).toLowerCase());
+  const nameColumn = labels.findIndex(label => /^(param(eter)?s?|name|arg(ument)?s?|field)$/.test(label));
+  if (nameColumn === -1) return undefined;
+  const typeColumn = labels.findIndex(label => label === 'type');
+  return rows.map(row => ({
+    name: paramName(cellText(row.children[nameColumn] ?? row)),
+    type: typeColumn !== -1 ? cellText(row.children[typeColumn] ?? row).replace(/^`|`$/g, '') || undefined : undefined,
+  }));
+}
+
+function listParams(list: List): DocumentedParam[] {
+  return list.children.flatMap((item): DocumentedParam[] => {
+    const first = item.children[0];
+    if (!first || first.type !== 'paragraph') return [];
+    const lead = first.children[0];
+    if (lead?.type === 'inlineCode') {
+      const type = /^\s*\(([^)]*)\)/.exec(textOf(first).slice(lead.value.length))?.[1];
+      return [{ name: paramName(lead.value), type: type?.trim() }];
+    }
+    const match = /^\*{0,2}([\w$.]+)\*{0,2}\s*(?:\(([^)]*)\))?\s*[:\-—–]/.exec(textOf(first).trim());
+    return match ? [{ name: paramName(match[1]), type: match[2]?.trim() }] : [];
+  });
+}
+
+// "Type: `number`" in a Returns section
+const statedType = (node: Nodes) => /\btype\s*\**\s*:\s*\**\s*`([^`]+)`/i.exec(textOf(node))?.[1]
+  ?? /\btype\**\s*:\**\s*([\w.<>[\], |]+)/i.exec(textOf(node))?.[1]?.trim();
+
+interface OpenSection {
+  doc: DocumentedSymbol;
+  depth: number;
+  context: Context;
+  // Depth of the sub-heading that set the context
+  contextDepth: number;
+  signatures: string[];
+  headingSignature?: string;
+  // Stops at the first nested symbol heading, so sections never overlap
+  growing: boolean;
+}
+
+/**
+ * Reads markdown documentation into the symbols it documents: one section
+ * per symbol heading, with the parameters from its tables, lists or
+ * signature block, its return value and its code examples. Method headings
+ * nested under a class heading are qualified with the class name.
+ */
+export function documentedInMarkdown(markdown: string, language: SymbolLanguage, lookup: SymbolLookup): DocumentedSymbol[] {
+  const root = parseMarkdown(markdown);
+  const documented: DocumentedSymbol[] = [];
+  const open: OpenSection[] = [];
+
+  const close = (depth: number) => {
+    while (open.length > 0 && open[open.length - 1].depth >= depth) {
+      const section = open.pop();
+      // Signature blocks, then the heading, are the fallback when the docs list no parameters
+      if (!section.doc.params) {
+        const shortName = section.doc.name.split('.').pop();
+        section.doc.params = [...section.signatures, section.headingSignature]
+          .filter(Boolean)
+          .map(signature => signatureParams(signature, shortName, language))
+          .find(params => params !== undefined);
+      }
+    }
+  };
+
+  const extend = (node: RootContent) => {
+    for (const section of open.filter(entry => entry.growing)) {
+      section.doc.lines.end = Math.max(section.doc.lines.end, node.position?.end.line ?? 0);
+    }
+  };
+
+  const read = (section: OpenSection, node: RootContent) => {
+    if (node.type === 'code') {
+      if (section.context === 'signature') section.signatures.push(node.value);
+      else section.doc.examples.push(node.value);
+      return;
+    }
+    if (node.type === 'paragraph') {
+      // Labels such as "**Parameters:**" or "Returns: the new total"
+      const text = textOf(node).trim();
+      const explicit = /^([\w ]{3,20}):/.exec(text)?.[1];
+      const label = explicit ?? (/^[\w ]{3,20}$/.test(text) ? text : undefined);
+      // An unrelated label like "Throws:" only ends a context another label started
+      if (label && (contextOf(label) !== 'other' || (explicit && section.contextDepth === Number.POSITIVE_INFINITY))) {
+        section.context = contextOf(label);
+        section.contextDepth = Number.POSITIVE_INFINITY;
+      }
+      if (section.context === 'returns') {
+        section.doc.returns = { type: section.doc.returns?.type ?? statedType(node) };
+      }
+      return;
+    }
+    if (section.context === 'params' && (node.type === 'table' || node.type === 'list')) {
+      const params = (node.type === 'table' ? tableParams(node) : listParams(node))
+        ?.filter(param => param.name && !param.name.includes('.'));
+      if (params && params.length > 0) {
+        section.doc.params = [...(section.doc.params ?? []), ...params];
+      }
+      return;
+    }
+    if (section.context === 'returns') {
+      const typeColumn = node.type === 'table'
+        ? node.children[0].children.findIndex(cell => cellText(cell).toLowerCase() === 'type')
+        : -1;
+      const tableType = node.type === 'table' && typeColumn !== -1 && node.children[1]
+        ? cellText(node.children[1].children[typeColumn]).replace(/^`|`$/g, '')
+        : undefined;
+      section.doc.returns = { type: section.doc.returns?.type ?? (tableType || statedType(node)) };
+    }
+  };
+
+  for (const node of root.children) {
+    const current = open[open.length - 1];
+    if (node.type !== 'heading') {
+      extend(node);
+      if (current) read(current, node);
+      continue;
+    }
+
+    // "### `amount`" under "## Parameters" names a parameter, not a symbol
+    if (current && current.context === 'params' && node.depth > current.contextDepth) {
+      extend(node);
+      const name = /^(\.\.\.|\*{1,2})?[\w$]+\??/.exec(cleanHeading(textOf(node)))?.[0];
+      if (name) current.doc.params = [...(current.doc.params ?? []), { name: paramName(name) }];
+      continue;
+    }
+
+    close(node.depth);
+    const parent = open[open.length - 1];
+    const heading = symbolHeading(node);
+    const qualified = heading && parent && !heading.name.includes('.') && lookup.isClass(parent.doc.name)
+      ? `${parent.doc.name}.${heading.name}`
+      : undefined;
+    // A function documented under a class heading keeps its own name
+    const name = qualified && (lookup.isSymbol(qualified) || !lookup.isSymbol(heading.name)) ? qualified : heading?.name;
+    if (heading && (heading.codeLike || lookup.isSymbol(name))) {
+      open.forEach(entry => {
+        entry.growing = false;
+      });
+      const line = node.position?.start.line ?? 0;
+      const doc: DocumentedSymbol = { name, examples: [], lines: { start: line, end: line }, depth: node.depth };
+      documented.push(doc);
+      open.push({
+        doc,
+        depth: node.depth,
+        context: 'other',
+        contextDepth: node.depth,
+        signatures: [],
+        headingSignature: heading.signature,
+        growing: true,
+      });
+      continue;
+    }
+
+    extend(node);
+    if (parent) {
+      parent.context = contextOf(textOf(node));
+      parent.contextDepth = node.depth;
+    }
+  }
+  close(0);
+  return documented;
+}
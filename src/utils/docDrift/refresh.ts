@@ -0,0 +1,160 @@
+import openAIService from '@/utils/openai';
+import { LLMError } from '@/utils/llm/errors';
+import { CodeSymbol, extractSymbols, SymbolLanguage } from '@/utils/symbols';
+import { removeDocComments } from '@/utils/symbols/inlineDocs';
+import { DocumentedSymbol, DriftReport } from './types';
+
+export interface DriftProgress {
+  done: number;
+  total: number;
+  // Symbol whose docs are being rewritten
+  current?: string;
+}
+
+export interface DriftRefreshOptions {
+  onProgress?: (progress: DriftProgress) => void;
+  signal?: AbortSignal;
+  forceRegenerate?: boolean;
+}
+
+interface Splice {
+  // 0-based line the change starts at
+  index: number;
+  // Lines replaced; 0 for an insertion
+  count: number;
+  lines: string[];
+}
+
+const sourceOf = (code: string, symbol: CodeSymbol) =>
+  code.split(/\r?\n/).slice(symbol.startLine - 1, symbol.endLine).join('\n');
+
+// Most common heading level among the sections of symbols like `name`: members or top-level
+function headingLevelFor(name: string, sections: DocumentedSymbol[]): number {
+  const isMember = name.includes('.');
+  const levels = sections.filter(doc => doc.name.includes('.') === isMember).map(doc => doc.depth);
+  const count = (level: number) => levels.filter(other => other === level).length;
+  return [...levels].sort((a, b) => count(b) - count(a))[0] ?? (isMember ? 3 : 2);
+}
+
+/**
+ * Brings markdown documentation back in line with the code, touching only
+ * the sections the drift check flagged: stale sections are rewritten,
+ * sections of removed symbols are dropped, and sections for new symbols are
+ * written and added after their class, or at the end. One AI request per
+ * section; a section that fails is left as it was.
+ */
+export async function refreshMarkdownDocs(
+  markdown: string,
+  code: string,
+  language: SymbolLanguage,
+  report: DriftReport,
+  options: DriftRefreshOptions = {}
+): Promise<{ markdown: string; failed: string[] }> {
+  const lines = markdown.split(/\r?\n/);
+  const newline = markdown.includes('\r\n') ? '\r\n' : '\n';
+  const splices: Splice[] = [];
+  const failed: string[] = [];
+  const pending = report.symbols.filter(drift => drift.status !== 'removed');
+  // Line after the last non-blank one
+  let documentEnd = lines.length;
+  while (documentEnd > 0 && !lines[documentEnd - 1].trim()) documentEnd--;
+
+  const removed = new Set(report.symbols.filter(drift => drift.status === 'removed').map(drift => drift.documented));
+  for (const drift of report.symbols.filter(entry => entry.status === 'removed' && entry.documented?.lines)) {
+    const { start, end } = drift.documented.lines;
+    // Take the blank line after the section too, so no double gap is left
+    const blankAfter = end < lines.length && !lines[end].trim() ? 1 : 0;
+    splices.push({ index: start - 1, count: end - start + 1 + blankAfter, lines: [] });
+  }
+
+  for (const [index, drift] of pending.entries()) {
+    options.signal?.throwIfAborted();
+    options.onProgress?.({ done: index, total: pending.length, current: drift.name });
+
+    const section = drift.documented?.lines
+      ? lines.slice(drift.documented.lines.start - 1, drift.documented.lines.end).join('\n')
+      : '';
+    const level = drift.documented?.depth ?? headingLevelFor(drift.name, report.sections);
+    let updated: string;
+    try {
+      updated = await openAIService.refreshDocSection(
+        drift.name,
+        section,
+        sourceOf(code, drift.symbol),
+        language,
+        drift.issues.map(issue => issue.message),
+        level,
+        { forceRegenerate: options.forceRegenerate },
+        options.signal
+      );
+    } catch (error) {
+      // Provider problems (keys, budgets, cancelling) affect every section, so stop
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      console.error(`Error updating the docs of ${drift.name}:`, error);
+      failed.push(drift.name);
+      continue;
+    }
+    if (!updated.trim()) {
+      failed.push(drift.name);
+      continue;
+    }
+
+    const updatedLines = updated.trim().split(/\r?\n/);
+    if (drift.documented?.lines) {
+      const { start, end } = drift.documented.lines;
+      splices.push({ index: start - 1, count: end - start + 1, lines: updatedLines });
+      continue;
+    }
+
+    // New members go after the last section of their class, the rest at the end
+    const className = drift.name.includes('.') ? drift.name.slice(0, drift.name.lastIndexOf('.')) : undefined;
+    const classEnd = Math.max(0, ...report.sections
+      .filter(doc => !removed.has(doc) && className && (doc.name === className || doc.name.startsWith(`${className}.`)))
+      .map(doc => doc.lines.end));
+    splices.push({ index: classEnd > 0 ? classEnd : documentEnd, count: 0, lines: ['', ...updatedLines] });
+  }
+  options.onProgress?.({ done: pending.length, total: pending.length });
+
+  // Apply from the bottom up so earlier line numbers stay valid; insertions at
+  // the same line keep the order they were written in
+  splices
+    .map((splice, order) => ({ splice, order }))
+    .sort((a, b) => b.splice.index - a.splice.index || b.order - a.order)
+    .forEach(({ splice }) => lines.splice(splice.index, splice.count, ...splice.lines));
+  return { markdown: lines.join(newline), failed };
+}
+
+/**
+ * Rewrites the stale doc comments the drift check flagged. The old comments
+ * are removed and new ones written from the current code, so the result
+ * can be reviewed as a diff before it replaces the editor contents.
+ */
+export async function refreshDocComments(
+  code: string,
+  language: SymbolLanguage,
+  report: DriftReport,
+  options: DriftRefreshOptions = {}
+): Promise<{ code: string; failed: string[] }> {
+  const stale = report.symbols.filter(drift => drift.status === 'stale' && drift.symbol);
+  // Comments sharing a line with code can't be replaced without touching the code
+  const failed = stale.filter(drift => !drift.symbol.docCommentLines).map(drift => drift.name);
+  const replaceable = stale.filter(drift => drift.symbol.docCommentLines);
+  if (replaceable.length === 0) {
+    return { code, failed };
+  }
+
+  options.onProgress?.({ done: 0, total: replaceable.length });
+  const stripped = removeDocComments(code, replaceable.map(drift => drift.symbol), language);
+  const inventory = await extractSymbols(stripped, language);
+  const patched = await openAIService.generateInlineDocs(
+    stripped,
+    language,
+    inventory,
+    { forceRegenerate: options.forceRegenerate },
+    replaceable.map(drift => drift.name)
+  );
+  options.onProgress?.({ done: replaceable.length, total: replaceable.length });
+  return { code: patched, failed };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { findCalls, signatureParams } from './signature';
+
+describe('signatureParams', () => {
+  it('reads TypeScript parameters with their types', () => {
+    expect(signatureParams('function add(a: number, b = 1, ...rest: number[]): number', 'add', 'typescript')).toEqual([
+      { name: 'a', type: 'number' },
+      { name: 'b', type: undefined },
+      { name: 'rest', type: 'number[]' },
+    ]);
+  });
+
+  it('skips self and the positional-only marker in Python', () => {
+    expect(signatureParams('def add(self, a: int, /, *, b: int = 1) -> int:', 'add', 'python')).toEqual([
+      { name: 'a', type: 'int' },
+      { name: 'b', type: 'int' },
+    ]);
+  });
+
+  it('reads Java and C# parameters', () => {
+    expect(signatureParams('public int Add(@NotNull final int a, params int[] rest)', 'Add', 'java')).toEqual([
+      { name: 'a', type: 'int' },
+      { name: 'rest', type: 'int[]' },
+    ]);
+  });
+
+  it('is undefined when the signature declares something else', () => {
+    expect(signatureParams('function subtract(a, b)', 'add', 'javascript')).toBeUndefined();
+  });
+});
+
+describe('findCalls', () => {
+  it('counts positional, keyword and spread arguments', () => {
+    const example = 'total = add(1, "a,b", scale=2)\nadd(*values)';
+
+    expect(findCalls(example, 'add', 'python')).toEqual([
+      { positional: 2, keywords: ['scale'], spread: false },
+      { positional: 0, keywords: [], spread: true },
+    ]);
+  });
+
+  it('skips declarations and finds constructors through new', () => {
+    const example = 'function add(a, b) {}\nconst cart = new Cart(items);\nCart.empty();';
+
+    expect(findCalls(example, 'add', 'javascript')).toEqual([]);
+    expect(findCalls(example, 'Cart', 'javascript', true)).toEqual([{ positional: 1, keywords: [], spread: false }]);
+  });
+});
@@ -0,0 +1,108 @@
+import { SymbolLanguage } from '@/utils/symbols';
+import { splitTopLevel } from '@/utils/symbols/text';
+import { DocumentedParam } from './types';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Offset of the bracket closing the one at `open`, skipping strings and
+ * nested brackets; -1 when it is never closed.
+ */
+function closingBracket(code: string, open: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < code.length; i++) {
+    const char = code[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char) && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+const argumentsOf = (inner: string) => splitTopLevel(inner, ',').map(part => part.trim()).filter(Boolean);
+
+/**
+ * Parameter list of `name`'s declaration in a signature block such as
+ * "function add(a: number, b = 1): number" or "public int Add(int a, int b)".
+ */
+export function signatureParams(code: string, name: string, language: SymbolLanguage): DocumentedParam[] | undefined {
+  const match = new RegExp(`(^|[^\\w$])${escapeRegExp(name)}\\s*(<[^()]*>)?\\s*\\(`).exec(code);
+  if (!match) return undefined;
+  const open = match.index + match[0].length - 1;
+  const close = closingBracket(code, open);
+  if (close === -1) return undefined;
+
+  return argumentsOf(code.slice(open + 1, close)).flatMap((part): DocumentedParam[] => {
+    const [declaration] = splitTopLevel(part, '=', 2);
+    if (language === 'java' || language === 'csharp') {
+      const words = declaration
+        .replace(/@\w+(\([^)]*\))?/g, '')
+        .replace(/\b(final|params|ref|out|in|this|scoped)\b/g, '')
+        .trim();
+      const nameMatch = /([\w$]+)\s*$/.exec(words);
+      if (!nameMatch) return [];
+      const type = words.slice(0, nameMatch.index).trim();
+      return [{ name: nameMatch[1], type: type || undefined }];
+    }
+
+    const [rawName, type] = splitTopLevel(declaration, ':', 2);
+    const paramName = rawName
+      .replace(/^(public|private|protected|readonly|override)\s+/g, '')
+      .replace(/^(\.\.\.|\*{1,2})/, '')
+      .replace(/\?$/, '')
+      .trim();
+    // Python's positional-only and keyword-only markers
+    if (!paramName || paramName === '/' || paramName === '*' || (language === 'python' && /^(self|cls)$/.test(paramName))) {
+      return [];
+    }
+    return [{ name: paramName, type: type?.trim() || undefined }];
+  });
+}
+
+export interface CallSite {
+  positional: number;
+  keywords: string[];
+  // A spread argument makes the count unknown
+  spread: boolean;
+}
+
+/**
+ * Calls of `callee` in example code, with their arguments. Constructors are
+ * found through `new`, except in Python where classes are called directly.
+ */
+export function findCalls(code: string, callee: string, language: SymbolLanguage, isConstructor = false): CallSite[] {
+  const prefix = isConstructor && language !== 'python' ? 'new\\s+' : '';
+  const pattern = new RegExp(`(^|[^\\w$])(def\\s+|function\\s+)?${prefix}${escapeRegExp(callee)}\\s*(<[^()]*>)?\\s*\\(`, 'g');
+  const calls: CallSite[] = [];
+  for (const match of code.matchAll(pattern)) {
+    // A declaration copied into the example, not a call
+    if (match[2]) continue;
+    const open = match.index + match[0].length - 1;
+    const close = closingBracket(code, open);
+    if (close === -1) continue;
+
+    const call: CallSite = { positional: 0, keywords: [], spread: false };
+    for (const argument of argumentsOf(code.slice(open + 1, close))) {
+      const keyword = language === 'python'
+        ? /^(\w+)\s*=(?!=)/.exec(argument)
+        : language === 'csharp' ? /^(\w+)\s*:(?!:)/.exec(argument) : null;
+      if (keyword) {
+        call.keywords.push(keyword[1]);
+      } else if (/^(\.\.\.|\*)/.test(argument)) {
+        call.spread = true;
+      } else {
+        call.positional++;
+      }
+    }
+    calls.push(call);
+  }
+  return calls;
+}
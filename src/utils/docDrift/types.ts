@@ -0,0 +1,63 @@
+import { CodeSymbol } from '@/utils/symbols';
+
+// Where the existing documentation comes from
+export type DriftSource = 'markdown' | 'comments';
+
+export interface DocumentedParam {
+  name: string;
+  type?: string;
+}
+
+/**
+ * What existing documentation says about one symbol.
+ */
+export interface DocumentedSymbol {
+  // As the docs name it; methods are qualified with their class, e.g. "Cart.add"
+  name: string;
+  // Absent when the docs list no parameters at all
+  params?: DocumentedParam[];
+  // Present when the docs describe a return value
+  returns?: { type?: string };
+  examples: string[];
+  // Markdown only: the section, from its heading to the line before the next one
+  lines?: { start: number; end: number };
+  depth?: number;
+}
+
+export type DriftKind =
+  | 'removed-symbol'
+  | 'new-symbol'
+  | 'renamed-param'
+  | 'removed-param'
+  | 'new-param'
+  | 'undocumented-param'
+  | 'param-order'
+  | 'param-type'
+  | 'return-removed'
+  | 'return-type'
+  | 'example';
+
+export interface DriftIssue {
+  kind: DriftKind;
+  message: string;
+}
+
+export interface SymbolDrift {
+  // Qualified name, e.g. "Cart.add"
+  name: string;
+  // Stale docs of an existing symbol, docs of a removed one, or a symbol the docs miss
+  status: 'stale' | 'removed' | 'new';
+  issues: DriftIssue[];
+  documented?: DocumentedSymbol;
+  symbol?: CodeSymbol;
+}
+
+export interface DriftReport {
+  source: DriftSource;
+  // Symbols whose docs were compared with the code
+  checked: number;
+  // Only the symbols with issues
+  symbols: SymbolDrift[];
+  // Markdown only: every symbol section found in the docs
+  sections: DocumentedSymbol[];
+}
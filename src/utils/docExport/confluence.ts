@@ -0,0 +1,148 @@
+import type { Code, List, PhrasingContent, Root, RootContent, Table } from 'mdast';
+import { escapeHtml } from '@/utils/docSite';
+import { diagramKey, RenderedDiagram } from './diagrams';
+
+export interface ConfluencePage {
+  // Storage-format XHTML for the page body
+  body: string;
+  // Files the body refers to with ri:attachment; they are uploaded to the page
+  attachments: { fileName: string; data: Uint8Array }[];
+}
+
+// Fence names mapped to the code macro's languages, which Server and Cloud both accept
+const CODE_LANGUAGES: Record<string, string> = {
+  javascript: 'js',
+  js: 'js',
+  jsx: 'js',
+  typescript: 'js',
+  ts: 'js',
+  tsx: 'js',
+  json: 'js',
+  python: 'py',
+  py: 'py',
+  java: 'java',
+  csharp: 'c#',
+  cs: 'c#',
+  c: 'cpp',
+  cpp: 'cpp',
+  ruby: 'ruby',
+  php: 'php',
+  scala: 'scala',
+  sql: 'sql',
+  bash: 'bash',
+  sh: 'bash',
+  shell: 'bash',
+  powershell: 'powershell',
+  css: 'css',
+  scss: 'sass',
+  html: 'xml',
+  xml: 'xml',
+  yaml: 'yml',
+  yml: 'yml',
+  diff: 'diff',
+  groovy: 'groovy',
+};
+
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+/**
+ * Converts the documentation to Confluence storage format. Code becomes
+ * the code macro, task lists become Confluence tasks and diagrams become
+ * PNG attachments.
+ */
+export function exportConfluencePage(root: Root, diagrams: Map<string, RenderedDiagram>): ConfluencePage {
+  const attachments: ConfluencePage['attachments'] = [];
+  let taskId = 0;
+
+  const inline = (nodes: PhrasingContent[]): string => nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return escapeHtml(node.value);
+      case 'strong':
+        return `<strong>${inline(node.children)}</strong>`;
+      case 'emphasis':
+        return `<em>${inline(node.children)}</em>`;
+      case 'delete':
+        return `<del>${inline(node.children)}</del>`;
+      case 'inlineCode':
+        return `<code>${escapeHtml(node.value)}</code>`;
+      case 'link':
+        return `<a href="${escapeHtml(node.url)}">${inline(node.children)}</a>`;
+      case 'break':
+        return '<br />';
+      case 'image':
+        return `<ac:image ac:alt="${escapeHtml(node.alt ?? '')}"><ri:url ri:value="${escapeHtml(node.url)}" /></ac:image>`;
+      case 'footnoteReference':
+        return `[${escapeHtml(node.label ?? node.identifier)}]`;
+      default:
+        return 'children' in node ? inline(node.children as PhrasingContent[]) : '';
+    }
+  }).join('');
+
+  const code = (node: Code): string => {
+    const diagram = node.lang === 'mermaid' ? diagrams.get(diagramKey(node.value)) : undefined;
+    if (diagram) {
+      const fileName = `diagram-${attachments.length + 1}.png`;
+      attachments.push({ fileName, data: diagram.png });
+      return `<p><ac:image ac:alt="Diagram ${attachments.length}" ac:width="${Math.min(diagram.width, 760)}"><ri:attachment ri:filename="${fileName}" /></ac:image></p>`;
+    }
+    const language = node.lang ? CODE_LANGUAGES[node.lang.toLowerCase()] : undefined;
+    return '<ac:structured-macro ac:name="code">' +
+      (language ? `<ac:parameter ac:name="language">${language}</ac:parameter>` : '') +
+      (node.lang && !language ? `<ac:parameter ac:name="title">${escapeHtml(node.lang)}</ac:parameter>` : '') +
+      `<ac:plain-text-body>${cdata(node.value)}</ac:plain-text-body></ac:structured-macro>`;
+  };
+
+  const list = (node: List): string => {
+    if (node.children.every(item => typeof item.checked === 'boolean')) {
+      return `<ac:task-list>${node.children.map(item => {
+        taskId += 1;
+        return `<ac:task><ac:task-id>${taskId}</ac:task-id><ac:task-status>${item.checked ? 'complete' : 'incomplete'}</ac:task-status>` +
+          `<ac:task-body>${item.children.map(child => (child.type === 'paragraph' ? inline(child.children) : block(child))).join('')}</ac:task-body></ac:task>`;
+      }).join('')}</ac:task-list>`;
+    }
+    const tag = node.ordered ? 'ol' : 'ul';
+    const start = node.ordered && node.start && node.start !== 1 ? ` start="${node.start}"` : '';
+    // Tight lists keep their items on one line, as in the markdown
+    const items = node.children.map(item => `<li>${item.children.map(child => (
+      child.type === 'paragraph' && !node.spread ? inline(child.children) : block(child)
+    )).join('')}</li>`);
+    return `<${tag}${start}>${items.join('')}</${tag}>`;
+  };
+
+  const table = (node: Table): string => {
+    const rows = node.children.map((row, rowIndex) => {
+      const tag = rowIndex === 0 ? 'th' : 'td';
+      return `<tr>${row.children.map(cell => `<${tag}>${inline(cell.children)}</${tag}>`).join('')}</tr>`;
+    });
+    return `<table><tbody>${rows.join('')}</tbody></table>`;
+  };
+
+  const block = (node: RootContent): string => {
+    switch (node.type) {
+      case 'heading':
+        return `<h${node.depth}>${inline(node.children)}</h${node.depth}>`;
+      case 'paragraph':
+        return `<p>${inline(node.children)}</p>`;
+      case 'list':
+        return list(node);
+      case 'blockquote':
+        return `<blockquote>${node.children.map(block).join('')}</blockquote>`;
+      case 'code':
+        return code(node);
+      case 'table':
+        return table(node);
+      case 'thematicBreak':
+        return '<hr />';
+      case 'html':
+      case 'definition':
+      case 'footnoteDefinition':
+      case 'yaml':
+        return '';
+      default:
+        return 'children' in node ? (node.children as RootContent[]).map(block).join('') : '';
+    }
+  };
+
+  return { body: root.children.map(block).join('\n'), attachments };
+}
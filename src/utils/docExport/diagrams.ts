@@ -0,0 +1,62 @@
+import mermaid from 'mermaid';
+
+export interface RenderedDiagram {
+  svg: string;
+  png: Uint8Array;
+  // Size in CSS pixels; the PNG is drawn at twice this
+  width: number;
+  height: number;
+}
+
+// HTML labels are drawn in a foreignObject, which taints the canvas the PNG is made on
+const EXPORT_DIRECTIVE = '%%{init: {"htmlLabels": false, "flowchart": {"htmlLabels": false}}}%%\n';
+const PNG_SCALE = 2;
+
+// Diagrams are looked up by their source, which may end with a newline depending on where it came from
+export const diagramKey = (source: string) => source.trim();
+
+async function rasterise(svg: string): Promise<RenderedDiagram> {
+  const element = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+  const [, , viewWidth, viewHeight] = (element.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+  const width = Math.ceil(viewWidth) || 800;
+  const height = Math.ceil(viewHeight) || 600;
+  // Mermaid sizes the SVG to its container; an image needs a fixed size
+  element.setAttribute('width', String(width));
+  element.setAttribute('height', String(height));
+  element.removeAttribute('style');
+  const sized = new XMLSerializer().serializeToString(element);
+
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(sized)}`;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width * PNG_SCALE;
+  canvas.height = height * PNG_SCALE;
+  const context = canvas.getContext('2d');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('The diagram could not be converted to an image');
+  }
+  return { svg: sized, png: new Uint8Array(await blob.arrayBuffer()), width, height };
+}
+
+/**
+ * Renders Mermaid sources to SVG and PNG in the browser. A diagram that
+ * fails to render is left out, so exporters show its source instead.
+ */
+export async function renderMermaidDiagrams(sources: string[]): Promise<Map<string, RenderedDiagram>> {
+  const diagrams = new Map<string, RenderedDiagram>();
+  for (const [index, source] of [...new Set(sources.map(diagramKey))].entries()) {
+    try {
+      const { svg } = await mermaid.render(`export-diagram-${Date.now()}-${index}`, EXPORT_DIRECTIVE + source);
+      diagrams.set(source, await rasterise(svg));
+    } catch (error) {
+      console.error('Error rendering Mermaid diagram:', error);
+    }
+  }
+  return diagrams;
+}
@@ -0,0 +1,259 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  ILevelsOptions,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import type { AlignType, Code, List, PhrasingContent, Root, RootContent, Table as MarkdownTable } from 'mdast';
+import { CODE_THEMES, highlightCode } from '@/utils/pdf';
+import { diagramKey, RenderedDiagram } from './diagrams';
+
+interface RunFormat {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  link?: boolean;
+}
+
+// Paragraph style and left indent (twips) of the blocks being converted
+interface BlockContext {
+  style?: string;
+  indent?: number;
+}
+
+type DocxBlock = Paragraph | Table;
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const ALIGNMENTS: Record<NonNullable<AlignType>, (typeof AlignmentType)[keyof typeof AlignmentType]> = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+};
+
+const LIST_INDENT = 720;
+// Diagrams are scaled down to the width of an A4 or Letter text column, in pixels
+const MAX_IMAGE_WIDTH = 600;
+const color = (hex: string) => hex.replace('#', '').toUpperCase();
+
+/**
+ * Converts the documentation to a Word document with real heading styles,
+ * numbered and bulleted lists, tables, a "Code" paragraph style with
+ * highlighted code, and diagrams as images.
+ */
+export async function exportDocxDocument(root: Root, title: string, diagrams: Map<string, RenderedDiagram>): Promise<Blob> {
+  const numbering: { reference: string; levels: ILevelsOptions[] }[] = [];
+  const codeColors = CODE_THEMES.light;
+
+  const inline = (nodes: PhrasingContent[], format: RunFormat = {}): ParagraphChild[] => nodes.flatMap((node): ParagraphChild[] => {
+    const runOptions = {
+      bold: format.bold,
+      italics: format.italics,
+      strike: format.strike,
+      style: format.link ? 'Hyperlink' : undefined,
+    };
+    switch (node.type) {
+      case 'text':
+        return [new TextRun({ ...runOptions, text: node.value.replace(/\s*\n\s*/g, ' ') })];
+      case 'strong':
+        return inline(node.children, { ...format, bold: true });
+      case 'emphasis':
+        return inline(node.children, { ...format, italics: true });
+      case 'delete':
+        return inline(node.children, { ...format, strike: true });
+      case 'inlineCode':
+        return [new TextRun({ ...runOptions, text: node.value, style: 'InlineCode' })];
+      case 'link':
+        return /^(https?|mailto):/i.test(node.url)
+          ? [new ExternalHyperlink({ link: node.url, children: inline(node.children, { ...format, link: true }) })]
+          : inline(node.children, format);
+      case 'break':
+        return [new TextRun({ break: 1 })];
+      case 'image':
+        return [new TextRun({ ...runOptions, text: `[${node.alt || 'image'}]`, italics: true })];
+      case 'footnoteReference':
+        return [new TextRun({ ...runOptions, text: `[${node.label ?? node.identifier}]` })];
+      case 'html':
+        return [];
+      default:
+        return 'children' in node ? inline(node.children as PhrasingContent[], format) : [];
+    }
+  });
+
+  const paragraph = (children: ParagraphChild[], context: BlockContext) => new Paragraph({
+    style: context.style,
+    indent: context.indent ? { left: context.indent } : undefined,
+    children,
+  });
+
+  const code = (node: Code, context: BlockContext): DocxBlock[] => {
+    const diagram = node.lang === 'mermaid' ? diagrams.get(diagramKey(node.value)) : undefined;
+    if (diagram) {
+      const scale = Math.min(1, MAX_IMAGE_WIDTH / diagram.width);
+      return [new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new ImageRun({
+          type: 'png',
+          data: diagram.png,
+          transformation: { width: Math.round(diagram.width * scale), height: Math.round(diagram.height * scale) },
+          altText: { name: 'Diagram', description: 'Mermaid diagram', title: 'Diagram' },
+        })],
+      })];
+    }
+    // One paragraph per line, kept together so Word does not split short blocks across pages
+    const lines = highlightCode(node.value, node.lang, 'light');
+    return lines.map((runs, index) => new Paragraph({
+      style: 'Code',
+      indent: context.indent ? { left: context.indent } : undefined,
+      keepLines: true,
+      keepNext: index < lines.length - 1,
+      spacing: index === lines.length - 1 ? { after: 200 } : undefined,
+      children: runs.length > 0
+        ? runs.map(run => new TextRun({ text: run.text, color: color(run.color) }))
+        : [new TextRun({ text: '' })],
+    }));
+  };
+
+  const list = (node: List, level: number, context: BlockContext): DocxBlock[] => {
+    let reference: string | undefined;
+    if (node.ordered) {
+      // Every list gets its own numbering so it starts again from its first number
+      reference = `ordered-list-${numbering.length + 1}`;
+      numbering.push({
+        reference,
+        levels: Array.from({ length: 9 }, (_, index) => ({
+          level: index,
+          format: LevelFormat.DECIMAL,
+          text: `%${index + 1}.`,
+          start: index === level ? node.start ?? 1 : 1,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: LIST_INDENT * (index + 1), hanging: 360 } } },
+        })),
+      });
+    }
+    const itemIndent = LIST_INDENT * (level + 1);
+
+    return node.children.flatMap(item => item.children.flatMap((child, index): DocxBlock[] => {
+      if (child.type === 'list') {
+        return list(child, level + 1, context);
+      }
+      if (index > 0 || child.type !== 'paragraph') {
+        return block(child, { ...context, indent: itemIndent });
+      }
+      const checkbox = typeof item.checked === 'boolean' ? [new TextRun({ text: item.checked ? '☑ ' : '☐ ' })] : [];
+      return [new Paragraph({
+        style: context.style,
+        ...(reference
+          ? { numbering: { reference, level } }
+          : checkbox.length > 0 ? { indent: { left: itemIndent } } : { bullet: { level } }),
+        children: [...checkbox, ...inline(child.children)],
+      })];
+    }));
+  };
+
+  const table = (node: MarkdownTable): DocxBlock[] => [
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: node.children.map((row, rowIndex) => new TableRow({
+        tableHeader: rowIndex === 0,
+        children: row.children.map((cell, column) => new TableCell({
+          shading: rowIndex === 0 ? { type: ShadingType.CLEAR, fill: 'F3F4F6', color: 'auto' } : undefined,
+          children: [new Paragraph({
+            alignment: node.align?.[column] ? ALIGNMENTS[node.align[column]] : undefined,
+            children: inline(cell.children, rowIndex === 0 ? { bold: true } : {}),
+          })],
+        })),
+      })),
+    }),
+    // Word joins tables that follow each other directly
+    new Paragraph({}),
+  ];
+
+  const block = (node: RootContent, context: BlockContext = {}): DocxBlock[] => {
+    switch (node.type) {
+      case 'heading':
+        return [new Paragraph({ heading: HEADING_LEVELS[node.depth - 1], children: inline(node.children) })];
+      case 'paragraph':
+        return [paragraph(inline(node.children), context)];
+      case 'list':
+        return list(node, 0, context);
+      case 'blockquote':
+        return node.children.flatMap(child => block(child, { ...context, style: 'BlockQuote' }));
+      case 'code':
+        return code(node, context);
+      case 'table':
+        return table(node);
+      case 'thematicBreak':
+        return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D0D7DE', space: 1 } } })];
+      case 'html':
+      case 'definition':
+      case 'footnoteDefinition':
+      case 'yaml':
+        return [];
+      default:
+        return 'children' in node ? (node.children as RootContent[]).flatMap(child => block(child, context)) : [];
+    }
+  };
+
+  const children = root.children.flatMap(node => block(node));
+  const document = new Document({
+    title,
+    creator: 'LearnOmatic',
+    styles: {
+      default: { document: { run: { font: 'Calibri', size: 22 } } },
+      paragraphStyles: [
+        {
+          id: 'Code',
+          name: 'Code',
+          basedOn: 'Normal',
+          run: { font: 'Consolas', size: 18, color: color(codeColors.text) },
+          paragraph: {
+            spacing: { before: 0, after: 0 },
+            shading: { type: ShadingType.CLEAR, fill: color(codeColors.background), color: 'auto' },
+          },
+        },
+        {
+          id: 'BlockQuote',
+          name: 'Block Quote',
+          basedOn: 'Normal',
+          run: { color: '57606A' },
+          paragraph: {
+            indent: { left: 360 },
+            border: { left: { style: BorderStyle.SINGLE, size: 18, color: 'D0D7DE', space: 8 } },
+          },
+        },
+      ],
+      characterStyles: [
+        {
+          id: 'InlineCode',
+          name: 'Inline Code',
+          basedOn: 'DefaultParagraphFont',
+          run: { font: 'Consolas', size: 20, shading: { type: ShadingType.CLEAR, fill: 'F3F4F6', color: 'auto' } },
+        },
+      ],
+    },
+    numbering: { config: numbering },
+    sections: [{ children }],
+  });
+  return Packer.toBlob(document);
+}
@@ -0,0 +1,59 @@
+import { strToU8, zipSync, Zippable } from 'fflate';
+import { exportConfluencePage } from './confluence';
+import { renderMermaidDiagrams } from './diagrams';
+import { exportDocxDocument } from './docx';
+import { exportHtmlDocument } from './html';
+import { documentTitle, mermaidSources, parseMarkdown } from './markdown';
+
+export type DocumentFormat = 'docx' | 'html' | 'confluence';
+
+export const DOCUMENT_FORMAT_LABELS: Record<DocumentFormat, string> = {
+  docx: 'Word (.docx)',
+  html: 'HTML (single file)',
+  confluence: 'Confluence storage format',
+};
+
+export interface ExportedDocument {
+  blob: Blob;
+  // Includes the dot, e.g. ".docx"
+  extension: string;
+}
+
+const CONFLUENCE_README = `page.xml is the page body in Confluence storage format.
+
+Create the page through the REST API with body.storage set to the contents of
+page.xml, then upload the files in attachments/ to the page. The diagrams in
+the body refer to them by file name.
+`;
+
+/**
+ * Converts generated markdown to Word, a self-contained HTML file or
+ * Confluence storage format. Mermaid blocks are rendered to images first;
+ * any that fail to render stay as code.
+ */
+export async function exportDocument(markdown: string, format: DocumentFormat, title?: string): Promise<ExportedDocument> {
+  const root = parseMarkdown(markdown);
+  const diagrams = await renderMermaidDiagrams(mermaidSources(root));
+  const name = documentTitle(root, title);
+
+  if (format === 'docx') {
+    return { blob: await exportDocxDocument(root, name, diagrams), extension: '.docx' };
+  }
+  if (format === 'html') {
+    return { blob: new Blob([exportHtmlDocument(markdown, name, diagrams)], { type: 'text/html' }), extension: '.html' };
+  }
+
+  const page = exportConfluencePage(root, diagrams);
+  if (page.attachments.length === 0) {
+    return { blob: new Blob([page.body], { type: 'application/xml' }), extension: '.xml' };
+  }
+  // Diagrams are attachments in Confluence, so they travel with the page in a zip
+  const zippable: Zippable = {
+    'page.xml': strToU8(page.body),
+    'README.txt': strToU8(CONFLUENCE_README),
+  };
+  for (const attachment of page.attachments) {
+    zippable[`attachments/${attachment.fileName}`] = attachment.data;
+  }
+  return { blob: new Blob([zipSync(zippable) as BlobPart], { type: 'application/zip' }), extension: '.zip' };
+}
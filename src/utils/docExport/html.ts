@@ -0,0 +1,52 @@
+import { escapeHtml, markdownToHtml } from '@/utils/docSite';
+import { RenderedDiagram } from './diagrams';
+
+// Follows the reader's light or dark preference; everything is inline so the file works on its own
+const DOCUMENT_CSS = `:root{--text:#1f2328;--muted:#656d76;--background:#fff;--surface:#f6f8fa;--border:#d0d7de;--link:#0969da;
+--comment:#6e7781;--keyword:#cf222e;--string:#0a3069;--number:#0550ae;--function:#8250df}
+@media (prefers-color-scheme:dark){:root{--text:#e6edf3;--muted:#8d96a0;--background:#0d1117;--surface:#161b22;--border:#30363d;--link:#4493f8;
+--comment:#8b949e;--keyword:#ff7b72;--string:#a5d6ff;--number:#79c0ff;--function:#d2a8ff}}
+*{box-sizing:border-box}
+body{margin:0;font:16px/1.6 -apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;color:var(--text);background:var(--background)}
+main{max-width:900px;margin:0 auto;padding:32px 24px 64px}
+a{color:var(--link);text-decoration:none}a:hover{text-decoration:underline}
+h1,h2{border-bottom:1px solid var(--border);padding-bottom:8px}
+blockquote{margin:16px 0;padding:0 16px;color:var(--muted);border-left:4px solid var(--border)}
+table{border-collapse:collapse;margin:16px 0;display:block;overflow:auto}th,td{border:1px solid var(--border);padding:6px 12px}th{background:var(--surface)}
+code{font:14px/1.5 ui-monospace,SFMono-Regular,Menlo,monospace;background:var(--surface);padding:2px 4px;border-radius:4px}
+pre{background:var(--surface);padding:16px;border-radius:6px;overflow:auto}pre code{padding:0;background:none}
+figure.diagram{margin:16px 0;padding:16px;background:#fff;border:1px solid var(--border);border-radius:6px;text-align:center}
+figure.diagram img{max-width:100%;height:auto}
+footer{margin-top:48px;padding-top:12px;border-top:1px solid var(--border);color:var(--muted);font-size:13px}
+.token.comment,.token.prolog{color:var(--comment)}.token.keyword,.token.boolean,.token.operator{color:var(--keyword)}
+.token.string,.token.char,.token.attr-value,.token.regex{color:var(--string)}.token.number,.token.constant,.token.property{color:var(--number)}
+.token.function,.token.class-name{color:var(--function)}
+@media print{main{max-width:none;padding:0}pre{white-space:pre-wrap}}
+`;
+
+/**
+ * Renders the documentation as a single HTML file with its styles inline
+ * and diagrams embedded as SVG images.
+ */
+export function exportHtmlDocument(markdown: string, title: string, diagrams: Map<string, RenderedDiagram>): string {
+  const images = new Map([...diagrams].map(([source, diagram]) => [
+    source,
+    `data:image/svg+xml;charset=utf-8,${encodeURIComponent(diagram.svg)}`,
+  ]));
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${DOCUMENT_CSS}</style>
+</head>
+<body>
+<main>
+${markdownToHtml(markdown, images)}
+<footer>Generated with LearnOmatic on ${escapeHtml(new Date().toLocaleDateString())}</footer>
+</main>
+</body>
+</html>
+`;
+}
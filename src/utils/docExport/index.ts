@@ -0,0 +1,9 @@
+export { DOCUMENT_FORMAT_LABELS, exportDocument } from './export';
+export type { DocumentFormat, ExportedDocument } from './export';
+export { renderMermaidDiagrams } from './diagrams';
+export type { RenderedDiagram } from './diagrams';
+export { exportConfluencePage } from './confluence';
+export type { ConfluencePage } from './confluence';
+export { exportDocxDocument } from './docx';
+export { exportHtmlDocument } from './html';
+export { documentTitle, mermaidSources, parseMarkdown, textOf } from './markdown';
@@ -0,0 +1,24 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import type { Heading, Nodes, Root } from 'mdast';
+
+export const parseMarkdown = (markdown: string): Root => unified().use(remarkParse).use(remarkGfm).parse(markdown);
+
+export const textOf = (node: Nodes): string => {
+  if ('value' in node) return node.value;
+  if ('children' in node) return node.children.map(child => textOf(child)).join('');
+  return '';
+};
+
+// Emoji often lead generated headings and make poor titles
+export const documentTitle = (root: Root, title?: string) => {
+  const firstHeading = root.children.find((node): node is Heading => node.type === 'heading' && node.depth === 1);
+  const text = title ?? (firstHeading ? textOf(firstHeading) : '');
+  return text.replace(/^[^\p{L}\p{N}`]+/u, '').trim() || 'Documentation';
+};
+
+export function mermaidSources(node: Nodes): string[] {
+  if (node.type === 'code') return node.lang === 'mermaid' ? [node.value] : [];
+  return 'children' in node ? node.children.flatMap(child => mermaidSources(child)) : [];
+}
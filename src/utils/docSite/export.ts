@@ -0,0 +1,117 @@
+import { strToU8, zipSync, Zippable } from 'fflate';
+import { stringify } from 'yaml';
+import { relativeLink } from './modules';
+import { siteNavigation } from './site';
+import { escapeHtml, markdownToHtml, renderHtmlPage, SEARCH_SCRIPT, SITE_CSS } from './html';
+import { DocumentationSite, SiteFormat } from './types';
+
+export const SITE_FORMAT_LABELS: Record<SiteFormat, string> = {
+  html: 'Static HTML',
+  docusaurus: 'Docusaurus',
+  mkdocs: 'MkDocs',
+};
+
+const pageLabel = (sourcePath: string) => sourcePath.split('/').pop() ?? sourcePath;
+
+const frontMatter = (fields: Record<string, unknown>) => `---\n${stringify(fields, { lineWidth: 0 })}---\n\n`;
+
+function htmlFiles(site: DocumentationSite): Record<string, string> {
+  const navigation = siteNavigation(site);
+  const sidebar = (slug: string) => navigation.map(group => `<h4>${escapeHtml(group.label)}</h4><ul>${
+    group.pages.map(page => `<li><a href="${relativeLink(slug, page.slug, '.html')}"${page.slug === slug ? ' class="active"' : ''}>${escapeHtml(pageLabel(page.sourcePath))}</a></li>`).join('')
+  }</ul>`).join('');
+  const rootOf = (slug: string) => '../'.repeat(slug.split('/').length - 1);
+
+  const files: Record<string, string> = {
+    'index.html': renderHtmlPage({
+      siteName: site.name,
+      title: site.name,
+      root: '',
+      navigation: sidebar('index'),
+      body: markdownToHtml(site.index),
+    }),
+    'assets/site.css': SITE_CSS,
+    'assets/search.js': SEARCH_SCRIPT,
+    // A script rather than JSON, so the search also works when the files are opened directly
+    'search-index.js': `window.DOC_SEARCH_INDEX = ${JSON.stringify(site.searchIndex)};\n`,
+    'search-index.json': JSON.stringify(site.searchIndex, null, 2),
+  };
+  for (const page of site.pages) {
+    files[`${page.slug}.html`] = renderHtmlPage({
+      siteName: site.name,
+      title: page.sourcePath,
+      root: rootOf(page.slug),
+      navigation: sidebar(page.slug),
+      body: markdownToHtml(page.markdown),
+    });
+  }
+  return files;
+}
+
+function docusaurusFiles(site: DocumentationSite): Record<string, string> {
+  const sidebar = [
+    'index',
+    ...siteNavigation(site).map(group => ({
+      type: 'category',
+      label: group.label,
+      items: group.pages.map(page => page.slug),
+    })),
+  ];
+
+  // "format: md" keeps Docusaurus from parsing the pages as MDX, where stray "<" or "{" break the build
+  const files: Record<string, string> = {
+    'docs/index.md': frontMatter({ id: 'index', title: site.name, slug: '/', format: 'md' }) + site.index,
+    'sidebars.js': `// Generated documentation sidebar\nmodule.exports = {\n  docs: ${JSON.stringify(sidebar, null, 2).replace(/\n/g, '\n  ')},\n};\n`,
+    'search-index.json': JSON.stringify(site.searchIndex, null, 2),
+    'README.md': `# ${site.name} documentation\n\nCopy \`docs/\` and \`sidebars.js\` into a Docusaurus site (\`npx create-docusaurus@latest\`) and start it with \`npm start\`.\n`,
+  };
+  for (const page of site.pages) {
+    files[`docs/${page.slug}.md`] = frontMatter({
+      title: page.sourcePath,
+      sidebar_label: pageLabel(page.sourcePath),
+      format: 'md',
+    }) + page.markdown;
+  }
+  return files;
+}
+
+function mkDocsFiles(site: DocumentationSite): Record<string, string> {
+  const config = {
+    site_name: site.name,
+    ...(site.description ? { site_description: site.description } : {}),
+    theme: { name: 'readthedocs' },
+    plugins: ['search'],
+    markdown_extensions: ['tables', 'fenced_code', { toc: { permalink: true } }],
+    nav: [
+      { Home: 'index.md' },
+      ...siteNavigation(site).map(group => ({
+        [group.label]: group.pages.map(page => ({ [pageLabel(page.sourcePath)]: `${page.slug}.md` })),
+      })),
+    ],
+  };
+
+  const files: Record<string, string> = {
+    'mkdocs.yml': stringify(config, { lineWidth: 0 }),
+    'docs/index.md': site.index,
+    'search-index.json': JSON.stringify(site.searchIndex, null, 2),
+    'README.md': `# ${site.name} documentation\n\nPreview with \`pip install mkdocs && mkdocs serve\`, or build the static site with \`mkdocs build\`.\n`,
+  };
+  for (const page of site.pages) {
+    files[`docs/${page.slug}.md`] = page.markdown;
+  }
+  return files;
+}
+
+/**
+ * Packs the site as a zip: a static HTML bundle that works without a
+ * server, or markdown for Docusaurus or MkDocs with their sidebar config.
+ */
+export function exportDocumentationSite(site: DocumentationSite, format: SiteFormat): Blob {
+  const files = format === 'html' ? htmlFiles(site) : format === 'docusaurus' ? docusaurusFiles(site) : mkDocsFiles(site);
+  const zippable: Zippable = {};
+  for (const [path, content] of Object.entries(files)) {
+    zippable[path] = strToU8(content);
+  }
+  // fflate types the result with a generic buffer, which Blob does not accept
+  return new Blob([zipSync(zippable) as BlobPart], { type: 'application/zip' });
+}
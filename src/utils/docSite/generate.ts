@@ -0,0 +1,105 @@
+import openAIService from '@/utils/openai';
+import { LLMError } from '@/utils/llm/errors';
+import { extractSymbols, publicSymbols, SymbolInventory } from '@/utils/symbols';
+import { RepositorySnapshot } from '@/utils/repository';
+import { selectSiteModules } from './modules';
+import { buildDocumentationSite, GeneratedPage } from './site';
+import { DocumentationSite } from './types';
+
+// Symbols listed per module in the outline each page is written with
+const OUTLINE_SYMBOLS_PER_MODULE = 12;
+
+export interface SiteProgress {
+  done: number;
+  total: number;
+  // Module being documented
+  current?: string;
+}
+
+export interface SiteGenerationOptions {
+  onProgress?: (progress: SiteProgress) => void;
+  signal?: AbortSignal;
+  forceRegenerate?: boolean;
+}
+
+/**
+ * Documents every module of a repository, one AI request per page, and
+ * assembles the pages into a site. Pages are written one at a time to stay
+ * clear of rate limits; a module that fails gets a page saying so.
+ */
+export async function generateDocumentationSite(
+  snapshot: RepositorySnapshot,
+  options: SiteGenerationOptions = {}
+): Promise<{ site: DocumentationSite; failed: string[] }> {
+  if (!snapshot.readFiles) {
+    throw new Error('Analyze the repository again to generate a documentation site.');
+  }
+  const { modules } = selectSiteModules(snapshot.fileStructure);
+  if (modules.length === 0) {
+    throw new Error('No source files found to document.');
+  }
+
+  const files = await snapshot.readFiles(modules.map(module => module.path));
+  const contents = new Map(files.map(file => [file.path, file.content]));
+  const sources = modules.filter(module => contents.get(module.path)?.trim());
+
+  const inventories = new Map<string, SymbolInventory | null>();
+  for (const module of sources) {
+    try {
+      inventories.set(module.path, await extractSymbols(contents.get(module.path), module.language));
+    } catch (error) {
+      console.error(`Error parsing ${module.path}:`, error);
+      inventories.set(module.path, null);
+    }
+  }
+  const symbolNames = (path: string) => {
+    const inventory = inventories.get(path);
+    return inventory ? publicSymbols(inventory).map(symbol => symbol.name) : [];
+  };
+
+  const outlineOf = (path: string) => sources
+    .filter(module => module.path !== path)
+    .map(module => {
+      const names = symbolNames(module.path).slice(0, OUTLINE_SYMBOLS_PER_MODULE);
+      return `- ${module.path}${names.length > 0 ? `: ${names.join(', ')}` : ''}`;
+    })
+    .join('\n');
+
+  const pages: GeneratedPage[] = [];
+  const failed: string[] = [];
+  for (const [index, module] of sources.entries()) {
+    options.signal?.throwIfAborted();
+    options.onProgress?.({ done: index, total: sources.length, current: module.path });
+
+    let markdown: string;
+    try {
+      markdown = await openAIService.generateModulePage(
+        module.path,
+        contents.get(module.path),
+        module.language,
+        snapshot.name,
+        outlineOf(module.path),
+        inventories.get(module.path),
+        options.signal ? { signal: options.signal } : undefined,
+        { forceRegenerate: options.forceRegenerate }
+      );
+    } catch (error) {
+      // Provider problems (keys, budgets, cancelling) affect every page, so stop
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      console.error(`Error documenting ${module.path}:`, error);
+      failed.push(module.path);
+      markdown = `Documentation for this module could not be generated: ${error instanceof Error ? error.message : 'unknown error'}`;
+    }
+    pages.push({ sourcePath: module.path, markdown, symbolNames: symbolNames(module.path) });
+  }
+  options.onProgress?.({ done: sources.length, total: sources.length });
+
+  const site = buildDocumentationSite({
+    name: snapshot.name,
+    description: snapshot.description,
+    language: snapshot.language,
+  }, pages);
+  return { site, failed };
+}
@@ -0,0 +1,211 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { highlight, languages } from 'prismjs';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-jsx';
+import 'prismjs/components/prism-tsx';
+import 'prismjs/components/prism-python';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-csharp';
+import 'prismjs/components/prism-go';
+import 'prismjs/components/prism-rust';
+import 'prismjs/components/prism-ruby';
+import 'prismjs/components/prism-c';
+import 'prismjs/components/prism-cpp';
+import 'prismjs/components/prism-kotlin';
+import 'prismjs/components/prism-swift';
+import 'prismjs/components/prism-bash';
+import 'prismjs/components/prism-json';
+import 'prismjs/components/prism-yaml';
+import { headingAnchor } from './site';
+
+export const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const textOf = (node: React.ReactNode): string => {
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(textOf).join('');
+  if (React.isValidElement<{ children?: React.ReactNode }>(node)) return textOf(node.props.children);
+  return '';
+};
+
+/**
+ * Renders page markdown to HTML with the same heading ids as the markdown
+ * exports, highlighted code blocks, and links between pages pointing at
+ * the .html files. Mermaid blocks found in `diagrams` (keyed by their
+ * trimmed source) are drawn as images with the given src.
+ */
+export function markdownToHtml(markdown: string, diagrams?: Map<string, string>): string {
+  const usedAnchors = new Map<string, number>();
+  const anchorFor = (children: React.ReactNode) => {
+    const base = headingAnchor(textOf(children));
+    const count = usedAnchors.get(base) ?? 0;
+    usedAnchors.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+  const heading = (level: 'h1' | 'h2' | 'h3' | 'h4'): Components[typeof level] =>
+    ({ children }) => React.createElement(level, { id: anchorFor(children) }, children);
+
+  const components: Components = {
+    h1: heading('h1'),
+    h2: heading('h2'),
+    h3: heading('h3'),
+    h4: heading('h4'),
+    a: ({ href = '', children }) => React.createElement(
+      'a',
+      { href: /^[a-z]+:/i.test(href) ? href : href.replace(/\.md(#|$)/, '.html$1') },
+      children
+    ),
+    pre: ({ children }) => {
+      const code = React.isValidElement<{ className?: string }>(children) ? children : null;
+      const image = code?.props.className === 'language-mermaid' ? diagrams?.get(textOf(code).trim()) : undefined;
+      return image
+        ? React.createElement('figure', { className: 'diagram' }, React.createElement('img', { src: image, alt: 'Diagram' }))
+        : React.createElement('pre', null, children);
+    },
+    code: ({ className, children }) => {
+      const language = className?.match(/language-([\w-]+)/)?.[1];
+      const grammar = language ? languages[language] : undefined;
+      return grammar
+        ? React.createElement('code', {
+          className,
+          dangerouslySetInnerHTML: { __html: highlight(textOf(children), grammar, language) },
+        })
+        : React.createElement('code', { className }, children);
+    },
+  };
+
+  return renderToStaticMarkup(React.createElement(ReactMarkdown, { remarkPlugins: [remarkGfm], components }, markdown));
+}
+
+interface HtmlPageOptions {
+  siteName: string;
+  title: string;
+  // Relative path to the site root, e.g. "../../"
+  root: string;
+  navigation: string;
+  body: string;
+}
+
+export const renderHtmlPage = ({ siteName, title, root, navigation, body }: HtmlPageOptions) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title === siteName ? siteName : `${title} · ${siteName}`)}</title>
+<link rel="stylesheet" href="${root}assets/site.css">
+</head>
+<body>
+<header class="topbar">
+  <a class="brand" href="${root}index.html">${escapeHtml(siteName)}</a>
+  <div class="search">
+    <input id="search" type="search" placeholder="Search modules and symbols…" autocomplete="off">
+    <ul id="search-results" hidden></ul>
+  </div>
+</header>
+<div class="layout">
+  <nav class="sidebar">${navigation}</nav>
+  <main class="content">${body}</main>
+</div>
+<script>window.DOC_SITE_ROOT = ${JSON.stringify(root)};</script>
+<script src="${root}search-index.js"></script>
+<script src="${root}assets/search.js"></script>
+</body>
+</html>
+`;
+
+export const SITE_CSS = `*{box-sizing:border-box}
+body{margin:0;font:16px/1.6 -apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;color:#1f2328;background:#fff}
+a{color:#0969da;text-decoration:none}a:hover{text-decoration:underline}
+.topbar{position:sticky;top:0;z-index:2;display:flex;align-items:center;gap:24px;padding:12px 24px;border-bottom:1px solid #d0d7de;background:#f6f8fa}
+.brand{font-weight:600;font-size:18px;color:#1f2328}
+.search{position:relative;flex:1;max-width:420px}
+.search input{width:100%;padding:6px 10px;border:1px solid #d0d7de;border-radius:6px;font:inherit}
+#search-results{position:absolute;left:0;right:0;margin:4px 0 0;padding:4px 0;list-style:none;background:#fff;border:1px solid #d0d7de;border-radius:6px;box-shadow:0 8px 24px rgba(0,0,0,.12);max-height:60vh;overflow:auto}
+#search-results li a{display:block;padding:6px 12px}#search-results li small{display:block;color:#656d76}
+.layout{display:flex;align-items:flex-start}
+.sidebar{position:sticky;top:57px;width:280px;flex-shrink:0;max-height:calc(100vh - 57px);overflow:auto;padding:16px 20px;border-right:1px solid #d0d7de;font-size:14px}
+.sidebar h4{margin:16px 0 4px;font-size:12px;text-transform:uppercase;color:#656d76}
+.sidebar ul{margin:0;padding:0;list-style:none}.sidebar li a{display:block;padding:2px 0;color:#1f2328}
+.sidebar li a.active{font-weight:600;color:#0969da}
+.content{flex:1;min-width:0;max-width:900px;padding:24px 40px 64px}
+.content h1{font-size:28px;border-bottom:1px solid #d0d7de;padding-bottom:8px;word-break:break-all}
+.content table{border-collapse:collapse;margin:16px 0}.content th,.content td{border:1px solid #d0d7de;padding:6px 12px}
+.content code{font:14px/1.5 ui-monospace,SFMono-Regular,Menlo,monospace;background:#f6f8fa;padding:2px 4px;border-radius:4px}
+.content pre{background:#f6f8fa;padding:16px;border-radius:6px;overflow:auto}.content pre code{padding:0;background:none}
+.token.comment,.token.prolog{color:#6e7781}.token.keyword,.token.boolean{color:#cf222e}
+.token.string,.token.char,.token.attr-value{color:#0a3069}.token.number,.token.constant{color:#0550ae}
+.token.function,.token.class-name{color:#8250df}.token.operator,.token.punctuation{color:#24292f}
+@media (max-width:800px){.sidebar{display:none}.content{padding:16px}}
+`;
+
+export const SEARCH_SCRIPT = `(function () {
+  var input = document.getElementById('search');
+  var results = document.getElementById('search-results');
+  var index = window.DOC_SEARCH_INDEX || [];
+  var root = window.DOC_SITE_ROOT || '';
+
+  function contains(values, term) {
+    return values.some(function (value) { return value.toLowerCase().indexOf(term) !== -1; });
+  }
+
+  // Every term has to match; titles and symbols count more than the text
+  function score(entry, terms) {
+    var total = 0;
+    for (var i = 0; i < terms.length; i++) {
+      var term = terms[i];
+      var points = (entry.title.toLowerCase().indexOf(term) !== -1 ? 10 : 0) +
+        (contains(entry.symbols, term) ? 8 : 0) +
+        (contains(entry.headings, term) ? 4 : 0) +
+        (entry.text.toLowerCase().indexOf(term) !== -1 ? 1 : 0);
+      if (points === 0) return 0;
+      total += points;
+    }
+    return total;
+  }
+
+  input.addEventListener('input', function () {
+    var terms = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+    results.innerHTML = '';
+    if (terms.length === 0) {
+      results.hidden = true;
+      return;
+    }
+    var matches = index
+      .map(function (entry) { return { entry: entry, score: score(entry, terms) }; })
+      .filter(function (match) { return match.score > 0; })
+      .sort(function (a, b) { return b.score - a.score; })
+      .slice(0, 10);
+    matches.forEach(function (match) {
+      var item = document.createElement('li');
+      var link = document.createElement('a');
+      link.href = root + match.entry.slug + '.html';
+      link.textContent = match.entry.title;
+      var symbols = document.createElement('small');
+      symbols.textContent = match.entry.symbols.slice(0, 6).join(', ');
+      link.appendChild(symbols);
+      item.appendChild(link);
+      results.appendChild(item);
+    });
+    if (matches.length === 0) {
+      var empty = document.createElement('li');
+      empty.textContent = 'No results';
+      empty.style.padding = '6px 12px';
+      results.appendChild(empty);
+    }
+    results.hidden = false;
+  });
+
+  input.addEventListener('keydown', function (event) {
+    if (event.key === 'Escape') {
+      input.value = '';
+      results.hidden = true;
+    }
+  });
+})();
+`;
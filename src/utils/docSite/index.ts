@@ -0,0 +1,8 @@
+export type { DocumentationSite, SearchEntry, SiteFormat, SiteModule, SitePage, SiteSymbol } from './types';
+export { MAX_SITE_MODULES, selectSiteModules, sourceLanguageOf } from './modules';
+export { buildDocumentationSite, headingAnchor, siteNavigation } from './site';
+export type { GeneratedPage, SiteProject } from './site';
+export { exportDocumentationSite, SITE_FORMAT_LABELS } from './export';
+export { escapeHtml, markdownToHtml } from './html';
+export { generateDocumentationSite } from './generate';
+export type { SiteGenerationOptions, SiteProgress } from './generate';
@@ -0,0 +1,85 @@
+import { SiteModule } from './types';
+
+// Each module is one AI request, so large projects are capped
+export const MAX_SITE_MODULES = 60;
+
+const SOURCE_LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', java: 'java', cs: 'csharp', go: 'go', rs: 'rust', rb: 'ruby',
+  php: 'php', kt: 'kotlin', swift: 'swift', c: 'c', cpp: 'cpp',
+};
+
+// Build output, dependencies, tests and hidden directories
+const SKIPPED_DIRECTORIES = /(^|\/)(node_modules|dist|build|out|target|vendor|coverage|__tests__|__mocks__|tests?|spec|fixtures|migrations|\.[^/]+)\//i;
+
+// Tests, stories, type declarations, minified bundles and tool configuration
+const SKIPPED_FILES = /(\.(test|spec|stories|d)\.\w+|\.min\.js|(^|\/)[\w-]+\.config\.\w+|(^|\/)setup\.py)$/i;
+
+const extensionOf = (path: string) => path.split('/').pop()?.split('.').slice(1).pop()?.toLowerCase() ?? '';
+
+/**
+ * Language of a project source file worth documenting; undefined for
+ * other files, dependencies, build output and tests.
+ */
+export function sourceLanguageOf(path: string): string | undefined {
+  return SKIPPED_DIRECTORIES.test(path) || SKIPPED_FILES.test(path) ? undefined : SOURCE_LANGUAGES[extensionOf(path)];
+}
+
+/**
+ * The source files that get a page: shallow files first when the project
+ * has more than `MAX_SITE_MODULES`, then sorted by path for the sidebar.
+ */
+export function selectSiteModules(paths: string[]): { modules: SiteModule[]; total: number } {
+  const candidates = paths.filter(path => sourceLanguageOf(path));
+
+  const depth = (path: string) => path.split('/').length;
+  const modules = [...candidates]
+    .sort((a, b) => depth(a) - depth(b) || a.localeCompare(b))
+    .slice(0, MAX_SITE_MODULES)
+    .sort((a, b) => a.localeCompare(b))
+    .map(path => ({ path, language: sourceLanguageOf(path) }));
+
+  return { modules, total: candidates.length };
+}
+
+// Leading underscores and dots hide files in Docusaurus and MkDocs
+const slugSegment = (segment: string) =>
+  segment.replace(/^[_.]+/, '').replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'module';
+
+/**
+ * Output path of each module's page, without extension. Paths stay unique
+ * when only the extension differs, and "index" is kept for the home page.
+ */
+export function assignSlugs(paths: string[]): Map<string, string> {
+  const used = new Set(['index']);
+  const slugs = new Map<string, string>();
+
+  for (const path of paths) {
+    const segments = path.split('/');
+    const file = segments.pop() ?? path;
+    const base = [...segments.map(slugSegment), slugSegment(file.replace(/\.[^.]+$/, ''))].join('/');
+
+    let slug = used.has(base) ? `${base}-${extensionOf(path)}` : base;
+    for (let count = 2; used.has(slug); count++) {
+      slug = `${base}-${count}`;
+    }
+    used.add(slug);
+    slugs.set(path, slug);
+  }
+  return slugs;
+}
+
+/**
+ * Relative link from one page to another, e.g. from "src/a" to "lib/b"
+ * with extension ".md" gives "../lib/b.md".
+ */
+export function relativeLink(fromSlug: string, toSlug: string, extension: string): string {
+  const from = fromSlug.split('/').slice(0, -1);
+  const to = toSlug.split('/');
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+    common++;
+  }
+  return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/') + extension;
+}
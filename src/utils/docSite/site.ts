@@ -0,0 +1,203 @@
+import { assignSlugs, relativeLink } from './modules';
+import { DocumentationSite, SearchEntry, SitePage, SiteSymbol } from './types';
+
+// A module page as written by the AI, before the site is assembled
+export interface GeneratedPage {
+  sourcePath: string;
+  markdown: string;
+  // Exported symbols from the parser; empty when the language has none
+  symbolNames: string[];
+}
+
+export interface SiteProject {
+  name: string;
+  description?: string;
+  language?: string;
+}
+
+const SEARCH_TEXT_LENGTH = 4000;
+const SUMMARY_LENGTH = 200;
+
+/**
+ * Heading ids the way GitHub, Docusaurus and MkDocs generate them, so
+ * links work in every export format.
+ */
+export const headingAnchor = (text: string) =>
+  text.toLowerCase().trim().replace(/[^\w\s-]/g, '').replace(/[\s-]+/g, '-');
+
+// "`createUser()`" and "createUser" both name the symbol createUser
+const headingSymbolName = (heading: string) => heading.replace(/`/g, '').replace(/\(\)$/, '').trim();
+
+const isFence = (line: string) => /^\s*(```|~~~)/.test(line);
+
+// Calls `visit` with every line outside code fences
+function mapProse(markdown: string, visit: (line: string) => string): string {
+  let inFence = false;
+  return markdown.split('\n').map(line => {
+    if (isFence(line)) {
+      inFence = !inFence;
+      return line;
+    }
+    return inFence ? line : visit(line);
+  }).join('\n');
+}
+
+const headingsOf = (markdown: string): string[] => {
+  const headings: string[] = [];
+  mapProse(markdown, line => {
+    const match = line.match(/^#{2,4}\s+(.+?)\s*#*$/);
+    if (match) headings.push(match[1]);
+    return line;
+  });
+  return headings;
+};
+
+const plainText = (markdown: string) => markdown
+  .replace(/```[\s\S]*?```|~~~[\s\S]*?~~~/g, ' ')
+  .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/^#+\s*/gm, '')
+  .replace(/[`*_>|]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const summaryOf = (markdown: string): string => {
+  const paragraph = markdown
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .find(block => block && !block.startsWith('#') && !isFence(block) && !block.startsWith('|'));
+  const text = plainText(paragraph ?? '');
+  return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH - 1).trimEnd()}…` : text;
+};
+
+// The title is added from the module path, so one written by the AI is dropped
+const withoutTitle = (markdown: string) => markdown.trim().replace(/^#\s+[^\n]*\n+/, '');
+
+/**
+ * Symbols on a page with the heading that documents them. Without parser
+ * output, every "###" heading that looks like an identifier counts.
+ */
+function pageSymbols(markdown: string, symbolNames: string[]): SiteSymbol[] {
+  const anchors = new Map<string, string>();
+  const used = new Map<string, number>();
+  let inFence = false;
+  for (const line of markdown.split('\n')) {
+    if (isFence(line)) inFence = !inFence;
+    const match = !inFence && line.match(/^(#{2,4})\s+(.+?)\s*#*$/);
+    if (!match) continue;
+
+    // Repeated headings get "-1", "-2", ... like the site generators do
+    const base = headingAnchor(match[2]);
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    const name = headingSymbolName(match[2]);
+    const isSymbolHeading = symbolNames.length > 0
+      ? symbolNames.includes(name)
+      : match[1] === '###' && /^[A-Za-z_$][\w$]*$/.test(name);
+    if (isSymbolHeading && !anchors.has(name)) {
+      anchors.set(name, count === 0 ? base : `${base}-${count}`);
+    }
+  }
+
+  const names = symbolNames.length > 0 ? symbolNames : [...anchors.keys()];
+  return names.map(name => ({ name, anchor: anchors.get(name) }));
+}
+
+/**
+ * Turns the first mention of each symbol of another page (written as
+ * `name` or `name()`) into a link to where it is documented.
+ */
+function addCrossLinks(page: SitePage, targets: Map<string, { slug: string; anchor?: string }[]>): string {
+  const linked = new Set<string>();
+  const ownSymbols = new Set(page.symbols.map(symbol => symbol.name));
+
+  return mapProse(page.markdown, line => {
+    if (/^#/.test(line)) return line;
+    return line.replace(/(?<![[\w])`([A-Za-z_$][\w$]*)(\(\))?`(?!\]\()/g, (mention, name: string) => {
+      const candidates = targets.get(name) ?? [];
+      // Names defined in several modules are ambiguous, and the page's own symbols are already on it
+      if (ownSymbols.has(name) || candidates.length !== 1 || linked.has(name)) return mention;
+
+      linked.add(name);
+      const target = candidates[0];
+      return `[${mention}](${relativeLink(page.slug, target.slug, '.md')}${target.anchor ? `#${target.anchor}` : ''})`;
+    });
+  });
+}
+
+// Pages grouped by directory, in the order they are listed
+const navigationOf = (pages: SitePage[]) => [...new Set(pages.map(page => page.group))].map(group => ({
+  label: group || 'Project root',
+  pages: pages.filter(page => page.group === group),
+}));
+
+function buildIndex(project: SiteProject, pages: SitePage[]): string {
+  const sections = navigationOf(pages).map(group => [
+    `### ${group.label}`,
+    '',
+    ...group.pages.map(page => `- [${page.sourcePath.split('/').pop()}](${relativeLink('index', page.slug, '.md')})${page.summary ? ` — ${page.summary}` : ''}`),
+  ].join('\n'));
+
+  return [
+    `# ${project.name}`,
+    project.description ?? '',
+    [
+      project.language ? `**Language:** ${project.language}` : '',
+      `**Modules:** ${pages.length}`,
+    ].filter(Boolean).join(' · '),
+    '## Modules',
+    ...sections,
+  ].filter(Boolean).join('\n\n') + '\n';
+}
+
+/**
+ * Assembles the generated module pages into a site: unique page paths,
+ * symbol anchors, cross-links, the home page and the search index.
+ */
+export function buildDocumentationSite(project: SiteProject, generated: GeneratedPage[]): DocumentationSite {
+  const sorted = [...generated].sort((a, b) => a.sourcePath.localeCompare(b.sourcePath));
+  const slugs = assignSlugs(sorted.map(page => page.sourcePath));
+
+  const pages: SitePage[] = sorted.map(page => {
+    const body = withoutTitle(page.markdown);
+    return {
+      slug: slugs.get(page.sourcePath),
+      sourcePath: page.sourcePath,
+      group: page.sourcePath.split('/').slice(0, -1).join('/'),
+      markdown: `# ${page.sourcePath}\n\n${body}\n`,
+      summary: summaryOf(body),
+      headings: headingsOf(body),
+      symbols: pageSymbols(body, page.symbolNames),
+    };
+  });
+
+  const targets = new Map<string, { slug: string; anchor?: string }[]>();
+  for (const page of pages) {
+    for (const symbol of page.symbols) {
+      targets.set(symbol.name, [...targets.get(symbol.name) ?? [], { slug: page.slug, anchor: symbol.anchor }]);
+    }
+  }
+  const linkedPages = pages.map(page => ({ ...page, markdown: addCrossLinks(page, targets) }));
+
+  const searchIndex: SearchEntry[] = linkedPages.map(page => ({
+    slug: page.slug,
+    title: page.sourcePath,
+    headings: page.headings.map(headingSymbolName),
+    symbols: page.symbols.map(symbol => symbol.name),
+    text: plainText(page.markdown).slice(0, SEARCH_TEXT_LENGTH),
+  }));
+
+  return {
+    name: project.name,
+    description: project.description,
+    pages: linkedPages,
+    index: buildIndex(project, linkedPages),
+    searchIndex,
+  };
+}
+
+/**
+ * Sidebar entries grouped by directory, in the order they are listed.
+ */
+export function siteNavigation(site: DocumentationSite): { label: string; pages: SitePage[] }[] {
+  return navigationOf(site.pages);
+}
@@ -0,0 +1,51 @@
+export type SiteFormat = 'html' | 'docusaurus' | 'mkdocs';
+
+// A source file that gets its own page
+export interface SiteModule {
+  path: string;
+  // Language id as used by the symbol parser and the prompts, e.g. "typescript"
+  language: string;
+}
+
+// A symbol that other pages can link to
+export interface SiteSymbol {
+  name: string;
+  // Heading id on the module page; links go to the top of the page without one
+  anchor?: string;
+}
+
+export interface SitePage {
+  // Output path without extension, e.g. "src/utils/format"
+  slug: string;
+  // Source file the page documents
+  sourcePath: string;
+  // Directory the page is listed under in the sidebar; empty for the project root
+  group: string;
+  // Page body, starting with the title heading, with cross-links as relative .md links
+  markdown: string;
+  // First paragraph of the page, as plain text
+  summary: string;
+  headings: string[];
+  symbols: SiteSymbol[];
+}
+
+export interface SearchEntry {
+  slug: string;
+  title: string;
+  headings: string[];
+  symbols: string[];
+  // Plain text of the page, shortened
+  text: string;
+}
+
+/**
+ * A generated documentation site, independent of the export format.
+ */
+export interface DocumentationSite {
+  name: string;
+  description?: string;
+  pages: SitePage[];
+  // Markdown of the home page
+  index: string;
+  searchIndex: SearchEntry[];
+}
@@ -1,5 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
 import { User } from '@supabase/supabase-js';
+import { PromptVersions } from '@/utils/prompts';
 
 export interface SavedExplanation {
   id: string;
@@ -9,6 +10,8 @@ export interface SavedExplanation {
   created_at?: string;
   updated_at?: string;
   tags?: string[];
+  // Prompt template versions the explanation was generated with
+  prompt_versions?: PromptVersions | null;
 }
 
 /**
@@ -65,7 +68,8 @@ export async function saveExplanationToSupabase(
   user: User | null, 
   topic: string, 
   content: string,
-  tags: string[] = []
+  tags: string[] = [],
+  promptVersions?: PromptVersions
 ): Promise<SavedExplanation | null> {
   if (!user) {
     throw new Error('User must be logged in to save explanations');
@@ -76,7 +80,8 @@ export async function saveExplanationToSupabase(
       user_id: user.id,
       topic,
       content,
-      tags
+      tags,
+      prompt_versions: promptVersions ?? null
     };
 
     // Use type assertion to work with our custom table
@@ -205,12 +210,14 @@ export function getLocalSavedExplanations(): SavedExplanation[] {
  */
 export function saveExplanationToLocalStorage(
   topic: string,
-  content: string
+  content: string,
+  promptVersions?: PromptVersions
 ): SavedExplanation {
   const newExplanation: SavedExplanation = {
     id: Date.now().toString(),
     topic,
     content,
+    prompt_versions: promptVersions ?? null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString()
   };
@@ -0,0 +1,100 @@
+export type DiffRowType = 'unchanged' | 'added' | 'removed' | 'changed';
+
+export interface DiffLine {
+  // 1-based line number in its file
+  number: number;
+  text: string;
+}
+
+/**
+ * One row of a side-by-side diff. Added rows only have a right side,
+ * removed rows only a left side.
+ */
+export interface DiffRow {
+  type: DiffRowType;
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+/**
+ * Line diff of two texts based on the longest common subsequence. Runs of
+ * removed and added lines are paired up as changed rows.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  // Common prefix and suffix don't need the quadratic table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const n = middleA.length;
+  const m = middleB.length;
+
+  // lengths[i * (m + 1) + j] = LCS length of middleA[i..] and middleB[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = middleA[i] === middleB[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  for (let i = 0; i < prefix; i++) {
+    rows.push({ type: 'unchanged', left: { number: i + 1, text: a[i] }, right: { number: i + 1, text: b[i] } });
+  }
+
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && middleA[i] === middleB[j]) {
+      flush();
+      rows.push({
+        type: 'unchanged',
+        left: { number: prefix + i + 1, text: middleA[i] },
+        right: { number: prefix + j + 1, text: middleB[j] },
+      });
+      i++;
+      j++;
+    } else if (j < m && (i === n || lengths[i * (m + 1) + j + 1] >= lengths[(i + 1) * (m + 1) + j])) {
+      added.push({ number: prefix + j + 1, text: middleB[j] });
+      j++;
+    } else {
+      removed.push({ number: prefix + i + 1, text: middleA[i] });
+      i++;
+    }
+  }
+  flush();
+
+  for (let k = 0; k < suffix; k++) {
+    const leftIndex = a.length - suffix + k;
+    const rightIndex = b.length - suffix + k;
+    rows.push({
+      type: 'unchanged',
+      left: { number: leftIndex + 1, text: a[leftIndex] },
+      right: { number: rightIndex + 1, text: b[rightIndex] },
+    });
+  }
+  return rows;
+}
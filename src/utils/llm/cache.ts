@@ -0,0 +1,182 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ChatMessage } from './types';
+
+/** Everything that determines a completion, and therefore its cache key. */
+export interface CacheKeyParts {
+  provider: string;
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+}
+
+export interface CachedResponse {
+  content: string;
+  createdAt: Date;
+}
+
+interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | null>;
+  set(key: string, content: string, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const textOf = (message: ChatMessage) =>
+  typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+
+/**
+ * SHA-256 of the provider, model, system prompt, user content and temperature.
+ */
+export async function hashCacheKey({ provider, model, messages, temperature }: CacheKeyParts): Promise<string> {
+  const payload = JSON.stringify({
+    provider,
+    model,
+    system: messages.filter(m => m.role === 'system').map(textOf),
+    user: messages.filter(m => m.role !== 'system').map(m => `${m.role}:${textOf(m)}`),
+    temperature: temperature ?? null,
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const DB_NAME = 'learnomatic-cache';
+const STORE_NAME = 'responses';
+
+interface IndexedDbRecord {
+  key: string;
+  content: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Browser-local cache for anonymous users.
+ */
+class IndexedDbCacheStore implements ResponseCacheStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const record = await this.run<IndexedDbRecord | undefined>('readonly', store => store.get(key));
+    if (!record) return null;
+    if (record.expiresAt <= Date.now()) {
+      await this.run('readwrite', store => store.delete(key));
+      return null;
+    }
+    return { content: record.content, createdAt: new Date(record.createdAt) };
+  }
+
+  async set(key: string, content: string, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    await this.run('readwrite', store => store.put({ key, content, createdAt: now, expiresAt: now + ttlMs }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+}
+
+/**
+ * Per-user cache in Supabase, shared between the user's devices.
+ */
+class SupabaseCacheStore implements ResponseCacheStore {
+  private userId: string;
+
+  constructor(userId: string) {
+    this.userId = userId;
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const { data, error } = await supabase
+      .from('llm_response_cache')
+      .select('content, created_at, expires_at')
+      .eq('user_id', this.userId)
+      .eq('cache_key', key)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    if (new Date(data.expires_at).getTime() <= Date.now()) {
+      await supabase.from('llm_response_cache').delete().eq('user_id', this.userId).eq('cache_key', key);
+      return null;
+    }
+    return { content: data.content, createdAt: new Date(data.created_at) };
+  }
+
+  async set(key: string, content: string, ttlMs: number): Promise<void> {
+    const now = new Date();
+    const { error } = await supabase.from('llm_response_cache').upsert({
+      user_id: this.userId,
+      cache_key: key,
+      content,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+    }, { onConflict: 'user_id,cache_key' });
+
+    if (error) throw error;
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await supabase.from('llm_response_cache').delete().eq('user_id', this.userId).eq('cache_key', key);
+    if (error) throw error;
+  }
+}
+
+const indexedDbStore = new IndexedDbCacheStore();
+
+async function getStore(): Promise<ResponseCacheStore> {
+  const { data } = await supabase.auth.getSession();
+  return data.session ? new SupabaseCacheStore(data.session.user.id) : indexedDbStore;
+}
+
+/**
+ * Content-addressed cache of completions. Failures are logged and treated
+ * as a miss, so the cache can never break a request.
+ */
+export const responseCache = {
+  async get(key: string): Promise<CachedResponse | null> {
+    try {
+      return await (await getStore()).get(key);
+    } catch (error) {
+      console.warn('Response cache lookup failed:', error);
+      return null;
+    }
+  },
+
+  async set(key: string, content: string, ttlMs: number): Promise<void> {
+    try {
+      await (await getStore()).set(key, content, ttlMs);
+    } catch (error) {
+      console.warn('Failed to store response in cache:', error);
+    }
+  },
+
+  async delete(key: string): Promise<void> {
+    try {
+      await (await getStore()).delete(key);
+    } catch (error) {
+      console.warn('Failed to remove response from cache:', error);
+    }
+  },
+};
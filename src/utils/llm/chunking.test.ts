@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { CodeChunk, splitIntoChunks } from './chunking';
+import { countTokens } from './tokens';
+
+const functionSource = (name: string, statements = 8) => [
+  `/** Computes ${name}. */`,
+  `export function ${name}(values: number[]): number {`,
+  ...Array.from({ length: statements }, (_, index) => `  const step${index} = values.reduce((sum, value) => sum + value * ${index}, 0);`),
+  '  return values.length;',
+  '}',
+].join('\n');
+
+// Chunks must cover every line exactly once, in order, without overlapping
+const expectContiguous = (text: string, chunks: CodeChunk[]) => {
+  expect(chunks[0].startLine).toBe(1);
+  chunks.slice(1).forEach((chunk, index) => expect(chunk.startLine).toBe(chunks[index].endLine + 1));
+  expect(chunks.at(-1)!.endLine).toBe(text.split('\n').length);
+  expect(chunks.map(chunk => chunk.content).join('\n')).toBe(text);
+};
+
+const expectWithinBudget = async (chunks: CodeChunk[], maxTokens: number) => {
+  for (const chunk of chunks) {
+    expect(await countTokens(chunk.content)).toBeLessThanOrEqual(maxTokens);
+  }
+};
+
+describe('splitIntoChunks', () => {
+  it('returns the whole input when it fits the budget', async () => {
+    const text = functionSource('total');
+
+    expect(await splitIntoChunks(text, 'typescript', 10_000)).toEqual([
+      { content: text, startLine: 1, endLine: text.split('\n').length },
+    ]);
+  });
+
+  it('cuts between top-level functions and keeps their doc comments with them', async () => {
+    const text = ['mean', 'median', 'mode', 'range'].map(name => functionSource(name)).join('\n\n');
+    const maxTokens = Math.ceil(await countTokens(functionSource('median')) * 1.5);
+
+    const chunks = await splitIntoChunks(text, 'typescript', maxTokens);
+
+    expect(chunks).toHaveLength(4);
+    expectContiguous(text, chunks);
+    await expectWithinBudget(chunks, maxTokens);
+    chunks.slice(1).forEach(chunk => expect(chunk.content).toMatch(/^\/\*\* Computes \w+\. \*\/\n/));
+  });
+
+  it('packs several small functions into one chunk', async () => {
+    const text = ['a', 'b', 'c', 'd', 'e', 'f'].map(name => functionSource(name, 1)).join('\n');
+    const maxTokens = Math.ceil(await countTokens(text) / 2) + 10;
+
+    const chunks = await splitIntoChunks(text, 'typescript', maxTokens);
+
+    expect(chunks).toHaveLength(2);
+    expectContiguous(text, chunks);
+    await expectWithinBudget(chunks, maxTokens);
+  });
+
+  it('splits a class that is too large along its methods', async () => {
+    const methods = ['load', 'save', 'remove'].map(name => [
+      `    public void ${name}(String id) {`,
+      ...Array.from({ length: 6 }, (_, index) => `        log.add("${name} " + id + " step ${index}");`),
+      '    }',
+    ].join('\n'));
+    const text = ['public class Repository {', '    private List<String> log = new ArrayList<>();', '', ...methods, '}'].join('\n');
+    const maxTokens = Math.ceil(await countTokens(methods[0]) * 1.3);
+
+    const chunks = await splitIntoChunks(text, 'java', maxTokens);
+
+    expectContiguous(text, chunks);
+    await expectWithinBudget(chunks, maxTokens);
+    expect(chunks.slice(1).map(chunk => chunk.content.split('\n')[0].trim())).toEqual([
+      'public void save(String id) {',
+      'public void remove(String id) {',
+    ]);
+  });
+
+  it('falls back to whole lines when a unit has no declarations to cut at', async () => {
+    const text = Array.from({ length: 40 }, (_, index) => `  value${index} = compute(${index}, "padding padding padding");`).join('\n');
+    const maxTokens = 60;
+
+    const chunks = await splitIntoChunks(text, 'python', maxTokens);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expectContiguous(text, chunks);
+    await expectWithinBudget(chunks, maxTokens);
+  });
+
+  it('keeps a line that is larger than the budget in a chunk of its own', async () => {
+    const long = `const data = "${'x'.repeat(400)}";`;
+    const text = ['const a = 1;', long, 'const b = 2;'].join('\n');
+
+    const chunks = await splitIntoChunks(text, 'javascript', 20);
+
+    expectContiguous(text, chunks);
+    expect(chunks.find(chunk => chunk.content.includes('xxxx'))?.content).toBe(long);
+  });
+
+  it('cuts markdown at headings, but not at headings inside code fences', async () => {
+    const section = (title: string) => [
+      `## ${title}`,
+      ...Array.from({ length: 6 }, (_, index) => `Paragraph ${index} about ${title.toLowerCase()} with enough words to count.`),
+    ].join('\n');
+    const fenced = ['## Usage', '```sh', '# not a heading', 'npm start', '```', 'Run it locally.'].join('\n');
+    const text = ['# Project', section('Install'), fenced, section('License')].join('\n');
+    const maxTokens = Math.ceil(await countTokens(section('Install')) * 1.2);
+
+    const chunks = await splitIntoChunks(text, 'markdown', maxTokens);
+
+    expectContiguous(text, chunks);
+    expect(chunks.map(chunk => chunk.content.split('\n').find(line => line.startsWith('## ')))).toEqual([
+      '## Install',
+      '## Usage',
+      '## License',
+    ]);
+    expect(chunks[1].content).toContain('# not a heading');
+  });
+});
@@ -0,0 +1,175 @@
+import { countTokens } from './tokens';
+
+export interface CodeChunk {
+  content: string;
+  // 1-based, inclusive line range in the original input
+  startLine: number;
+  endLine: number;
+}
+
+interface LineRange {
+  start: number;
+  end: number;
+}
+
+// Lines that start a top-level unit in the common languages: functions, classes,
+// interfaces, Python defs, Go funcs, Rust items, Java/C# members and so on
+const DECLARATION_PATTERN = /^(export\s+)?(default\s+)?(declare\s+)?(abstract\s+|async\s+|static\s+|public\s+|private\s+|protected\s+|internal\s+|sealed\s+|final\s+|override\s+|virtual\s+|partial\s+|pub(\(crate\))?\s+)*(function\*?|class|interface|type|enum|const|let|var|def|fn|func|struct|impl|trait|mod|module|namespace|record|object)\b/;
+// Java and C# methods start with a return type rather than a keyword
+const METHOD_PATTERN = /^((public|private|protected|internal|static|final|abstract|override|virtual|async|synchronized)\s+)+[\w<>[\],.?\s]+\s+\w+\s*\(/;
+const MARKDOWN_HEADING_PATTERN = /^#{1,3}\s/;
+// Comments, doc blocks and decorators belong to the declaration that follows them
+const LEADING_TRIVIA_PATTERN = /^\s*(\/\/|\/\*|\*|#(?!\s*\w+\s*\()|@|\[|'''|""")/;
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const isMarkdown = (language: string) => /^(markdown|md|readme)$/i.test(language);
+
+function findCodeBoundaries(lines: string[], range: LineRange, indent: number): number[] {
+  const boundaries: number[] = [];
+  for (let i = range.start + 1; i <= range.end; i++) {
+    const line = lines[i];
+    if (indentOf(line) !== indent) continue;
+    const trimmed = line.trim();
+    if (!DECLARATION_PATTERN.test(trimmed) && !METHOD_PATTERN.test(trimmed)) continue;
+
+    // Move the cut above any comments or decorators attached to the declaration
+    let cut = i;
+    while (cut - 1 > range.start && LEADING_TRIVIA_PATTERN.test(lines[cut - 1]) && indentOf(lines[cut - 1]) === indent) {
+      cut--;
+    }
+    if (cut > range.start && boundaries[boundaries.length - 1] !== cut) {
+      boundaries.push(cut);
+    }
+  }
+  return boundaries;
+}
+
+function findMarkdownBoundaries(lines: string[], range: LineRange): number[] {
+  const boundaries: number[] = [];
+  let inFence = false;
+  for (let i = range.start; i <= range.end; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) {
+      inFence = !inFence;
+    } else if (!inFence && i > range.start && MARKDOWN_HEADING_PATTERN.test(lines[i])) {
+      boundaries.push(i);
+    }
+  }
+  return boundaries;
+}
+
+/**
+ * Splits a range into units at the shallowest indentation that has
+ * declarations. Nested levels are only used when a unit is still too large.
+ */
+function splitRange(lines: string[], range: LineRange, language: string, minIndent: number): { units: LineRange[]; nextIndent: number | null } {
+  let boundaries: number[] = [];
+  let indent = minIndent;
+
+  if (isMarkdown(language)) {
+    boundaries = minIndent === 0 ? findMarkdownBoundaries(lines, range) : [];
+  } else {
+    const indents = [...new Set(
+      lines.slice(range.start, range.end + 1).filter(line => line.trim()).map(indentOf)
+    )].filter(level => level >= minIndent).sort((a, b) => a - b);
+
+    for (const level of indents) {
+      boundaries = findCodeBoundaries(lines, range, level);
+      if (boundaries.length > 0) {
+        indent = level;
+        break;
+      }
+    }
+  }
+
+  const starts = [range.start, ...boundaries];
+  const units = starts.map((start, index) => ({
+    start,
+    end: index + 1 < starts.length ? starts[index + 1] - 1 : range.end,
+  }));
+  return { units, nextIndent: boundaries.length > 0 ? indent + 1 : null };
+}
+
+const joinLines = (lines: string[], range: LineRange) => lines.slice(range.start, range.end + 1).join('\n');
+
+/**
+ * Breaks a unit into pieces that fit the budget: first along nested
+ * declarations (e.g. methods of a large class), then line by line.
+ */
+async function splitOversized(lines: string[], range: LineRange, language: string, minIndent: number, maxTokens: number): Promise<LineRange[]> {
+  if (range.end > range.start) {
+    const { units, nextIndent } = splitRange(lines, range, language, minIndent);
+    if (units.length > 1) {
+      return packUnits(lines, units, language, nextIndent ?? minIndent, maxTokens);
+    }
+  }
+
+  const pieces: LineRange[] = [];
+  let current: LineRange | null = null;
+  let currentTokens = 0;
+  for (let i = range.start; i <= range.end; i++) {
+    const lineTokens = await countTokens(lines[i] + '\n');
+    if (current && currentTokens + lineTokens > maxTokens) {
+      pieces.push(current);
+      current = null;
+      currentTokens = 0;
+    }
+    current = current ? { ...current, end: i } : { start: i, end: i };
+    currentTokens += lineTokens;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Greedily merges consecutive units into chunks no larger than `maxTokens`.
+ */
+async function packUnits(lines: string[], units: LineRange[], language: string, nestedIndent: number, maxTokens: number): Promise<LineRange[]> {
+  const chunks: LineRange[] = [];
+  let current: LineRange | null = null;
+  let currentTokens = 0;
+
+  for (const unit of units) {
+    const unitTokens = await countTokens(joinLines(lines, unit));
+
+    if (unitTokens > maxTokens) {
+      if (current) chunks.push(current);
+      current = null;
+      currentTokens = 0;
+      chunks.push(...await splitOversized(lines, unit, language, nestedIndent, maxTokens));
+      continue;
+    }
+
+    if (current && currentTokens + unitTokens > maxTokens) {
+      chunks.push(current);
+      current = null;
+      currentTokens = 0;
+    }
+    current = current ? { start: current.start, end: unit.end } : { ...unit };
+    currentTokens += unitTokens;
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Splits source code (or markdown) into chunks of at most `maxTokens`,
+ * cutting between functions and classes, or between sections for markdown,
+ * so each chunk can be processed on its own.
+ */
+export async function splitIntoChunks(text: string, language: string, maxTokens: number): Promise<CodeChunk[]> {
+  const lines = text.split('\n');
+  const whole = { start: 0, end: lines.length - 1 };
+
+  if (await countTokens(text) <= maxTokens) {
+    return [{ content: text, startLine: 1, endLine: lines.length }];
+  }
+
+  const ranges = await splitOversized(lines, whole, language, 0, maxTokens);
+  return ranges.map(range => ({
+    content: joinLines(lines, range),
+    startLine: range.start + 1,
+    endLine: range.end + 1,
+  }));
+}
@@ -0,0 +1,183 @@
+import { getProxyUrl, loadMockOptions, loadProviderConfig } from './config';
+import { MockLLM, MockOptions, recordFixture } from './mock';
+import { getProvider } from './providers';
+import { readServerSentEvents } from './sse';
+import { mapHttpError, toLLMError } from './errors';
+import { RequestPipelineOptions, runWithRetry } from './request';
+import {
+  ChatCompletionResult,
+  CompletionUsage,
+  LLMProvider,
+  OpenAIRequestOptions,
+  ProviderConfig,
+  ProxyCredentials,
+  StreamOptions,
+} from './types';
+
+/**
+ * Sends chat completions to whichever provider is configured.
+ * Features never talk to a provider directly; they go through OpenAIService,
+ * which delegates transport to this client. Requests are relayed by the
+ * llm-proxy Edge Function, which holds the provider credentials, or answered
+ * from fixtures by the mock provider.
+ */
+export class LLMClient {
+  private config: ProviderConfig;
+  private provider: LLMProvider;
+  private proxyUrl: string;
+  private recordFixtures: boolean;
+  private budgetWarningListeners = new Set<(message: string) => void>();
+
+  // Set when the mock provider is selected
+  readonly mock: MockLLM | null;
+
+  constructor(config: ProviderConfig, proxyUrl: string, mockOptions: MockOptions = {}) {
+    this.config = config;
+    this.provider = getProvider(config.id);
+    this.proxyUrl = proxyUrl;
+    this.mock = config.id === 'mock' ? new MockLLM(mockOptions) : null;
+    this.recordFixtures = !this.mock && !!mockOptions.recordFixtures;
+  }
+
+  get providerId() {
+    return this.config.id;
+  }
+
+  get providerConfig(): Readonly<ProviderConfig> {
+    return this.config;
+  }
+
+  /**
+   * Notifies `listener` when the proxy reports that a monthly budget set to
+   * "warn" has been exceeded. Returns an unsubscribe function.
+   */
+  onBudgetWarning(listener: (message: string) => void): () => void {
+    this.budgetWarningListeners.add(listener);
+    return () => {
+      this.budgetWarningListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Relays the request through the llm-proxy Edge Function.
+   */
+  private forward(options: OpenAIRequestOptions, credentials: ProxyCredentials, signal?: AbortSignal): Promise<Response> {
+    const request = this.provider.buildRequest(options, this.config);
+
+    return fetch(this.proxyUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${credentials.accessToken}`,
+      },
+      body: JSON.stringify({
+        provider: this.config.id,
+        path: request.path,
+        body: request.body,
+        keyId: credentials.keyId,
+        feature: credentials.feature,
+      }),
+      signal,
+    });
+  }
+
+  private async send(options: OpenAIRequestOptions, credentials: ProxyCredentials, signal?: AbortSignal): Promise<Response> {
+    const response = this.mock
+      ? await this.mock.respond(options, credentials.feature, signal)
+      : await this.forward(options, credentials, signal);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw mapHttpError(response.status, errorData, response.headers, this.config.id);
+    }
+
+    const budgetWarning = response.headers.get('x-llm-budget-warning');
+    if (budgetWarning) {
+      this.budgetWarningListeners.forEach(listener => listener(budgetWarning));
+    }
+    return response;
+  }
+
+  async complete(
+    options: OpenAIRequestOptions,
+    credentials: ProxyCredentials,
+    pipelineOptions: RequestPipelineOptions = {}
+  ): Promise<ChatCompletionResult> {
+    return runWithRetry(async signal => {
+      const response = await this.send(options, credentials, signal);
+      const data = await response.json();
+      const result = this.provider.parseResponse(data);
+      if (this.recordFixtures) {
+        await recordFixture(options, credentials.feature, result);
+      }
+      return result;
+    }, pipelineOptions);
+  }
+
+  /**
+   * Streams a completion over SSE, reporting each chunk through `onToken`.
+   * Aborting through `signal` resolves with the partial output instead of throwing.
+   * Only opening the stream is retried; once tokens have been delivered a
+   * failure is reported as is.
+   */
+  async stream(
+    options: OpenAIRequestOptions,
+    credentials: ProxyCredentials,
+    { onToken, signal, ...pipelineOptions }: StreamOptions & RequestPipelineOptions = {}
+  ): Promise<ChatCompletionResult> {
+    let content = '';
+    let model = options.model;
+    const usage: Partial<CompletionUsage> = {};
+
+    const buildResult = (aborted: boolean): ChatCompletionResult => ({
+      content,
+      model,
+      aborted,
+      usage: usage.promptTokens !== undefined || usage.completionTokens !== undefined ? {
+        promptTokens: usage.promptTokens ?? 0,
+        completionTokens: usage.completionTokens ?? 0,
+        totalTokens: usage.totalTokens ?? (usage.promptTokens ?? 0) + (usage.completionTokens ?? 0),
+      } : undefined,
+    });
+
+    try {
+      const response = await runWithRetry(
+        attemptSignal => this.send({ ...options, stream: true }, credentials, attemptSignal),
+        { ...pipelineOptions, signal }
+      );
+      if (!response.body) {
+        throw new Error('The provider returned an empty stream');
+      }
+
+      for await (const event of readServerSentEvents(response.body)) {
+        const delta = this.provider.parseStreamEvent(event);
+        if (!delta) continue;
+
+        if (delta.model) model = delta.model;
+        if (delta.usage) {
+          for (const [key, value] of Object.entries(delta.usage)) {
+            if (value !== undefined) usage[key as keyof CompletionUsage] = value;
+          }
+        }
+        if (delta.content) {
+          content += delta.content;
+          onToken?.(delta.content, content);
+        }
+        if (delta.done) break;
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        return buildResult(true);
+      }
+      throw toLLMError(error);
+    }
+
+    const result = buildResult(false);
+    if (this.recordFixtures) {
+      await recordFixture(options, credentials.feature, result);
+    }
+    return result;
+  }
+}
+
+export const llmClient = new LLMClient(loadProviderConfig(), getProxyUrl(), loadMockOptions());
@@ -0,0 +1,108 @@
+import { SUPABASE_URL } from '@/integrations/supabase/client';
+import { ProviderConfig, ProviderId } from './types';
+import { MockErrorType, MockOptions } from './mock';
+
+const PROVIDER_DEFAULTS: Record<ProviderId, ProviderConfig> = {
+  'openai': {
+    id: 'openai',
+    modelMap: {},
+    contextWindow: 128000,
+  },
+  'azure-openai': {
+    id: 'azure-openai',
+    // The first GA version that reports usage on streamed responses
+    apiVersion: '2024-10-21',
+    modelMap: {},
+    contextWindow: 128000,
+  },
+  'anthropic': {
+    id: 'anthropic',
+    modelMap: {
+      'gpt-4o-mini': 'claude-3-5-haiku-latest',
+      'gpt-4o': 'claude-3-5-sonnet-latest',
+    },
+    maxOutputTokens: 8192,
+    maxTemperature: 1,
+    contextWindow: 200000,
+  },
+  'local': {
+    id: 'local',
+    modelMap: {
+      'gpt-4o-mini': 'llama3.1',
+      'gpt-4o': 'llama3.1',
+    },
+    // Ollama's default context size is much smaller than what the models support
+    contextWindow: 8192,
+  },
+  'mock': {
+    id: 'mock',
+    modelMap: {},
+    contextWindow: 128000,
+  },
+};
+
+const isProviderId = (value: string): value is ProviderId => value in PROVIDER_DEFAULTS;
+
+const parseModelMap = (raw: string | undefined): Record<string, string> => {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('Ignoring invalid VITE_LLM_MODEL_MAP, expected a JSON object:', error);
+    return {};
+  }
+};
+
+/**
+ * Reads the provider selection from the Vite environment:
+ *
+ * - `VITE_LLM_PROVIDER`: openai | azure-openai | anthropic | local | mock (default openai)
+ * - `VITE_LLM_API_VERSION`: Azure OpenAI api-version
+ * - `VITE_LLM_MODEL_MAP`: JSON map from app model names to provider models or deployments
+ * - `VITE_LLM_CONTEXT_WINDOW`: context size in tokens, for deployments or local models with a different limit
+ */
+export function loadProviderConfig(env: ImportMetaEnv = import.meta.env): ProviderConfig {
+  const requested = env.VITE_LLM_PROVIDER || 'openai';
+  if (!isProviderId(requested)) {
+    console.error(`Unknown VITE_LLM_PROVIDER "${requested}", falling back to openai`);
+  }
+  const defaults = PROVIDER_DEFAULTS[isProviderId(requested) ? requested : 'openai'];
+
+  return {
+    ...defaults,
+    apiVersion: env.VITE_LLM_API_VERSION || defaults.apiVersion,
+    modelMap: { ...defaults.modelMap, ...parseModelMap(env.VITE_LLM_MODEL_MAP) },
+    contextWindow: Number(env.VITE_LLM_CONTEXT_WINDOW) || defaults.contextWindow,
+  };
+}
+
+const MOCK_ERROR_TYPES: MockErrorType[] = ['rate_limit', 'server_error', 'timeout', 'malformed_json'];
+
+/**
+ * Reads the mock provider settings:
+ *
+ * - `VITE_LLM_MOCK_ERROR`: rate_limit | server_error | timeout | malformed_json, injected into mock responses
+ * - `VITE_LLM_MOCK_ERROR_TIMES`: attempts that fail before a request succeeds (default: all of them)
+ * - `VITE_LLM_RECORD_FIXTURES`: `true` to save real responses as mock fixtures while running the dev server
+ */
+export function loadMockOptions(env: ImportMetaEnv = import.meta.env): MockOptions {
+  const errorType = env.VITE_LLM_MOCK_ERROR as MockErrorType | undefined;
+  if (errorType && !MOCK_ERROR_TYPES.includes(errorType)) {
+    console.error(`Ignoring unknown VITE_LLM_MOCK_ERROR "${errorType}", expected one of ${MOCK_ERROR_TYPES.join(', ')}`);
+  }
+
+  return {
+    error: errorType && MOCK_ERROR_TYPES.includes(errorType)
+      ? { type: errorType, times: env.VITE_LLM_MOCK_ERROR_TIMES ? Number(env.VITE_LLM_MOCK_ERROR_TIMES) : undefined }
+      : undefined,
+    recordFixtures: env.DEV && env.VITE_LLM_RECORD_FIXTURES === 'true',
+  };
+}
+
+/**
+ * Endpoint of the llm-proxy Edge Function. Provider endpoints and keys are
+ * configured as function secrets, see `supabase/functions/.env.example`.
+ */
+export function getProxyUrl(env: ImportMetaEnv = import.meta.env): string {
+  return (env.VITE_LLM_PROXY_URL || `${SUPABASE_URL}/functions/v1/llm-proxy`).replace(/\/$/, '');
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { mapHttpError, QuotaExceededError } from './errors';
+
+const proxyError = (status: number, message: string, code?: string) =>
+  mapHttpError(status, { error: { message, code } }, new Headers(), 'openai');
+
+describe('mapHttpError', () => {
+  it('asks the user to sign in again when the proxy rejects the session', () => {
+    const error = proxyError(401, 'Invalid or expired session. Please sign in again.', 'session_expired');
+
+    expect(error.kind).toBe('session');
+    expect(error.message).toBe('Your session has expired. Please sign in again.');
+    expect(error.retryable).toBe(false);
+  });
+
+  it('reports the proxy daily limit without retrying or pointing at provider billing', () => {
+    const error = proxyError(429, 'Daily limit of 50 AI requests reached. Please try again tomorrow.', 'daily_limit_reached');
+
+    expect(error.kind).toBe('daily_limit');
+    expect(error.message).toMatch(/daily AI request limit.*try again tomorrow.*add your own API key/);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('does not retry when the proxy cannot check the usage limits', () => {
+    const error = proxyError(503, 'Usage limits are unavailable right now.', 'usage_limits_unavailable');
+
+    expect(error.kind).toBe('limits_unavailable');
+    expect(error.retryable).toBe(false);
+  });
+
+  it('still maps a provider 401 to a rejected key', () => {
+    const error = proxyError(401, 'Incorrect API key provided.', 'invalid_api_key');
+
+    expect(error.kind).toBe('auth');
+  });
+
+  it('still maps a provider insufficient_quota to the quota error', () => {
+    const error = proxyError(429, 'You exceeded your current quota.', 'insufficient_quota');
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+  });
+
+  it('retries a plain provider 429 after the Retry-After delay', () => {
+    const error = mapHttpError(429, { error: { message: 'Rate limit reached' } }, new Headers({ 'retry-after': '2' }), 'openai');
+
+    expect(error.kind).toBe('rate_limit');
+    expect(error.retryAfterMs).toBe(2000);
+    expect(error.retryable).toBe(true);
+  });
+});
@@ -0,0 +1,227 @@
+import { ProviderId } from './types';
+
+export type LLMErrorKind =
+  | 'rate_limit'
+  | 'quota'
+  | 'budget'
+  | 'daily_limit'
+  | 'limits_unavailable'
+  | 'session'
+  | 'context_length'
+  | 'payload_too_large'
+  | 'auth'
+  | 'missing_key'
+  | 'content_filter'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'invalid_request'
+  | 'aborted'
+  | 'unknown';
+
+const USER_MESSAGES: Record<LLMErrorKind, string> = {
+  rate_limit: 'The AI provider is receiving too many requests. Please wait a moment and try again.',
+  quota: 'The AI provider quota for this API key has been used up. Check the billing settings or ask your administrator for a new key.',
+  budget: 'The monthly AI budget has been reached. Ask your administrator to raise it, or add your own API key in your profile.',
+  daily_limit: 'You have reached the daily AI request limit. Please try again tomorrow, or add your own API key under Profile → API Keys.',
+  limits_unavailable: 'The organisation\'s usage limits cannot be checked right now. Please try again later, or add your own API key under Profile → API Keys.',
+  session: 'Your session has expired. Please sign in again.',
+  context_length: 'The input is too long for the selected model. Shorten the code or split it into smaller parts.',
+  payload_too_large: 'The request is too large. Please use a smaller image or shorter input.',
+  auth: 'The API key was rejected by the AI provider. Check that it is valid and has access to the selected model.',
+  missing_key: 'No API key is available for the AI provider. Add your own key under Profile → API Keys or ask your administrator to configure one.',
+  content_filter: 'The request was blocked by the provider\'s content filter. Please rephrase the input and try again.',
+  timeout: 'The AI provider took too long to respond. Please try again.',
+  network: 'Could not reach the AI provider. Check your internet connection and try again.',
+  server: 'The AI provider is temporarily unavailable. Please try again in a few minutes.',
+  invalid_request: 'The AI provider rejected the request.',
+  aborted: 'The request was cancelled.',
+  unknown: 'Something went wrong while contacting the AI provider. Please try again.',
+};
+
+const RETRYABLE_KINDS: LLMErrorKind[] = ['rate_limit', 'timeout', 'network', 'server'];
+
+/**
+ * Provider failure with an actionable, user-facing `message`. The raw provider
+ * text is kept in `providerMessage` for logging.
+ */
+export class LLMError extends Error {
+  kind: LLMErrorKind;
+  status?: number;
+  providerMessage?: string;
+  retryAfterMs?: number;
+
+  constructor(
+    kind: LLMErrorKind,
+    details: { status?: number; providerMessage?: string; retryAfterMs?: number; message?: string } = {}
+  ) {
+    super(details.message ?? USER_MESSAGES[kind]);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = details.status;
+    this.providerMessage = details.providerMessage;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export class RateLimitError extends LLMError {
+  constructor(details: ConstructorParameters<typeof LLMError>[1] = {}) {
+    super('rate_limit', details);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class QuotaExceededError extends LLMError {
+  constructor(details: ConstructorParameters<typeof LLMError>[1] = {}) {
+    super('quota', details);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class ContextLengthError extends LLMError {
+  constructor(details: ConstructorParameters<typeof LLMError>[1] = {}) {
+    super('context_length', details);
+    this.name = 'ContextLengthError';
+  }
+}
+
+export class AuthenticationError extends LLMError {
+  constructor(details: ConstructorParameters<typeof LLMError>[1] = {}) {
+    super('auth', details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class ContentFilterError extends LLMError {
+  constructor(details: ConstructorParameters<typeof LLMError>[1] = {}) {
+    super('content_filter', details);
+    this.name = 'ContentFilterError';
+  }
+}
+
+export class RequestTimeoutError extends LLMError {
+  constructor(details: ConstructorParameters<typeof LLMError>[1] = {}) {
+    super('timeout', details);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+interface ProviderErrorBody {
+  error?: { message?: string; type?: string; code?: string | null } | string;
+  message?: string;
+  type?: string;
+}
+
+const CONTEXT_LENGTH_PATTERN = /context[_ ]length|maximum context|too many tokens|prompt is too long|reduce the length/i;
+const QUOTA_PATTERN = /insufficient[_ ]quota|exceeded your current quota|credit balance is too low|billing/i;
+const CONTENT_FILTER_PATTERN = /content[_ ](filter|policy|management)|safety system/i;
+// Sent by the LLM proxy when neither the user nor the organisation has a key
+const MISSING_KEY_PATTERN = /missing_api_key/;
+// Sent by the LLM proxy when a blocking monthly budget has been used up
+const BUDGET_PATTERN = /budget_exceeded/;
+// Sent by the LLM proxy when the Supabase session is missing or has expired
+const SESSION_PATTERN = /session_expired/;
+// Sent by the LLM proxy when the organisation key's daily request limit is used up
+const DAILY_LIMIT_PATTERN = /daily_limit_reached/;
+// Sent by the LLM proxy when it cannot check the organisation key's quota or budgets
+const LIMITS_UNAVAILABLE_PATTERN = /usage_limits_unavailable/;
+
+/**
+ * Parses `Retry-After` (seconds or an HTTP date) and OpenAI's `retry-after-ms`.
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfterMs = headers.get('retry-after-ms');
+  if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Maps an HTTP error response from any supported provider to a typed error.
+ */
+export function mapHttpError(
+  status: number,
+  body: ProviderErrorBody | null,
+  headers: Headers,
+  providerId: ProviderId
+): LLMError {
+  const error = typeof body?.error === 'object' ? body.error : undefined;
+  const providerMessage = error?.message
+    || (typeof body?.error === 'string' ? body.error : undefined)
+    || body?.message
+    || `${providerId} request failed with status ${status}`;
+  // OpenAI and Azure use `code`, Anthropic uses `type`
+  const code = `${error?.code ?? ''} ${error?.type ?? ''} ${body?.type ?? ''}`;
+  const details = { status, providerMessage, retryAfterMs: parseRetryAfter(headers) };
+  const matches = (pattern: RegExp) => pattern.test(code) || pattern.test(providerMessage);
+
+  // The proxy's own errors first, so they aren't mistaken for the provider's
+  if (SESSION_PATTERN.test(code)) return new LLMError('session', details);
+  if (DAILY_LIMIT_PATTERN.test(code)) return new LLMError('daily_limit', details);
+  if (LIMITS_UNAVAILABLE_PATTERN.test(code)) return new LLMError('limits_unavailable', details);
+  if (MISSING_KEY_PATTERN.test(code)) return new LLMError('missing_key', details);
+  if (BUDGET_PATTERN.test(code)) return new LLMError('budget', { ...details, message: providerMessage });
+  if (matches(QUOTA_PATTERN)) return new QuotaExceededError(details);
+  if (matches(CONTEXT_LENGTH_PATTERN)) return new ContextLengthError(details);
+  if (matches(CONTENT_FILTER_PATTERN)) return new ContentFilterError(details);
+
+  switch (true) {
+    case status === 401 || status === 403:
+      return new AuthenticationError(details);
+    case status === 408:
+      return new RequestTimeoutError(details);
+    case status === 413:
+      return new LLMError('payload_too_large', details);
+    case status === 429:
+      return new RateLimitError(details);
+    // 529 is Anthropic's "overloaded" status
+    case status >= 500:
+      return new LLMError('server', details);
+    case status >= 400:
+      return new LLMError('invalid_request', {
+        ...details,
+        message: `${USER_MESSAGES.invalid_request} ${providerMessage}`,
+      });
+    default:
+      return new LLMError('unknown', details);
+  }
+}
+
+/**
+ * Normalises anything thrown while talking to a provider into an LLMError.
+ */
+export function toLLMError(error: unknown): LLMError {
+  if (error instanceof LLMError) {
+    return error;
+  }
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new LLMError('aborted');
+  }
+  // fetch rejects with a TypeError when the network request itself fails
+  if (error instanceof TypeError) {
+    return new LLMError('network', { providerMessage: error.message });
+  }
+
+  const providerMessage = error instanceof Error ? error.message : String(error);
+  if (CONTEXT_LENGTH_PATTERN.test(providerMessage)) {
+    return new ContextLengthError({ providerMessage });
+  }
+  if (CONTENT_FILTER_PATTERN.test(providerMessage)) {
+    return new ContentFilterError({ providerMessage });
+  }
+  return new LLMError('unknown', { providerMessage });
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { getFixtureKey, LLMFixture, MockLLM } from './mock';
+import { OpenAIRequestOptions } from './types';
+
+const fixtures = import.meta.glob<LLMFixture>('/fixtures/llm/**/*.json', { import: 'default', eager: true });
+
+const request = (system: string, user = 'Hello'): OpenAIRequestOptions => ({
+  model: 'gpt-4o-mini',
+  temperature: 0.7,
+  messages: [
+    { role: 'system', content: system },
+    { role: 'user', content: user },
+  ],
+});
+
+describe('fixtures', () => {
+  it.each(Object.entries(fixtures))('%s is a valid fixture', (path, fixture) => {
+    expect(path).toMatch(/^\/fixtures\/llm\/[a-z-]+\/(default[a-z-]*|[a-f0-9]{64})\.json$/);
+    expect(typeof fixture.response.content).toBe('string');
+    expect(fixture.response.content.length).toBeGreaterThan(0);
+    if (fixture.match) {
+      expect(path).toMatch(/\/default[a-z-]*\.json$/);
+      expect(() => new RegExp(fixture.match!)).not.toThrow();
+    }
+  });
+});
+
+describe('MockLLM', () => {
+  it('picks the default fixture whose pattern matches the system prompt', async () => {
+    const response = await new MockLLM().respond(request('You combine partial code review summaries of one file'), 'reviewer');
+    const body = await response.json();
+
+    expect(body.choices[0].message.content).toBe(fixtures['/fixtures/llm/reviewer/default-summary.json'].response.content);
+  });
+
+  it('answers 404 when a feature has no fixture', async () => {
+    const response = await new MockLLM().respond(request('Anything'), undefined);
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(body.error.message).toContain(`fixtures/llm/general/${await getFixtureKey(request('Anything'))}.json`);
+  });
+
+  it('recovers after the number of injected failures', async () => {
+    const mock = new MockLLM({ error: { type: 'rate_limit', times: 2 } });
+    const options = request('You are a helpful assistant.');
+
+    expect((await mock.respond(options, 'chat')).status).toBe(429);
+    expect((await mock.respond(options, 'chat')).status).toBe(429);
+    expect((await mock.respond(options, 'chat')).status).toBe(200);
+  });
+
+  it('streams the fixture as server-sent events with the usage last', async () => {
+    const response = await new MockLLM().respond({ ...request('You are a helpful assistant.'), stream: true }, 'chat');
+    const events = (await response.text()).split('\n\n').filter(Boolean);
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(events.at(-1)).toBe('data: [DONE]');
+    expect(JSON.parse(events.at(-2)!.slice('data: '.length)).usage).toEqual(fixtures['/fixtures/llm/chat/default.json'].response.usage ?? null);
+  });
+});
@@ -0,0 +1,248 @@
+import { hashCacheKey } from './cache';
+import { AIFeature, ChatCompletionResult, ChatMessage, OpenAIRequestOptions } from './types';
+
+export type MockErrorType = 'rate_limit' | 'server_error' | 'timeout' | 'malformed_json';
+
+export interface MockError {
+  type: MockErrorType;
+  // Number of attempts that fail before the request succeeds; every attempt fails when unset
+  times?: number;
+}
+
+export interface MockOptions {
+  // Error injected into every mock request, unless a fixture defines its own
+  error?: MockError;
+  // Save the responses of the real provider as fixtures (dev server only)
+  recordFixtures?: boolean;
+}
+
+/**
+ * A recorded response, stored as `fixtures/llm/<feature>/<hash>.json` where
+ * the hash covers the model, messages and temperature of the request.
+ * `default*.json` files answer requests without a recording of their own.
+ */
+export interface LLMFixture {
+  // Regular expression tested against the system prompt; only used by default fixtures
+  match?: string;
+  // Excerpt of the request, so recordings are easy to find
+  request?: { model: string; system: string; user: string };
+  response: {
+    content: string;
+    model?: string;
+    usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+  };
+  error?: MockError;
+}
+
+const FIXTURE_ROOT = '/fixtures/llm';
+// Dev server endpoint that writes recorded fixtures, see vite.config.ts
+const RECORD_ENDPOINT = '/__llm-fixtures';
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 10;
+const EXCERPT_LENGTH = 200;
+
+const fixtureFiles = import.meta.glob<LLMFixture>('/fixtures/llm/**/*.json', { import: 'default' });
+
+const fixtureDirectory = (feature: AIFeature | undefined) => feature ?? 'general';
+
+const textOf = (message: ChatMessage | undefined) => !message
+  ? ''
+  : typeof message.content === 'string'
+    ? message.content
+    : message.content.map(part => part.type === 'text' ? part.text : '[image]').join('\n');
+
+/**
+ * Fixtures are keyed by the app's model name rather than the provider model,
+ * so recordings made with any provider replay the same way.
+ */
+export function getFixtureKey(options: OpenAIRequestOptions): Promise<string> {
+  return hashCacheKey({
+    provider: 'fixture',
+    model: options.model,
+    messages: options.messages,
+    temperature: options.temperature,
+  });
+}
+
+async function findFixture(feature: AIFeature | undefined, key: string, options: OpenAIRequestOptions): Promise<LLMFixture | null> {
+  const directory = `${FIXTURE_ROOT}/${fixtureDirectory(feature)}`;
+  const recorded = fixtureFiles[`${directory}/${key}.json`];
+  if (recorded) {
+    return recorded();
+  }
+
+  const defaults = await Promise.all(
+    Object.keys(fixtureFiles)
+      .filter(path => path.startsWith(`${directory}/default`))
+      .sort()
+      .map(path => fixtureFiles[path]())
+  );
+  const systemPrompt = textOf(options.messages.find(message => message.role === 'system'));
+  return defaults.find(fixture => fixture.match && new RegExp(fixture.match).test(systemPrompt))
+    ?? defaults.find(fixture => !fixture.match)
+    ?? null;
+}
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+/**
+ * Never answers, so the request pipeline's timeout (or the caller) aborts it.
+ */
+const waitForAbort = (signal?: AbortSignal) => new Promise<Response>((_, reject) => {
+  const abort = () => reject(new DOMException('The request was aborted', 'AbortError'));
+  if (signal?.aborted) {
+    abort();
+    return;
+  }
+  signal?.addEventListener('abort', abort, { once: true });
+});
+
+function streamResponse(response: LLMFixture['response'], model: string, signal?: AbortSignal): Response {
+  const encoder = new TextEncoder();
+  const events = [
+    ...(response.content.match(new RegExp(`[\\s\\S]{1,${STREAM_CHUNK_SIZE}}`, 'g')) ?? [])
+      .map(content => ({ model, choices: [{ delta: { content } }] })),
+    { model, choices: [], usage: response.usage ?? null },
+  ].map(event => `data: ${JSON.stringify(event)}\n\n`);
+  events.push('data: [DONE]\n\n');
+
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      // Deliver the chunks over time so the UI streams like it does with a real provider
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      if (signal?.aborted) {
+        controller.error(new DOMException('The request was aborted', 'AbortError'));
+      } else if (index < events.length) {
+        controller.enqueue(encoder.encode(events[index++]));
+      } else {
+        controller.close();
+      }
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+/**
+ * Deterministic stand-in for the LLM proxy. Answers with recorded fixtures
+ * and can inject rate limits, server errors, timeouts and malformed JSON.
+ */
+export class MockLLM {
+  // null disables injection entirely, including errors defined by fixtures
+  private error: MockError | null | undefined;
+  // Failed attempts per request, so `times` lets a request fail and then recover
+  private failures = new Map<string, number>();
+
+  constructor(options: MockOptions = {}) {
+    this.error = options.error;
+  }
+
+  /**
+   * Overrides the injected error, e.g. from a test. Pass null to stop
+   * injecting errors, including those defined by fixtures.
+   */
+  injectError(error: MockError | null): void {
+    this.error = error;
+    this.failures.clear();
+  }
+
+  private nextError(key: string, fixture: LLMFixture | null): MockErrorType | null {
+    const error = this.error === undefined ? fixture?.error : this.error;
+    if (!error) return null;
+
+    const failed = this.failures.get(key) ?? 0;
+    if (failed >= (error.times ?? Number.POSITIVE_INFINITY)) {
+      this.failures.delete(key);
+      return null;
+    }
+    this.failures.set(key, failed + 1);
+    return error.type;
+  }
+
+  async respond(options: OpenAIRequestOptions, feature: AIFeature | undefined, signal?: AbortSignal): Promise<Response> {
+    const key = await getFixtureKey(options);
+    const fixture = await findFixture(feature, key, options);
+    let response = fixture?.response;
+
+    switch (this.nextError(key, fixture)) {
+      case 'timeout':
+        return waitForAbort(signal);
+      case 'rate_limit':
+        return jsonResponse(429, {
+          error: { message: 'Rate limit reached (mock)', type: 'requests', code: 'rate_limit_exceeded' },
+        }, { 'retry-after-ms': '500' });
+      case 'server_error':
+        return jsonResponse(500, { error: { message: 'The server had an error processing your request (mock)', type: 'server_error' } });
+      case 'malformed_json':
+        if (response) {
+          // Cut the response off half way, like a completion that ran out of tokens
+          response = { ...response, content: response.content.slice(0, Math.floor(response.content.length / 2)) };
+        }
+        break;
+    }
+
+    if (!response) {
+      const path = `fixtures/llm/${fixtureDirectory(feature)}`;
+      return jsonResponse(404, {
+        error: {
+          message: `No mock response for this request. Record one with VITE_LLM_RECORD_FIXTURES=true or add ${path}/default.json (expected ${path}/${key}.json).`,
+          type: 'invalid_request_error',
+        },
+      });
+    }
+
+    const model = response.model ?? options.model;
+    return options.stream
+      ? streamResponse(response, model, signal)
+      : jsonResponse(200, {
+        object: 'chat.completion',
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content: response.content }, finish_reason: 'stop' }],
+        usage: response.usage,
+      });
+  }
+}
+
+/**
+ * Saves a real response as a fixture through the dev server. Failures are
+ * only logged; recording must never break the request itself.
+ */
+export async function recordFixture(
+  options: OpenAIRequestOptions,
+  feature: AIFeature | undefined,
+  result: ChatCompletionResult
+): Promise<void> {
+  const fixture: LLMFixture = {
+    request: {
+      model: options.model,
+      system: textOf(options.messages.find(message => message.role === 'system')).slice(0, EXCERPT_LENGTH),
+      user: textOf(options.messages.filter(message => message.role !== 'system').pop()).slice(0, EXCERPT_LENGTH),
+    },
+    response: {
+      content: result.content,
+      model: result.model,
+      usage: result.usage && {
+        prompt_tokens: result.usage.promptTokens,
+        completion_tokens: result.usage.completionTokens,
+        total_tokens: result.usage.totalTokens,
+      },
+    },
+  };
+
+  try {
+    const response = await fetch(RECORD_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ path: `${fixtureDirectory(feature)}/${await getFixtureKey(options)}`, fixture }),
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${await response.text()}`);
+    }
+  } catch (error) {
+    console.warn('Failed to record LLM fixture:', error);
+  }
+}
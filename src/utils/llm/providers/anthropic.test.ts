@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { loadProviderConfig } from '../config';
+import { anthropicProvider } from './anthropic';
+
+const config = loadProviderConfig({ VITE_LLM_PROVIDER: 'anthropic' } as ImportMetaEnv);
+
+const bodyFor = (temperature?: number) => anthropicProvider.buildRequest({
+  model: 'gpt-4o',
+  temperature,
+  messages: [
+    { role: 'system', content: 'You are a helpful assistant.' },
+    { role: 'user', content: 'Hello' },
+  ],
+}, config).body;
+
+describe('anthropicProvider.buildRequest', () => {
+  it('keeps a temperature within Anthropic\'s range', () => {
+    expect(bodyFor(0.7).temperature).toBe(0.7);
+  });
+
+  it('lowers a temperature above 1 to 1', () => {
+    expect(bodyFor(1.6).temperature).toBe(1);
+  });
+
+  it('leaves the temperature out when none is set', () => {
+    expect(bodyFor().temperature).toBeUndefined();
+  });
+
+  it('moves the system prompt and maps the model', () => {
+    const body = bodyFor(0.3);
+
+    expect(body.system).toBe('You are a helpful assistant.');
+    expect(body.model).toBe('claude-3-5-sonnet-latest');
+    expect(body.messages).toHaveLength(1);
+  });
+});
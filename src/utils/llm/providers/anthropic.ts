@@ -0,0 +1,132 @@
+import { ChatContentPart, ChatMessage, LLMProvider } from '../types';
+import { resolveModel } from './openai';
+
+const DEFAULT_MAX_TOKENS = 4096;
+const JSON_MODE_INSTRUCTION = 'Respond only with a single valid JSON object. Do not wrap it in markdown or add any other text.';
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string } };
+
+interface AnthropicMessagesResponse {
+  model: string;
+  content: { type: string; text?: string }[];
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { model: string; usage?: { input_tokens?: number } };
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens?: number };
+}
+
+const toAnthropicBlock = (part: ChatContentPart): AnthropicContentBlock => {
+  if (part.type === 'text') {
+    return { type: 'text', text: part.text };
+  }
+
+  // Data URLs (pasted or uploaded images) have to be sent as base64 sources
+  const dataUrlMatch = part.image_url.url.match(/^data:([^;]+);base64,(.*)$/);
+  if (dataUrlMatch) {
+    return {
+      type: 'image',
+      source: { type: 'base64', media_type: dataUrlMatch[1], data: dataUrlMatch[2] },
+    };
+  }
+  return { type: 'image', source: { type: 'url', url: part.image_url.url } };
+};
+
+const toAnthropicMessage = (message: ChatMessage) => ({
+  role: message.role,
+  content: typeof message.content === 'string'
+    ? message.content
+    : message.content.map(toAnthropicBlock),
+});
+
+const textOf = (message: ChatMessage): string => typeof message.content === 'string'
+  ? message.content
+  : message.content
+    .filter((part): part is Extract<ChatContentPart, { type: 'text' }> => part.type === 'text')
+    .map(part => part.text)
+    .join('\n');
+
+/**
+ * Anthropic Messages API. System prompts travel in a top-level field and there
+ * is no native JSON mode, so JSON requests get an extra system instruction.
+ */
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+
+  buildRequest(options, config) {
+    const systemParts = options.messages.filter(m => m.role === 'system').map(textOf);
+    if (options.response_format?.type === 'json_object') {
+      systemParts.push(JSON_MODE_INSTRUCTION);
+    }
+
+    const maxTokens = Math.min(
+      options.max_tokens ?? DEFAULT_MAX_TOKENS,
+      config.maxOutputTokens ?? Number.MAX_SAFE_INTEGER
+    );
+    // Settings saved while another provider was active may be above Anthropic's range
+    const temperature = options.temperature === undefined
+      ? undefined
+      : Math.min(options.temperature, config.maxTemperature ?? options.temperature);
+
+    return {
+      path: '/messages',
+      body: {
+        model: resolveModel(options.model, config),
+        ...(systemParts.length > 0 ? { system: systemParts.join('\n\n') } : {}),
+        messages: options.messages.filter(m => m.role !== 'system').map(toAnthropicMessage),
+        temperature,
+        max_tokens: maxTokens,
+        ...(options.stream ? { stream: true } : {}),
+      },
+    };
+  },
+
+  parseResponse(data) {
+    const response = data as AnthropicMessagesResponse;
+    const inputTokens = response.usage?.input_tokens ?? 0;
+    const outputTokens = response.usage?.output_tokens ?? 0;
+
+    return {
+      content: (response.content || [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join(''),
+      model: response.model,
+      usage: response.usage && {
+        promptTokens: inputTokens,
+        completionTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  },
+
+  parseStreamEvent(event) {
+    const data = JSON.parse(event.data) as AnthropicStreamEvent;
+
+    switch (data.type) {
+      case 'message_start':
+        return {
+          model: data.message?.model,
+          usage: { promptTokens: data.message?.usage?.input_tokens },
+        };
+      case 'content_block_delta':
+        return data.delta?.type === 'text_delta' ? { content: data.delta.text } : null;
+      case 'message_delta':
+        return { usage: { completionTokens: data.usage?.output_tokens } };
+      case 'message_stop':
+        return { done: true };
+      case 'error':
+        throw new Error(event.data);
+      default:
+        return null;
+    }
+  },
+};
@@ -0,0 +1,23 @@
+import { LLMProvider } from '../types';
+import { buildOpenAIBody, parseOpenAIResponse, parseOpenAIStreamEvent, resolveModel } from './openai';
+
+/**
+ * Azure OpenAI addresses models by deployment name in the URL, so the app
+ * model name is mapped to a deployment through `modelMap`.
+ */
+export const azureOpenAIProvider: LLMProvider = {
+  id: 'azure-openai',
+
+  buildRequest(options, config) {
+    const deployment = resolveModel(options.model, config);
+    const { model: _model, ...body } = buildOpenAIBody(options, config);
+
+    return {
+      path: `/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${config.apiVersion}`,
+      body,
+    };
+  },
+
+  parseResponse: parseOpenAIResponse,
+  parseStreamEvent: parseOpenAIStreamEvent,
+};
@@ -0,0 +1,18 @@
+import { LLMProvider, ProviderId } from '../types';
+import { openAIProvider } from './openai';
+import { azureOpenAIProvider } from './azure';
+import { anthropicProvider } from './anthropic';
+import { localProvider } from './local';
+import { mockProvider } from './mock';
+
+const providers: Record<ProviderId, LLMProvider> = {
+  'openai': openAIProvider,
+  'azure-openai': azureOpenAIProvider,
+  'anthropic': anthropicProvider,
+  'local': localProvider,
+  'mock': mockProvider,
+};
+
+export function getProvider(id: ProviderId): LLMProvider {
+  return providers[id];
+}
@@ -0,0 +1,20 @@
+import { LLMProvider } from '../types';
+import { buildOpenAIBody, parseOpenAIResponse, parseOpenAIStreamEvent } from './openai';
+
+/**
+ * Any server exposing the OpenAI-compatible `/chat/completions` route,
+ * such as Ollama or llama.cpp's server.
+ */
+export const localProvider: LLMProvider = {
+  id: 'local',
+
+  buildRequest(options, config) {
+    return {
+      path: '/chat/completions',
+      body: buildOpenAIBody(options, config),
+    };
+  },
+
+  parseResponse: parseOpenAIResponse,
+  parseStreamEvent: parseOpenAIStreamEvent,
+};
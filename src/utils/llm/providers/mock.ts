@@ -0,0 +1,21 @@
+import { LLMProvider } from '../types';
+import { buildOpenAIBody, parseOpenAIResponse, parseOpenAIStreamEvent } from './openai';
+
+/**
+ * Offline provider backed by recorded fixtures (see `../mock.ts`). The mock
+ * answers in the OpenAI wire format, so responses go through the same
+ * parsing, streaming and error handling as real ones.
+ */
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+
+  buildRequest(options, config) {
+    return {
+      path: '/chat/completions',
+      body: buildOpenAIBody(options, config),
+    };
+  },
+
+  parseResponse: parseOpenAIResponse,
+  parseStreamEvent: parseOpenAIStreamEvent,
+};
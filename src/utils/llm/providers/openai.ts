@@ -0,0 +1,93 @@
+import { ServerSentEvent } from '../sse';
+import {
+  ChatCompletionResult,
+  LLMProvider,
+  OpenAIRequestOptions,
+  ProviderConfig,
+  StreamDelta,
+} from '../types';
+
+interface OpenAIChatResponse {
+  model: string;
+  choices: { message: { content: string | null } }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface OpenAIChatChunk {
+  model?: string;
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: OpenAIChatResponse['usage'] | null;
+}
+
+export function resolveModel(model: string, config: ProviderConfig): string {
+  return config.modelMap[model] || model;
+}
+
+/**
+ * Builds an OpenAI chat completion body. Shared by every adapter that speaks
+ * the OpenAI wire format (OpenAI, Azure OpenAI and local servers).
+ */
+export function buildOpenAIBody(
+  options: OpenAIRequestOptions,
+  config: ProviderConfig
+): Record<string, unknown> {
+  const maxTokens = config.maxOutputTokens && options.max_tokens
+    ? Math.min(options.max_tokens, config.maxOutputTokens)
+    : options.max_tokens;
+
+  return {
+    model: resolveModel(options.model, config),
+    messages: options.messages,
+    temperature: options.temperature,
+    max_tokens: maxTokens,
+    ...(options.response_format ? { response_format: options.response_format } : {}),
+    // Ask for a final usage chunk so streamed calls still report token counts
+    ...(options.stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+  };
+}
+
+const toUsage = (usage: OpenAIChatResponse['usage'] | null | undefined) => usage ? {
+  promptTokens: usage.prompt_tokens,
+  completionTokens: usage.completion_tokens,
+  totalTokens: usage.total_tokens,
+} : undefined;
+
+export function parseOpenAIResponse(data: unknown): ChatCompletionResult {
+  const response = data as OpenAIChatResponse;
+  return {
+    content: response.choices?.[0]?.message?.content ?? '',
+    model: response.model,
+    usage: toUsage(response.usage),
+  };
+}
+
+export function parseOpenAIStreamEvent(event: ServerSentEvent): StreamDelta | null {
+  if (event.data === '[DONE]') {
+    return { done: true };
+  }
+
+  const chunk = JSON.parse(event.data) as OpenAIChatChunk;
+  return {
+    content: chunk.choices?.[0]?.delta?.content ?? undefined,
+    model: chunk.model,
+    usage: toUsage(chunk.usage),
+  };
+}
+
+export const openAIProvider: LLMProvider = {
+  id: 'openai',
+
+  buildRequest(options, config) {
+    return {
+      path: '/chat/completions',
+      body: buildOpenAIBody(options, config),
+    };
+  },
+
+  parseResponse: parseOpenAIResponse,
+  parseStreamEvent: parseOpenAIStreamEvent,
+};
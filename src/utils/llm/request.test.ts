@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthenticationError, LLMError, RateLimitError } from './errors';
+import { DEFAULT_RETRY_POLICY, getBackoffDelay, runWithRetry } from './request';
+
+// Short delays, so retries don't slow the tests down
+const policy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 20, timeoutMs: 1000 };
+
+// Fails with each error in turn, then resolves
+const failingWith = (...errors: unknown[]) => vi.fn(async () => {
+  const error = errors.shift();
+  if (error) throw error;
+  return 'done';
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getBackoffDelay', () => {
+  it('doubles the delay per attempt with up to half of it random', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect([0, 1, 2].map(attempt => getBackoffDelay(attempt, DEFAULT_RETRY_POLICY))).toEqual([500, 1000, 2000]);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(getBackoffDelay(0, DEFAULT_RETRY_POLICY)).toBe(750);
+  });
+
+  it('caps the delay at maxDelayMs', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(getBackoffDelay(10, DEFAULT_RETRY_POLICY)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+  });
+});
+
+describe('runWithRetry', () => {
+  it('retries transient failures until the operation succeeds', async () => {
+    const operation = failingWith(new RateLimitError(), new LLMError('server'));
+    const onRetry = vi.fn();
+
+    await expect(runWithRetry(operation, { policy, onRetry })).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([error, attempt]) => [error.kind, attempt])).toEqual([['rate_limit', 1], ['server', 2]]);
+  });
+
+  it('retries network failures', async () => {
+    const operation = failingWith(new TypeError('Failed to fetch'));
+
+    await expect(runWithRetry(operation, { policy })).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    ['a rejected key', new AuthenticationError()],
+    ['the daily limit', new LLMError('daily_limit')],
+    ['an expired session', new LLMError('session')],
+    ['an unexpected error', new Error('Unexpected token < in JSON')],
+  ])('does not retry %s', async (_name, error) => {
+    const operation = failingWith(error);
+
+    await expect(runWithRetry(operation, { policy })).rejects.toBeInstanceOf(LLMError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const operation = failingWith(...Array.from({ length: 5 }, () => new RateLimitError()));
+
+    await expect(runWithRetry(operation, { policy })).rejects.toMatchObject({ kind: 'rate_limit' });
+    expect(operation).toHaveBeenCalledTimes(policy.maxRetries + 1);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    const onRetry = vi.fn();
+
+    await runWithRetry(failingWith(new RateLimitError({ retryAfterMs: 15 })), { policy, onRetry });
+
+    expect(onRetry).toHaveBeenCalledWith(expect.any(RateLimitError), 1, 15);
+  });
+
+  it('gives up when Retry-After is longer than maxDelayMs', async () => {
+    const operation = failingWith(new RateLimitError({ retryAfterMs: 60_000 }));
+
+    await expect(runWithRetry(operation, { policy })).rejects.toMatchObject({ kind: 'rate_limit' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out an attempt that takes too long and retries it', async () => {
+    let attempts = 0;
+    const operation = (signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+      if (++attempts > 1) {
+        resolve('done');
+        return;
+      }
+      signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    });
+    const onRetry = vi.fn();
+
+    await expect(runWithRetry(operation, { policy: { ...policy, timeoutMs: 10 }, onRetry })).resolves.toBe('done');
+    expect(onRetry.mock.calls[0][0].kind).toBe('timeout');
+  });
+
+  it('stops without retrying when the caller aborts', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn((signal: AbortSignal) => new Promise<string>((_resolve, reject) => {
+      signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      controller.abort();
+    }));
+
+    await expect(runWithRetry(operation, { signal: controller.signal, policy })).rejects.toMatchObject({ kind: 'aborted' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops while waiting to retry when the caller aborts', async () => {
+    const controller = new AbortController();
+    const operation = failingWith(new RateLimitError({ retryAfterMs: 15 }));
+
+    const result = runWithRetry(operation, { signal: controller.signal, policy, onRetry: () => controller.abort() });
+
+    await expect(result).rejects.toMatchObject({ kind: 'aborted' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start when the signal is already aborted', async () => {
+    const operation = vi.fn(async () => 'done');
+
+    await expect(runWithRetry(operation, { signal: AbortSignal.abort() })).rejects.toMatchObject({ kind: 'aborted' });
+    expect(operation).not.toHaveBeenCalled();
+  });
+});
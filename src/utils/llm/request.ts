@@ -0,0 +1,103 @@
+import { LLMError, RequestTimeoutError, toLLMError } from './errors';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per-attempt limit; for streams it covers the time until the response starts
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  timeoutMs: 120000,
+};
+
+export interface RequestPipelineOptions {
+  signal?: AbortSignal;
+  policy?: Partial<RetryPolicy>;
+  onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed and the
+ * other half random, so parallel clients don't retry in lockstep.
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new LLMError('aborted'));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new LLMError('aborted'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs a provider request with a per-attempt timeout, caller cancellation
+ * and retries for transient failures (rate limits, timeouts, 5xx, network).
+ * `Retry-After` from the provider takes precedence over the backoff delay.
+ *
+ * The signal handed to `operation` stays linked to the caller's signal after
+ * the attempt resolves, so a streamed body can still be cancelled.
+ */
+export async function runWithRetry<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  { signal, policy: policyOverrides, onRetry }: RequestPipelineOptions = {}
+): Promise<T> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...policyOverrides };
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new LLMError('aborted');
+    }
+
+    const attemptController = new AbortController();
+    const forwardAbort = () => attemptController.abort(signal?.reason);
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      attemptController.abort();
+    }, policy.timeoutMs);
+
+    try {
+      return await operation(attemptController.signal);
+    } catch (error) {
+      signal?.removeEventListener('abort', forwardAbort);
+
+      const llmError = signal?.aborted
+        ? new LLMError('aborted')
+        : timedOut
+          ? new RequestTimeoutError()
+          : toLLMError(error);
+
+      // Give up when the provider asks us to wait longer than we are willing to
+      const waitTooLong = llmError.retryAfterMs !== undefined && llmError.retryAfterMs > policy.maxDelayMs;
+      if (!llmError.retryable || attempt >= policy.maxRetries || waitTooLong) {
+        throw llmError;
+      }
+
+      const delayMs = llmError.retryAfterMs ?? getBackoffDelay(attempt, policy);
+      console.warn(`LLM request failed (${llmError.kind}), retrying in ${Math.round(delayMs)}ms`, llmError.providerMessage);
+      onRetry?.(llmError, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+
+export class StructuredOutputError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.issues = issues;
+  }
+}
+
+export type StructuredParseResult<T> =
+  | { data: T }
+  | { issues: string[] };
+
+/**
+ * Extracts the JSON object from a model response. Tolerates markdown fences
+ * and leading or trailing prose around the object.
+ */
+export function extractJson(content: string): unknown {
+  const unfenced = content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new Error('Response does not contain a JSON object');
+    }
+    return JSON.parse(unfenced.slice(start, end + 1));
+  }
+}
+
+const formatIssue = (issue: z.ZodIssue): string =>
+  `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`;
+
+export function parseStructured<T extends z.ZodTypeAny>(
+  content: string,
+  schema: T
+): StructuredParseResult<z.infer<T>> {
+  let json: unknown;
+  try {
+    json = extractJson(content);
+  } catch (error) {
+    return {
+      issues: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  const result = schema.safeParse(json);
+  return result.success
+    ? { data: result.data }
+    : { issues: result.error.issues.map(formatIssue) };
+}
+
+/**
+ * Follow-up prompt sent when a response fails validation, asking the model
+ * to return the whole object again with the listed problems fixed.
+ */
+export function buildRepairPrompt(issues: string[]): string {
+  return `Your previous response could not be used because it did not match the required JSON format.
+Problems found:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Respond again with the complete, corrected JSON object only. Keep every field from the requested format.`;
+}
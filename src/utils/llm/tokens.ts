@@ -0,0 +1,73 @@
+import { ChatMessage, OpenAIRequestOptions, ProviderConfig } from './types';
+
+// Per-message overhead of the chat format (role markers and separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// What a high-detail image roughly costs; the real number depends on its size
+const IMAGE_TOKENS = 765;
+// Reserve for tokenizers that produce more tokens than o200k (Claude, Llama)
+const SAFETY_MARGIN = 0.15;
+const DEFAULT_OUTPUT_TOKENS = 4096;
+
+type TokenCounter = (text: string) => number;
+
+let counterPromise: Promise<TokenCounter> | null = null;
+
+/**
+ * The BPE tables are large, so they are only loaded once a prompt is measured.
+ * Falls back to a character-based estimate if the tokenizer cannot be loaded.
+ */
+function loadCounter(): Promise<TokenCounter> {
+  if (!counterPromise) {
+    counterPromise = import('gpt-tokenizer/encoding/o200k_base')
+      .then(module => (text: string) => module.countTokens(text))
+      .catch(error => {
+        console.warn('Tokenizer unavailable, estimating tokens from length:', error);
+        return (text: string) => Math.ceil(text.length / 3);
+      });
+  }
+  return counterPromise;
+}
+
+export async function countTokens(text: string): Promise<number> {
+  const count = await loadCounter();
+  return count(text);
+}
+
+export async function countMessageTokens(messages: ChatMessage[]): Promise<number> {
+  const count = await loadCounter();
+
+  return messages.reduce((total, message) => {
+    const content = typeof message.content === 'string'
+      ? count(message.content)
+      : message.content.reduce((sum, part) => sum + (part.type === 'text' ? count(part.text) : IMAGE_TOKENS), 0);
+    return total + MESSAGE_OVERHEAD_TOKENS + content;
+  }, 0);
+}
+
+/**
+ * Tokens available for the prompt once the completion has been reserved.
+ */
+export function getPromptBudget(options: Pick<OpenAIRequestOptions, 'max_tokens'>, config: ProviderConfig): number {
+  // Small local context windows can't hold the requested completion, so keep at least half for the prompt
+  const outputTokens = Math.min(
+    options.max_tokens ?? DEFAULT_OUTPUT_TOKENS,
+    config.maxOutputTokens ?? Number.MAX_SAFE_INTEGER,
+    Math.floor(config.contextWindow / 2)
+  );
+  return Math.floor(config.contextWindow * (1 - SAFETY_MARGIN)) - outputTokens;
+}
+
+export interface PromptEstimate {
+  promptTokens: number;
+  budget: number;
+  fits: boolean;
+}
+
+/**
+ * Estimates the prompt size of a request before it is sent.
+ */
+export async function estimatePrompt(options: OpenAIRequestOptions, config: ProviderConfig): Promise<PromptEstimate> {
+  const promptTokens = await countMessageTokens(options.messages);
+  const budget = getPromptBudget(options, config);
+  return { promptTokens, budget, fits: promptTokens <= budget };
+}
@@ -0,0 +1,102 @@
+import { ServerSentEvent } from './sse';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string | ChatContentPart[];
+}
+
+/**
+ * Provider-agnostic request shape used by every feature.
+ * It mirrors the OpenAI chat completion body; each adapter translates it
+ * into whatever its provider expects.
+ */
+export interface OpenAIRequestOptions {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: {
+    type: 'json_object' | 'text';
+  };
+  stream?: boolean;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  model: string;
+  usage?: CompletionUsage;
+  // Set when a streamed request was stopped early; `content` holds the partial output
+  aborted?: boolean;
+}
+
+export interface StreamDelta {
+  content?: string;
+  model?: string;
+  // Providers may report prompt and completion tokens in separate events
+  usage?: Partial<CompletionUsage>;
+  done?: boolean;
+}
+
+export interface StreamOptions {
+  // Receives each new chunk of text along with everything received so far
+  onToken?: (token: string, content: string) => void;
+  signal?: AbortSignal;
+}
+
+// App features that can be configured separately, e.g. with their own API key
+export type AIFeature = 'explainer' | 'reviewer' | 'docs' | 'chat';
+
+/**
+ * Authorises a request to the LLM proxy. `keyId` selects one of the user's
+ * own provider keys; when null the organisation key is used.
+ */
+export interface ProxyCredentials {
+  accessToken: string;
+  keyId: string | null;
+  // Recorded with the request for usage reports
+  feature?: AIFeature;
+}
+
+export type ProviderId = 'openai' | 'azure-openai' | 'anthropic' | 'local' | 'mock';
+
+export interface ProviderConfig {
+  id: ProviderId;
+  // Azure OpenAI only
+  apiVersion?: string;
+  // Maps the model names used in the app (e.g. 'gpt-4o') to provider models or Azure deployments
+  modelMap: Record<string, string>;
+  // Hard cap on completion tokens, for providers with a lower output limit
+  maxOutputTokens?: number;
+  // Highest temperature the provider accepts, for providers with a narrower range than OpenAI's 0-2
+  maxTemperature?: number;
+  // Prompt plus completion tokens the models accept, used to decide when to chunk input
+  contextWindow: number;
+}
+
+/**
+ * Provider request as sent to the LLM proxy. The proxy adds the base URL and
+ * credentials, so adapters only describe the path and body.
+ */
+export interface ProviderHttpRequest {
+  path: string;
+  body: Record<string, unknown>;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  buildRequest(options: OpenAIRequestOptions, config: ProviderConfig): ProviderHttpRequest;
+  parseResponse(data: unknown): ChatCompletionResult;
+  parseStreamEvent(event: ServerSentEvent): StreamDelta | null;
+}
@@ -0,0 +1,209 @@
+import { supabase } from '@/integrations/supabase/client';
+import { loadProviderConfig } from '@/utils/llm/config';
+import { AIFeature, OpenAIRequestOptions } from '@/utils/llm/types';
+
+// Diagrams are billed as reviews but tuned separately
+export type ModelSettingsFeature = AIFeature | 'diagram';
+
+export interface ModelSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  // Ask the provider for a JSON object instead of free text
+  jsonMode: boolean;
+}
+
+/**
+ * Settings stored for a user, or for the whole organisation when `user_id`
+ * is null.
+ */
+export interface StoredModelSettings {
+  id: string;
+  user_id: string | null;
+  feature: ModelSettingsFeature;
+  model: string;
+  temperature: number;
+  max_tokens: number;
+  json_mode: boolean;
+  updated_at: string;
+}
+
+export const MODEL_SETTINGS_FEATURES: { id: ModelSettingsFeature; label: string; structured: boolean }[] = [
+  { id: 'explainer', label: 'Concept Explainer', structured: false },
+  { id: 'docs', label: 'Documentation Generator', structured: false },
+  { id: 'reviewer', label: 'Code Reviewer', structured: true },
+  { id: 'diagram', label: 'Diagram Generator', structured: true },
+  { id: 'chat', label: 'Chat Assistant', structured: false },
+];
+
+// Models offered in the settings panel. Others can be entered, but the
+// organisation keys only serve the models the proxy has a price for
+export const SUGGESTED_MODELS = ['gpt-4o', 'gpt-4o-mini'];
+
+// OpenAI accepts temperatures up to 2, Anthropic only up to 1
+export const MAX_TEMPERATURE = loadProviderConfig().maxTemperature ?? 2;
+
+// Matches the cap the proxy puts on requests with the organisation keys
+export const MAX_OUTPUT_TOKENS = 16384;
+
+const MODEL_NAME = /^[A-Za-z0-9._:/-]{1,100}$/;
+
+/**
+ * Checks settings before they are saved. Returns what is wrong, or null
+ * when they are valid.
+ */
+export function validateModelSettings(settings: ModelSettings): string | null {
+  if (!settings.model.trim()) {
+    return 'Please enter a model';
+  }
+  if (!MODEL_NAME.test(settings.model.trim())) {
+    return 'Model names can only contain letters, digits and . _ : / -';
+  }
+  if (!(settings.temperature >= 0 && settings.temperature <= MAX_TEMPERATURE)) {
+    return `Temperature must be between 0 and ${MAX_TEMPERATURE}`;
+  }
+  if (!Number.isInteger(settings.maxTokens) || settings.maxTokens <= 0 || settings.maxTokens > MAX_OUTPUT_TOKENS) {
+    return `Max tokens must be a whole number between 1 and ${MAX_OUTPUT_TOKENS}`;
+  }
+  return null;
+}
+
+export const DEFAULT_MODEL_SETTINGS: Record<ModelSettingsFeature, ModelSettings> = {
+  explainer: { model: 'gpt-4o-mini', temperature: 0.7, maxTokens: 13000, jsonMode: false },
+  docs: { model: 'gpt-4o-mini', temperature: 0.5, maxTokens: 9000, jsonMode: false },
+  reviewer: { model: 'gpt-4o', temperature: 0.3, maxTokens: 9000, jsonMode: true },
+  diagram: { model: 'gpt-4o', temperature: 0.3, maxTokens: 9000, jsonMode: true },
+  chat: { model: 'gpt-4o', temperature: 0.7, maxTokens: 2000, jsonMode: false },
+};
+
+const fromRow = (row: StoredModelSettings): ModelSettings => ({
+  model: row.model,
+  temperature: Number(row.temperature),
+  maxTokens: row.max_tokens,
+  jsonMode: row.json_mode,
+});
+
+/**
+ * Fetches the settings rows visible to the current user: their own and the
+ * organisation defaults (enforced by RLS).
+ */
+export async function fetchModelSettings(): Promise<StoredModelSettings[]> {
+  const { data, error } = await supabase
+    .from('llm_model_settings')
+    .select('*');
+
+  if (error) {
+    console.error('Error fetching model settings:', error);
+    throw error;
+  }
+  return (data || []).map(row => ({
+    ...row,
+    feature: row.feature as ModelSettingsFeature,
+    temperature: Number(row.temperature),
+  }));
+}
+
+/**
+ * Creates or updates the settings of one feature for a user, or for the
+ * organisation when `userId` is null. Only admins can change the
+ * organisation defaults (enforced by RLS).
+ */
+export async function saveModelSettings(
+  userId: string | null,
+  feature: ModelSettingsFeature,
+  settings: ModelSettings,
+  existingId?: string
+): Promise<void> {
+  const problem = validateModelSettings(settings);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  const values = {
+    model: settings.model.trim(),
+    temperature: settings.temperature,
+    max_tokens: settings.maxTokens,
+    json_mode: settings.jsonMode,
+  };
+  const { error } = existingId
+    ? await supabase
+      .from('llm_model_settings')
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq('id', existingId)
+    : await supabase
+      .from('llm_model_settings')
+      .insert({ ...values, user_id: userId, feature });
+
+  if (error) {
+    console.error('Error saving model settings:', error);
+    throw error;
+  }
+  invalidateModelSettings();
+}
+
+/**
+ * Removes stored settings, so the feature falls back to the next level
+ * (organisation defaults, then the built-in defaults).
+ */
+export async function deleteModelSettings(settingsId: string): Promise<void> {
+  const { error } = await supabase.from('llm_model_settings').delete().eq('id', settingsId);
+  if (error) {
+    console.error('Error deleting model settings:', error);
+    throw error;
+  }
+  invalidateModelSettings();
+}
+
+// Settings change rarely, so they are only refetched every few minutes
+const SETTINGS_TTL_MS = 5 * 60 * 1000;
+
+let cachedSettings: { userId: string | null; fetchedAt: number; rows: Promise<StoredModelSettings[]> } | null = null;
+
+/**
+ * Drops the cached settings, e.g. after they were edited.
+ */
+export function invalidateModelSettings(): void {
+  cachedSettings = null;
+}
+
+function loadSettings(userId: string | null): Promise<StoredModelSettings[]> {
+  if (!userId) {
+    return Promise.resolve([]);
+  }
+  if (!cachedSettings || cachedSettings.userId !== userId || Date.now() - cachedSettings.fetchedAt > SETTINGS_TTL_MS) {
+    cachedSettings = {
+      userId,
+      fetchedAt: Date.now(),
+      rows: fetchModelSettings().catch(error => {
+        // Fall back to the built-in defaults rather than failing the request
+        console.warn('Using default model settings:', error);
+        return [];
+      }),
+    };
+  }
+  return cachedSettings.rows;
+}
+
+/**
+ * Settings for a feature: the user's own, otherwise the organisation
+ * defaults, otherwise the built-in defaults.
+ */
+export async function resolveModelSettings(feature: ModelSettingsFeature): Promise<ModelSettings> {
+  const { data } = await supabase.auth.getSession();
+  const rows = (await loadSettings(data.session?.user.id ?? null)).filter(row => row.feature === feature);
+  const stored = rows.find(row => row.user_id !== null) ?? rows.find(row => row.user_id === null);
+  return stored ? fromRow(stored) : DEFAULT_MODEL_SETTINGS[feature];
+}
+
+/**
+ * The request parameters for a feature's settings, to be combined with the
+ * messages.
+ */
+export function toRequestOptions(settings: ModelSettings): Omit<OpenAIRequestOptions, 'messages'> {
+  return {
+    model: settings.model,
+    temperature: settings.temperature,
+    max_tokens: settings.maxTokens,
+    ...(settings.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+  };
+}
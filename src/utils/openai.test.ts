@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import openAIService from '@/utils/openai';
+import { llmClient } from '@/utils/llm/client';
+import { MockLLM } from '@/utils/llm/mock';
+
+// The vitest config selects the mock provider, so requests are answered from fixtures/llm
+const cache = new Map<string, string>();
+
+vi.mock('@/utils/llm/cache', async importOriginal => ({
+  ...await importOriginal<typeof import('@/utils/llm/cache')>(),
+  responseCache: {
+    get: async (key: string) => cache.has(key) ? { content: cache.get(key)!, createdAt: new Date() } : null,
+    set: async (key: string, content: string) => {
+      cache.set(key, content);
+    },
+    delete: async (key: string) => {
+      cache.delete(key);
+    },
+  },
+}));
+
+// Only the built-in prompt templates, without asking Supabase for live versions
+vi.mock('@/utils/promptStorage', async importOriginal => ({
+  ...await importOriginal<typeof import('@/utils/promptStorage')>(),
+  fetchLiveTemplateVersions: async () => [],
+}));
+
+const mock = llmClient.mock!;
+
+beforeEach(() => {
+  cache.clear();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.injectError(null);
+  vi.restoreAllMocks();
+});
+
+describe('generateExplanation', () => {
+  it('replays the recorded fixture for the request', async () => {
+    const explanation = await openAIService.generateExplanation('Closures');
+
+    expect(explanation).toContain('A closure is a function that remembers the variables');
+  });
+
+  it('falls back to the default fixture without a recording', async () => {
+    const explanation = await openAIService.generateExplanation('Event loop');
+
+    expect(explanation).toMatch(/^## 📌 Quick Summary/);
+    expect(explanation).not.toContain('A closure is a function');
+  });
+
+  it('streams the fixture and serves the next request from the cache', async () => {
+    const onToken = vi.fn();
+    const onCacheHit = vi.fn();
+
+    const streamed = await openAIService.generateExplanation('Closures', false, '', { onToken });
+    const cached = await openAIService.generateExplanation('Closures', false, '', undefined, { onCacheHit });
+
+    expect(onToken.mock.calls.length).toBeGreaterThan(1);
+    expect(onToken).toHaveBeenLastCalledWith(expect.any(String), streamed);
+    expect(cached).toBe(streamed);
+    expect(onCacheHit).toHaveBeenCalledOnce();
+  });
+});
+
+describe('reviewCode', () => {
+  const code = 'function add(a, b) {\n  return a + b;\n}';
+
+  it('parses the review fixture', async () => {
+    const review = await openAIService.reviewCode(code, 'javascript', 'bugs');
+
+    expect(review.score).toBe(75);
+    expect(review.summary).toMatch(/^Mock review/);
+    expect(review.issues.length).toBeGreaterThan(0);
+  });
+
+  it('asks the model to repair a malformed response', async () => {
+    // Only the first response is cut off; `times` would count each repair request separately
+    mock.injectError({ type: 'malformed_json' });
+    const respond = vi.spyOn(mock, 'respond').mockImplementationOnce(async (...args) => {
+      const response = await MockLLM.prototype.respond.apply(mock, args);
+      mock.injectError(null);
+      return response;
+    });
+
+    const review = await openAIService.reviewCode(code, 'javascript', 'comprehensive', true);
+
+    expect(review.score).toBe(75);
+    expect(review.fixedCode).toBeTruthy();
+    expect(respond).toHaveBeenCalledTimes(2);
+    const [repair] = respond.mock.calls[1];
+    expect(repair.messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+  });
+
+  it('replaces a cached review that no longer matches the schema', async () => {
+    const respond = vi.spyOn(mock, 'respond');
+    await openAIService.reviewCode(code, 'javascript', 'performance');
+    const [key] = cache.keys();
+    cache.set(key, JSON.stringify({ summary: 'Cached before the score was required' }));
+
+    const review = await openAIService.reviewCode(code, 'javascript', 'performance');
+
+    expect(review.score).toBe(75);
+    expect(respond).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(cache.get(key)).score).toBe(75);
+  });
+
+  it('removes a cached review that no longer matches the schema when regenerating fails', async () => {
+    await openAIService.reviewCode(code, 'javascript', 'performance');
+    const [key] = cache.keys();
+    cache.set(key, '{}');
+    mock.injectError({ type: 'malformed_json' });
+
+    await expect(openAIService.reviewCode(code, 'javascript', 'performance'))
+      .rejects.toThrow('The AI response did not match the expected format');
+    expect(cache.has(key)).toBe(false);
+  });
+
+  it('fails a chunked review with an empty summary without reviewing it again', async () => {
+    // Review the snippet in two parts, as if it didn't fit the context window
+    vi.spyOn(openAIService as unknown as { planChunks: () => Promise<unknown> }, 'planChunks').mockResolvedValue([
+      { content: 'function add(a, b) {', startLine: 1, endLine: 1 },
+      { content: '  return a + b;\n}', startLine: 2, endLine: 3 },
+    ]);
+    const respond = vi.spyOn(mock, 'respond').mockImplementation(async (options, feature, signal) => {
+      const response = await MockLLM.prototype.respond.call(mock, options, feature, signal);
+      if (!/combine partial code review summaries/.test(String(options.messages[0].content))) return response;
+      const body = await response.json();
+      body.choices[0].message.content = '  ';
+      return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    });
+
+    await expect(openAIService.reviewCode(code, 'javascript', 'bugs'))
+      .rejects.toThrow('The merged review did not match the expected format');
+    expect(respond).toHaveBeenCalledTimes(3);
+    expect(cache.size).toBe(0);
+  });
+
+  it('gives up when the response stays malformed', async () => {
+    mock.injectError({ type: 'malformed_json' });
+    const respond = vi.spyOn(mock, 'respond');
+
+    await expect(openAIService.reviewCode(code, 'javascript', 'style'))
+      .rejects.toThrow('The AI response did not match the expected format');
+    expect(respond).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('generateDocumentation', () => {
+  it('replays the docs fixture', async () => {
+    const docs = await openAIService.generateDocumentation('function add(a, b) { return a + b; }', 'javascript');
+
+    expect(docs).toMatch(/^# 📚 Mock Documentation/);
+  });
+
+  it('replays the docs fixture for a README', async () => {
+    const readme = await openAIService.generateDocumentation('A CLI that converts CSV to JSON', 'markdown', 'readme');
+
+    expect(readme).toMatch(/^# 📚 Mock Documentation/);
+  });
+});
@@ -1,20 +1,147 @@
-// IMPORTANT: This API key should be stored in a secure environment variable on the server
-// Using a key directly in the client side is for demonstration purposes only
-// In a production application, you should use a backend service to make API calls
+// Provider API keys never reach the browser: every request goes through the
+// llm-proxy Supabase Edge Function, authenticated with the user's session.
 
 import { supabase } from '@/integrations/supabase/client';
+import { llmClient } from '@/utils/llm/client';
+import {
+  AIFeature,
+  ChatCompletionResult,
+  ChatMessage,
+  OpenAIRequestOptions,
+  ProxyCredentials,
+  StreamOptions,
+} from '@/utils/llm/types';
+import { buildRepairPrompt, parseStructured, StructuredOutputError } from '@/utils/llm/structured';
+import { LLMError } from '@/utils/llm/errors';
+import { countMessageTokens, countTokens, estimatePrompt, getPromptBudget } from '@/utils/llm/tokens';
+import { CodeChunk, splitIntoChunks } from '@/utils/llm/chunking';
+import { hashCacheKey, responseCache } from '@/utils/llm/cache';
+import { resolveModel } from '@/utils/llm/providers/openai';
+import { resolveUserKeyId } from '@/utils/userKeys';
+import { PromptVersions, renderPrompt } from '@/utils/prompts';
+import { ModelSettingsFeature, resolveModelSettings, toRequestOptions } from '@/utils/modelSettings';
+import { formatInventory, publicSymbols, SymbolInventory, SymbolLanguage } from '@/utils/symbols';
+import { COMMENT_STYLES, DocTarget, findDocTargets, insertDocComments } from '@/utils/symbols/inlineDocs';
+import { ApiEndpoint, describeForGapFilling, fillDescriptionGaps, hasDescriptionGaps } from '@/utils/apiSpec';
+import { DesignDocAnswers, DesignDocTemplate } from '@/utils/designDocs';
+import {
+  ApiDescriptionsResult,
+  ApiDescriptionsResultSchema,
+  DesignDocDraftSchema,
+  DiagramResult,
+  DiagramResultSchema,
+  InlineDocsResult,
+  InlineDocsResultSchema,
+  ReviewResult,
+  ReviewResultSchema,
+  ReviewResultWithFixSchema,
+} from '@/utils/aiSchemas';
+import { z } from 'zod';
 
-interface OpenAIRequestOptions {
-  model: string;
-  messages: {
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-  }[];
-  temperature?: number;
-  max_tokens?: number;
-  response_format?: {
-    type: 'json_object' | 'text';
+export type { ChatMessage, ChatContentPart, OpenAIRequestOptions, StreamOptions } from '@/utils/llm/types';
+export type { CodeIssue, DiagramResult, InlineDocsResult, ReviewResult } from '@/utils/aiSchemas';
+
+// Endpoints described per request when filling in API descriptions
+const API_DESCRIPTION_BATCH_SIZE = 20;
+
+// Number of follow-up requests made when a JSON response fails schema validation
+const MAX_STRUCTURED_REPAIRS = 2;
+
+// Oversized inputs are split into chunks that are summarised separately (map)
+// and the notes are combined into one result (reduce)
+const CHUNK_NOTES_MAX_TOKENS = 2000;
+// Room for the instructions wrapped around each chunk
+const CHUNK_PROMPT_OVERHEAD_TOKENS = 500;
+// Rounds of condensing when the combined notes are still too large
+const MAX_REDUCE_ROUNDS = 3;
+// Length of the overall summary when the reviews of several chunks are merged
+const REVIEW_SUMMARY_MAX_TOKENS = 500;
+
+// How long generated results are served from the response cache
+const CACHE_TTL_MS = {
+  explanation: 7 * 24 * 60 * 60 * 1000,
+  documentation: 7 * 24 * 60 * 60 * 1000,
+  // Reviews are usually re-run after the code changed, so keep them briefly
+  review: 24 * 60 * 60 * 1000,
+  diagram: 7 * 24 * 60 * 60 * 1000,
+};
+
+const NOTES_SYSTEM_PROMPT = `You are an expert software engineer preparing notes that another writer will turn into documentation.
+You receive one part of a larger input. Describe everything in this part that documentation needs:
+purpose, every public function, class, method, endpoint or section, their parameters, return values, side effects, errors and notable behaviour.
+Keep names and signatures exact. Be thorough but concise and use markdown bullet lists. Do not write an introduction or conclusion.`;
+
+/**
+ * Parameters for the intermediate requests of a map-reduce run: the model
+ * and temperature configured for the calling feature, with its max tokens
+ * capped at `limit` so the partial results stay short enough to combine.
+ */
+const intermediateSettings = (options: OpenAIRequestOptions, limit: number) => ({
+  model: options.model,
+  temperature: options.temperature,
+  max_tokens: Math.min(options.max_tokens ?? limit, limit),
+});
+
+/**
+ * Combines the reviews of individual chunks into one review of the whole
+ * input. Line numbers are shifted back to the original file and the score is
+ * weighted by chunk size. The merged review is checked against `schema`,
+ * e.g. an empty summary or a part without fixed code fails it.
+ */
+function mergeReviews(partials: ReviewResult[], chunks: CodeChunk[], summary: string, schema: z.ZodTypeAny): ReviewResult {
+  const lineCounts = chunks.map(chunk => chunk.endLine - chunk.startLine + 1);
+  const scored = partials
+    .map((partial, index) => ({ score: partial.score, weight: lineCounts[index] }))
+    .filter(entry => entry.score !== undefined);
+  const totalWeight = scored.reduce((sum, entry) => sum + entry.weight, 0);
+
+  const seenImprovements = new Set<string>();
+  const improvements = partials.flatMap(partial => partial.improvements).filter(improvement => {
+    const key = improvement.trim().toLowerCase();
+    if (seenImprovements.has(key)) return false;
+    seenImprovements.add(key);
+    return true;
+  });
+
+  const fixedParts = partials.map(partial => partial.fixedCode);
+
+  const merged: ReviewResult = {
+    summary: summary.trim(),
+    issues: partials
+      .flatMap((partial, index) => partial.issues.map(issue => ({
+        ...issue,
+        line: issue.line + chunks[index].startLine - 1,
+      })))
+      .sort((a, b) => a.line - b.line),
+    improvements,
+    score: totalWeight > 0
+      ? Math.round(scored.reduce((sum, entry) => sum + entry.score * entry.weight, 0) / totalWeight)
+      : undefined,
+    fixedCode: fixedParts.every(part => part !== undefined) ? fixedParts.join('\n') : undefined,
   };
+
+  const parsed = parseStructured(JSON.stringify(merged), schema);
+  if (!('data' in parsed)) {
+    throw new StructuredOutputError('The merged review did not match the expected format', parsed.issues);
+  }
+  return parsed.data;
+}
+
+// Lists the symbols to document, with the ids the response must use
+const describeDocTargets = (targets: DocTarget[]) => targets
+  .map(({ id, symbol }) => {
+    const params = symbol.params.length > 0 ? symbol.params.map(param => param.name).join(', ') : 'none';
+    return `- id "${id}": ${symbol.kind} \`${symbol.signature}\` (line ${symbol.startLine}), parameters: ${params}`;
+  })
+  .join('\n');
+
+export interface GenerationOptions {
+  // Skip the response cache and replace the cached result
+  forceRegenerate?: boolean;
+  // Called when the result comes from the cache instead of the provider
+  onCacheHit?: (cachedAt: Date) => void;
+  // Receives the prompt template versions the result was generated with
+  onPromptVersions?: (versions: PromptVersions) => void;
 }
 
 export interface AIExplanationResponse {
@@ -23,138 +150,285 @@ export interface AIExplanationResponse {
   error: string | null;
 }
 
-export interface DiagramResult {
-  mermaidCode: string;
-  explanation: string;
-  title: string;
-}
-
 class OpenAIService {
-  private baseUrl = 'https://api.openai.com/v1/chat/completions';
-  private apiKey: string | null = null;
-
-  setApiKey(key: string) {
-    this.apiKey = key;
-    // Save to session storage to persist during the session
-    // Note: This is still not secure for production
-    sessionStorage.setItem('openai_key', key);
+  /**
+   * Resolves the key used for a feature: the user's own key (their default
+   * for the feature, else their newest key for the active provider), then the
+   * organisation key held by the proxy. The proxy answers with a
+   * `missing_key` error when neither exists. Returns null when nobody is
+   * signed in, unless the mock provider is used, which needs no account.
+   */
+  async ensureApiKey(feature?: AIFeature): Promise<ProxyCredentials | null> {
+    if (llmClient.mock) {
+      return { accessToken: '', keyId: null, feature };
+    }
+
+    const { data, error } = await supabase.auth.getSession();
+    if (error) {
+      console.error('Error reading the Supabase session:', error);
+      return null;
+    }
+    if (!data.session) {
+      return null;
+    }
+
+    return {
+      accessToken: data.session.access_token,
+      keyId: await resolveUserKeyId(data.session.user.id, llmClient.providerId, feature),
+      feature,
+    };
   }
 
-  getApiKey(): string | null {
-    if (!this.apiKey) {
-      this.apiKey = sessionStorage.getItem('openai_key');
+  /**
+   * Credentials for a feature's requests. Diagrams have model settings of
+   * their own but share the reviewer's API key and usage reports.
+   */
+  private async requireCredentials(feature: ModelSettingsFeature): Promise<ProxyCredentials> {
+    const credentials = await this.ensureApiKey(feature === 'diagram' ? 'reviewer' : feature);
+
+    if (!credentials) {
+      throw new Error('Please sign in to use the AI features.');
     }
-    return this.apiKey;
+    return credentials;
   }
 
-  clearApiKey() {
-    this.apiKey = null;
-    sessionStorage.removeItem('openai_key');
+  /**
+   * Streams when the caller passes stream options, otherwise waits for the full completion.
+   */
+  private request(
+    options: OpenAIRequestOptions,
+    credentials: ProxyCredentials,
+    streamOptions?: StreamOptions
+  ): Promise<ChatCompletionResult> {
+    return streamOptions
+      ? llmClient.stream(options, credentials, streamOptions)
+      : llmClient.complete(options, credentials);
   }
 
-  async fetchApiKeyFromSupabase(): Promise<string | null> {
-    try {
-      // Fetch the first API key from the 'keys' table
-      // Using 'any' type to bypass type checking as we know our table structure
-      const { data, error } = await (supabase as any)
-        .from('keys')
-        .select('key_value')
-        .limit(1)
-        .single();
-
-      if (error) {
-        console.error('Error fetching API key from Supabase:', error);
-        return null;
+  /**
+   * Key of `options` in the response cache.
+   */
+  private cacheKeyOf(options: OpenAIRequestOptions): Promise<string> {
+    return hashCacheKey({
+      provider: llmClient.providerId,
+      model: resolveModel(options.model, llmClient.providerConfig),
+      messages: options.messages,
+      temperature: options.temperature,
+    });
+  }
+
+  /**
+   * Serves `options` from the response cache unless the caller forces a
+   * regeneration. On a miss `generate` runs and its output is stored, unless
+   * it is marked as not cacheable (e.g. a stream stopped half way). Cached
+   * results are replayed to `streamOptions` as a single token.
+   */
+  private async withCache(
+    options: OpenAIRequestOptions,
+    ttlMs: number,
+    generationOptions: GenerationOptions,
+    generate: () => Promise<{ content: string; cacheable: boolean }>,
+    streamOptions?: StreamOptions
+  ): Promise<string> {
+    const key = await this.cacheKeyOf(options);
+
+    if (!generationOptions.forceRegenerate) {
+      const cached = await responseCache.get(key);
+      if (cached) {
+        streamOptions?.onToken?.(cached.content, cached.content);
+        generationOptions.onCacheHit?.(cached.createdAt);
+        return cached.content;
       }
+    }
+
+    const { content, cacheable } = await generate();
+    if (cacheable && content) {
+      await responseCache.set(key, content, ttlMs);
+    }
+    return content;
+  }
+
+  /**
+   * `withCache` for structured results, which are cached as JSON. `generate`
+   * must return a result that matches `schema`. Cached entries that no longer
+   * match it are removed and regenerated.
+   */
+  private async withStructuredCache<T extends z.ZodTypeAny>(
+    options: OpenAIRequestOptions,
+    ttlMs: number,
+    generationOptions: GenerationOptions,
+    schema: T,
+    generate: () => Promise<z.infer<T>>
+  ): Promise<z.infer<T>> {
+    let generated = false;
+    const content = await this.withCache(options, ttlMs, generationOptions, async () => {
+      generated = true;
+      return { content: JSON.stringify(await generate()), cacheable: true };
+    });
 
-      if (data && data.key_value) {
-        // Save the fetched key
-        this.setApiKey(data.key_value);
-        return data.key_value;
+    const parsed = parseStructured(content, schema);
+    if ('data' in parsed) {
+      return parsed.data;
+    }
+    // Remove the entry first, so it isn't served again if regenerating fails
+    await responseCache.delete(await this.cacheKeyOf(options));
+    // Regenerating a fresh result would bill the same requests again for the same output
+    if (generated) {
+      throw new StructuredOutputError('The AI response did not match the expected format', parsed.issues);
+    }
+    // A cached entry may predate a change to the schema
+    return this.withStructuredCache(options, ttlMs, { ...generationOptions, forceRegenerate: true }, schema, generate);
+  }
+
+  /**
+   * Requests a JSON response and validates it against `schema`. When the
+   * response is malformed or incomplete, the validation problems are sent
+   * back to the model and it is asked to try again.
+   */
+  private async requestStructured<T extends z.ZodTypeAny>(
+    options: OpenAIRequestOptions,
+    credentials: ProxyCredentials,
+    schema: T
+  ): Promise<z.infer<T>> {
+    let messages: ChatMessage[] = options.messages;
+    let issues: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_STRUCTURED_REPAIRS; attempt++) {
+      const { content } = await this.request({ ...options, messages }, credentials);
+      const parsed = parseStructured(content, schema);
+      if ('data' in parsed) {
+        return parsed.data;
       }
 
-      return null;
-    } catch (error) {
-      console.error('Failed to fetch API key:', error);
+      issues = parsed.issues;
+      console.warn(`Structured response failed validation (attempt ${attempt + 1}):`, issues);
+      messages = [
+        ...options.messages,
+        { role: 'assistant', content },
+        { role: 'user', content: buildRepairPrompt(issues) },
+      ];
+    }
+
+    throw new StructuredOutputError('The AI response did not match the expected format', issues);
+  }
+
+  /**
+   * Splits `text` when `options` would not fit the model's context window.
+   * Chunks are sized for a follow-up request using `mapSystemPrompt` and
+   * `mapMaxTokens`. Returns null when the request can be sent as is.
+   */
+  private async planChunks(
+    text: string,
+    language: string,
+    options: OpenAIRequestOptions,
+    mapSystemPrompt: string,
+    mapMaxTokens: number
+  ): Promise<CodeChunk[] | null> {
+    const config = llmClient.providerConfig;
+    const estimate = await estimatePrompt(options, config);
+    if (estimate.fits) {
       return null;
     }
+
+    const chunkBudget = getPromptBudget({ max_tokens: mapMaxTokens }, config)
+      - await countTokens(mapSystemPrompt)
+      - CHUNK_PROMPT_OVERHEAD_TOKENS;
+    const chunks = await splitIntoChunks(text, language, chunkBudget);
+    console.info(`Prompt is ~${estimate.promptTokens} tokens (budget ${estimate.budget}), processing it in ${chunks.length} chunks`);
+    return chunks;
   }
 
-  async ensureApiKey(): Promise<string | null> {
-    // Check if we already have a key
-    let key = this.getApiKey();
-    
-    // If not, try to fetch from Supabase
-    if (!key) {
-      key = await this.fetchApiKeyFromSupabase();
+  /**
+   * Map step: writes documentation notes for each chunk, one request at a time
+   * to stay clear of rate limits. `options` are the calling feature's request
+   * options, whose model settings the notes are written with.
+   */
+  private async summariseChunks(
+    chunks: string[],
+    describe: (index: number, total: number) => string,
+    options: OpenAIRequestOptions,
+    credentials: ProxyCredentials,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const notes: string[] = [];
+    for (let index = 0; index < chunks.length; index++) {
+      const { content } = await llmClient.complete({
+        ...intermediateSettings(options, CHUNK_NOTES_MAX_TOKENS),
+        messages: [
+          { role: "system", content: NOTES_SYSTEM_PROMPT },
+          { role: "user", content: `${describe(index, chunks.length)}\n\n${chunks[index]}` }
+        ]
+      }, credentials, { signal });
+      notes.push(content);
     }
-    
-    return key;
+    return notes;
+  }
+
+  /**
+   * Reduce step: condenses the notes until they fit in `budget` tokens.
+   */
+  private async condenseNotes(
+    notes: string[],
+    budget: number,
+    options: OpenAIRequestOptions,
+    credentials: ProxyCredentials,
+    signal?: AbortSignal
+  ): Promise<string> {
+    let combined = notes.join('\n\n');
+
+    for (let round = 0; round < MAX_REDUCE_ROUNDS && await countTokens(combined) > budget; round++) {
+      const groups = await splitIntoChunks(combined, 'markdown', Math.floor(budget / 2));
+      const condensed = await this.summariseChunks(
+        groups.map(group => group.content),
+        (index, total) => `Condense part ${index + 1} of ${total} of these notes. Keep every name, signature and important detail.`,
+        options,
+        credentials,
+        signal
+      );
+      combined = condensed.join('\n\n');
+    }
+    return combined;
+  }
+
+  /**
+   * Model and parameters configured for a feature, see modelSettings.ts.
+   */
+  private async requestSettings(feature: ModelSettingsFeature): Promise<Omit<OpenAIRequestOptions, 'messages'>> {
+    return toRequestOptions(await resolveModelSettings(feature));
+  }
+
+  /**
+   * Sends a raw chat request, e.g. multi-turn conversations with image input.
+   * Parameters that aren't given come from the chat model settings.
+   */
+  async chat(
+    options: Partial<OpenAIRequestOptions> & Pick<OpenAIRequestOptions, 'messages'>,
+    streamOptions?: StreamOptions
+  ): Promise<string> {
+    const credentials = await this.requireCredentials('chat');
+    const result = await this.request({ ...await this.requestSettings('chat'), ...options }, credentials, streamOptions);
+    return result.content;
   }
 
   async generateExplanation(
     topic: string, 
     includeCode: boolean = false, 
-    programmingLanguage: string = ''
+    programmingLanguage: string = '',
+    streamOptions?: StreamOptions,
+    generationOptions: GenerationOptions = {}
   ): Promise<string> {
-    // Try to ensure we have an API key
-    const apiKey = await this.ensureApiKey();
-    
-    if (!apiKey) {
-      throw new Error('API key not found in database. Please contact your administrator.');
-    }
-
-    let systemPrompt = `You are an expert teacher who explains technical concepts clearly, comprehensively, and with visual appeal. 
-    Create an in-depth, well-structured explanation that would help someone truly understand the topic from the ground up.
-    
-    Structure your response with these interactive and visually appealing elements:
-    1. Begin with a 📌 **Quick Summary**: A concise overview of the concept (1-2 sentences)
-    2. 📚 **Introduction**: Provide context and the importance of the concept
-    3. 🔍 **Real-World Analogy**: Create a compelling, relatable analogy that helps visualize the concept
-    4. 🧩 **Core Concepts**: Break down the fundamental components with visual descriptions
-    5. 🔄 **How It Works**: Explain the underlying mechanisms as a step-by-step process
-    6. 💡 **Key Principles**: List important guiding principles or rules
-    7. 🌟 **Case Study**: Provide a detailed, real-world example of the concept in action
-    8. ⚙️ **Practical Applications**: Include 3-5 concrete, industry-specific applications with examples
-    9. 🚀 **Best Practices**: Include tips and recommendations
-    10. ❓ **Common Questions**: Address 3-5 frequently asked questions about the topic
-    11. 🔗 **Related Concepts**: Create a mind map of related topics
-    12. 📝 **Interactive Quiz**: Include 3 quiz questions to test understanding (provide answers in a spoiler section)
-    13. 📈 **Summary**: Wrap up with key takeaways
-    
-    Use rich visual markdown formatting to make your explanation engaging:
-    - Use emoji icons (like 📊, 🔍, 📈, 🛠️, etc.) to highlight sections and important points
-    - Create H2 and H3 headings for clear organization
-    - Create ASCII diagrams or flowcharts where helpful to visualize processes
-    - Use bulleted and numbered lists for clarity
-    - Include **bold** and *italic* text for emphasis
-    - Use > blockquotes for important notes, quotes, or callouts
-    - Add horizontal rules (---) to separate major sections
-    - Format tables using markdown when presenting comparative information
-    - Use inline formatting to highlight key terms
-    - Add "spoiler" sections for quiz answers using HTML details/summary tags
-    
-    IMPORTANT: Your explanation should feel interactive and engaging, making complex concepts accessible through visual elements, stories, and real-world examples that people can relate to.`;
+    const promptVersions: PromptVersions = {};
+    let systemPrompt = await renderPrompt('explainer.system', {}, promptVersions);
     
     if (includeCode) {
-      systemPrompt += `\n\nInclude multiple practical code examples in ${programmingLanguage || 'a relevant programming language'} 
-      to demonstrate the concept in action. Format all code with properly syntax-highlighted markdown code blocks.
-      Show a progression of examples:
-      1. A simple, foundational example for beginners
-      2. An intermediate example that builds on the basic concepts
-      3. A complex, real-world application that demonstrates professional usage
-      
-      Add detailed comments in the code to explain what each section does.
-      
-      For each code example:
-      - Explain what problem it solves
-      - Highlight key patterns or techniques used
-      - Mention potential pitfalls or edge cases
-      - Where appropriate, suggest how the code could be extended or improved`;
+      systemPrompt += '\n\n' + await renderPrompt('explainer.code-examples', {
+        language: programmingLanguage || 'a relevant programming language',
+      }, promptVersions);
     }
+    generationOptions.onPromptVersions?.(promptVersions);
 
     const options: OpenAIRequestOptions = {
-      model: "gpt-4o-mini",
+      ...await this.requestSettings('explainer'),
       messages: [
         {
           role: "system",
@@ -164,29 +438,20 @@ class OpenAIService {
           role: "user",
           content: `Explain this technical concept in detail with vivid real-world examples and interactive elements: ${topic}`
         }
-      ],
-      temperature: 0.7,
-      max_tokens: 13000
+      ]
     };
 
     try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(options)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error?.message || 'Failed to generate explanation');
-      }
-
-      const data = await response.json();
-      return data.choices[0].message.content;
+      return await this.withCache(options, CACHE_TTL_MS.explanation, generationOptions, async () => {
+        const credentials = await this.requireCredentials('explainer');
+        const result = await this.request(options, credentials, streamOptions);
+        return { content: result.content, cacheable: !result.aborted };
+      }, streamOptions);
     } catch (error) {
+      // Typed provider errors already carry an actionable message
+      if (error instanceof LLMError) {
+        throw error;
+      }
       if (error instanceof Error) {
         throw new Error(`Error generating explanation: ${error.message}`);
       }
@@ -197,173 +462,26 @@ class OpenAIService {
   async generateDocumentation(
     codeSnippet: string,
     language: string,
-    docType: 'function' | 'class' | 'readme' = 'function'
+    docType: 'function' | 'class' | 'readme' = 'function',
+    streamOptions?: StreamOptions,
+    generationOptions: GenerationOptions = {},
+    symbols?: SymbolInventory | null
   ): Promise<string> {
-    // Try to ensure we have an API key
-    const apiKey = await this.ensureApiKey();
-    
-    if (!apiKey) {
-      throw new Error('API key not found in database. Please contact your administrator.');
-    }
+    const promptVersions: PromptVersions = {};
+    const systemPrompt = await renderPrompt(
+      docType === 'readme' ? 'docs.readme' : docType === 'class' ? 'docs.class' : 'docs.function',
+      { language },
+      promptVersions
+    );
+    generationOptions.onPromptVersions?.(promptVersions);
 
-    let systemPrompt = `You are an expert documentation writer who creates comprehensive, visually appealing, and highly professional documentation.`;
-    
-    if (docType === 'readme') {
-      systemPrompt += `
-      Generate a detailed README.md file for the provided project with exceptional formatting and organization.
-      
-      Structure your README with:
-      
-      # 📚 Project Name
-      
-      ## 📋 Overview
-      Provide a compelling and clear description of the project.
-      
-      ## ✨ Features
-      Create a comprehensive list of features with emoji icons for each major feature.
-      
-      ## 🚀 Installation
-      List detailed installation steps with code blocks for all commands.
-      
-      ## 🔧 Configuration
-      Explain any configuration options with examples.
-      
-      ## 📊 Usage Examples
-      Provide multiple usage examples with code blocks and explanations.
-      
-      ## 📘 API Reference
-      For libraries/frameworks, include a detailed API reference with parameters, return values, and examples.
-      
-      ## 🧩 Architecture
-      Include a section on architecture with a text-based diagram if relevant.
-      
-      ## 🔒 Security Considerations
-      Note any security best practices or considerations.
-      
-      ## 🧪 Testing
-      Explain how to run tests with examples.
-      
-      ## 🤝 Contributing
-      Guidelines for contributors.
-      
-      ## 📝 License
-      License information.
-      
-      Use rich markdown formatting throughout, including:
-      - Emojis for section headers and list items
-      - Tables for comparing options or features
-      - Code blocks with language-specific syntax highlighting
-      - Blockquotes for important notes
-      - Bold and italic text for emphasis
-      - Horizontal rules to separate major sections
-      `;
-    } else if (docType === 'class') {
-      systemPrompt += `
-      Generate exceptional class documentation for the provided ${language} code with a professional structure and visual appeal.
-      
-      Structure your documentation with:
-      
-      # 📦 ClassName
-      
-      ## 📋 Overview
-      A clear, comprehensive description of the class purpose and responsibility.
-      
-      ## 🔍 Class Diagram
-      Create a text-based representation of the class structure.
-      
-      ## 🏗️ Constructor(s)
-      Document each constructor with:
-      - Parameters (types, default values, and descriptions)
-      - Examples of instantiation
-      
-      ## 🔧 Properties
-      For each property:
-      - Type information
-      - Default value
-      - Description
-      - Access modifier (public, private, protected)
-      - Usage examples
-      
-      ## ⚙️ Methods
-      For each method:
-      - Signature with parameter types and return type
-      - Detailed description
-      - Parameter descriptions
-      - Return value explanation
-      - Example usage
-      - Edge cases and error handling
-      - Performance considerations if applicable
-      
-      ## 🔄 Lifecycle Methods
-      Document any lifecycle methods and when they're called.
-      
-      ## 💡 Usage Examples
-      Multiple real-world usage examples with code blocks and explanations.
-      
-      ## ⚠️ Exceptions
-      Document possible exceptions and how to handle them.
-      
-      ## 🔗 Related Classes
-      Mention related classes and their relationships.
-      
-      Use rich markdown formatting throughout including emojis, tables, code blocks with syntax highlighting, blockquotes for notes, and appropriate text formatting.
-      `;
-    } else { // function documentation
-      systemPrompt += `
-      Generate exceptional function documentation for the provided ${language} code with a professional structure and visual appeal.
-      
-      Structure your documentation with:
-      
-      # 🔧 functionName()
-      
-      ## 📋 Purpose
-      A clear, comprehensive description of what the function does and why it exists.
-      
-      ## 📝 Syntax
-      Show the complete function signature with parameter types and return type.
-      
-      ## 📥 Parameters
-      For each parameter:
-      - Type information
-      - Description
-      - Default values
-      - Validation rules
-      - Required vs. optional status
-      
-      ## 📤 Return Value
-      Detailed explanation of the return value(s) including:
-      - Type information
-      - Structure (for objects/arrays)
-      - Possible values
-      - Examples
-      
-      ## 🔄 Behavior
-      Explain the step-by-step behavior of the function and any algorithms used.
-      
-      ## 💡 Examples
-      Multiple usage examples with code blocks and explanations covering:
-      - Basic usage
-      - Edge cases
-      - Error handling
-      
-      ## ⚠️ Exceptions
-      Document any errors that might be thrown and how to handle them.
-      
-      ## 🔍 Edge Cases
-      Document behavior for edge cases like empty inputs, large inputs, etc.
-      
-      ## ⚡ Performance
-      Note any performance considerations or optimizations.
-      
-      ## 🔗 Related Functions
-      List related functions that are commonly used with this one.
-      
-      Use rich markdown formatting throughout including emojis, tables, code blocks with syntax highlighting, blockquotes for notes, and appropriate text formatting.
-      `;
-    }
+    // The parsed declarations keep the model from skipping symbols or inventing parameters
+    const inventory = docType !== 'readme' && symbols && publicSymbols(symbols).length > 0
+      ? `\n\nSymbol inventory parsed from the code. Document every one of these symbols with exactly these names, parameters and types, never add parameters that are not listed, and keep the meaning of existing docs:\n${formatInventory(symbols)}`
+      : '';
 
     const options: OpenAIRequestOptions = {
-      model: "gpt-4o-mini",
+      ...await this.requestSettings('docs'),
       messages: [
         {
           role: "system",
@@ -373,80 +491,527 @@ class OpenAIService {
           role: "user",
           content: docType === 'readme' 
             ? `Create a comprehensive README.md file for my project with this description: ${codeSnippet}`
-            : `Generate professional documentation for this ${language} ${docType}: ${codeSnippet}`
+            : `Generate professional documentation for this ${language} ${docType}: ${codeSnippet}${inventory}`
         }
-      ],
-      temperature: 0.5,
-      max_tokens: 9000
+      ]
     };
 
     try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
+      return await this.withCache(options, CACHE_TTL_MS.documentation, generationOptions, async () => {
+        const credentials = await this.requireCredentials('docs');
+
+        // Inputs too large for one request are summarised part by part first
+        const chunks = await this.planChunks(codeSnippet, language, options, NOTES_SYSTEM_PROMPT, CHUNK_NOTES_MAX_TOKENS);
+        if (chunks) {
+          const subject = docType === 'readme' ? 'a project description' : `a ${language} ${docType}`;
+          const notes = await this.summariseChunks(
+            chunks.map(chunk => chunk.content),
+            (index, total) => `This is part ${index + 1} of ${total} (lines ${chunks[index].startLine}-${chunks[index].endLine}) of ${subject}.`,
+            options,
+            credentials,
+            streamOptions?.signal
+          );
+          const notesBudget = getPromptBudget(options, llmClient.providerConfig)
+            - await countMessageTokens([options.messages[0]])
+            - await countTokens(inventory)
+            - CHUNK_PROMPT_OVERHEAD_TOKENS;
+          const combined = await this.condenseNotes(
+            notes.map((note, index) => `## Part ${index + 1}\n\n${note}`),
+            notesBudget,
+            options,
+            credentials,
+            streamOptions?.signal
+          );
+          const intro = docType === 'readme'
+            ? 'Create a comprehensive README.md file for my project.'
+            : `Generate professional documentation for this ${language} ${docType}.`;
+          options.messages[1] = {
+            role: "user",
+            content: `${intro} The input was too large to send at once, so here are detailed notes on each part of it:\n\n${combined}${inventory}`
+          };
+        }
+
+        const result = await this.request(options, credentials, streamOptions);
+        return { content: result.content, cacheable: !result.aborted };
+      }, streamOptions);
+    } catch (error) {
+      // Stopped while the parts were being summarised, before any output was streamed
+      if (error instanceof LLMError && error.kind === 'aborted') {
+        return '';
+      }
+      // Typed provider errors already carry an actionable message
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new Error(`Error generating documentation: ${error.message}`);
+      }
+      throw new Error('Unknown error occurred');
+    }
+  }
+
+  /**
+   * Writes doc comments for the symbols that don't have one yet and returns
+   * the source with the comments inserted. The model only writes the text;
+   * the parser decides where the comments go, so the code itself is never
+   * rewritten and existing comments stay as they are. `onlySymbols` limits
+   * the comments to those qualified names, e.g. "Cart.add".
+   */
+  async generateInlineDocs(
+    codeSnippet: string,
+    language: SymbolLanguage,
+    symbols: SymbolInventory,
+    generationOptions: GenerationOptions = {},
+    onlySymbols?: string[]
+  ): Promise<string> {
+    const targets = findDocTargets(symbols)
+      .filter(target => !onlySymbols || onlySymbols.includes(target.id.slice(0, target.id.lastIndexOf('@'))));
+    if (targets.length === 0) {
+      return codeSnippet;
+    }
+
+    const promptVersions: PromptVersions = {};
+    const systemPrompt = await renderPrompt('docs.inline', {
+      language,
+      commentStyle: COMMENT_STYLES[language],
+    }, promptVersions);
+    generationOptions.onPromptVersions?.(promptVersions);
+
+    const options: OpenAIRequestOptions = {
+      ...await this.requestSettings('docs'),
+      // The comments are assembled from JSON, whatever the feature's JSON mode setting
+      response_format: { type: "json_object" },
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt
         },
-        body: JSON.stringify(options)
+        {
+          role: "user",
+          content: `Write doc comments for these symbols:\n${describeDocTargets(targets)}\n\nSource code:\n\n${codeSnippet}`
+        }
+      ]
+    };
+
+    try {
+      const result = await this.withStructuredCache(options, CACHE_TTL_MS.documentation, generationOptions, InlineDocsResultSchema, async () => {
+        const credentials = await this.requireCredentials('docs');
+
+        const chunks = await this.planChunks(codeSnippet, language, options, systemPrompt, options.max_tokens);
+        if (!chunks) {
+          return await this.requestStructured(options, credentials, InlineDocsResultSchema);
+        }
+
+        // Document the symbols declared in each part with only that part as context
+        const docs: InlineDocsResult['docs'] = [];
+        for (const chunk of chunks) {
+          const chunkTargets = targets.filter(({ symbol }) =>
+            symbol.startLine >= chunk.startLine && symbol.startLine <= chunk.endLine);
+          if (chunkTargets.length === 0) continue;
+
+          const partial = await this.requestStructured({
+            ...options,
+            messages: [
+              options.messages[0],
+              {
+                role: "user",
+                content: `Write doc comments for these symbols:\n${describeDocTargets(chunkTargets)}\n\nThis is lines ${chunk.startLine}-${chunk.endLine} of the source code:\n\n${chunk.content}`
+              }
+            ]
+          }, credentials, InlineDocsResultSchema);
+          docs.push(...partial.docs);
+        }
+        return { docs };
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error?.message || 'Failed to generate documentation');
+      return insertDocComments(codeSnippet, symbols, result.docs);
+    } catch (error) {
+      // Typed provider errors already carry an actionable message
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new Error(`Error generating inline documentation: ${error.message}`);
       }
+      throw new Error('Unknown error occurred');
+    }
+  }
+
+  /**
+   * Writes the endpoint, parameter and response field descriptions that are
+   * still empty. Descriptions that already exist, whether typed in or
+   * imported, are sent as context and never changed.
+   */
+  async describeApiEndpoints(
+    endpoints: ApiEndpoint[],
+    generationOptions: GenerationOptions = {}
+  ): Promise<ApiEndpoint[]> {
+    const incomplete = endpoints.filter(hasDescriptionGaps);
+    if (incomplete.length === 0) {
+      return endpoints;
+    }
+
+    const promptVersions: PromptVersions = {};
+    const systemPrompt = await renderPrompt('docs.api-descriptions', {}, promptVersions);
+    generationOptions.onPromptVersions?.(promptVersions);
+
+    const userMessage = (batch: ApiEndpoint[]) =>
+      `Write the missing descriptions for these API endpoints:\n${describeForGapFilling(batch)}`;
+    const options: OpenAIRequestOptions = {
+      ...await this.requestSettings('docs'),
+      response_format: { type: "json_object" },
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt
+        },
+        {
+          role: "user",
+          content: userMessage(incomplete)
+        }
+      ]
+    };
+
+    try {
+      const result = await this.withStructuredCache(options, CACHE_TTL_MS.documentation, generationOptions, ApiDescriptionsResultSchema, async () => {
+        const credentials = await this.requireCredentials('docs');
+
+        // Large imports are described in batches so each response stays small
+        const described: ApiDescriptionsResult['endpoints'] = [];
+        for (let start = 0; start < incomplete.length; start += API_DESCRIPTION_BATCH_SIZE) {
+          const batch = incomplete.slice(start, start + API_DESCRIPTION_BATCH_SIZE);
+          const partial = await this.requestStructured({
+            ...options,
+            messages: [options.messages[0], { role: "user", content: userMessage(batch) }]
+          }, credentials, ApiDescriptionsResultSchema);
+          described.push(...partial.endpoints);
+        }
+        return { endpoints: described };
+      });
 
-      const data = await response.json();
-      return data.choices[0].message.content;
+      return fillDescriptionGaps(endpoints, result);
     } catch (error) {
+      // Typed provider errors already carry an actionable message
+      if (error instanceof LLMError) {
+        throw error;
+      }
       if (error instanceof Error) {
-        throw new Error(`Error generating documentation: ${error.message}`);
+        throw new Error(`Error describing API endpoints: ${error.message}`);
       }
       throw new Error('Unknown error occurred');
     }
   }
 
-  async reviewCode(
-    codeSnippet: string,
+  /**
+   * Writes the page for one module of a documentation site. `siteOutline`
+   * lists the other modules and their symbols, so the page can refer to them
+   * by name; the links themselves are added when the site is assembled.
+   */
+  async generateModulePage(
+    modulePath: string,
+    code: string,
     language: string,
-    reviewType: 'bugs' | 'performance' | 'style' | 'comprehensive',
-    generateFixedCode: boolean = false,
-    errorDescription?: string
-  ): Promise<any> {
-    // Try to ensure we have an API key
-    const apiKey = await this.ensureApiKey();
-    
-    if (!apiKey) {
-      throw new Error('API key not found in database. Please contact your administrator.');
+    projectName: string,
+    siteOutline: string,
+    symbols?: SymbolInventory | null,
+    streamOptions?: StreamOptions,
+    generationOptions: GenerationOptions = {}
+  ): Promise<string> {
+    const promptVersions: PromptVersions = {};
+    const systemPrompt = await renderPrompt('docs.site-page', { project: projectName, language }, promptVersions);
+    generationOptions.onPromptVersions?.(promptVersions);
+
+    const inventory = symbols && publicSymbols(symbols).length > 0
+      ? `\n\nSymbol inventory parsed from the module:\n${formatInventory(symbols)}`
+      : '';
+    const context = `Module: ${modulePath}\n\nOther modules of the site and their symbols:\n${siteOutline || '(none)'}${inventory}`;
+
+    const options: OpenAIRequestOptions = {
+      ...await this.requestSettings('docs'),
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt
+        },
+        {
+          role: "user",
+          content: `${context}\n\nSource code:\n\n${code}`
+        }
+      ]
+    };
+
+    try {
+      return await this.withCache(options, CACHE_TTL_MS.documentation, generationOptions, async () => {
+        const credentials = await this.requireCredentials('docs');
+
+        // Large modules are summarised part by part first, like generateDocumentation does
+        const chunks = await this.planChunks(code, language, options, NOTES_SYSTEM_PROMPT, CHUNK_NOTES_MAX_TOKENS);
+        if (chunks) {
+          const notes = await this.summariseChunks(
+            chunks.map(chunk => chunk.content),
+            (index, total) => `This is part ${index + 1} of ${total} (lines ${chunks[index].startLine}-${chunks[index].endLine}) of the ${language} module ${modulePath}.`,
+            options,
+            credentials,
+            streamOptions?.signal
+          );
+          const notesBudget = getPromptBudget(options, llmClient.providerConfig)
+            - await countMessageTokens([options.messages[0]])
+            - await countTokens(context)
+            - CHUNK_PROMPT_OVERHEAD_TOKENS;
+          const combined = await this.condenseNotes(
+            notes.map((note, index) => `## Part ${index + 1}\n\n${note}`),
+            notesBudget,
+            options,
+            credentials,
+            streamOptions?.signal
+          );
+          options.messages[1] = {
+            role: "user",
+            content: `${context}\n\nThe module was too large to send at once, so here are detailed notes on each part of it:\n\n${combined}`
+          };
+        }
+
+        const result = await this.request(options, credentials, streamOptions);
+        return { content: result.content, cacheable: !result.aborted };
+      }, streamOptions);
+    } catch (error) {
+      // Typed provider errors already carry an actionable message
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new Error(`Error generating the page for ${modulePath}: ${error.message}`);
+      }
+      throw new Error('Unknown error occurred');
     }
+  }
 
-    let systemPrompt = `You are an expert code reviewer who specializes in identifying issues, suggesting improvements, and evaluating code quality.
-    Your task is to review the provided code snippet and provide a detailed analysis with a focus on ${reviewType === 'comprehensive' ? 'all aspects' : reviewType}.
-    
-    Analyze the code for:
-    ${reviewType === 'bugs' || reviewType === 'comprehensive' ? 
-      '- Bugs and potential runtime errors\n- Edge cases that are not handled\n- Logical errors and incorrect behavior\n- Security vulnerabilities\n- Null reference exceptions and type errors' : ''}
-    ${reviewType === 'performance' || reviewType === 'comprehensive' ? 
-      '- Performance bottlenecks\n- Inefficient algorithms or data structures\n- Unnecessary computations or operations\n- Memory leaks or excessive memory usage\n- Resource management issues' : ''}
-    ${reviewType === 'style' || reviewType === 'comprehensive' ? 
-      '- Code style and formatting issues\n- Naming conventions and readability\n- Documentation and comments\n- Code organization and structure\n- Adherence to best practices for the language' : ''}
-    
-    Provide your response in a structured JSON format with these fields:
-    {
-      "summary": "A concise summary of the overall code quality and main issues",
-      "issues": [
+  /**
+   * Rewrites one section of existing markdown documentation so it matches
+   * the current code again, or writes the section when the docs have none.
+   * `issues` are the mismatches the drift check found; whatever the section
+   * says that is still right is kept.
+   */
+  async refreshDocSection(
+    symbolName: string,
+    section: string,
+    code: string,
+    language: string,
+    issues: string[],
+    headingLevel: number,
+    generationOptions: GenerationOptions = {},
+    signal?: AbortSignal
+  ): Promise<string> {
+    const promptVersions: PromptVersions = {};
+    const systemPrompt = await renderPrompt('docs.refresh-section', { language }, promptVersions);
+    generationOptions.onPromptVersions?.(promptVersions);
+
+    const task = section
+      ? `Update the documentation section for \`${symbolName}\`. Keep its heading level (${'#'.repeat(headingLevel)}).\n\nProblems found by comparing it with the code:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nCurrent section:\n\n${section}`
+      : `The documentation has no section for \`${symbolName}\` yet. Write one, starting with a heading of level ${headingLevel} (${'#'.repeat(headingLevel)}).`;
+    const options: OpenAIRequestOptions = {
+      ...await this.requestSettings('docs'),
+      messages: [
         {
-          "type": "error" | "warning" | "suggestion",
-          "line": <line number>,
-          "message": "Description of the issue",
-          "fix": "Suggested fix or code snippet to resolve the issue"
+          role: "system",
+          content: systemPrompt
+        },
+        {
+          role: "user",
+          content: `${task}\n\nCurrent ${language} code of \`${symbolName}\`:\n\n${code}`
         }
-      ],
-      "improvements": ["List of general improvement suggestions"],
-      "score": <numerical score from 0-100>
+      ]
+    };
+
+    try {
+      return await this.withCache(options, CACHE_TTL_MS.documentation, generationOptions, async () => {
+        const credentials = await this.requireCredentials('docs');
+        const result = await this.request(options, credentials, signal ? { signal } : undefined);
+        return { content: result.content, cacheable: !result.aborted };
+      });
+    } catch (error) {
+      // Typed provider errors already carry an actionable message
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new Error(`Error updating the docs of ${symbolName}: ${error.message}`);
+      }
+      throw new Error('Unknown error occurred');
     }
-    
-    Make sure every identified issue has an accurate line number reference and a specific, actionable suggestion for fixing it.
-    Keep explanations clear and educational so the developer can learn from your feedback.${generateFixedCode ? '\n\nImportantly, since you are asked to provide the complete fixed code, make sure to apply all the suggested fixes and improvements to create a cleaned up, optimized version of the original code in the "fixedCode" field.' : ''}`;
+  }
+
+  /**
+   * Writes release notes for users from the Keep a Changelog section of one
+   * release. The changelog itself is built from the commits without AI, so
+   * the notes can only rephrase and prioritise what it lists.
+   */
+  async generateReleaseNotes(
+    releaseChangelog: string,
+    projectName?: string,
+    streamOptions?: StreamOptions,
+    generationOptions: GenerationOptions = {}
+  ): Promise<string> {
+    const promptVersions: PromptVersions = {};
+    const systemPrompt = await renderPrompt('docs.release-notes', { project: projectName || 'the project' }, promptVersions);
+    generationOptions.onPromptVersions?.(promptVersions);
+
+    const options: OpenAIRequestOptions = {
+      ...await this.requestSettings('docs'),
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt
+        },
+        {
+          role: "user",
+          content: `Write the release notes for this release:\n\n${releaseChangelog}`
+        }
+      ]
+    };
+
+    try {
+      return await this.withCache(options, CACHE_TTL_MS.documentation, generationOptions, async () => {
+        const credentials = await this.requireCredentials('docs');
+        const result = await this.request(options, credentials, streamOptions);
+        return { content: result.content, cacheable: !result.aborted };
+      }, streamOptions);
+    } catch (error) {
+      // Typed provider errors already carry an actionable message
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new Error(`Error generating release notes: ${error.message}`);
+      }
+      throw new Error('Unknown error occurred');
+    }
+  }
+
+  /**
+   * Drafts the sections of an ADR, RFC or design document from the answers
+   * of its guided form. Sections the answers fill in as they are, such as
+   * the considered options, aren't sent; the related code is optional and
+   * only used as context.
+   */
+  async draftDesignDoc(
+    template: DesignDocTemplate,
+    answers: DesignDocAnswers,
+    relatedCode: string = '',
+    language: string = 'code',
+    generationOptions: GenerationOptions = {}
+  ): Promise<Record<string, string>> {
+    const promptVersions: PromptVersions = {};
+    const systemPrompt = await renderPrompt('docs.design-doc', { format: template.format }, promptVersions);
+    generationOptions.onPromptVersions?.(promptVersions);
+
+    const drafted = template.sections.filter(section => !section.fromAnswers);
+    const field = (name: keyof typeof template.fields, value: string | string[]) => {
+      const text = Array.isArray(value) ? value.map(item => `- ${item}`).join('\n') : value.trim();
+      return `${template.fields[name].label}:\n${text || '(not given)'}`;
+    };
+    const form = [
+      field('title', answers.title),
+      `Status:\n${answers.status}`,
+      field('people', answers.people),
+      field('context', answers.context),
+      field('drivers', answers.drivers),
+      field('options', answers.options),
+      field('chosenOption', answers.chosenOption),
+      field('rationale', answers.rationale),
+      field('consequences', answers.consequences),
+    ].join('\n\n');
+    const sectionList = drafted.map(section => `- ${section.id} ("${section.heading}"): ${section.guidance}`).join('\n');
+    const context = `Draft these sections:\n${sectionList}\n\nAnswers of the form:\n\n${form}`;
+    const code = relatedCode.trim();
+
+    const options: OpenAIRequestOptions = {
+      ...await this.requestSettings('docs'),
+      response_format: { type: "json_object" },
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt
+        },
+        {
+          role: "user",
+          content: code ? `${context}\n\nRelated ${language} code:\n\n${code}` : context
+        }
+      ]
+    };
+
+    try {
+      const result = await this.withStructuredCache(options, CACHE_TTL_MS.documentation, generationOptions, DesignDocDraftSchema, async () => {
+        const credentials = await this.requireCredentials('docs');
+
+        // Large related code is summarised part by part first, like generateDocumentation does
+        const chunks = code ? await this.planChunks(code, language, options, NOTES_SYSTEM_PROMPT, CHUNK_NOTES_MAX_TOKENS) : null;
+        if (chunks) {
+          const notes = await this.summariseChunks(
+            chunks.map(chunk => chunk.content),
+            (index, total) => `This is part ${index + 1} of ${total} (lines ${chunks[index].startLine}-${chunks[index].endLine}) of the ${language} code related to "${answers.title.trim()}".`,
+            options,
+            credentials
+          );
+          const notesBudget = getPromptBudget(options, llmClient.providerConfig)
+            - await countMessageTokens([options.messages[0]])
+            - await countTokens(context)
+            - CHUNK_PROMPT_OVERHEAD_TOKENS;
+          const combined = await this.condenseNotes(
+            notes.map((note, index) => `## Part ${index + 1}\n\n${note}`),
+            notesBudget,
+            options,
+            credentials
+          );
+          options.messages[1] = {
+            role: "user",
+            content: `${context}\n\nThe related code was too large to send at once, so here are detailed notes on each part of it:\n\n${combined}`
+          };
+        }
+
+        return this.requestStructured(options, credentials, DesignDocDraftSchema);
+      });
+
+      // Sections the template doesn't have are dropped, so the format holds
+      const ids = new Set(drafted.map(section => section.id));
+      return Object.fromEntries(result.sections
+        .filter(section => ids.has(section.id))
+        .map(section => [section.id, section.content]));
+    } catch (error) {
+      // Typed provider errors already carry an actionable message
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new Error(`Error drafting the ${template.label.toLowerCase()}: ${error.message}`);
+      }
+      throw new Error('Unknown error occurred');
+    }
+  }
+
+  async reviewCode(
+    codeSnippet: string,
+    language: string,
+    reviewType: 'bugs' | 'performance' | 'style' | 'comprehensive',
+    generateFixedCode: boolean = false,
+    errorDescription?: string,
+    generationOptions: GenerationOptions = {}
+  ): Promise<ReviewResult> {
+    const promptVersions: PromptVersions = {};
+    const systemPrompt = await renderPrompt('reviewer.system', {
+      language,
+      reviewType,
+      focus: reviewType === 'comprehensive' ? 'all aspects' : reviewType,
+      bugChecks: reviewType === 'bugs' || reviewType === 'comprehensive' ? 
+        '- Bugs and potential runtime errors\n- Edge cases that are not handled\n- Logical errors and incorrect behavior\n- Security vulnerabilities\n- Null reference exceptions and type errors' : '',
+      performanceChecks: reviewType === 'performance' || reviewType === 'comprehensive' ? 
+        '- Performance bottlenecks\n- Inefficient algorithms or data structures\n- Unnecessary computations or operations\n- Memory leaks or excessive memory usage\n- Resource management issues' : '',
+      styleChecks: reviewType === 'style' || reviewType === 'comprehensive' ? 
+        '- Code style and formatting issues\n- Naming conventions and readability\n- Documentation and comments\n- Code organization and structure\n- Adherence to best practices for the language' : '',
+      fixedCodeField: generateFixedCode ? ',\n      "fixedCode": "The complete corrected version of the code"' : '',
+      fixedCodeInstructions: generateFixedCode ? '\n\nImportantly, since you are asked to provide the complete fixed code, make sure to apply all the suggested fixes and improvements to create a cleaned up, optimized version of the original code in the "fixedCode" field.' : '',
+    }, promptVersions);
+    generationOptions.onPromptVersions?.(promptVersions);
 
     let userContent = `Review this ${language} code with a focus on ${reviewType}:\n\n${codeSnippet}`;
     
@@ -456,7 +1021,7 @@ class OpenAIService {
     }
 
     const options: OpenAIRequestOptions = {
-      model: "gpt-4o",
+      ...await this.requestSettings('reviewer'),
       messages: [
         {
           role: "system",
@@ -466,39 +1031,56 @@ class OpenAIService {
           role: "user",
           content: userContent
         }
-      ],
-      temperature: 0.3,
-      max_tokens: 9000,
-      response_format: { type: "json_object" }
+      ]
     };
 
+    const schema = generateFixedCode ? ReviewResultWithFixSchema : ReviewResultSchema;
+
     try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(options)
-      });
+      return await this.withStructuredCache(options, CACHE_TTL_MS.review, generationOptions, schema, async () => {
+        const credentials = await this.requireCredentials('reviewer');
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error?.message || 'Failed to review code');
-      }
+        const chunks = await this.planChunks(codeSnippet, language, options, systemPrompt, options.max_tokens);
+        if (!chunks) {
+          return await this.requestStructured(options, credentials, schema);
+        }
 
-      const data = await response.json();
-      const content = data.choices[0].message.content;
-      
-      // Parse the JSON response
-      try {
-        const reviewResult = JSON.parse(content);
-        return reviewResult;
-      } catch (parseError) {
-        console.error('Error parsing JSON response:', parseError);
-        throw new Error('Failed to parse code review results');
-      }
+        // Review each part on its own, then merge the results into one review
+        const partials: ReviewResult[] = [];
+        for (let index = 0; index < chunks.length; index++) {
+          const chunk = chunks[index];
+          let partContent = `Review part ${index + 1} of ${chunks.length} (lines ${chunk.startLine}-${chunk.endLine}) of a larger ${language} file with a focus on ${reviewType}.
+Report line numbers relative to this part, starting at 1.${generateFixedCode ? ' The "fixedCode" field must contain only the corrected version of this part.' : ''}\n\n${chunk.content}`;
+          if (errorDescription && errorDescription.trim()) {
+            partContent += `\n\nAdditional context - The code is experiencing the following issues or errors:\n${errorDescription.trim()}`;
+          }
+          partials.push(await this.requestStructured({
+            ...options,
+            messages: [options.messages[0], { role: "user", content: partContent }]
+          }, credentials, schema));
+        }
+
+        const { content: summary } = await this.request({
+          ...intermediateSettings(options, REVIEW_SUMMARY_MAX_TOKENS),
+          messages: [
+            {
+              role: "system",
+              content: "You combine partial code review summaries of one file into a single concise summary of the overall code quality and main issues. Respond with the summary only."
+            },
+            {
+              role: "user",
+              content: partials.map((partial, index) => `Part ${index + 1}: ${partial.summary}`).join('\n\n')
+            }
+          ]
+        }, credentials);
+
+        return mergeReviews(partials, chunks, summary, schema);
+      });
     } catch (error) {
+      // Typed provider errors already carry an actionable message
+      if (error instanceof LLMError) {
+        throw error;
+      }
       if (error instanceof Error) {
         throw new Error(`Error reviewing code: ${error.message}`);
       }
@@ -509,43 +1091,24 @@ class OpenAIService {
   async generateDiagram(
     codeOrDescription: string,
     diagramType: 'flowchart' | 'class' | 'er' | 'sequence',
-    language: string = ''
+    language: string = '',
+    generationOptions: GenerationOptions = {}
   ): Promise<DiagramResult> {
-    // Try to ensure we have an API key
-    const apiKey = await this.ensureApiKey();
-    
-    if (!apiKey) {
-      throw new Error('API key not found in database. Please contact your administrator.');
-    }
-
-    let systemPrompt = `You are an expert software architect who excels at creating visual diagrams from code or textual descriptions.
-    Your task is to analyze the provided code or description and generate a ${diagramType} diagram using Mermaid syntax.
-    
-    Based on the input, create a detailed, well-structured diagram that accurately represents the ${diagramType === 'flowchart' ? 'process flow' : 
-      diagramType === 'class' ? 'classes and their relationships' :
-      diagramType === 'er' ? 'entities and their relationships' : 'sequence of interactions'}.
-    
-    Follow these guidelines:
-    - Use proper Mermaid syntax for ${diagramType} diagrams
-    - Create a clear, organized visual layout
-    - Include all relevant ${diagramType === 'flowchart' ? 'steps and decision points' : 
-      diagramType === 'class' ? 'classes, methods, properties, and relationships' :
-      diagramType === 'er' ? 'entities, attributes, and relationships' : 'actors, actions, and messages'}
-    - Add appropriate labels and annotations
-    - Use styling to improve readability (colors, shapes, etc.)
-    - Keep the diagram focused and avoid excessive complexity
-    
-    Your response should be in JSON format with the following structure:
-    {
-      "title": "A descriptive title for the diagram",
-      "mermaidCode": "The complete Mermaid syntax for the diagram",
-      "explanation": "A brief explanation of the diagram and key elements"
-    }
-    
-    The mermaidCode should be complete and valid Mermaid syntax that can be rendered directly.`;
+    const promptVersions: PromptVersions = {};
+    const systemPrompt = await renderPrompt('diagram.system', {
+      language,
+      diagramType,
+      diagramSubject: diagramType === 'flowchart' ? 'process flow' : 
+        diagramType === 'class' ? 'classes and their relationships' :
+        diagramType === 'er' ? 'entities and their relationships' : 'sequence of interactions',
+      diagramElements: diagramType === 'flowchart' ? 'steps and decision points' : 
+        diagramType === 'class' ? 'classes, methods, properties, and relationships' :
+        diagramType === 'er' ? 'entities, attributes, and relationships' : 'actors, actions, and messages',
+    }, promptVersions);
+    generationOptions.onPromptVersions?.(promptVersions);
 
     const options: OpenAIRequestOptions = {
-      model: "gpt-4o",
+      ...await this.requestSettings('diagram'),
       messages: [
         {
           role: "system",
@@ -557,39 +1120,19 @@ class OpenAIService {
             diagramType === 'class' ? 'class structure' :
             diagramType === 'er' ? 'data model' : 'interaction sequence'}:\n\n${codeOrDescription}`
         }
-      ],
-      temperature: 0.3,
-      max_tokens: 9000,
-      response_format: { type: "json_object" }
+      ]
     };
 
     try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(options)
+      return await this.withStructuredCache(options, CACHE_TTL_MS.diagram, generationOptions, DiagramResultSchema, async () => {
+        const credentials = await this.requireCredentials('diagram');
+        return this.requestStructured(options, credentials, DiagramResultSchema);
       });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error?.message || 'Failed to generate diagram');
-      }
-
-      const data = await response.json();
-      const content = data.choices[0].message.content;
-      
-      // Parse the JSON response
-      try {
-        const diagramResult: DiagramResult = JSON.parse(content);
-        return diagramResult;
-      } catch (parseError) {
-        console.error('Error parsing JSON response:', parseError);
-        throw new Error('Failed to parse diagram results');
-      }
     } catch (error) {
+      // Typed provider errors already carry an actionable message
+      if (error instanceof LLMError) {
+        throw error;
+      }
       if (error instanceof Error) {
         throw new Error(`Error generating diagram: ${error.message}`);
       }
@@ -0,0 +1,134 @@
+import { languages, tokenize, TokenStream } from 'prismjs';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-jsx';
+import 'prismjs/components/prism-tsx';
+import 'prismjs/components/prism-python';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-csharp';
+import 'prismjs/components/prism-go';
+import 'prismjs/components/prism-rust';
+import 'prismjs/components/prism-ruby';
+import 'prismjs/components/prism-c';
+import 'prismjs/components/prism-cpp';
+import 'prismjs/components/prism-kotlin';
+import 'prismjs/components/prism-swift';
+import 'prismjs/components/prism-bash';
+import 'prismjs/components/prism-json';
+import 'prismjs/components/prism-yaml';
+
+export type CodeTheme = 'light' | 'dark';
+
+export interface CodeRun {
+  text: string;
+  color: string;
+}
+
+interface CodeColors {
+  background: string;
+  border: string;
+  text: string;
+  label: string;
+  // Colours by Prism token type or alias
+  tokens: Record<string, string>;
+}
+
+export const CODE_THEMES: Record<CodeTheme, CodeColors> = {
+  light: {
+    background: '#f6f8fa',
+    border: '#e1e4e8',
+    text: '#24292e',
+    label: '#6a737d',
+    tokens: {
+      comment: '#6a737d',
+      prolog: '#6a737d',
+      keyword: '#d73a49',
+      operator: '#d73a49',
+      boolean: '#005cc5',
+      number: '#005cc5',
+      constant: '#005cc5',
+      property: '#005cc5',
+      string: '#032f62',
+      char: '#032f62',
+      regex: '#032f62',
+      'attr-value': '#032f62',
+      function: '#6f42c1',
+      'class-name': '#6f42c1',
+      'attr-name': '#6f42c1',
+      builtin: '#e36209',
+      variable: '#e36209',
+      tag: '#22863a',
+      selector: '#22863a',
+    },
+  },
+  dark: {
+    background: '#282c34',
+    border: '#3b4048',
+    text: '#abb2bf',
+    label: '#7f848e',
+    tokens: {
+      comment: '#5c6370',
+      prolog: '#5c6370',
+      keyword: '#c678dd',
+      operator: '#56b6c2',
+      boolean: '#d19a66',
+      number: '#d19a66',
+      constant: '#d19a66',
+      property: '#e06c75',
+      string: '#98c379',
+      char: '#98c379',
+      regex: '#56b6c2',
+      'attr-value': '#98c379',
+      function: '#61afef',
+      'class-name': '#e5c07b',
+      'attr-name': '#d19a66',
+      builtin: '#e5c07b',
+      variable: '#e06c75',
+      tag: '#e06c75',
+      selector: '#e06c75',
+    },
+  },
+};
+
+// Fence names Prism does not register itself
+const LANGUAGE_ALIASES: Record<string, string> = {
+  rs: 'rust',
+  golang: 'go',
+  console: 'bash',
+  zsh: 'bash',
+};
+
+/**
+ * Splits code into lines of coloured runs. Code in a language Prism does
+ * not know is returned in the theme's text colour.
+ */
+export function highlightCode(code: string, language: string | null | undefined, theme: CodeTheme): CodeRun[][] {
+  const colors = CODE_THEMES[theme];
+  const name = language?.toLowerCase();
+  const grammar = name ? languages[LANGUAGE_ALIASES[name] ?? name] : undefined;
+  const text = code.replace(/\r\n?/g, '\n');
+
+  const runs: CodeRun[] = [];
+  const collect = (stream: TokenStream, color: string) => {
+    if (typeof stream === 'string') {
+      runs.push({ text: stream, color });
+    } else if (Array.isArray(stream)) {
+      stream.forEach(part => collect(part, color));
+    } else {
+      const aliases = Array.isArray(stream.alias) ? stream.alias : stream.alias ? [stream.alias] : [];
+      const type = [stream.type, ...aliases].find(candidate => colors.tokens[candidate]);
+      collect(stream.content, type ? colors.tokens[type] : color);
+    }
+  };
+  collect(grammar ? tokenize(text, grammar) : text, colors.text);
+
+  const lines: CodeRun[][] = [[]];
+  for (const run of runs) {
+    run.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ text: part, color: run.color });
+    });
+  }
+  // The closing fence leaves a trailing newline
+  if (lines.length > 1 && lines[lines.length - 1].length === 0) lines.pop();
+  return lines;
+}
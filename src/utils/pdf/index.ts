@@ -0,0 +1,5 @@
+export { markdownToPdf } from './markdown';
+export type { MarkdownPdfOptions } from './markdown';
+export { CODE_THEMES, highlightCode } from './highlight';
+export type { CodeRun, CodeTheme } from './highlight';
+export { pdfText } from './text';
@@ -0,0 +1,705 @@
+import { jsPDF } from 'jspdf';
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import type { Code, Heading, List, Nodes, PhrasingContent, RootContent, Table } from 'mdast';
+import { headingAnchor } from '@/utils/docSite';
+import { CODE_THEMES, CodeRun, CodeTheme, highlightCode } from './highlight';
+import { pdfText } from './text';
+
+export interface MarkdownPdfOptions {
+  // Defaults to the first top-level heading
+  title?: string;
+  subtitle?: string;
+  codeTheme?: CodeTheme;
+}
+
+type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+interface TextRun {
+  text: string;
+  style: FontStyle;
+  code?: boolean;
+  link?: string;
+}
+
+interface Segment {
+  run: TextRun;
+  text: string;
+  width: number;
+}
+
+interface Line {
+  segments: Segment[];
+  width: number;
+}
+
+// Where a block is drawn; quote bars are the x positions of enclosing blockquotes
+interface BlockContext {
+  x: number;
+  width: number;
+  quoteBars: number[];
+}
+
+interface PlacedHeading {
+  depth: number;
+  text: string;
+  page: number;
+  y: number;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = { top: 72, bottom: 64, left: 60, right: 60 };
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN.bottom;
+
+const BODY_SIZE = 10.5;
+const BODY_LINE = BODY_SIZE * 1.5;
+const HEADING_SIZES = [20, 16, 13.5, 12, 11, 11];
+// Headings move to the next page unless this much of what follows fits under them
+const KEEP_WITH_NEXT = BODY_LINE * 3;
+const CODE_SIZE = 8.5;
+const CODE_LINE = 12;
+const CODE_PADDING = 8;
+// Code blocks are split across pages rather than leaving fewer lines than this on one
+const MIN_CODE_LINES = 3;
+const TABLE_SIZE = 9;
+const TABLE_LINE = TABLE_SIZE * 1.45;
+const TABLE_PADDING = 5;
+const TOC_DEPTH = 3;
+const TOC_LINE = 18;
+
+const COLORS = {
+  text: '#1f2937',
+  heading: '#111827',
+  muted: '#6b7280',
+  rule: '#e5e7eb',
+  link: '#2563eb',
+  inlineCode: '#f3f4f6',
+  tableHeader: '#f3f4f6',
+  tableBorder: '#d1d5db',
+};
+
+const textOf = (node: Nodes): string => {
+  if ('value' in node) return node.value;
+  if ('children' in node) return node.children.map(child => textOf(child)).join('');
+  return '';
+};
+
+const withBold = (style: FontStyle): FontStyle => (style === 'italic' || style === 'bolditalic' ? 'bolditalic' : 'bold');
+const withItalic = (style: FontStyle): FontStyle => (style === 'bold' || style === 'bolditalic' ? 'bolditalic' : 'italic');
+
+function inlineRuns(nodes: PhrasingContent[], style: FontStyle = 'normal', link?: string): TextRun[] {
+  return nodes.flatMap((node): TextRun[] => {
+    switch (node.type) {
+      case 'text':
+        return [{ text: pdfText(node.value.replace(/\s*\n\s*/g, ' ')), style, link }];
+      case 'strong':
+        return inlineRuns(node.children, withBold(style), link);
+      case 'emphasis':
+        return inlineRuns(node.children, withItalic(style), link);
+      case 'delete':
+        return inlineRuns(node.children, style, link);
+      case 'inlineCode':
+        return [{ text: pdfText(node.value), style, code: true, link }];
+      case 'link':
+        return inlineRuns(node.children, style, node.url);
+      case 'break':
+        return [{ text: '\n', style }];
+      case 'image':
+        return [{ text: `[${pdfText(node.alt || 'image')}]`, style: withItalic(style), link }];
+      case 'footnoteReference':
+        return [{ text: `[${node.label ?? node.identifier}]`, style, link }];
+      case 'html':
+        return [];
+      default:
+        return 'children' in node ? inlineRuns(node.children as PhrasingContent[], style, link) : [];
+    }
+  });
+}
+
+/**
+ * Lays markdown out as a PDF of real, selectable text: a title page with a
+ * clickable table of contents, highlighted code, running headers and page
+ * numbers. Headings are kept with what follows them and code blocks are
+ * moved to the next page when they would otherwise be split.
+ */
+export function markdownToPdf(markdown: string, options: MarkdownPdfOptions = {}): jsPDF {
+  const root = unified().use(remarkParse).use(remarkGfm).parse(markdown);
+  const firstHeading = root.children.find((node): node is Heading => node.type === 'heading' && node.depth === 1);
+  const title = pdfText(options.title ?? (firstHeading ? textOf(firstHeading) : 'Documentation')).trim();
+  return new MarkdownPdfRenderer(title, options).render(root.children);
+}
+
+class MarkdownPdfRenderer {
+  private readonly pdf = new jsPDF({ unit: 'pt', format: 'a4', orientation: 'portrait' });
+  private readonly title: string;
+  private readonly subtitle: string;
+  private readonly codeTheme: CodeTheme;
+  private readonly headings: PlacedHeading[] = [];
+  private readonly anchorLinks: { page: number; x: number; y: number; width: number; height: number; anchor: string }[] = [];
+  private y = MARGIN.top;
+
+  constructor(title: string, options: MarkdownPdfOptions) {
+    this.title = title;
+    this.subtitle = pdfText(options.subtitle ?? '').trim();
+    this.codeTheme = options.codeTheme ?? 'light';
+  }
+
+  render(nodes: RootContent[]): jsPDF {
+    this.pdf.setProperties({ title: this.title, subject: this.subtitle, creator: 'LearnOmatic' });
+    this.titleBlock();
+
+    const tocCount = this.countTocEntries(nodes);
+    const tocTop = this.y + HEADING_SIZES[1] * 2;
+    let tocPages = 0;
+    if (tocCount > 1) {
+      // The contents are written once the pages are known; reserve room for them first
+      const firstPageRows = Math.floor((CONTENT_BOTTOM - tocTop) / TOC_LINE);
+      const pageRows = Math.floor((CONTENT_BOTTOM - MARGIN.top) / TOC_LINE);
+      tocPages = 1 + Math.max(0, Math.ceil((tocCount - firstPageRows) / pageRows));
+      for (let page = 0; page < tocPages; page++) {
+        this.newPage();
+      }
+    }
+
+    this.blocks(nodes, { x: MARGIN.left, width: PAGE_WIDTH - MARGIN.left - MARGIN.right, quoteBars: [] });
+
+    if (tocPages > 0) {
+      this.tableOfContents(tocTop);
+    }
+    this.resolveAnchorLinks();
+    this.outline();
+    this.headersAndFooters();
+    return this.pdf;
+  }
+
+  private get page() {
+    return this.pdf.getCurrentPageInfo().pageNumber;
+  }
+
+  private newPage() {
+    this.pdf.addPage();
+    this.y = MARGIN.top;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > CONTENT_BOTTOM && this.y > MARGIN.top) {
+      this.newPage();
+    }
+  }
+
+  // Vertical space that is dropped at the top of a page
+  private gap(height: number) {
+    if (this.y > MARGIN.top) {
+      this.y += height;
+    }
+  }
+
+  private setFont(run: TextRun, size: number) {
+    if (run.code) {
+      this.pdf.setFont('courier', run.style);
+      this.pdf.setFontSize(size * 0.95);
+    } else {
+      this.pdf.setFont('helvetica', run.style);
+      this.pdf.setFontSize(size);
+    }
+  }
+
+  private measure(run: TextRun, text: string, size: number) {
+    this.setFont(run, size);
+    return this.pdf.getTextWidth(text);
+  }
+
+  private wrap(runs: TextRun[], maxWidth: number, size: number): Line[] {
+    const lines: Line[] = [];
+    let line: Line = { segments: [], width: 0 };
+    const breakLine = () => {
+      lines.push(line);
+      line = { segments: [], width: 0 };
+    };
+    const append = (run: TextRun, text: string, width: number) => {
+      const last = line.segments[line.segments.length - 1];
+      if (last?.run === run) {
+        last.text += text;
+        last.width += width;
+      } else {
+        line.segments.push({ run, text, width });
+      }
+      line.width += width;
+    };
+
+    for (const run of runs) {
+      for (const token of run.text.split(/(\n|[^\S\n]+)/)) {
+        if (!token) continue;
+        if (token === '\n') {
+          breakLine();
+          continue;
+        }
+        const isSpace = /^\s+$/.test(token);
+        if (isSpace && line.segments.length === 0) continue;
+        const width = this.measure(run, isSpace ? ' ' : token, size);
+        if (line.width + width <= maxWidth) {
+          append(run, isSpace ? ' ' : token, width);
+          continue;
+        }
+        if (isSpace) {
+          breakLine();
+          continue;
+        }
+        if (line.segments.length > 0) breakLine();
+        if (width <= maxWidth) {
+          append(run, token, width);
+          continue;
+        }
+        // Long URLs and identifiers are broken wherever the line is full
+        let part = '';
+        for (const char of token) {
+          if (part && this.measure(run, part + char, size) > maxWidth) {
+            append(run, part, this.measure(run, part, size));
+            breakLine();
+            part = '';
+          }
+          part += char;
+        }
+        append(run, part, this.measure(run, part, size));
+      }
+    }
+    if (line.segments.length > 0 || lines.length === 0) lines.push(line);
+    return lines;
+  }
+
+  private drawLine(line: Line, x: number, baseline: number, size: number, color: string) {
+    let cursor = x;
+    for (const segment of line.segments) {
+      const { run } = segment;
+      this.setFont(run, size);
+      if (run.code) {
+        this.pdf.setFillColor(COLORS.inlineCode);
+        this.pdf.rect(cursor - 1, baseline - size * 0.8, segment.width + 2, size * 1.05, 'F');
+      }
+      this.pdf.setTextColor(run.link ? COLORS.link : color);
+      this.pdf.text(segment.text, cursor, baseline);
+      if (run.link) {
+        const top = baseline - size * 0.85;
+        if (run.link.startsWith('#')) {
+          this.anchorLinks.push({ page: this.page, x: cursor, y: top, width: segment.width, height: size * 1.15, anchor: run.link.slice(1) });
+        } else if (/^(https?|mailto):/i.test(run.link)) {
+          this.pdf.link(cursor, top, segment.width, size * 1.15, { url: run.link });
+        }
+      }
+      cursor += segment.width;
+    }
+  }
+
+  private drawQuoteBars(context: BlockContext, top: number, height: number) {
+    if (context.quoteBars.length === 0) return;
+    this.pdf.setDrawColor(COLORS.rule);
+    this.pdf.setLineWidth(2);
+    for (const x of context.quoteBars) {
+      this.pdf.line(x, top, x, top + height);
+    }
+  }
+
+  private textBlock(runs: TextRun[], context: BlockContext, size = BODY_SIZE, lineHeight = BODY_LINE, color = COLORS.text) {
+    for (const line of this.wrap(runs, context.width, size)) {
+      this.ensureSpace(lineHeight);
+      this.drawQuoteBars(context, this.y, lineHeight);
+      this.drawLine(line, context.x, this.y + size * 1.05, size, color);
+      this.y += lineHeight;
+    }
+  }
+
+  private titleBlock() {
+    this.y = MARGIN.top + 48;
+    const context = { x: MARGIN.left, width: PAGE_WIDTH - MARGIN.left - MARGIN.right, quoteBars: [] };
+    this.textBlock([{ text: this.title, style: 'bold' }], context, 24, 32, COLORS.heading);
+    if (this.subtitle) {
+      this.y += 4;
+      this.textBlock([{ text: this.subtitle, style: 'normal' }], context, 13, 18, COLORS.muted);
+    }
+    this.y += 4;
+    this.textBlock([{ text: `Generated ${new Date().toLocaleDateString()}`, style: 'normal' }], context, 9, 14, COLORS.muted);
+    this.y += 10;
+    this.pdf.setDrawColor(COLORS.rule);
+    this.pdf.setLineWidth(1);
+    this.pdf.line(MARGIN.left, this.y, PAGE_WIDTH - MARGIN.right, this.y);
+    this.y += 24;
+  }
+
+  private countTocEntries(nodes: RootContent[]): number {
+    return nodes.reduce((count, node) => {
+      if (node.type === 'heading') return count + (node.depth <= TOC_DEPTH ? 1 : 0);
+      return 'children' in node ? count + this.countTocEntries(node.children as RootContent[]) : count;
+    }, 0);
+  }
+
+  private blocks(nodes: RootContent[], context: BlockContext) {
+    for (const node of nodes) {
+      this.block(node, context);
+    }
+  }
+
+  private block(node: RootContent, context: BlockContext) {
+    switch (node.type) {
+      case 'heading':
+        this.heading(node, context);
+        break;
+      case 'paragraph':
+        this.textBlock(inlineRuns(node.children), context);
+        this.y += BODY_LINE * 0.5;
+        break;
+      case 'list':
+        this.list(node, context, 0);
+        this.y += BODY_LINE * 0.3;
+        break;
+      case 'blockquote':
+        this.blocks(node.children, {
+          x: context.x + 14,
+          width: context.width - 14,
+          quoteBars: [...context.quoteBars, context.x + 3],
+        });
+        break;
+      case 'code':
+        this.codeBlock(node, context);
+        break;
+      case 'table':
+        this.table(node, context);
+        break;
+      case 'thematicBreak':
+        this.ensureSpace(BODY_LINE);
+        this.pdf.setDrawColor(COLORS.rule);
+        this.pdf.setLineWidth(1);
+        this.pdf.line(context.x, this.y + BODY_LINE / 2, context.x + context.width, this.y + BODY_LINE / 2);
+        this.y += BODY_LINE;
+        break;
+      case 'html': {
+        const text = node.value.replace(/<!--[\s\S]*?-->/g, '').replace(/<[^>]+>/g, '').trim();
+        if (text) {
+          this.textBlock([{ text: pdfText(text), style: 'normal' }], context);
+          this.y += BODY_LINE * 0.5;
+        }
+        break;
+      }
+      case 'definition':
+      case 'footnoteDefinition':
+      case 'yaml':
+        break;
+      default:
+        if ('children' in node) this.blocks(node.children as RootContent[], context);
+    }
+  }
+
+  private heading(node: Heading, context: BlockContext) {
+    const size = HEADING_SIZES[node.depth - 1];
+    const lineHeight = size * 1.3;
+    const runs = inlineRuns(node.children, 'bold').map(run => ({ ...run, style: withBold(run.style) }));
+    // Emoji are dropped, which can leave the heading starting with a space
+    if (runs[0]) runs[0] = { ...runs[0], text: runs[0].text.trimStart() };
+    const lines = this.wrap(runs, context.width, size);
+
+    this.gap(node.depth <= 2 ? 18 : 12);
+    this.ensureSpace(lines.length * lineHeight + KEEP_WITH_NEXT);
+    this.headings.push({ depth: node.depth, text: pdfText(textOf(node)).trim(), page: this.page, y: this.y });
+    for (const line of lines) {
+      this.drawLine(line, context.x, this.y + size, size, COLORS.heading);
+      this.y += lineHeight;
+    }
+    if (node.depth <= 2) {
+      this.pdf.setDrawColor(COLORS.rule);
+      this.pdf.setLineWidth(node.depth === 1 ? 1 : 0.5);
+      this.pdf.line(context.x, this.y + 2, context.x + context.width, this.y + 2);
+      this.y += 6;
+    }
+    this.y += 6;
+  }
+
+  private list(node: List, context: BlockContext, depth: number) {
+    const indent = node.ordered ? 22 : 16;
+    node.children.forEach((item, index) => {
+      const itemContext = { ...context, x: context.x + indent, width: context.width - indent };
+      this.ensureSpace(BODY_LINE);
+      const baseline = this.y + BODY_SIZE * 1.05;
+      this.pdf.setTextColor(COLORS.text);
+      this.pdf.setDrawColor(COLORS.text);
+      this.pdf.setFillColor(COLORS.text);
+      this.pdf.setLineWidth(0.7);
+      if (typeof item.checked === 'boolean') {
+        const box = BODY_SIZE * 0.75;
+        this.pdf.rect(context.x + 2, baseline - box, box, box, 'S');
+        if (item.checked) {
+          this.pdf.line(context.x + 3.5, baseline - box / 2, context.x + 2 + box / 2, baseline - 1.5);
+          this.pdf.line(context.x + 2 + box / 2, baseline - 1.5, context.x + box + 1, baseline - box - 1);
+        }
+      } else if (node.ordered) {
+        this.pdf.setFont('helvetica', 'normal');
+        this.pdf.setFontSize(BODY_SIZE);
+        this.pdf.text(`${(node.start ?? 1) + index}.`, context.x + indent - 6, baseline, { align: 'right' });
+      } else {
+        const centerY = baseline - BODY_SIZE * 0.33;
+        if (depth % 3 === 0) this.pdf.circle(context.x + 5, centerY, 1.8, 'F');
+        else if (depth % 3 === 1) this.pdf.circle(context.x + 5, centerY, 1.8, 'S');
+        else this.pdf.rect(context.x + 3.4, centerY - 1.6, 3.2, 3.2, 'F');
+      }
+
+      for (const child of item.children) {
+        if (child.type === 'paragraph') {
+          this.textBlock(inlineRuns(child.children), itemContext);
+          if (node.spread) this.y += BODY_LINE * 0.3;
+        } else if (child.type === 'list') {
+          this.list(child, itemContext, depth + 1);
+        } else {
+          this.block(child, itemContext);
+        }
+      }
+    });
+  }
+
+  private codeBlock(node: Code, context: BlockContext) {
+    const colors = CODE_THEMES[this.codeTheme];
+    this.pdf.setFont('courier', 'normal');
+    this.pdf.setFontSize(CODE_SIZE);
+    const charWidth = this.pdf.getTextWidth('M');
+    const columns = Math.max(20, Math.floor((context.width - CODE_PADDING * 2) / charWidth));
+
+    // Long lines wrap at the last column
+    const lines: CodeRun[][] = [];
+    for (const runs of highlightCode(pdfText(node.value), node.lang, this.codeTheme)) {
+      let line: CodeRun[] = [];
+      let length = 0;
+      for (const run of runs) {
+        let text = run.text;
+        while (length + text.length > columns) {
+          const fits = columns - length;
+          line.push({ text: text.slice(0, fits), color: run.color });
+          lines.push(line);
+          line = [];
+          length = 0;
+          text = text.slice(fits);
+        }
+        if (text) {
+          line.push({ text, color: run.color });
+          length += text.length;
+        }
+      }
+      lines.push(line);
+    }
+
+    const label = node.lang ? pdfText(node.lang) : '';
+    const labelHeight = label ? CODE_LINE : 0;
+    const height = lines.length * CODE_LINE + labelHeight + CODE_PADDING * 2;
+    this.gap(4);
+    // A block that fits on a page is not split
+    if (this.y + height > CONTENT_BOTTOM && height <= CONTENT_BOTTOM - MARGIN.top) {
+      this.newPage();
+    }
+
+    let index = 0;
+    while (index < lines.length) {
+      const header = index === 0 ? labelHeight : 0;
+      const rows = Math.floor((CONTENT_BOTTOM - this.y - header - CODE_PADDING * 2) / CODE_LINE);
+      if (rows < Math.min(MIN_CODE_LINES, lines.length - index) && this.y > MARGIN.top) {
+        this.newPage();
+        continue;
+      }
+      const chunk = lines.slice(index, index + Math.max(rows, 1));
+      const chunkHeight = chunk.length * CODE_LINE + header + CODE_PADDING * 2;
+      this.drawQuoteBars(context, this.y, chunkHeight);
+      this.pdf.setFillColor(colors.background);
+      this.pdf.setDrawColor(colors.border);
+      this.pdf.setLineWidth(0.5);
+      this.pdf.roundedRect(context.x, this.y, context.width, chunkHeight, 3, 3, 'FD');
+
+      this.pdf.setFont('courier', 'normal');
+      this.pdf.setFontSize(CODE_SIZE);
+      let baseline = this.y + CODE_PADDING + CODE_SIZE;
+      if (header) {
+        this.pdf.setTextColor(colors.label);
+        this.pdf.text(label, context.x + CODE_PADDING, baseline);
+        baseline += header;
+      }
+      for (const line of chunk) {
+        let x = context.x + CODE_PADDING;
+        for (const run of line) {
+          this.pdf.setTextColor(run.color);
+          this.pdf.text(run.text, x, baseline);
+          x += run.text.length * charWidth;
+        }
+        baseline += CODE_LINE;
+      }
+
+      this.y += chunkHeight;
+      index += chunk.length;
+      if (index < lines.length) this.newPage();
+    }
+    this.y += BODY_LINE * 0.6;
+  }
+
+  private table(node: Table, context: BlockContext) {
+    const rows = node.children.map((row, rowIndex) => row.children.map(cell => {
+      const runs = inlineRuns(cell.children);
+      return rowIndex === 0 ? runs.map(run => ({ ...run, style: withBold(run.style) })) : runs;
+    }));
+    const columnCount = Math.max(...rows.map(row => row.length));
+    if (columnCount === 0) return;
+
+    // Columns get their natural width when it fits, otherwise a proportional share
+    const natural = Array.from({ length: columnCount }, (_, column) => Math.max(
+      30,
+      ...rows.map(row => (row[column] ?? []).reduce((sum, run) => sum + this.measure(run, run.text, TABLE_SIZE), 0) + TABLE_PADDING * 2)
+    ));
+    const naturalTotal = natural.reduce((sum, width) => sum + width, 0);
+    const minimum = Math.min(40, context.width / columnCount);
+    const shares = natural.map(width => Math.max(minimum, (width / naturalTotal) * context.width));
+    const shareTotal = shares.reduce((sum, width) => sum + width, 0);
+    const widths = naturalTotal <= context.width
+      ? natural.map(width => width + (context.width - naturalTotal) * (width / naturalTotal))
+      : shares.map(width => (width / shareTotal) * context.width);
+
+    const drawRow = (row: TextRun[][], isHeader: boolean) => {
+      const cells = widths.map((width, column) => this.wrap(row[column] ?? [], width - TABLE_PADDING * 2, TABLE_SIZE));
+      const height = Math.max(...cells.map(lines => lines.length)) * TABLE_LINE + TABLE_PADDING * 2;
+      let x = context.x;
+      this.drawQuoteBars(context, this.y, height);
+      this.pdf.setDrawColor(COLORS.tableBorder);
+      this.pdf.setLineWidth(0.5);
+      cells.forEach((lines, column) => {
+        if (isHeader) this.pdf.setFillColor(COLORS.tableHeader);
+        this.pdf.rect(x, this.y, widths[column], height, isHeader ? 'FD' : 'S');
+        let baseline = this.y + TABLE_PADDING + TABLE_SIZE;
+        for (const line of lines) {
+          const free = widths[column] - TABLE_PADDING * 2 - line.width;
+          const align = node.align?.[column];
+          const offset = align === 'right' ? free : align === 'center' ? free / 2 : 0;
+          this.drawLine(line, x + TABLE_PADDING + offset, baseline, TABLE_SIZE, COLORS.text);
+          baseline += TABLE_LINE;
+        }
+        x += widths[column];
+      });
+      this.y += height;
+      return height;
+    };
+    const rowHeight = (row: TextRun[][]) => Math.max(
+      ...widths.map((width, column) => this.wrap(row[column] ?? [], width - TABLE_PADDING * 2, TABLE_SIZE).length)
+    ) * TABLE_LINE + TABLE_PADDING * 2;
+
+    this.gap(4);
+    const [header, ...body] = rows;
+    this.ensureSpace(rowHeight(header) + (body[0] ? rowHeight(body[0]) : 0));
+    drawRow(header, true);
+    for (const row of body) {
+      // The header row is repeated on every page the table continues on
+      if (this.y + rowHeight(row) > CONTENT_BOTTOM) {
+        this.newPage();
+        drawRow(header, true);
+      }
+      drawRow(row, false);
+    }
+    this.y += BODY_LINE * 0.6;
+  }
+
+  private tableOfContents(top: number) {
+    let page = 1;
+    let y = top;
+    this.pdf.setPage(page);
+    this.pdf.setFont('helvetica', 'bold');
+    this.pdf.setFontSize(HEADING_SIZES[1]);
+    this.pdf.setTextColor(COLORS.heading);
+    this.pdf.text('Contents', MARGIN.left, y - HEADING_SIZES[1] * 0.8);
+
+    const right = PAGE_WIDTH - MARGIN.right;
+    for (const heading of this.headings.filter(entry => entry.depth <= TOC_DEPTH)) {
+      if (y + TOC_LINE > CONTENT_BOTTOM) {
+        page += 1;
+        y = MARGIN.top;
+        this.pdf.setPage(page);
+      }
+      const x = MARGIN.left + (heading.depth - 1) * 14;
+      const number = String(heading.page);
+      this.pdf.setFont('helvetica', heading.depth === 1 ? 'bold' : 'normal');
+      this.pdf.setFontSize(heading.depth === 1 ? 11 : 10);
+      this.pdf.setTextColor(heading.depth === 1 ? COLORS.heading : COLORS.text);
+      const available = right - x - this.pdf.getTextWidth(number) - 24;
+      let text = heading.text;
+      if (this.pdf.getTextWidth(text) > available) {
+        while (text.length > 1 && this.pdf.getTextWidth(`${text}...`) > available) {
+          text = text.slice(0, -1);
+        }
+        text = `${text.trimEnd()}...`;
+      }
+      const baseline = y + 12;
+      this.pdf.text(text, x, baseline);
+      this.pdf.text(number, right, baseline, { align: 'right' });
+
+      // Dotted leader between the title and the page number
+      this.pdf.setDrawColor(COLORS.tableBorder);
+      this.pdf.setLineWidth(0.5);
+      this.pdf.setLineDashPattern([1, 2], 0);
+      this.pdf.line(x + this.pdf.getTextWidth(text) + 6, baseline, right - this.pdf.getTextWidth(number) - 6, baseline);
+      this.pdf.setLineDashPattern([], 0);
+
+      this.pdf.link(x, y, right - x, TOC_LINE, { pageNumber: heading.page, top: heading.y - 12 });
+      y += TOC_LINE;
+    }
+  }
+
+  // Links to "#section" are resolved once every heading has a page
+  private resolveAnchorLinks() {
+    const targets = new Map<string, PlacedHeading>();
+    const used = new Map<string, number>();
+    for (const heading of this.headings) {
+      const base = headingAnchor(heading.text);
+      const count = used.get(base) ?? 0;
+      used.set(base, count + 1);
+      targets.set(count === 0 ? base : `${base}-${count}`, heading);
+    }
+    for (const link of this.anchorLinks) {
+      const target = targets.get(decodeURIComponent(link.anchor).toLowerCase());
+      if (!target) continue;
+      this.pdf.setPage(link.page);
+      this.pdf.link(link.x, link.y, link.width, link.height, { pageNumber: target.page, top: target.y - 12 });
+    }
+  }
+
+  // Bookmarks for the viewer's sidebar
+  private outline() {
+    const parents: { depth: number; item: unknown }[] = [];
+    for (const heading of this.headings.filter(entry => entry.depth <= TOC_DEPTH)) {
+      while (parents.length > 0 && parents[parents.length - 1].depth >= heading.depth) {
+        parents.pop();
+      }
+      const parent = parents.length > 0 ? parents[parents.length - 1].item : null;
+      const item = this.pdf.outline.add(parent, heading.text, { pageNumber: heading.page });
+      parents.push({ depth: heading.depth, item });
+    }
+  }
+
+  private headersAndFooters() {
+    const total = this.pdf.getNumberOfPages();
+    const right = PAGE_WIDTH - MARGIN.right;
+    for (let page = 1; page <= total; page++) {
+      this.pdf.setPage(page);
+      this.pdf.setFont('helvetica', 'normal');
+      this.pdf.setFontSize(8);
+      this.pdf.setTextColor(COLORS.muted);
+      this.pdf.setDrawColor(COLORS.rule);
+      this.pdf.setLineWidth(0.5);
+
+      // The title page already shows the title
+      if (page > 1) {
+        const headerTitle = this.pdf.splitTextToSize(this.title, (right - MARGIN.left) * 0.6)[0] ?? '';
+        this.pdf.text(headerTitle, MARGIN.left, MARGIN.top - 26);
+        if (this.subtitle) {
+          this.pdf.text(this.subtitle, right, MARGIN.top - 26, { align: 'right' });
+        }
+        this.pdf.line(MARGIN.left, MARGIN.top - 20, right, MARGIN.top - 20);
+      }
+
+      const footerY = PAGE_HEIGHT - MARGIN.bottom + 30;
+      this.pdf.line(MARGIN.left, footerY - 12, right, footerY - 12);
+      this.pdf.text('Generated with LearnOmatic', MARGIN.left, footerY);
+      this.pdf.text(`Page ${page} of ${total}`, right, footerY, { align: 'right' });
+    }
+  }
+}
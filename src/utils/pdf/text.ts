@@ -0,0 +1,42 @@
+// The standard PDF fonts only cover Latin-1, so typographic characters and
+// the box drawing used in directory trees get close equivalents
+const REPLACEMENTS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '--',
+  '−': '-',
+  '•': '*',
+  '…': '...',
+  '←': '<-',
+  '→': '->',
+  '⇒': '=>',
+  '≤': '<=',
+  '≥': '>=',
+  '≠': '!=',
+  '✓': '[x]',
+  '✔': '[x]',
+  '✅': '[x]',
+  '❌': '[ ]',
+  '─': '-',
+  '│': '|',
+  '├': '|',
+  '└': '`',
+  '┌': '+',
+  '┐': '+',
+  '┘': '+',
+  '┬': '+',
+  '┴': '+',
+  '┼': '+',
+  '\t': '    ',
+};
+
+/**
+ * Makes text printable with the built-in fonts. Anything else outside
+ * Latin-1 (emoji, CJK) is dropped rather than printed as garbage.
+ */
+export function pdfText(text: string): string {
+  return Array.from(text, char => REPLACEMENTS[char] ?? (char.codePointAt(0) <= 0xff ? char : '')).join('');
+}
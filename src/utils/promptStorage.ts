@@ -0,0 +1,96 @@
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { PromptTemplateId } from '@/utils/prompts';
+
+/**
+ * A version of a prompt template published by an admin. It overrides the
+ * built-in template for the whole organisation while its weight is above 0.
+ */
+export interface PromptTemplateVersion {
+  id: string;
+  template_id: PromptTemplateId;
+  version: number;
+  content: string;
+  notes: string | null;
+  // Share of requests that use this version when several are live; 0 = not live
+  weight: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Fetches every published version of a template, newest first.
+ */
+export async function fetchTemplateVersions(templateId: PromptTemplateId): Promise<PromptTemplateVersion[]> {
+  const { data, error } = await supabase
+    .from('prompt_template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching prompt template versions:', error);
+    throw error;
+  }
+  return (data as PromptTemplateVersion[]) || [];
+}
+
+/**
+ * Fetches the versions that currently receive traffic, for all templates.
+ */
+export async function fetchLiveTemplateVersions(): Promise<PromptTemplateVersion[]> {
+  const { data, error } = await supabase
+    .from('prompt_template_versions')
+    .select('*')
+    .gt('weight', 0);
+
+  if (error) {
+    console.error('Error fetching live prompt templates:', error);
+    throw error;
+  }
+  return (data as PromptTemplateVersion[]) || [];
+}
+
+/**
+ * Publishes `content` as the next version of a template. Only admins are
+ * allowed to do this (enforced by RLS).
+ */
+export async function publishTemplateVersion(
+  user: User,
+  templateId: PromptTemplateId,
+  content: string,
+  notes: string,
+  weight: number
+): Promise<PromptTemplateVersion> {
+  const existing = await fetchTemplateVersions(templateId);
+  const { data, error } = await supabase
+    .from('prompt_template_versions')
+    .insert({
+      template_id: templateId,
+      version: (existing[0]?.version ?? 0) + 1,
+      content,
+      notes: notes.trim() || null,
+      weight,
+      created_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error publishing prompt template:', error);
+    throw error;
+  }
+  return data as PromptTemplateVersion;
+}
+
+export async function setTemplateVersionWeight(versionId: string, weight: number): Promise<void> {
+  const { error } = await supabase
+    .from('prompt_template_versions')
+    .update({ weight })
+    .eq('id', versionId);
+
+  if (error) {
+    console.error('Error updating prompt template weight:', error);
+    throw error;
+  }
+}
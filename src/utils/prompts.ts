@@ -0,0 +1,279 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fetchLiveTemplateVersions, PromptTemplateVersion } from '@/utils/promptStorage';
+import {
+  DIAGRAM_SYSTEM,
+  DOCS_API_DESCRIPTIONS,
+  DOCS_CLASS,
+  DOCS_DESIGN_DOC,
+  DOCS_FUNCTION,
+  DOCS_INLINE,
+  DOCS_README,
+  DOCS_REFRESH_SECTION,
+  DOCS_RELEASE_NOTES,
+  DOCS_SITE_PAGE,
+  EXPLAINER_CODE_EXAMPLES,
+  EXPLAINER_SYSTEM,
+  REVIEWER_SYSTEM,
+} from '@/utils/promptDefaults';
+
+export type PromptTemplateId =
+  | 'explainer.system'
+  | 'explainer.code-examples'
+  | 'docs.readme'
+  | 'docs.class'
+  | 'docs.function'
+  | 'docs.inline'
+  | 'docs.api-descriptions'
+  | 'docs.site-page'
+  | 'docs.refresh-section'
+  | 'docs.release-notes'
+  | 'docs.design-doc'
+  | 'reviewer.system'
+  | 'diagram.system';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  // Version of the built-in text, bumped whenever it changes
+  version: number;
+  content: string;
+  // Variables the template can use as {{name}}, with what they contain
+  variables: Record<string, string>;
+}
+
+// Identifies the exact prompt behind a result: `builtin@<version>` for the
+// template shipped with the app, `org@<version>` for a published override
+export type PromptVersionRef = string;
+export type PromptVersions = Partial<Record<PromptTemplateId, PromptVersionRef>>;
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'explainer.system',
+    label: 'Concept Explainer',
+    description: 'System prompt for explanations',
+    version: 1,
+    content: EXPLAINER_SYSTEM,
+    variables: {},
+  },
+  {
+    id: 'explainer.code-examples',
+    label: 'Concept Explainer: code examples',
+    description: 'Appended to the explainer prompt when code examples are requested',
+    version: 1,
+    content: EXPLAINER_CODE_EXAMPLES,
+    variables: { language: 'Programming language chosen by the user' },
+  },
+  {
+    id: 'docs.readme',
+    label: 'Documentation: README',
+    description: 'System prompt for README, API and repository documentation',
+    version: 1,
+    content: DOCS_README,
+    variables: {},
+  },
+  {
+    id: 'docs.class',
+    label: 'Documentation: class',
+    description: 'System prompt for class documentation',
+    version: 1,
+    content: DOCS_CLASS,
+    variables: { language: 'Language of the code' },
+  },
+  {
+    id: 'docs.function',
+    label: 'Documentation: function',
+    description: 'System prompt for function documentation',
+    version: 1,
+    content: DOCS_FUNCTION,
+    variables: { language: 'Language of the code' },
+  },
+  {
+    id: 'docs.inline',
+    label: 'Documentation: inline comments',
+    description: 'System prompt for doc comments inserted into the source. The response must stay valid inline docs JSON',
+    version: 1,
+    content: DOCS_INLINE,
+    variables: {
+      language: 'Language of the code',
+      commentStyle: 'Comment syntax used for the language, e.g. "Javadoc comments"',
+    },
+  },
+  {
+    id: 'docs.api-descriptions',
+    label: 'Documentation: API descriptions',
+    description: 'System prompt that fills in missing endpoint and parameter descriptions. The response must stay valid API descriptions JSON',
+    version: 1,
+    content: DOCS_API_DESCRIPTIONS,
+    variables: {},
+  },
+  {
+    id: 'docs.site-page',
+    label: 'Documentation: site page',
+    description: 'System prompt for one module page of a documentation site',
+    version: 1,
+    content: DOCS_SITE_PAGE,
+    variables: {
+      project: 'Name of the project',
+      language: 'Language of the module',
+    },
+  },
+  {
+    id: 'docs.refresh-section',
+    label: 'Documentation: stale section update',
+    description: 'System prompt that rewrites one section of existing documentation to match changed code',
+    version: 1,
+    content: DOCS_REFRESH_SECTION,
+    variables: { language: 'Language of the code' },
+  },
+  {
+    id: 'docs.release-notes',
+    label: 'Documentation: release notes',
+    description: 'System prompt that turns the changelog of a release into release notes for users',
+    version: 1,
+    content: DOCS_RELEASE_NOTES,
+    variables: { project: 'Name of the project, or "the project" when unknown' },
+  },
+  {
+    id: 'docs.design-doc',
+    label: 'Documentation: ADR, RFC and design doc',
+    description: 'System prompt that drafts the sections of an ADR, RFC or design document from the guided form. The response must stay valid design doc JSON',
+    version: 1,
+    content: DOCS_DESIGN_DOC,
+    variables: { format: 'The kind of document, e.g. "Architecture Decision Record in the MADR format"' },
+  },
+  {
+    id: 'reviewer.system',
+    label: 'Code Reviewer',
+    description: 'System prompt for code reviews. The response must stay valid review JSON',
+    version: 1,
+    content: REVIEWER_SYSTEM,
+    variables: {
+      language: 'Language of the code',
+      reviewType: 'bugs, performance, style or comprehensive',
+      focus: '"all aspects" for comprehensive reviews, otherwise the review type',
+      bugChecks: 'Checklist for bug reviews, empty otherwise',
+      performanceChecks: 'Checklist for performance reviews, empty otherwise',
+      styleChecks: 'Checklist for style reviews, empty otherwise',
+      fixedCodeField: 'The "fixedCode" JSON field when fixed code is requested, empty otherwise',
+      fixedCodeInstructions: 'Instructions for the fixed code when it is requested, empty otherwise',
+    },
+  },
+  {
+    id: 'diagram.system',
+    label: 'Diagram Generator',
+    description: 'System prompt for Mermaid diagrams. The response must stay valid diagram JSON',
+    version: 1,
+    content: DIAGRAM_SYSTEM,
+    variables: {
+      language: 'Language of the code, if any',
+      diagramType: 'flowchart, class, er or sequence',
+      diagramSubject: 'What the diagram represents, e.g. "process flow"',
+      diagramElements: 'What the diagram should include, e.g. "steps and decision points"',
+    },
+  },
+];
+
+export const getPromptTemplate = (templateId: PromptTemplateId): PromptTemplate =>
+  PROMPT_TEMPLATES.find(template => template.id === templateId);
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Replaces {{name}} placeholders. Unknown placeholders are left as they are.
+ */
+export function renderTemplate(content: string, variables: Record<string, string>): string {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    name in variables ? variables[name] : placeholder
+  );
+}
+
+/**
+ * Placeholders in `content` that the template doesn't provide.
+ */
+export function findUnknownVariables(content: string, templateId: PromptTemplateId): string[] {
+  const known = getPromptTemplate(templateId).variables;
+  const names = [...content.matchAll(VARIABLE_PATTERN)].map(match => match[1]);
+  return [...new Set(names)].filter(name => !(name in known));
+}
+
+// Published versions change rarely, so they are only refetched every few minutes
+const LIVE_VERSIONS_TTL_MS = 5 * 60 * 1000;
+
+let liveVersions: { fetchedAt: number; versions: Promise<PromptTemplateVersion[]> } | null = null;
+
+/**
+ * Drops the cached live versions, e.g. after an admin published a new one.
+ */
+export function invalidatePromptTemplates(): void {
+  liveVersions = null;
+}
+
+function loadLiveVersions(): Promise<PromptTemplateVersion[]> {
+  if (!liveVersions || Date.now() - liveVersions.fetchedAt > LIVE_VERSIONS_TTL_MS) {
+    liveVersions = {
+      fetchedAt: Date.now(),
+      versions: fetchLiveTemplateVersions().catch(error => {
+        // Fall back to the built-in templates rather than failing the request
+        console.warn('Using built-in prompt templates:', error);
+        return [];
+      }),
+    };
+  }
+  return liveVersions.versions;
+}
+
+/**
+ * FNV-1a, used to put each user in a stable bucket for A/B tests.
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Picks one of the live versions by weight. A user always gets the same
+ * version of a template as long as the weights don't change.
+ */
+function pickVersion(versions: PromptTemplateVersion[], seed: string): PromptTemplateVersion {
+  const sorted = [...versions].sort((a, b) => a.version - b.version);
+  const total = sorted.reduce((sum, version) => sum + version.weight, 0);
+  let bucket = hashString(seed) % total;
+  for (const version of sorted) {
+    if (bucket < version.weight) return version;
+    bucket -= version.weight;
+  }
+  return sorted[sorted.length - 1];
+}
+
+/**
+ * Renders the template that applies to the current user: a live published
+ * version if there is one, otherwise the built-in text. The version used is
+ * recorded in `versions` when given.
+ */
+export async function renderPrompt(
+  templateId: PromptTemplateId,
+  variables: Record<string, string> = {},
+  versions?: PromptVersions
+): Promise<string> {
+  const template = getPromptTemplate(templateId);
+  const live = (await loadLiveVersions()).filter(version => version.template_id === templateId);
+
+  let content = template.content;
+  let ref: PromptVersionRef = `builtin@${template.version}`;
+  if (live.length > 0) {
+    const { data } = await supabase.auth.getSession();
+    const chosen = pickVersion(live, `${data.session?.user.id ?? 'anonymous'}:${templateId}`);
+    content = chosen.content;
+    ref = `org@${chosen.version}`;
+  }
+
+  if (versions) {
+    versions[templateId] = ref;
+  }
+  return renderTemplate(content, variables);
+}
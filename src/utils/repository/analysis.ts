@@ -0,0 +1,267 @@
+export interface RepoFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * What is known about a repository, wherever it was read from. Hosting
+ * statistics are only available for hosted repositories.
+ */
+export interface RepositorySnapshot {
+  name: string;
+  // Where the files came from, e.g. "GitHub" or "Local folder"
+  source: string;
+  description?: string;
+  language?: string;
+  topics: string[];
+  stars?: number;
+  forks?: number;
+  lastUpdated?: string;
+  license?: string;
+  // Every file path in the repository
+  fileStructure: string[];
+  // Contents of the important files
+  analyzedFiles: RepoFile[];
+  // Reads any other files from the same source, e.g. to document every module
+  readFiles?: (paths: string[]) => Promise<RepoFile[]>;
+}
+
+// Number of important files whose contents are read
+export const MAX_ANALYZED_FILES = 10;
+
+// Directories that are never part of the analysed tree
+const SKIPPED_DIRECTORIES = /(^|\/)(node_modules|dist|\.git)\//;
+
+/**
+ * Files that say the most about a project: documentation, configuration,
+ * top-level and src/ source files, and package manifests.
+ */
+export function isImportantFile(path: string): boolean {
+  return Boolean(
+    // Documentation files
+    path.toLowerCase().includes('readme') ||
+    path.toLowerCase().includes('docs/') ||
+    path.toLowerCase().includes('documentation/') ||
+    // Configuration files
+    path.match(/\.(json|yaml|yml|xml|toml)$/) ||
+    // Source code files in root or src directory
+    (path.match(/\.(js|ts|jsx|tsx|py|java|cs|go|rb)$/) &&
+     (path.startsWith('src/') || !path.includes('/'))) ||
+    // Package management files
+    path.match(/(package\.json|requirements\.txt|pom\.xml|build\.gradle|gemfile)$/i)
+  );
+}
+
+export const selectImportantFiles = (paths: string[]): string[] =>
+  paths.filter(isImportantFile).slice(0, MAX_ANALYZED_FILES);
+
+// Extension → language, for sources without hosting metadata
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'JavaScript', jsx: 'JavaScript', ts: 'TypeScript', tsx: 'TypeScript', py: 'Python', java: 'Java',
+  cs: 'C#', go: 'Go', rb: 'Ruby', rs: 'Rust', php: 'PHP', kt: 'Kotlin', swift: 'Swift', cpp: 'C++', c: 'C',
+};
+
+/**
+ * The language most of the source files are written in.
+ */
+export function detectLanguage(paths: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const path of paths) {
+    const language = EXTENSION_LANGUAGES[path.split('.').pop()?.toLowerCase() ?? ''];
+    if (language) counts.set(language, (counts.get(language) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Writes the repository analysis that README generation starts from: tech
+ * stack, structure, key components, dependencies, configuration and tests.
+ */
+export function buildRepositoryAnalysis(repoAnalysis: RepositorySnapshot): string {
+  const validFileContents = repoAnalysis.analyzedFiles;
+
+  // Analyze dependencies and tech stack
+  const packageFiles = validFileContents.find(f => f.path.endsWith('package.json'));
+  const requirements = validFileContents.find(f => f.path.endsWith('requirements.txt'));
+  const gradleFile = validFileContents.find(f => f.path.endsWith('build.gradle'));
+  const pomFile = validFileContents.find(f => f.path.endsWith('pom.xml'));
+
+  let dependencies: Record<string, string> = {};
+  const techStack: string[] = [];
+
+  if (packageFiles) {
+    try {
+      const packageJson = JSON.parse(packageFiles.content);
+      dependencies = {
+        ...packageJson.dependencies,
+        ...packageJson.devDependencies
+      };
+      techStack.push('Node.js');
+      if (dependencies['react']) techStack.push('React');
+      if (dependencies['@angular/core']) techStack.push('Angular');
+      if (dependencies['vue']) techStack.push('Vue.js');
+    } catch (e) {
+      console.error('Error parsing package.json:', e);
+    }
+  }
+
+  if (requirements) {
+    techStack.push('Python');
+    const pythonDeps = requirements.content.split('\n')
+      .filter(line => line.trim() && !line.startsWith('#'))
+      .map(line => line.split('==')[0].split('>=')[0].trim());
+    dependencies = { ...dependencies, ...Object.fromEntries(pythonDeps.map(dep => [dep, '*'])) };
+  }
+
+  if (gradleFile) techStack.push('Java/Kotlin');
+  if (pomFile) techStack.push('Java');
+
+  // Analyze project structure and architecture
+  const srcFiles = validFileContents.filter(f => f.path.startsWith('src/') || f.path.startsWith('lib/'));
+  const testFiles = validFileContents.filter(f => f.path.includes('test/') || f.path.includes('spec/'));
+  const configFiles = validFileContents.filter(f =>
+    f.path.match(/\.(json|yaml|yml|xml|config|conf|ini)$/i) &&
+    !f.path.includes('package.json')
+  );
+
+  // Identify main components and features
+  const components = srcFiles.map(file => {
+    const isComponent = file.content.includes('class') || file.content.includes('function') || file.content.includes('interface');
+    if (!isComponent) return null;
+
+    const componentName = file.path.split('/').pop()?.split('.')[0];
+    const componentType = file.content.includes('class') ? 'Class' :
+                        file.content.includes('interface') ? 'Interface' : 'Function';
+
+    // Extract exports and imports
+    const exports = file.content.match(/export\s+(default\s+)?(class|function|const|interface)\s+(\w+)/g) || [];
+    const imports = file.content.match(/import\s+.*?from\s+['"].*?['"];?/g) || [];
+
+    return {
+      name: componentName,
+      type: componentType,
+      path: file.path,
+      exports: exports.map(exp => exp.split(' ').pop()),
+      imports: imports.length,
+      loc: file.content.split('\n').length
+    };
+  }).filter(Boolean);
+
+  // Hosting statistics are left out for local sources
+  const statistics = [
+    repoAnalysis.stars !== undefined ? `  - Stars: ${repoAnalysis.stars}` : '',
+    repoAnalysis.forks !== undefined ? `  - Forks: ${repoAnalysis.forks}` : '',
+    repoAnalysis.lastUpdated ? `  - Last Updated: ${new Date(repoAnalysis.lastUpdated).toLocaleDateString()}` : '',
+    `  - License: ${repoAnalysis.license || 'Not specified'}`,
+  ].filter(Boolean).join('\n');
+
+  // Generate detailed documentation structure
+  return `
+# ${repoAnalysis.name} Repository Analysis
+
+## Project Overview
+${repoAnalysis.description || 'No description provided'}
+
+## Technical Specifications
+- Source: ${repoAnalysis.source}
+- Primary Language: ${repoAnalysis.language || 'Unknown'}
+- Technology Stack: ${techStack.join(', ')}
+- Repository Statistics:
+${statistics}
+
+## Project Architecture
+### Directory Structure
+\`\`\`
+${repoAnalysis.fileStructure
+  .filter(path => !SKIPPED_DIRECTORIES.test(path))
+  .slice(0, 30)
+  .join('\n')}
+\`\`\`
+
+### Key Components
+${components.map(comp => `
+- ${comp?.name} (${comp?.type})
+  - Location: ${comp?.path}
+  - Exports: ${comp?.exports.join(', ')}
+  - Dependencies: ${comp?.imports} imports
+  - Size: ${comp?.loc} lines of code
+`).join('')}
+
+## Dependencies and Technical Requirements
+${Object.keys(dependencies).length > 0 ? `
+### Main Dependencies
+${Object.entries(dependencies)
+  .slice(0, 15)
+  .map(([dep, version]) => `- ${dep}: ${version}`)
+  .join('\n')}
+` : 'No dependency information available.'}
+
+## Configuration
+${configFiles.map(file => `
+### ${file.path}
+\`\`\`
+${file.content.slice(0, 300)}...
+\`\`\`
+`).join('\n')}
+
+## Testing and Quality Assurance
+${testFiles.length > 0 ? `
+Test files found: ${testFiles.length}
+Example test files:
+${testFiles.slice(0, 3).map(file => `- ${file.path}`).join('\n')}
+` : 'No test files identified in the repository.'}
+
+## Source Code Analysis
+${srcFiles.slice(0, 5).map(file => `
+### ${file.path}
+\`\`\`
+${file.content.slice(0, 500)}...
+\`\`\`
+`).join('\n')}
+
+## Documentation Requirements
+Please generate comprehensive documentation that includes:
+
+1. Detailed Project Overview
+   - Purpose and main features
+   - Target audience and use cases
+   - System requirements
+
+2. Architecture Documentation
+   - Component relationships and interactions
+   - Data flow between components
+   - Design patterns used
+   - System boundaries and external dependencies
+
+3. Setup and Installation Guide
+   - Step-by-step installation process
+   - Environment setup requirements
+   - Configuration instructions
+   - Troubleshooting common issues
+
+4. API Documentation (if applicable)
+   - Endpoint descriptions
+   - Request/response formats
+   - Authentication methods
+   - Rate limiting and security considerations
+
+5. Development Guide
+   - Code organization and structure
+   - Coding standards and conventions
+   - Build and deployment procedures
+   - Contributing guidelines
+
+6. Testing Strategy
+   - Testing approach and frameworks
+   - Test coverage and requirements
+   - Running and writing tests
+
+7. Maintenance and Operations
+   - Monitoring and logging
+   - Backup and recovery procedures
+   - Performance optimization guidelines
+   - Security best practices
+
+Please analyze the provided code and structure to create detailed documentation covering all these aspects.
+`;
+}
@@ -0,0 +1,72 @@
+import { RepositoryHost, RepositoryLocation } from './types';
+import { encodePath, hostJson, hostText, MAX_TREE_PAGES } from './http';
+
+interface BitbucketRepository {
+  name: string;
+  description: string;
+  language: string;
+  updated_on: string;
+  mainbranch?: { name: string } | null;
+}
+
+interface BitbucketSourcePage {
+  values: { path: string; type: 'commit_file' | 'commit_directory' }[];
+  next?: string;
+}
+
+// Deep enough for most projects; the src endpoint only lists one level by default
+const MAX_TREE_DEPTH = 20;
+
+const apiBase = (repo: RepositoryLocation) =>
+  `https://api.bitbucket.org/2.0/repositories/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}`;
+
+// Repository and workspace access tokens are bearer tokens; app passwords are "username:password"
+const headersFor = (token?: string): Record<string, string> => {
+  if (!token) return {};
+  return { Authorization: token.includes(':') ? `Basic ${btoa(token)}` : `Bearer ${token}` };
+};
+
+/**
+ * Bitbucket Cloud (bitbucket.org, REST API 2.0).
+ */
+export const bitbucketHost: RepositoryHost = {
+  id: 'bitbucket',
+  label: 'Bitbucket Cloud',
+  defaultBaseUrl: 'https://bitbucket.org',
+  selfHosted: false,
+  tokenHint: 'Repository settings → Access tokens (read), or "username:app password"',
+
+  // /workspace/name or /workspace/name/src/<ref>
+  parsePath: ([owner, name, view, ref]) => {
+    if (!owner || !name) return null;
+    return { owner, name, ref: (view === 'src' || view === 'commits') && ref ? ref : undefined };
+  },
+
+  async getMetadata(repo, token) {
+    const data = await hostJson<BitbucketRepository>(apiBase(repo), headersFor(token));
+    return {
+      name: data.name,
+      description: data.description || undefined,
+      language: data.language || undefined,
+      topics: [],
+      lastUpdated: data.updated_on,
+      defaultBranch: data.mainbranch?.name ?? 'main',
+    };
+  },
+
+  async getTree(repo, ref, token) {
+    const paths: string[] = [];
+    let url = `${apiBase(repo)}/src/${encodeURIComponent(ref)}/?pagelen=100&max_depth=${MAX_TREE_DEPTH}`;
+    for (let count = 0; url && count < MAX_TREE_PAGES; count++) {
+      const page = await hostJson<BitbucketSourcePage>(url, headersFor(token));
+      paths.push(...page.values.filter(item => item.type === 'commit_file').map(item => item.path));
+      url = page.next ?? '';
+    }
+    return paths;
+  },
+
+  getFileContent: (repo, ref, path, token) => hostText(
+    `${apiBase(repo)}/src/${encodeURIComponent(ref)}/${encodePath(path)}`,
+    headersFor(token)
+  ),
+};
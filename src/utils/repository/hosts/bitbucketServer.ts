@@ -0,0 +1,82 @@
+import { RepositoryHost, RepositoryLocation } from './types';
+import { encodePath, hostJson, hostText, MAX_TREE_PAGES, trimBaseUrl } from './http';
+
+interface BitbucketServerRepository {
+  name: string;
+  description?: string;
+}
+
+interface BitbucketServerFilesPage {
+  values: string[];
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+// Personal repositories live under the "~username" project
+const apiBase = (repo: RepositoryLocation) =>
+  `${trimBaseUrl(repo.baseUrl)}/rest/api/1.0/projects/${encodeURIComponent(repo.owner)}/repos/${encodeURIComponent(repo.name)}`;
+
+const headersFor = (token?: string): Record<string, string> => token ? { Authorization: `Bearer ${token}` } : {};
+
+// Refs in page URLs are fully qualified, e.g. ?at=refs/heads/main
+const shortRef = (ref: string | null) => ref?.replace(/^refs\/(heads|tags)\//, '') || undefined;
+
+/**
+ * Bitbucket Server and Data Center (REST API 1.0). There are no stars or
+ * forks counts, and the language is detected from the files.
+ */
+export const bitbucketServerHost: RepositoryHost = {
+  id: 'bitbucket-server',
+  label: 'Bitbucket Data Center',
+  selfHosted: true,
+  tokenHint: 'Profile → Manage account → HTTP access tokens, with repository read permission',
+
+  // /projects/KEY/repos/name/browse?at=<ref>, /users/name/repos/name or the /scm/KEY/name.git clone URL
+  parsePath: (segments, searchParams) => {
+    const [scope, owner, repos, name] = segments;
+    if (scope === 'scm' && owner && repos) {
+      return { owner, name: repos };
+    }
+    if ((scope !== 'projects' && scope !== 'users') || repos !== 'repos' || !owner || !name) return null;
+    return {
+      owner: scope === 'users' ? `~${owner}` : owner,
+      name,
+      ref: shortRef(searchParams.get('at')),
+    };
+  },
+
+  async getMetadata(repo, token) {
+    const [data, defaultBranch] = await Promise.all([
+      hostJson<BitbucketServerRepository>(apiBase(repo), headersFor(token)),
+      // Empty repositories have no default branch yet
+      hostJson<{ displayId: string }>(`${apiBase(repo)}/default-branch`, headersFor(token))
+        .then(branch => branch.displayId)
+        .catch(() => 'master'),
+    ]);
+    return {
+      name: data.name,
+      description: data.description || undefined,
+      topics: [],
+      defaultBranch,
+    };
+  },
+
+  async getTree(repo, ref, token) {
+    const paths: string[] = [];
+    let start: number | undefined = 0;
+    for (let count = 0; start !== undefined && count < MAX_TREE_PAGES; count++) {
+      const page = await hostJson<BitbucketServerFilesPage>(
+        `${apiBase(repo)}/files?limit=1000&start=${start}&at=${encodeURIComponent(ref)}`,
+        headersFor(token)
+      );
+      paths.push(...page.values);
+      start = page.isLastPage ? undefined : page.nextPageStart;
+    }
+    return paths;
+  },
+
+  getFileContent: (repo, ref, path, token) => hostText(
+    `${apiBase(repo)}/raw/${encodePath(path)}?at=${encodeURIComponent(ref)}`,
+    headersFor(token)
+  ),
+};
@@ -0,0 +1,80 @@
+import { RepositoryHost, RepositoryLocation } from './types';
+import { encodePath, hostJson, hostText, MAX_TREE_PAGES, trimBaseUrl } from './http';
+
+interface GiteaRepository {
+  name: string;
+  description: string;
+  language?: string;
+  topics?: string[];
+  stars_count: number;
+  forks_count: number;
+  updated_at: string;
+  // Gitea 1.22+
+  licenses?: string[];
+  default_branch: string;
+}
+
+interface GiteaTree {
+  tree: { path: string; type: 'blob' | 'tree' | 'commit' }[];
+  truncated: boolean;
+}
+
+const TREE_PAGE_SIZE = 1000;
+
+const apiBase = (repo: RepositoryLocation) =>
+  `${trimBaseUrl(repo.baseUrl)}/api/v1/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}`;
+
+const headersFor = (token?: string): Record<string, string> => token ? { Authorization: `token ${token}` } : {};
+
+/**
+ * Gitea and Forgejo instances, e.g. Codeberg (REST API v1).
+ */
+export const giteaHost: RepositoryHost = {
+  id: 'gitea',
+  label: 'Gitea / Forgejo',
+  defaultBaseUrl: 'https://gitea.com',
+  selfHosted: true,
+  tokenHint: 'Settings → Applications → Access tokens, with read:repository',
+
+  // /owner/name, /owner/name/src/branch/<ref> (also tag/ and commit/)
+  parsePath: ([owner, name, view, kind, ...ref]) => {
+    if (!owner || !name) return null;
+    const hasRef = view === 'src' && ['branch', 'tag', 'commit'].includes(kind) && ref.length > 0;
+    return { owner, name, ref: hasRef ? ref.join('/') : undefined };
+  },
+
+  async getMetadata(repo, token) {
+    const data = await hostJson<GiteaRepository>(apiBase(repo), headersFor(token));
+    return {
+      name: data.name,
+      description: data.description || undefined,
+      language: data.language || undefined,
+      topics: data.topics ?? [],
+      stars: data.stars_count,
+      forks: data.forks_count,
+      lastUpdated: data.updated_at,
+      license: data.licenses?.[0],
+      defaultBranch: data.default_branch,
+    };
+  },
+
+  async getTree(repo, ref, token) {
+    const paths: string[] = [];
+    let truncated = true;
+    // Accepts a branch, tag or commit SHA
+    for (let page = 1; truncated && page <= MAX_TREE_PAGES; page++) {
+      const data = await hostJson<GiteaTree>(
+        `${apiBase(repo)}/git/trees/${encodePath(ref)}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`,
+        headersFor(token)
+      );
+      paths.push(...data.tree.filter(item => item.type === 'blob').map(item => item.path));
+      truncated = data.truncated;
+    }
+    return paths;
+  },
+
+  getFileContent: (repo, ref, path, token) => hostText(
+    `${apiBase(repo)}/raw/${encodePath(path)}?ref=${encodeURIComponent(ref)}`,
+    headersFor(token)
+  ),
+};
@@ -0,0 +1,81 @@
+import { RepositoryHost, RepositoryLocation } from './types';
+import { encodePath, hostJson, hostText, trimBaseUrl } from './http';
+
+interface GitHubRepository {
+  name: string;
+  description: string | null;
+  language: string | null;
+  topics?: string[];
+  stargazers_count: number;
+  forks_count: number;
+  updated_at: string;
+  license: { name: string } | null;
+  default_branch: string;
+}
+
+interface GitHubTree {
+  tree: { path: string; type: 'blob' | 'tree' | 'commit' }[];
+  truncated: boolean;
+}
+
+// github.com has its own API domain; GitHub Enterprise Server serves it under /api/v3
+const apiBase = (repo: RepositoryLocation) => {
+  const baseUrl = trimBaseUrl(repo.baseUrl);
+  const root = /^https?:\/\/(www\.)?github\.com$/i.test(baseUrl) ? 'https://api.github.com' : `${baseUrl}/api/v3`;
+  return `${root}/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}`;
+};
+
+const headersFor = (token?: string, accept = 'application/vnd.github+json'): Record<string, string> => ({
+  Accept: accept,
+  ...(token ? { Authorization: `Bearer ${token}` } : {}),
+});
+
+/**
+ * github.com and GitHub Enterprise Server (REST API v3).
+ */
+export const gitHubHost: RepositoryHost = {
+  id: 'github',
+  label: 'GitHub',
+  defaultBaseUrl: 'https://github.com',
+  selfHosted: true,
+  tokenHint: 'Settings → Developer settings → Personal access tokens, with read access to contents',
+
+  // /owner/name, /owner/name/tree/<ref> or /owner/name/commit/<sha>
+  parsePath: ([owner, name, view, ...ref]) => {
+    if (!owner || !name) return null;
+    return {
+      owner,
+      name,
+      ref: (view === 'tree' || view === 'commit') && ref.length > 0 ? ref.join('/') : undefined,
+    };
+  },
+
+  async getMetadata(repo, token) {
+    const data = await hostJson<GitHubRepository>(apiBase(repo), headersFor(token));
+    return {
+      name: data.name,
+      description: data.description ?? undefined,
+      language: data.language ?? undefined,
+      topics: data.topics ?? [],
+      stars: data.stargazers_count,
+      forks: data.forks_count,
+      lastUpdated: data.updated_at,
+      license: data.license?.name,
+      defaultBranch: data.default_branch,
+    };
+  },
+
+  async getTree(repo, ref, token) {
+    // Accepts a branch, tag or commit SHA
+    const data = await hostJson<GitHubTree>(`${apiBase(repo)}/git/trees/${encodePath(ref)}?recursive=1`, headersFor(token));
+    if (data.truncated) {
+      console.warn('GitHub truncated the repository tree; only part of it is analysed');
+    }
+    return data.tree.filter(item => item.type === 'blob').map(item => item.path);
+  },
+
+  getFileContent: (repo, ref, path, token) => hostText(
+    `${apiBase(repo)}/contents/${encodePath(path)}?ref=${encodeURIComponent(ref)}`,
+    headersFor(token, 'application/vnd.github.raw')
+  ),
+};
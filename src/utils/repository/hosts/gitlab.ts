@@ -0,0 +1,91 @@
+import { RepositoryHost, RepositoryLocation } from './types';
+import { hostFetch, hostJson, hostText, MAX_TREE_PAGES, trimBaseUrl } from './http';
+
+interface GitLabProject {
+  name: string;
+  description: string | null;
+  topics?: string[];
+  tag_list?: string[];
+  star_count: number;
+  forks_count: number;
+  last_activity_at: string;
+  license?: { name: string } | null;
+  // Null for an empty project
+  default_branch: string | null;
+}
+
+interface GitLabTreeItem {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+}
+
+// Projects are addressed by their URL-encoded full path, subgroups included
+const apiBase = (repo: RepositoryLocation) =>
+  `${trimBaseUrl(repo.baseUrl)}/api/v4/projects/${encodeURIComponent(`${repo.owner}/${repo.name}`)}`;
+
+const headersFor = (token?: string): Record<string, string> => token ? { 'PRIVATE-TOKEN': token } : {};
+
+/**
+ * gitlab.com and self-managed GitLab (REST API v4).
+ */
+export const gitLabHost: RepositoryHost = {
+  id: 'gitlab',
+  label: 'GitLab',
+  defaultBaseUrl: 'https://gitlab.com',
+  selfHosted: true,
+  tokenHint: 'User settings → Access tokens, with the read_api scope',
+
+  // /group/subgroup/name or /group/name/-/tree/<ref>; "-" separates the project path
+  parsePath: (segments) => {
+    const separator = segments.indexOf('-');
+    const projectPath = separator === -1 ? segments : segments.slice(0, separator);
+    if (projectPath.length < 2) return null;
+
+    const [view, ...ref] = separator === -1 ? [] : segments.slice(separator + 1);
+    return {
+      owner: projectPath.slice(0, -1).join('/'),
+      name: projectPath[projectPath.length - 1],
+      ref: (view === 'tree' || view === 'commit') && ref.length > 0 ? ref.join('/') : undefined,
+    };
+  },
+
+  async getMetadata(repo, token) {
+    const [project, languages] = await Promise.all([
+      hostJson<GitLabProject>(`${apiBase(repo)}?license=true`, headersFor(token)),
+      // Percentages per language
+      hostJson<Record<string, number>>(`${apiBase(repo)}/languages`, headersFor(token)).catch(() => ({})),
+    ]);
+    return {
+      name: project.name,
+      description: project.description || undefined,
+      language: Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0],
+      topics: project.topics ?? project.tag_list ?? [],
+      stars: project.star_count,
+      forks: project.forks_count,
+      lastUpdated: project.last_activity_at,
+      license: project.license?.name,
+      defaultBranch: project.default_branch ?? 'main',
+    };
+  },
+
+  async getTree(repo, ref, token) {
+    const paths: string[] = [];
+    let page = '1';
+    for (let count = 0; page && count < MAX_TREE_PAGES; count++) {
+      const response = await hostFetch(
+        `${apiBase(repo)}/repository/tree?recursive=true&per_page=100&page=${page}&ref=${encodeURIComponent(ref)}`,
+        headersFor(token)
+      );
+      const items: GitLabTreeItem[] = await response.json();
+      paths.push(...items.filter(item => item.type === 'blob').map(item => item.path));
+      // Empty on the last page
+      page = response.headers.get('x-next-page') ?? '';
+    }
+    return paths;
+  },
+
+  getFileContent: (repo, ref, path, token) => hostText(
+    `${apiBase(repo)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`,
+    headersFor(token)
+  ),
+};
@@ -0,0 +1,63 @@
+export type RepositoryHostErrorKind = 'not_found' | 'auth' | 'rate_limit' | 'network' | 'unknown';
+
+const USER_MESSAGES: Record<RepositoryHostErrorKind, string> = {
+  not_found: 'Repository or ref not found. Check the URL and ref; private repositories also need an access token.',
+  auth: 'The Git host rejected the access token, or it cannot read this repository.',
+  rate_limit: 'The Git host\'s API rate limit was reached. Add an access token or try again later.',
+  network: 'Could not reach the Git host. Check the base URL; self-hosted servers must also allow cross-origin requests from this site.',
+  unknown: 'The Git host returned an unexpected error. Please try again.',
+};
+
+/**
+ * Git host API failure with a user-facing `message`.
+ */
+export class RepositoryHostError extends Error {
+  kind: RepositoryHostErrorKind;
+  status?: number;
+
+  constructor(kind: RepositoryHostErrorKind, details: { status?: number; message?: string } = {}) {
+    super(details.message ?? USER_MESSAGES[kind]);
+    this.name = 'RepositoryHostError';
+    this.kind = kind;
+    this.status = details.status;
+  }
+}
+
+// Most hosts cap the number of tree entries per page; larger trees are cut off
+export const MAX_TREE_PAGES = 50;
+
+export const trimBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+// Encodes each segment of a file path or ref, keeping the slashes
+export const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+const errorKindOf = (response: Response): RepositoryHostErrorKind => {
+  if (response.status === 429 || response.headers.get('x-ratelimit-remaining') === '0') return 'rate_limit';
+  if (response.status === 401 || response.status === 403) return 'auth';
+  if (response.status === 404) return 'not_found';
+  return 'unknown';
+};
+
+export async function hostFetch(url: string, headers: Record<string, string> = {}): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers });
+  } catch (error) {
+    // CORS rejections and unreachable hosts look the same from the browser
+    console.error('Error contacting Git host:', error);
+    throw new RepositoryHostError('network');
+  }
+
+  if (!response.ok) {
+    throw new RepositoryHostError(errorKindOf(response), { status: response.status });
+  }
+  return response;
+}
+
+export async function hostJson<T>(url: string, headers: Record<string, string> = {}): Promise<T> {
+  return (await hostFetch(url, headers)).json();
+}
+
+export async function hostText(url: string, headers: Record<string, string> = {}): Promise<string> {
+  return (await hostFetch(url, headers)).text();
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { detectRepositoryHost, parseRepositoryUrl } from './index';
+
+describe('detectRepositoryHost', () => {
+  it.each([
+    ['https://github.com/acme/shop', 'github'],
+    ['https://www.gitlab.com/acme/shop', 'gitlab'],
+    ['https://bitbucket.org/acme/shop', 'bitbucket'],
+    ['https://codeberg.org/acme/shop', 'gitea'],
+    ['https://gitlab.example.com/acme/shop', 'gitlab'],
+    ['https://bitbucket.example.com/projects/ACME/repos/shop', 'bitbucket-server'],
+    ['git@github.com:acme/shop.git', 'github'],
+  ])('recognises %s', (url, host) => {
+    expect(detectRepositoryHost(url)).toBe(host);
+  });
+
+  it('gives no host for an unknown or invalid URL', () => {
+    expect(detectRepositoryHost('https://git.example.com/acme/shop')).toBeUndefined();
+    expect(detectRepositoryHost('not a url')).toBeUndefined();
+  });
+});
+
+describe('parseRepositoryUrl', () => {
+  it('reads GitHub repositories, refs with slashes and clone URLs', () => {
+    expect(parseRepositoryUrl('https://github.com/acme/shop/tree/feature/checkout?tab=readme'))
+      .toEqual({ host: 'github', baseUrl: 'https://github.com', owner: 'acme', name: 'shop', ref: 'feature/checkout' });
+    expect(parseRepositoryUrl('https://github.com/acme/shop.git'))
+      .toEqual({ host: 'github', baseUrl: 'https://github.com', owner: 'acme', name: 'shop', ref: undefined });
+    expect(parseRepositoryUrl('git@github.com:acme/shop.git'))
+      .toMatchObject({ owner: 'acme', name: 'shop' });
+    expect(parseRepositoryUrl('https://github.com/acme/shop/blob/main/README.md'))
+      .toMatchObject({ name: 'shop', ref: undefined });
+  });
+
+  it('reads GitLab subgroups and the ref after the "-" separator', () => {
+    expect(parseRepositoryUrl('https://gitlab.com/acme/platform/shop/-/tree/v1.2.0'))
+      .toEqual({ host: 'gitlab', baseUrl: 'https://gitlab.com', owner: 'acme/platform', name: 'shop', ref: 'v1.2.0' });
+    expect(parseRepositoryUrl('https://gitlab.com/shop')).toBeNull();
+  });
+
+  it('keeps a configured base URL with a sub-path', () => {
+    expect(parseRepositoryUrl('https://example.com/gitlab/acme/shop', { host: 'gitlab', baseUrl: 'https://example.com/gitlab/' }))
+      .toEqual({ host: 'gitlab', baseUrl: 'https://example.com/gitlab', owner: 'acme', name: 'shop', ref: undefined });
+  });
+
+  it('decodes percent-encoded segments', () => {
+    expect(parseRepositoryUrl('https://github.com/acme/shop/tree/fix%2Fcart'))
+      .toMatchObject({ ref: 'fix/cart' });
+  });
+
+  it('reads Bitbucket Cloud source refs', () => {
+    expect(parseRepositoryUrl('https://bitbucket.org/acme/shop/src/develop/'))
+      .toEqual({ host: 'bitbucket', baseUrl: 'https://bitbucket.org', owner: 'acme', name: 'shop', ref: 'develop' });
+  });
+
+  it('reads Bitbucket Server projects, personal repositories and clone URLs', () => {
+    const options = { host: 'bitbucket-server' as const };
+
+    expect(parseRepositoryUrl('https://git.example.com/projects/ACME/repos/shop/browse?at=refs%2Fheads%2Frelease', options))
+      .toMatchObject({ owner: 'ACME', name: 'shop', ref: 'release' });
+    expect(parseRepositoryUrl('https://git.example.com/users/jo/repos/notes', options))
+      .toMatchObject({ owner: '~jo', name: 'notes' });
+    expect(parseRepositoryUrl('https://git.example.com/scm/ACME/shop.git', options))
+      .toMatchObject({ owner: 'ACME', name: 'shop' });
+    expect(parseRepositoryUrl('https://git.example.com/ACME/shop', options)).toBeNull();
+  });
+
+  it('reads Gitea branch, tag and commit views', () => {
+    expect(parseRepositoryUrl('https://codeberg.org/acme/shop/src/branch/release/2.x'))
+      .toEqual({ host: 'gitea', baseUrl: 'https://codeberg.org', owner: 'acme', name: 'shop', ref: 'release/2.x' });
+    expect(parseRepositoryUrl('https://codeberg.org/acme/shop/src/tag/v2.0.0'))
+      .toMatchObject({ ref: 'v2.0.0' });
+  });
+
+  it('rejects URLs it cannot place', () => {
+    expect(parseRepositoryUrl('ftp://github.com/acme/shop')).toBeNull();
+    expect(parseRepositoryUrl('https://git.example.com/acme/shop')).toBeNull();
+    expect(parseRepositoryUrl('https://github.com/acme')).toBeNull();
+  });
+});
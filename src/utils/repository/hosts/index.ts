@@ -0,0 +1,97 @@
+import { RepositoryHost, RepositoryHostId, RepositoryLocation } from './types';
+import { trimBaseUrl } from './http';
+import { gitHubHost } from './github';
+import { gitLabHost } from './gitlab';
+import { bitbucketHost } from './bitbucket';
+import { bitbucketServerHost } from './bitbucketServer';
+import { giteaHost } from './gitea';
+
+export type { RepositoryHost, RepositoryHostId, RepositoryLocation, RepositoryMetadata } from './types';
+export { RepositoryHostError } from './http';
+
+const hosts: Record<RepositoryHostId, RepositoryHost> = {
+  'github': gitHubHost,
+  'gitlab': gitLabHost,
+  'bitbucket': bitbucketHost,
+  'bitbucket-server': bitbucketServerHost,
+  'gitea': giteaHost,
+};
+
+export const REPOSITORY_HOSTS: RepositoryHost[] = Object.values(hosts);
+
+export function getRepositoryHost(id: RepositoryHostId): RepositoryHost {
+  return hosts[id];
+}
+
+// Well-known public instances; Codeberg runs Forgejo, which speaks the Gitea API
+const KNOWN_HOSTNAMES: Record<string, RepositoryHostId> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+  'gitea.com': 'gitea',
+  'codeberg.org': 'gitea',
+};
+
+// Self-hosted instances often have the product in their hostname, e.g. gitlab.example.com
+const HOSTNAME_HINTS: [RegExp, RepositoryHostId][] = [
+  [/gitlab/, 'gitlab'],
+  [/gitea|forgejo/, 'gitea'],
+  [/bitbucket/, 'bitbucket-server'],
+  [/github/, 'github'],
+];
+
+// Turns SSH clone URLs (git@host:owner/name.git) into web URLs
+const toWebUrl = (url: string) => {
+  const ssh = url.trim().match(/^(?:ssh:\/\/)?git@([^:/]+)[:/](.+)$/);
+  return ssh ? `https://${ssh[1]}/${ssh[2]}` : url.trim();
+};
+
+/**
+ * Guesses the kind of host from a repository URL. Returns undefined for
+ * self-hosted instances that give no hint; the user picks the host then.
+ */
+export function detectRepositoryHost(url: string): RepositoryHostId | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(toWebUrl(url)).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+  return KNOWN_HOSTNAMES[hostname] ?? HOSTNAME_HINTS.find(([pattern]) => pattern.test(hostname))?.[1];
+}
+
+/**
+ * Reads the owner, name and ref from a repository URL: the web page (any
+ * branch, tag or commit view) or a clone URL. `baseUrl` is only needed when
+ * the host is served from a sub-path, e.g. https://example.com/gitlab.
+ */
+export function parseRepositoryUrl(
+  url: string,
+  options: { host?: RepositoryHostId; baseUrl?: string } = {}
+): RepositoryLocation | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(toWebUrl(url));
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+
+  const hostId = options.host ?? detectRepositoryHost(url);
+  if (!hostId) return null;
+
+  const configuredBase = options.baseUrl ? trimBaseUrl(options.baseUrl) : '';
+  const withoutQuery = `${parsed.origin}${parsed.pathname}`;
+  const baseUrl = configuredBase && withoutQuery.startsWith(`${configuredBase}/`) ? configuredBase : parsed.origin;
+  const segments = withoutQuery
+    .slice(baseUrl.length)
+    .split('/')
+    .filter(Boolean)
+    .map(segment => decodeURIComponent(segment));
+  if (segments.length > 0) {
+    segments[segments.length - 1] = segments[segments.length - 1].replace(/\.git$/, '');
+  }
+
+  const path = getRepositoryHost(hostId).parsePath(segments, parsed.searchParams);
+  return path ? { host: hostId, baseUrl, ...path } : null;
+}
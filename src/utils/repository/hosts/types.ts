@@ -0,0 +1,55 @@
+export type RepositoryHostId = 'github' | 'gitlab' | 'bitbucket' | 'bitbucket-server' | 'gitea';
+
+/**
+ * A repository on a Git host. `baseUrl` is the web address of the host
+ * (e.g. https://gitlab.example.com); each adapter derives its API from it.
+ */
+export interface RepositoryLocation {
+  host: RepositoryHostId;
+  baseUrl: string;
+  // User, organisation, group path (GitLab subgroups included), workspace or project key
+  owner: string;
+  name: string;
+  // Branch, tag or commit; the default branch when empty
+  ref?: string;
+}
+
+export interface RepositoryMetadata {
+  name: string;
+  description?: string;
+  language?: string;
+  topics: string[];
+  stars?: number;
+  forks?: number;
+  lastUpdated?: string;
+  license?: string;
+  defaultBranch: string;
+}
+
+// Owner, name and ref read from the path of a repository page or clone URL
+export interface RepositoryPath {
+  owner: string;
+  name: string;
+  ref?: string;
+}
+
+/**
+ * Adapter for the REST API of one kind of Git host. `token` is a personal
+ * access token and is optional for public repositories.
+ */
+export interface RepositoryHost {
+  id: RepositoryHostId;
+  label: string;
+  // Web address of the hosted service; self-hosted-only products have none
+  defaultBaseUrl?: string;
+  // Whether instances can run on their own domain (GitHub Enterprise, self-managed GitLab, ...)
+  selfHosted: boolean;
+  // Where to create a token with read access, shown next to the token field
+  tokenHint: string;
+  // `segments` are the URL path segments after the base URL
+  parsePath: (segments: string[], searchParams: URLSearchParams) => RepositoryPath | null;
+  getMetadata: (repo: RepositoryLocation, token?: string) => Promise<RepositoryMetadata>;
+  // Every file (not directory) path at `ref`
+  getTree: (repo: RepositoryLocation, ref: string, token?: string) => Promise<string[]>;
+  getFileContent: (repo: RepositoryLocation, ref: string, path: string, token?: string) => Promise<string>;
+}
@@ -0,0 +1,18 @@
+export type { RepoFile, RepositorySnapshot } from './analysis';
+export {
+  buildRepositoryAnalysis,
+  detectLanguage,
+  isImportantFile,
+  MAX_ANALYZED_FILES,
+  selectImportantFiles,
+} from './analysis';
+export { readLocalFolder, readZipArchive } from './local';
+export { readRemoteRepository } from './remote';
+export type { RepositoryHost, RepositoryHostId, RepositoryLocation, RepositoryMetadata } from './hosts';
+export {
+  detectRepositoryHost,
+  getRepositoryHost,
+  parseRepositoryUrl,
+  REPOSITORY_HOSTS,
+  RepositoryHostError,
+} from './hosts';
@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { readLocalFolder, readZipArchive } from './local';
+
+const zipOf = (files: Record<string, string>, name = 'project.zip') => {
+  const zip = zipSync(Object.fromEntries(Object.entries(files).map(([path, content]) => [path, strToU8(content)])));
+  return new File([new Uint8Array(zip)], name);
+};
+
+// Files from a directory picker carry their path below the chosen folder
+const pickedFile = (path: string, content: string) => {
+  const file = new File([content], path.split('/').pop()!);
+  Object.defineProperty(file, 'webkitRelativePath', { value: path });
+  return file;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('readZipArchive', () => {
+  it('strips the directory that wraps every entry and names the project after it', async () => {
+    const snapshot = await readZipArchive(zipOf({
+      'shop-main/README.md': '# Shop',
+      'shop-main/src/index.ts': 'export {};',
+    }, 'download.zip'));
+
+    expect(snapshot.name).toBe('shop-main');
+    expect(snapshot.source).toBe('Zip archive');
+    expect(snapshot.fileStructure).toEqual(['README.md', 'src/index.ts']);
+    expect(snapshot.analyzedFiles).toEqual([
+      { path: 'README.md', content: '# Shop' },
+      { path: 'src/index.ts', content: 'export {};' },
+    ]);
+  });
+
+  it('keeps the paths and uses the file name when there is no common root', async () => {
+    const snapshot = await readZipArchive(zipOf({
+      'README.md': '# Shop',
+      'src/index.ts': 'export {};',
+    }, 'shop.zip'));
+
+    expect(snapshot.name).toBe('shop');
+    expect(snapshot.fileStructure).toEqual(['README.md', 'src/index.ts']);
+  });
+
+  it('does not treat a shared file name prefix as a root directory', async () => {
+    const snapshot = await readZipArchive(zipOf({
+      'src/index.ts': 'export {};',
+      'src-legacy/index.ts': 'export {};',
+    }));
+
+    expect(snapshot.fileStructure).toEqual(['src-legacy/index.ts', 'src/index.ts']);
+  });
+
+  it('reads files on demand by their stripped path', async () => {
+    const snapshot = await readZipArchive(zipOf({
+      'shop-main/lib/util.rb': 'module Util; end',
+      'shop-main/Gemfile': 'source "https://rubygems.org"',
+    }));
+
+    expect(await snapshot.readFiles(['lib/util.rb', 'missing.rb'])).toEqual([
+      { path: 'lib/util.rb', content: 'module Util; end' },
+      { path: 'missing.rb', content: '' },
+    ]);
+  });
+
+  it('uses the name and description from package.json', async () => {
+    const snapshot = await readZipArchive(zipOf({
+      'package.json': JSON.stringify({ name: 'shop', description: 'An online shop', license: 'MIT', keywords: ['retail', 3] }),
+    }));
+
+    expect(snapshot).toMatchObject({ name: 'shop', description: 'An online shop', license: 'MIT', topics: ['retail'] });
+  });
+
+  it('rejects a file that is not a zip archive', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(readZipArchive(new File(['not a zip'], 'broken.zip'))).rejects.toThrow('The file is not a valid zip archive.');
+  });
+
+  it('rejects an empty archive', async () => {
+    await expect(readZipArchive(zipOf({}))).rejects.toThrow('No files found.');
+  });
+});
+
+describe('.gitignore rules', () => {
+  const structureOf = async (files: Record<string, string>) =>
+    (await readZipArchive(zipOf(files))).fileStructure;
+
+  it('applies patterns with negations', async () => {
+    expect(await structureOf({
+      '.gitignore': '*.log\n!keep.log\n',
+      'debug.log': '',
+      'keep.log': '',
+      'logs/server.log': '',
+      'app.ts': '',
+    })).toEqual(['.gitignore', 'app.ts', 'keep.log']);
+  });
+
+  it('ignores everything below a directory rule, but not files with that name', async () => {
+    expect(await structureOf({
+      '.gitignore': 'build/\n',
+      'build/out.js': '',
+      'src/build/generated.ts': '',
+      'src/build': '',
+    })).toEqual(['.gitignore', 'src/build']);
+  });
+
+  it('anchors patterns with a leading slash to the directory of the .gitignore', async () => {
+    expect(await structureOf({
+      '.gitignore': '/config.json\n',
+      'config.json': '',
+      'packages/api/config.json': '',
+    })).toEqual(['.gitignore', 'packages/api/config.json']);
+  });
+
+  it('applies a nested .gitignore only inside its directory', async () => {
+    expect(await structureOf({
+      'packages/web/.gitignore': '*.snap\n/dist\n',
+      'packages/web/App.snap': '',
+      'packages/web/dist/app.js': '',
+      'packages/web/src/App.tsx': '',
+      'packages/api/Api.snap': '',
+      'dist/cli.js': '',
+    })).toEqual(['dist/cli.js', 'packages/api/Api.snap', 'packages/web/.gitignore', 'packages/web/src/App.tsx']);
+  });
+
+  it('lets a nested .gitignore re-include what an outer one ignores', async () => {
+    expect(await structureOf({
+      '.gitignore': '*.env\n',
+      'local.env': '',
+      'examples/.gitignore': '!example.env\n',
+      'examples/example.env': '',
+      'examples/secret.env': '',
+    })).toEqual(['.gitignore', 'examples/.gitignore', 'examples/example.env']);
+  });
+
+  it('reads the .gitignore below the stripped root directory', async () => {
+    expect(await structureOf({
+      'shop-main/.gitignore': 'coverage\n',
+      'shop-main/coverage/index.html': '',
+      'shop-main/src/index.ts': '',
+    })).toEqual(['.gitignore', 'src/index.ts']);
+  });
+
+  it('always leaves out .git and node_modules', async () => {
+    expect(await structureOf({
+      '.git/HEAD': 'ref: refs/heads/main',
+      'node_modules/.gitignore': '!*\n',
+      'node_modules/left-pad/index.js': '',
+      'packages/web/node_modules/react/index.js': '',
+      'index.js': '',
+    })).toEqual(['index.js']);
+  });
+});
+
+describe('readLocalFolder', () => {
+  it('strips the chosen folder from the paths and names the project after it', async () => {
+    const snapshot = await readLocalFolder([
+      pickedFile('shop/README.md', '# Shop'),
+      pickedFile('shop/.gitignore', 'tmp/\n'),
+      pickedFile('shop/tmp/cache.json', '{}'),
+      pickedFile('shop/src/main.py', 'print("hi")'),
+    ]);
+
+    expect(snapshot.name).toBe('shop');
+    expect(snapshot.source).toBe('Local folder');
+    expect(snapshot.language).toBe('Python');
+    expect(snapshot.fileStructure).toEqual(['.gitignore', 'README.md', 'src/main.py']);
+    expect(snapshot.analyzedFiles).toContainEqual({ path: 'src/main.py', content: 'print("hi")' });
+  });
+
+  it('normalises Windows path separators', async () => {
+    const snapshot = await readLocalFolder([
+      pickedFile('shop\\src\\index.ts', ''),
+      pickedFile('shop\\README.md', ''),
+    ]);
+
+    expect(snapshot.fileStructure).toEqual(['README.md', 'src/index.ts']);
+  });
+});
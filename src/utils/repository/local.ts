@@ -0,0 +1,172 @@
+import ignore, { Ignore } from 'ignore';
+import { strFromU8, unzipSync } from 'fflate';
+import { detectLanguage, isImportantFile, MAX_ANALYZED_FILES, RepositorySnapshot } from './analysis';
+
+// Larger files are listed but not read; they are rarely hand-written source
+const MAX_FILE_BYTES = 512 * 1024;
+
+// Never part of the tree, whether or not a .gitignore says so
+const ALWAYS_IGNORED = /(^|\/)(\.git|node_modules)\//;
+
+interface TreeEntry {
+  // Relative to the repository root, with forward slashes
+  path: string;
+  size: number;
+}
+
+interface SourceTree {
+  name: string;
+  source: string;
+  entries: TreeEntry[];
+  readFiles: (paths: string[]) => Promise<Map<string, string>>;
+  lastUpdated?: string;
+}
+
+/**
+ * The .gitignore files of a tree. Each file's patterns apply to the
+ * directory it is in, like git does.
+ */
+class GitignoreRules {
+  private readonly rules: { base: string; matcher: Ignore }[] = [];
+
+  add(gitignorePath: string, content: string) {
+    this.rules.push({ base: gitignorePath.slice(0, -'.gitignore'.length), matcher: ignore().add(content) });
+  }
+
+  ignores(path: string): boolean {
+    if (ALWAYS_IGNORED.test(path)) return true;
+    // Rules are added outer first; as in git, a deeper file can re-include what an outer one ignores
+    let ignored = false;
+    for (const { base, matcher } of this.rules) {
+      if (!path.startsWith(base)) continue;
+      const result = matcher.test(path.slice(base.length));
+      if (result.ignored) ignored = true;
+      else if (result.unignored) ignored = false;
+    }
+    return ignored;
+  }
+}
+
+const isGitignore = (path: string) => path === '.gitignore' || path.endsWith('/.gitignore');
+
+// Archives and folder uploads usually wrap everything in one top-level directory
+function stripCommonRoot(paths: string[]): { root?: string; strip: (path: string) => string } {
+  const first = paths[0]?.split('/')[0];
+  const wrapped = first && paths.every(path => path.startsWith(`${first}/`));
+  return wrapped
+    ? { root: first, strip: path => path.slice(first.length + 1) }
+    : { strip: path => path };
+}
+
+async function snapshotOf(tree: SourceTree): Promise<RepositorySnapshot> {
+  if (tree.entries.length === 0) {
+    throw new Error('No files found. Choose a folder or archive that contains the project.');
+  }
+
+  const rules = new GitignoreRules();
+  const gitignores = tree.entries.map(entry => entry.path).filter(path => isGitignore(path) && !ALWAYS_IGNORED.test(path));
+  const gitignoreContents = await tree.readFiles(gitignores);
+  // Outer rules first, so the order matches how git reads them
+  gitignores
+    .sort((a, b) => a.split('/').length - b.split('/').length)
+    .forEach(path => rules.add(path, gitignoreContents.get(path) ?? ''));
+
+  const kept = tree.entries
+    .filter(entry => !rules.ignores(entry.path))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  const fileStructure = kept.map(entry => entry.path);
+  const important = kept
+    .filter(entry => entry.size <= MAX_FILE_BYTES && isImportantFile(entry.path))
+    .slice(0, MAX_ANALYZED_FILES)
+    .map(entry => entry.path);
+  const contents = await tree.readFiles(important);
+  const analyzedFiles = important.map(path => ({ path, content: contents.get(path) ?? '' }));
+
+  // Without hosting metadata, the package manifest is the best description
+  let manifest: { name?: unknown; description?: unknown; license?: unknown; keywords?: unknown } = {};
+  try {
+    const packageJson = analyzedFiles.find(file => file.path === 'package.json');
+    manifest = packageJson ? JSON.parse(packageJson.content) : {};
+  } catch (error) {
+    console.error('Error parsing package.json:', error);
+  }
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+  return {
+    name: text(manifest.name) ?? tree.name,
+    source: tree.source,
+    description: text(manifest.description),
+    language: detectLanguage(fileStructure),
+    topics: Array.isArray(manifest.keywords) ? manifest.keywords.filter(keyword => typeof keyword === 'string') : [],
+    lastUpdated: tree.lastUpdated,
+    license: text(manifest.license),
+    fileStructure,
+    analyzedFiles,
+    readFiles: async paths => {
+      const contents = await tree.readFiles(paths);
+      return paths.map(path => ({ path, content: contents.get(path) ?? '' }));
+    },
+  };
+}
+
+/**
+ * Reads a folder chosen with a directory picker (`<input webkitdirectory>`).
+ * Nothing is uploaded; the files are read in the browser.
+ */
+export async function readLocalFolder(files: File[]): Promise<RepositorySnapshot> {
+  const relativePaths = files.map(file => (file.webkitRelativePath || file.name).replace(/\\/g, '/'));
+  const { root, strip } = stripCommonRoot(relativePaths);
+  const filesByPath = new Map(files.map((file, index) => [strip(relativePaths[index]), file]));
+  const lastModified = Math.max(0, ...files.map(file => file.lastModified || 0));
+
+  return snapshotOf({
+    name: root ?? 'project',
+    source: 'Local folder',
+    entries: [...filesByPath.entries()].map(([path, file]) => ({ path, size: file.size })),
+    readFiles: async paths => new Map(await Promise.all(
+      paths.map(async path => [path, await filesByPath.get(path)?.text() ?? ''] as const))),
+    lastUpdated: lastModified > 0 ? new Date(lastModified).toISOString() : undefined,
+  });
+}
+
+/**
+ * Reads a .zip archive of a project, e.g. a repository downloaded from a
+ * Git host. Only the files that are analysed are decompressed.
+ */
+export async function readZipArchive(file: File): Promise<RepositorySnapshot> {
+  const data = new Uint8Array(await file.arrayBuffer());
+
+  const entries: TreeEntry[] = [];
+  try {
+    // Listing pass: the filter sees every entry, and rejecting it skips decompression
+    unzipSync(data, {
+      filter: entry => {
+        if (!entry.name.endsWith('/')) {
+          entries.push({ path: entry.name, size: entry.originalSize });
+        }
+        return false;
+      },
+    });
+  } catch (error) {
+    console.error('Error reading zip archive:', error);
+    throw new Error('The file is not a valid zip archive.');
+  }
+
+  const { root, strip } = stripCommonRoot(entries.map(entry => entry.path));
+  const archivePaths = new Map(entries.map(entry => [strip(entry.path), entry.path]));
+
+  return snapshotOf({
+    name: root ?? file.name.replace(/\.zip$/i, ''),
+    source: 'Zip archive',
+    entries: entries.map(entry => ({ ...entry, path: strip(entry.path) })),
+    readFiles: async paths => {
+      const wanted = new Set(paths.map(path => archivePaths.get(path)));
+      const extracted = unzipSync(data, { filter: entry => wanted.has(entry.name) });
+      return new Map(paths.map(path => {
+        const bytes = extracted[archivePaths.get(path)];
+        return [path, bytes ? strFromU8(bytes) : ''] as const;
+      }));
+    },
+    lastUpdated: file.lastModified ? new Date(file.lastModified).toISOString() : undefined,
+  });
+}
@@ -0,0 +1,45 @@
+import { detectLanguage, RepositorySnapshot, selectImportantFiles } from './analysis';
+import { getRepositoryHost, RepositoryLocation } from './hosts';
+
+/**
+ * Reads a repository from its Git host: metadata, the file tree at the
+ * requested ref (the default branch when none is given) and the contents
+ * of the important files. Files that fail to load are left out.
+ */
+export async function readRemoteRepository(repo: RepositoryLocation, token?: string): Promise<RepositorySnapshot> {
+  const host = getRepositoryHost(repo.host);
+  const metadata = await host.getMetadata(repo, token);
+  const ref = repo.ref?.trim() || metadata.defaultBranch;
+
+  const fileStructure = await host.getTree(repo, ref, token);
+  if (fileStructure.length === 0) {
+    throw new Error(`No files found at ${ref}.`);
+  }
+
+  const readFiles = async (paths: string[]) => {
+    const contents = await Promise.all(paths.map(async path => {
+      try {
+        return { path, content: await host.getFileContent(repo, ref, path, token) };
+      } catch (error) {
+        console.error(`Error reading ${path}:`, error);
+        return null;
+      }
+    }));
+    return contents.filter(file => file !== null);
+  };
+
+  return {
+    name: metadata.name,
+    source: ref === metadata.defaultBranch ? host.label : `${host.label} (${ref})`,
+    description: metadata.description,
+    language: metadata.language ?? detectLanguage(fileStructure),
+    topics: metadata.topics,
+    stars: metadata.stars,
+    forks: metadata.forks,
+    lastUpdated: metadata.lastUpdated,
+    license: metadata.license,
+    fileStructure,
+    analyzedFiles: await readFiles(selectImportantFiles(fileStructure)),
+    readFiles,
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { extractCLikeSymbols } from './clike';
+import { publicSymbols } from './index';
+
+const memberNames = (code: string, language: 'java' | 'csharp') =>
+  publicSymbols(extractCLikeSymbols(code, language))[0].children.map(child => child.name);
+
+describe('extractCLikeSymbols', () => {
+  it('lists only public and protected Java members', () => {
+    const code = `public class Account {
+  public int balance() { return 0; }
+  protected void audit() {}
+  void reconcile() {}
+  private void lock() {}
+  static String owner;
+}`;
+
+    expect(memberNames(code, 'java')).toEqual(['balance', 'audit']);
+  });
+
+  it('treats C# internal and unmarked members as non-public', () => {
+    const code = `public class Account
+{
+    public decimal Balance { get; set; }
+    protected internal void Audit() {}
+    internal void Reconcile() {}
+    private protected void Lock() {}
+    void Close() {}
+}`;
+
+    expect(memberNames(code, 'csharp')).toEqual(['Balance', 'Audit']);
+  });
+
+  it('lists every member of an interface', () => {
+    const code = `public interface Repository {
+  Item find(String id);
+  void save(Item item);
+}`;
+
+    expect(memberNames(code, 'java')).toEqual(['find', 'save']);
+  });
+
+  it('keeps the Javadoc, parameters and return type of a method', () => {
+    const code = `public class Mapper {
+  /**
+   * Maps a value.
+   */
+  public <T> List<T> map(final T value, String... keys) { return null; }
+}`;
+
+    const [method] = publicSymbols(extractCLikeSymbols(code, 'java'))[0].children;
+    expect(method.docComment).toBe('Maps a value.');
+    expect(method.docCommentLines).toEqual({ start: 2, end: 4 });
+    expect(method.returnType).toBe('List<T>');
+    expect(method.params).toEqual([
+      { name: 'value', type: 'T', optional: false, defaultValue: undefined, rest: undefined },
+      { name: 'keys', type: 'String...', optional: true, defaultValue: undefined, rest: true },
+    ]);
+  });
+
+  it('only exports the public top-level types', () => {
+    const code = `public class Api {}
+class Helper {}`;
+
+    expect(publicSymbols(extractCLikeSymbols(code, 'java')).map(symbol => symbol.name)).toEqual(['Api']);
+  });
+});
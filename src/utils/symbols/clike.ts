@@ -0,0 +1,355 @@
+import { CodeSymbol, SymbolInventory, SymbolParameter } from './types';
+import { collapseWhitespace, indentOf, lineAt, ownLines, splitTopLevel } from './text';
+
+type CLikeLanguage = 'java' | 'csharp';
+
+interface DocComment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface MaskedSource {
+  // The source with comments and string contents replaced by spaces, so
+  // braces and parentheses can be matched without a full tokenizer
+  masked: string;
+  docComments: DocComment[];
+}
+
+const stripJavadoc = (comment: string) => comment
+  .replace(/^\/\*\*\s?/, '')
+  .replace(/\s*\*\/$/, '')
+  .split('\n')
+  .map(line => line.replace(/^\s*\*\s?/, ''))
+  .join('\n')
+  .trim();
+
+const stripXmlDoc = (comment: string) => comment
+  .split('\n')
+  .map(line => line.replace(/^\s*\/\/\/\s?/, ''))
+  .join('\n')
+  .trim();
+
+function maskSource(code: string, language: CLikeLanguage): MaskedSource {
+  const chars = code.split('');
+  const docComments: DocComment[] = [];
+  const blank = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      if (chars[i] !== '\n') chars[i] = ' ';
+    }
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    if (code.startsWith('//', i)) {
+      const end = code.indexOf('\n', i) === -1 ? code.length : code.indexOf('\n', i);
+      if (language === 'csharp' && code.startsWith('///', i)) {
+        // Consecutive /// lines form one comment
+        const previous = docComments[docComments.length - 1];
+        if (previous && /^\s*$/.test(code.slice(previous.end, i)) && previous.text.startsWith('///')) {
+          previous.end = end;
+          previous.text = code.slice(previous.start, end);
+        } else {
+          docComments.push({ start: i, end, text: code.slice(i, end) });
+        }
+      }
+      blank(i, end);
+      i = end;
+    } else if (code.startsWith('/*', i)) {
+      const close = code.indexOf('*/', i + 2);
+      const end = close === -1 ? code.length : close + 2;
+      if (language === 'java' && code.startsWith('/**', i) && !code.startsWith('/**/', i)) {
+        docComments.push({ start: i, end, text: code.slice(i, end) });
+      }
+      blank(i, end);
+      i = end;
+    } else if (code.startsWith('"""', i)) {
+      // Java text blocks and C# raw string literals
+      const close = code.indexOf('"""', i + 3);
+      const end = close === -1 ? code.length : close + 3;
+      blank(i + 1, end - 1);
+      i = end;
+    } else if (language === 'csharp' && /^(@\$|\$@|@)"/.test(code.slice(i, i + 3))) {
+      // Verbatim strings escape quotes by doubling them
+      let end = code.indexOf('"', i) + 1;
+      while (end < code.length && !(code[end] === '"' && code[end + 1] !== '"')) {
+        end += code[end] === '"' ? 2 : 1;
+      }
+      blank(i + 1, end);
+      i = end + 1;
+    } else if (code[i] === '"' || code[i] === '\'') {
+      const quote = code[i];
+      let end = i + 1;
+      while (end < code.length && code[end] !== quote && code[end] !== '\n') {
+        end += code[end] === '\\' ? 2 : 1;
+      }
+      blank(i + 1, end);
+      i = end + 1;
+    } else {
+      i++;
+    }
+  }
+  return { masked: chars.join(''), docComments };
+}
+
+/**
+ * Index of the bracket that closes the one at `open`, or -1.
+ */
+function matchingBracket(masked: string, open: number): number {
+  const openChar = masked[open];
+  const closeChar = openChar === '{' ? '}' : openChar === '(' ? ')' : ']';
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    if (masked[i] === openChar) depth++;
+    if (masked[i] === closeChar && --depth === 0) return i;
+  }
+  return -1;
+}
+
+const MODIFIERS = new Set([
+  'public', 'private', 'protected', 'internal', 'static', 'final', 'abstract', 'synchronized',
+  'native', 'default', 'virtual', 'override', 'sealed', 'async', 'extern', 'unsafe', 'new',
+  'partial', 'readonly', 'strictfp', 'transient', 'volatile', 'const', 'required', 'non-sealed',
+]);
+
+const TYPE_PATTERN = /(?:^|\s)(class|interface|enum|record|struct)\s+(\w+)/;
+
+interface Header {
+  text: string;
+  // Offset of the declaration, after leading attributes and annotations
+  declarationStart: number;
+  // Offset of the first attribute or annotation, or of the declaration
+  start: number;
+  modifiers: string[];
+}
+
+/**
+ * Splits leading annotations (`@Override`, `@Get("/x")`) and attributes
+ * (`[HttpGet]`) off a declaration header.
+ */
+function readHeader(masked: string, code: string, from: number, to: number): Header | null {
+  let start = from;
+  while (start < to && /\s/.test(masked[start])) start++;
+  if (start >= to) return null;
+
+  let declarationStart = start;
+  for (;;) {
+    while (declarationStart < to && /\s/.test(masked[declarationStart])) declarationStart++;
+    if (masked[declarationStart] === '[') {
+      declarationStart = matchingBracket(masked, declarationStart) + 1;
+    } else if (masked[declarationStart] === '@' && !masked.startsWith('@interface', declarationStart)) {
+      const name = /^@[\w.]+\s*/.exec(masked.slice(declarationStart, to));
+      declarationStart += name ? name[0].length : 1;
+      if (masked[declarationStart] === '(') {
+        declarationStart = matchingBracket(masked, declarationStart) + 1;
+      }
+    } else {
+      break;
+    }
+    if (declarationStart <= 0) return null;
+  }
+
+  const text = code.slice(declarationStart, to).trim();
+  const modifiers = text.split(/\s+/).filter(word => MODIFIERS.has(word));
+  return { text, declarationStart, start, modifiers };
+}
+
+function parseParams(paramList: string, language: CLikeLanguage): SymbolParameter[] {
+  return splitTopLevel(paramList, ',')
+    .map(param => collapseWhitespace(param))
+    .filter(Boolean)
+    .map(param => {
+      const [declaration, defaultValue] = splitTopLevel(param, '=', 2).map(part => part.trim());
+      // Drop annotations and C# parameter modifiers; the name is the last word
+      const words = declaration
+        .replace(/@[\w.]+(\([^)]*\))?\s*/g, '')
+        .replace(/\[[^\]]*\]\s*/g, match => /^\[\s*\]/.test(match) ? match : '')
+        .replace(/^(final|this|ref|out|in|params|scoped)\s+/g, '')
+        .trim();
+      const name = /(\w+)$/.exec(words)?.[1] ?? words;
+      const type = words.slice(0, words.length - name.length).trim();
+      const rest = type.endsWith('...') || (language === 'csharp' && /^params\s/.test(declaration));
+      return {
+        name,
+        type: type || undefined,
+        optional: defaultValue !== undefined || rest,
+        defaultValue,
+        rest: rest || undefined,
+      };
+    });
+}
+
+/**
+ * Extracts types and their members from Java or C# by matching braces on
+ * the source with comments and strings masked out.
+ */
+export function extractCLikeSymbols(code: string, language: CLikeLanguage): SymbolInventory {
+  const { masked, docComments } = maskSource(code, language);
+  const diagnostics: string[] = [];
+
+  const docCommentBefore = (offset: number): Pick<CodeSymbol, 'docComment' | 'docCommentLines'> => {
+    const comment = docComments.find(candidate =>
+      candidate.end <= offset && /^\s*$/.test(code.slice(candidate.end, offset)));
+    if (!comment) return {};
+    const docComment = (language === 'java' ? stripJavadoc(comment.text) : stripXmlDoc(comment.text)) || undefined;
+    return docComment ? { docComment, docCommentLines: ownLines(code, comment.start, comment.end) } : {};
+  };
+
+  const isVisible = (modifiers: string[], inInterface: boolean) => {
+    if (modifiers.includes('private')) return false;
+    if (inInterface) return true;
+    // Without a modifier C# members are private and Java members package-private;
+    // neither those nor C# `internal` members are part of the public API
+    return modifiers.some(modifier => modifier === 'public' || modifier === 'protected');
+  };
+
+  const baseSymbol = (header: Header, end: number, name: string, kind: CodeSymbol['kind']): CodeSymbol => ({
+    name,
+    kind,
+    signature: collapseWhitespace(header.text),
+    params: [],
+    ...docCommentBefore(header.start),
+    exported: true,
+    startLine: lineAt(code, header.start),
+    endLine: lineAt(code, end),
+    indent: indentOf(code, header.start),
+    children: [],
+  });
+
+  const memberOf = (header: Header, end: number, typeName: string): CodeSymbol | null => {
+    const text = header.text.replace(/\s*=>[\s\S]*$/, '');
+    const open = text.indexOf('(');
+    const assignment = text.search(/[^=!<>]=[^=>]/);
+    if (open !== -1 && (assignment === -1 || open < assignment)) {
+      const close = matchingBracket(text, open);
+      if (close === -1) return null;
+      const before = text.slice(0, open).trim().split(/\s+/).filter(word => !MODIFIERS.has(word));
+      const name = before.pop()?.replace(/<.*$/, '');
+      if (!name || !/^\w+$/.test(name)) return null;
+      // Java generic methods declare their type parameters before the return type
+      const returnType = before.join(' ').replace(/^<[^>]*(<[^>]*>[^>]*)*>\s*/, '');
+      const isConstructor = name === typeName && !returnType;
+      return {
+        ...baseSymbol(header, end, name, isConstructor ? 'constructor' : 'method'),
+        signature: collapseWhitespace(text.replace(/\s*:\s*(base|this)\s*\([\s\S]*$/, '')),
+        params: parseParams(text.slice(open + 1, close), language),
+        returnType: isConstructor ? undefined : returnType || undefined,
+      };
+    }
+
+    const declaration = (assignment === -1 ? text : text.slice(0, assignment + 1)).trim();
+    const words = declaration.split(/\s+/).filter(word => !MODIFIERS.has(word));
+    const name = words.pop();
+    if (!name || !/^\w+$/.test(name) || words.length === 0) return null;
+    return {
+      ...baseSymbol(header, end, name, 'property'),
+      signature: collapseWhitespace(declaration),
+      type: words.join(' '),
+    };
+  };
+
+  const enumConstants = (bodyStart: number, bodyEnd: number): CodeSymbol[] => {
+    const body = masked.slice(bodyStart, bodyEnd);
+    const constantsEnd = body.search(/;/);
+    const constants = constantsEnd === -1 ? body : body.slice(0, constantsEnd);
+    const symbols: CodeSymbol[] = [];
+    let offset = bodyStart;
+    for (const part of splitTopLevel(constants, ',')) {
+      const header = readHeader(masked, code, offset, offset + part.length);
+      offset += part.length + 1;
+      const name = header && /^(\w+)/.exec(header.text)?.[1];
+      if (header && name) {
+        symbols.push({ ...baseSymbol(header, header.start + part.trim().length, name, 'property'), signature: name });
+      }
+    }
+    return symbols;
+  };
+
+  /**
+   * Reads the declarations between `from` and `to`: type bodies, namespace
+   * bodies or the file itself.
+   */
+  const parseDeclarations = (from: number, to: number, typeName: string | null, inInterface: boolean): CodeSymbol[] => {
+    const symbols: CodeSymbol[] = [];
+    let segmentStart = from;
+    let i = from;
+    while (i < to) {
+      const char = masked[i];
+      if (char === '(' || char === '[') {
+        const close = matchingBracket(masked, i);
+        i = close === -1 ? to : close + 1;
+        continue;
+      }
+      if (char !== '{' && char !== ';' && char !== '}') {
+        i++;
+        continue;
+      }
+      if (char === '}') {
+        segmentStart = ++i;
+        continue;
+      }
+
+      const header = readHeader(masked, code, segmentStart, i);
+      const bodyStart = i + 1;
+      let end = i;
+      let bodyEnd = -1;
+      if (char === '{') {
+        bodyEnd = matchingBracket(masked, i);
+        if (bodyEnd === -1) {
+          diagnostics.push(`Line ${lineAt(code, i)}: unmatched "{"`);
+          bodyEnd = to;
+        }
+        end = bodyEnd;
+      }
+      // Expression-bodied members end at the semicolon after the expression
+      segmentStart = end + 1;
+      i = end + 1;
+      if (!header) continue;
+
+      const type = TYPE_PATTERN.exec(header.text.split('(')[0]);
+      if (/^namespace\s/.test(header.text)) {
+        if (char === '{') symbols.push(...parseDeclarations(bodyStart, bodyEnd, null, false));
+      } else if (/^(package|import|using)\s/.test(header.text)) {
+        continue;
+      } else if (type) {
+        const [, keyword, name] = type;
+        const kind = keyword === 'interface' ? 'interface' : keyword === 'enum' ? 'enum' : 'class';
+        const symbol = baseSymbol(header, end, name, kind);
+        // Record parameters, e.g. `record Point(int x, int y)`
+        const open = header.text.indexOf('(');
+        if (keyword === 'record' && open !== -1) {
+          symbol.params = parseParams(header.text.slice(open + 1, matchingBracket(header.text, open)), language);
+        }
+        if (char === '{') {
+          symbol.children = kind === 'enum'
+            ? enumConstants(bodyStart, bodyEnd)
+            : parseDeclarations(bodyStart, bodyEnd, name, kind === 'interface');
+          if (kind === 'enum' && language === 'java') {
+            const members = masked.slice(bodyStart, bodyEnd).indexOf(';');
+            if (members !== -1) symbol.children.push(...parseDeclarations(bodyStart + members + 1, bodyEnd, name, false));
+          }
+        }
+        symbol.exported = typeName ? isVisible(header.modifiers, inInterface) : !header.modifiers.includes('private');
+        if (symbol.exported) symbols.push(symbol);
+      } else if (typeName && isVisible(header.modifiers, inInterface)) {
+        const member = memberOf(header, end, typeName);
+        // C# properties have accessor bodies instead of parameters
+        if (member) symbols.push(member);
+      }
+    }
+    return symbols;
+  };
+
+  const symbols = parseDeclarations(0, masked.length, null, false);
+
+  // Top-level types are public when marked so; a snippet without any public
+  // type is assumed to be an excerpt, so everything in it counts
+  const topLevelPublic = symbols.filter(symbol => /(^|\s)public\s/.test(symbol.signature));
+  if (topLevelPublic.length > 0) {
+    symbols.forEach(symbol => {
+      symbol.exported = topLevelPublic.includes(symbol);
+    });
+  }
+
+  return { language, symbols, diagnostics };
+}
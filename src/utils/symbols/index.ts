@@ -0,0 +1,72 @@
+import { CodeSymbol, SymbolInventory, SymbolLanguage } from './types';
+import { extractTypeScriptSymbols } from './typescript';
+import { extractPythonSymbols } from './python';
+import { extractCLikeSymbols } from './clike';
+
+export type { CodeSymbol, SymbolInventory, SymbolKind, SymbolLanguage, SymbolParameter } from './types';
+
+export const SYMBOL_LANGUAGES: SymbolLanguage[] = ['typescript', 'javascript', 'python', 'java', 'csharp'];
+
+export const isSymbolLanguage = (language: string): language is SymbolLanguage =>
+  (SYMBOL_LANGUAGES as string[]).includes(language);
+
+/**
+ * Parses `code` and lists its declarations. Returns null for languages
+ * without a parser; the code is then documented from the raw text alone.
+ */
+export async function extractSymbols(code: string, language: string): Promise<SymbolInventory | null> {
+  if (!isSymbolLanguage(language) || !code.trim()) {
+    return null;
+  }
+
+  switch (language) {
+    case 'typescript':
+    case 'javascript':
+      return extractTypeScriptSymbols(code, language);
+    case 'python':
+      return extractPythonSymbols(code);
+    case 'java':
+    case 'csharp':
+      return extractCLikeSymbols(code, language);
+  }
+}
+
+/**
+ * The exported symbols and their public members, in source order.
+ */
+export function publicSymbols(inventory: SymbolInventory): CodeSymbol[] {
+  return inventory.symbols
+    .filter(symbol => symbol.exported)
+    .map(symbol => ({ ...symbol, children: symbol.children.filter(child => child.exported) }));
+}
+
+const describeSymbol = (symbol: CodeSymbol, depth: number): string[] => {
+  const indent = '  '.repeat(depth);
+  const lines = [`${indent}- ${symbol.kind} \`${symbol.name}\` (line ${symbol.startLine}): \`${symbol.signature}\``];
+  for (const param of symbol.params) {
+    const details = [
+      param.type ? `type ${param.type}` : 'no declared type',
+      param.optional ? 'optional' : 'required',
+      param.defaultValue !== undefined ? `default ${param.defaultValue}` : '',
+      param.rest ? 'variadic' : '',
+    ].filter(Boolean).join(', ');
+    lines.push(`${indent}  - param \`${param.name}\`: ${details}`);
+  }
+  if (symbol.returnType) {
+    lines.push(`${indent}  - returns ${symbol.returnType}`);
+  }
+  if (symbol.type) {
+    lines.push(`${indent}  - type ${symbol.type}`);
+  }
+  if (symbol.docComment) {
+    lines.push(`${indent}  - existing docs: ${JSON.stringify(symbol.docComment)}`);
+  }
+  return [...lines, ...symbol.children.flatMap(child => describeSymbol(child, depth + 1))];
+};
+
+/**
+ * Renders the public symbols as a markdown list for the prompt.
+ */
+export function formatInventory(inventory: SymbolInventory): string {
+  return publicSymbols(inventory).flatMap(symbol => describeSymbol(symbol, 0)).join('\n');
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { formatDocComment, insertDocComments, SymbolDoc } from './inlineDocs';
+import { extractPythonSymbols } from './python';
+import { extractTypeScriptSymbols } from './typescript';
+import { CodeSymbol } from './types';
+
+const doc: SymbolDoc = {
+  id: 'run@1',
+  summary: 'Runs the job.',
+  params: [{ name: 'retries', description: 'How often to try again.' }],
+  returns: 'The exit code.',
+};
+
+const functionSymbol = (returnType?: string): CodeSymbol => ({
+  name: 'run',
+  kind: 'function',
+  signature: 'function run(retries)',
+  params: [{ name: 'retries', optional: false }],
+  returnType,
+  exported: true,
+  startLine: 1,
+  endLine: 3,
+  indent: '',
+  children: [],
+});
+
+describe('formatDocComment', () => {
+  it('documents a declared return type', () => {
+    expect(formatDocComment(functionSymbol('number'), doc, 'javascript')).toEqual([
+      '/**',
+      ' * Runs the job.',
+      ' *',
+      ' * @param retries How often to try again.',
+      ' * @returns {number} The exit code.',
+      ' */',
+    ]);
+  });
+
+  it.each([undefined, 'void', 'Promise<void>', 'None'])('leaves out the return value when the return type is %s', returnType => {
+    const comment = formatDocComment(functionSymbol(returnType), doc, 'typescript').join('\n');
+
+    expect(comment).not.toContain('@returns');
+  });
+
+  it('uses @return in Javadoc and <returns> in C#', () => {
+    expect(formatDocComment(functionSymbol('int'), doc, 'java')).toContain(' * @return The exit code.');
+    expect(formatDocComment(functionSymbol('int'), doc, 'csharp')).toContain('/// <returns>The exit code.</returns>');
+  });
+});
+
+describe('insertDocComments', () => {
+  it('puts the comment above the declaration with its indentation', async () => {
+    const code = 'export class Job {\n  run(retries: number): number {\n    return 0;\n  }\n}';
+    const inventory = await extractTypeScriptSymbols(code, 'typescript');
+
+    const result = insertDocComments(code, inventory, [{ ...doc, id: 'Job.run@2' }]);
+
+    expect(result.split('\n').slice(1, 8)).toEqual([
+      '  /**',
+      '   * Runs the job.',
+      '   *',
+      '   * @param retries How often to try again.',
+      '   * @returns The exit code.',
+      '   */',
+      '  run(retries: number): number {',
+    ]);
+  });
+
+  it('puts a Python docstring below the header', () => {
+    const code = 'def run(retries):\n    return 0\n';
+    const inventory = extractPythonSymbols(code);
+
+    const result = insertDocComments(code, inventory, [doc]);
+
+    expect(result).toBe('def run(retries):\n    """Runs the job.\n\n    Args:\n        retries: How often to try again.\n    """\n    return 0\n');
+  });
+});
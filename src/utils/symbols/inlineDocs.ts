@@ -0,0 +1,192 @@
+import type { InlineDocsResult } from '@/utils/aiSchemas';
+import { CodeSymbol, SymbolInventory, SymbolLanguage } from './types';
+import { publicSymbols } from './index';
+
+// Documentation written for one symbol, before it is turned into a comment
+export type SymbolDoc = InlineDocsResult['docs'][number];
+
+export interface DocTarget {
+  // Stable within one parse: qualified name and line
+  id: string;
+  symbol: CodeSymbol;
+}
+
+export const COMMENT_STYLES: Record<SymbolLanguage, string> = {
+  typescript: 'TSDoc comments (/** ... */ with @param and @returns tags, without types)',
+  javascript: 'JSDoc comments (/** ... */ with @param {Type} and @returns {Type} tags)',
+  python: 'Google-style docstrings (Args: and Returns: sections)',
+  java: 'Javadoc comments (/** ... */ with @param and @return tags)',
+  csharp: 'XML documentation comments (/// with <summary>, <param> and <returns>)',
+};
+
+/**
+ * Symbols that get an inline comment: public declarations without an
+ * existing doc comment. Existing comments are never replaced.
+ */
+export function findDocTargets(inventory: SymbolInventory): DocTarget[] {
+  const targets: DocTarget[] = [];
+  const takenLines = new Set<number>();
+  const visit = (symbol: CodeSymbol, parent?: string) => {
+    const qualifiedName = parent ? `${parent}.${symbol.name}` : symbol.name;
+    // Declarations sharing a line (e.g. enum constants) can't each get a comment above them
+    const ownLine = !takenLines.has(symbol.startLine);
+    takenLines.add(symbol.startLine);
+    // Python one-liners (`def f(): pass`) have no body line to put a docstring on
+    const canDocument = inventory.language !== 'python' || symbol.headerEndLine < symbol.endLine;
+    if (!symbol.docComment && ownLine && canDocument) {
+      targets.push({ id: `${qualifiedName}@${symbol.startLine}`, symbol });
+    }
+    symbol.children.forEach(child => visit(child, qualifiedName));
+  };
+  publicSymbols(inventory).forEach(symbol => visit(symbol));
+  return targets;
+}
+
+// Without a declared return type we can't tell whether anything is returned
+const hasReturnValue = (symbol: CodeSymbol) =>
+  (symbol.kind === 'function' || symbol.kind === 'method') &&
+  !!symbol.returnType &&
+  !/^(void|None|Task|Promise<void>|undefined|never)$/.test(symbol.returnType);
+
+/**
+ * Wraps text to roughly `width` characters, keeping existing line breaks.
+ */
+function wrap(text: string, width = 80): string[] {
+  return text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + word.length + 1 > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    lines.push(line);
+    return lines;
+  });
+}
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Text that would end the comment early; /// comments end with the line anyway
+const escapeComment = (text: string, language: SymbolLanguage) => language === 'python'
+  ? text.replace(/"""/g, '\\"\\"\\"')
+  : language === 'csharp' ? text : text.replace(/\*\//g, '*\\/');
+
+/**
+ * Renders a symbol's documentation in the comment syntax of the language.
+ * Only the parameters the parser found are documented, whatever the model
+ * returned, so comments never mention parameters that don't exist.
+ */
+export function formatDocComment(symbol: CodeSymbol, doc: SymbolDoc, language: SymbolLanguage): string[] {
+  const describe = (name: string) => escapeComment(
+    doc.params.find(param => param.name.replace(/^[*.]+/, '') === name)?.description.trim() ?? '', language);
+  const params = symbol.params.map(param => ({ ...param, description: describe(param.name) }));
+  const returns = hasReturnValue(symbol) && doc.returns?.trim() ? escapeComment(doc.returns.trim(), language) : undefined;
+  const summary = wrap(escapeComment(doc.summary.trim(), language));
+
+  switch (language) {
+    case 'python': {
+      const lines = ['"""' + summary[0], ...summary.slice(1)];
+      if (params.length > 0) {
+        lines.push('', 'Args:', ...params.map(param =>
+          `    ${param.rest ? (param.name === 'kwargs' ? '**' : '*') : ''}${param.name}${param.type ? ` (${param.type})` : ''}: ${param.description}`.trimEnd()));
+      }
+      if (returns) {
+        lines.push('', 'Returns:', `    ${returns}`);
+      }
+      if (lines.length === 1) {
+        return [`${lines[0]}"""`];
+      }
+      return [...lines, '"""'];
+    }
+
+    case 'csharp': {
+      const lines = ['<summary>', ...summary.map(escapeXml), '</summary>'];
+      params.forEach(param => lines.push(`<param name="${param.name}">${escapeXml(param.description)}</param>`));
+      if (returns) {
+        lines.push(`<returns>${escapeXml(returns)}</returns>`);
+      }
+      return lines.map(line => `/// ${line}`);
+    }
+
+    default: {
+      const tags = params.map(param => {
+        const type = language === 'javascript' && param.type ? ` {${param.type}}` : '';
+        // JSDoc marks optional parameters with brackets; TSDoc and Javadoc don't
+        const name = language === 'javascript' && param.optional && !param.rest
+          ? `[${param.name}${param.defaultValue !== undefined ? `=${param.defaultValue}` : ''}]`
+          : param.name;
+        return `@param${type} ${name} ${param.description}`.trimEnd();
+      });
+      if (returns) {
+        const type = language === 'javascript' && symbol.returnType ? ` {${symbol.returnType}}` : '';
+        tags.push(`${language === 'java' ? '@return' : '@returns'}${type} ${returns}`);
+      }
+      const body = tags.length > 0 ? [...summary, '', ...tags] : summary;
+      return ['/**', ...body.map(line => line ? ` * ${line}` : ' *'), ' */'];
+    }
+  }
+}
+
+/**
+ * Inserts the documentation into the source, above each declaration (and
+ * its decorators), or below the header for Python docstrings. Everything
+ * else in the source is left exactly as it was.
+ */
+export function insertDocComments(code: string, inventory: SymbolInventory, docs: SymbolDoc[]): string {
+  const newline = code.includes('\r\n') ? '\r\n' : '\n';
+  const lines = code.split(/\r?\n/);
+  const docsById = new Map(docs.map(doc => [doc.id, doc]));
+
+  const insertions = findDocTargets(inventory)
+    .filter(target => docsById.get(target.id)?.summary.trim())
+    .map(target => {
+      const { symbol } = target;
+      const comment = formatDocComment(symbol, docsById.get(target.id), inventory.language);
+      if (inventory.language !== 'python') {
+        return { index: symbol.startLine - 1, lines: comment.map(line => symbol.indent + line) };
+      }
+      // Docstrings use the indentation of the first statement in the body
+      const bodyLine = lines.slice(symbol.headerEndLine).find(line => line.trim());
+      const indent = bodyLine ? /^[ \t]*/.exec(bodyLine)[0] : `${symbol.indent}    `;
+      return {
+        index: symbol.headerEndLine,
+        lines: comment.map(line => line ? indent + line : line),
+      };
+    })
+    // Insert from the bottom up so earlier line numbers stay valid
+    .sort((a, b) => b.index - a.index);
+
+  for (const insertion of insertions) {
+    lines.splice(insertion.index, 0, ...insertion.lines);
+  }
+  return lines.join(newline);
+}
+
+/**
+ * Removes the doc comments of `symbols` from the source so they can be
+ * written again. Comments that share a line with code stay where they are.
+ * A Python body holding nothing but its docstring keeps a `pass`.
+ */
+export function removeDocComments(code: string, symbols: CodeSymbol[], language: SymbolLanguage): string {
+  const newline = code.includes('\r\n') ? '\r\n' : '\n';
+  const lines = code.split(/\r?\n/);
+  const removals = symbols
+    .filter(symbol => symbol.docCommentLines)
+    .map(symbol => {
+      const { start, end } = symbol.docCommentLines;
+      const emptiesBody = language === 'python' && lines.slice(end, symbol.endLine).every(line => !line.trim());
+      const indent = /^[ \t]*/.exec(lines[start - 1])[0];
+      return { index: start - 1, count: end - start + 1, replacement: emptiesBody ? [`${indent}pass`] : [] };
+    })
+    // Remove from the bottom up so earlier line numbers stay valid
+    .sort((a, b) => b.index - a.index);
+
+  for (const removal of removals) {
+    lines.splice(removal.index, removal.count, ...removal.replacement);
+  }
+  return lines.join(newline);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { extractPythonSymbols } from './python';
+import { publicSymbols } from './index';
+
+describe('extractPythonSymbols', () => {
+  it('skips private helpers and dunder methods other than __init__', () => {
+    const code = `class Cache:
+    def __init__(self, size: int = 10):
+        self.size = size
+
+    def get(self, key):
+        return None
+
+    def _evict(self):
+        pass
+
+    def __repr__(self):
+        return "Cache"
+
+def _helper():
+    pass
+`;
+
+    const [cache] = publicSymbols(extractPythonSymbols(code));
+    expect(cache.name).toBe('Cache');
+    expect(cache.children.map(child => child.name)).toEqual(['__init__', 'get']);
+    expect(cache.children[0].params).toEqual([
+      { name: 'size', type: 'int', optional: true, defaultValue: '10', rest: undefined },
+    ]);
+  });
+
+  it('only exports the names in __all__', () => {
+    const code = `__all__ = ["load"]
+
+def load(path: str) -> dict:
+    """Reads the file."""
+    return {}
+
+def dump(data):
+    pass
+`;
+
+    const inventory = extractPythonSymbols(code);
+    expect(publicSymbols(inventory).map(symbol => symbol.name)).toEqual(['load']);
+    expect(inventory.symbols[0]).toMatchObject({
+      returnType: 'dict',
+      docComment: 'Reads the file.',
+      docCommentLines: { start: 4, end: 4 },
+      headerEndLine: 3,
+    });
+  });
+
+  it('reports an unterminated docstring', () => {
+    const code = `def run():
+    """Starts the job
+    pass
+`;
+
+    expect(extractPythonSymbols(code).diagnostics).toEqual(['Unterminated triple-quoted string']);
+  });
+});
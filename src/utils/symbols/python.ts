@@ -0,0 +1,263 @@
+import { CodeSymbol, SymbolInventory, SymbolParameter } from './types';
+import { collapseWhitespace, splitTopLevel } from './text';
+
+interface ScanState {
+  // Delimiter of the triple-quoted string the scan is inside of
+  triple: string | null;
+  // Bracket nesting depth
+  depth: number;
+}
+
+/**
+ * Advances the scan state over one line, skipping strings and comments.
+ * Only triple-quoted strings can continue on the next line.
+ */
+function scanLine(line: string, state: ScanState): ScanState {
+  let { triple, depth } = state;
+  let i = 0;
+  while (i < line.length) {
+    if (triple) {
+      const close = line.indexOf(triple, i);
+      if (close === -1) return { triple, depth };
+      triple = null;
+      i = close + 3;
+      continue;
+    }
+
+    const char = line[i];
+    if (char === '#') break;
+    if (char === '"' || char === "'") {
+      if (line.startsWith(char.repeat(3), i)) {
+        triple = char.repeat(3);
+        i += 3;
+        continue;
+      }
+      i++;
+      while (i < line.length && line[i] !== char) {
+        i += line[i] === '\\' ? 2 : 1;
+      }
+      i++;
+      continue;
+    }
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+    i++;
+  }
+  return { triple, depth };
+}
+
+const indentWidth = (line: string) => /^[ \t]*/.exec(line)[0].length;
+
+const isBlankOrComment = (line: string) => /^\s*(#.*)?$/.test(line);
+
+/**
+ * Position of the first `:` outside brackets and strings, at or after `from`.
+ */
+function findHeaderColon(header: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < header.length; i++) {
+    const char = header[i];
+    if (char === '"' || char === "'") {
+      const end = header.indexOf(char, i + 1);
+      i = end === -1 ? header.length : end;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (char === ':' && depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseParams(paramList: string, isMethod: boolean): SymbolParameter[] {
+  const params = splitTopLevel(paramList, ',')
+    .map(param => param.trim())
+    .filter(param => param && param !== '*' && param !== '/')
+    .map((param): SymbolParameter => {
+      const [declaration, defaultValue] = splitTopLevel(param, '=', 2).map(part => part.trim());
+      const [name, type] = splitTopLevel(declaration, ':', 2).map(part => part.trim());
+      const rest = name.startsWith('*');
+      return {
+        name: name.replace(/^\*+/, ''),
+        type: type || undefined,
+        optional: defaultValue !== undefined || rest,
+        defaultValue,
+        rest: rest || undefined,
+      };
+    });
+  // The instance or class is passed implicitly
+  return isMethod && params.length > 0 && /^(self|cls)$/.test(params[0].name) ? params.slice(1) : params;
+}
+
+const DECLARATION_PATTERN = /^([ \t]*)(async\s+def|def|class)\s+(\w+)/;
+const ATTRIBUTE_PATTERN = /^([ \t]*)(\w+)\s*:\s*([^=]+?)\s*(?:=\s*(.+))?$/;
+const DOCSTRING_START = /^\s*[rRuU]?("""|'''|"|')/;
+
+/**
+ * Extracts functions, classes and methods from Python with a line-based
+ * scanner that follows indentation. Type hints are taken as written.
+ */
+export function extractPythonSymbols(code: string): SymbolInventory {
+  const lines = code.split('\n');
+  const diagnostics: string[] = [];
+
+  // Whether each line starts outside brackets and multi-line strings
+  const statementStart: boolean[] = [];
+  let state: ScanState = { triple: null, depth: 0 };
+  for (const line of lines) {
+    statementStart.push(!state.triple && state.depth === 0);
+    state = scanLine(line, state);
+  }
+  if (state.triple) {
+    diagnostics.push('Unterminated triple-quoted string');
+  } else if (state.depth > 0) {
+    diagnostics.push('Unclosed bracket at the end of the code');
+  }
+
+  const allMatch = /^__all__\s*=\s*[[(]([\s\S]*?)[\])]/m.exec(code);
+  const publicNames = allMatch
+    ? new Set([...allMatch[1].matchAll(/["'](\w+)["']/g)].map(match => match[1]))
+    : null;
+
+  // Last line of the header (the line with the colon), as an index
+  const headerEnd = (start: number) => {
+    let end = start;
+    while (end + 1 < lines.length && !statementStart[end + 1]) end++;
+    return end;
+  };
+
+  // Last line of the indented block that follows a header, as an index
+  const blockEnd = (header: number, indent: number) => {
+    let end = header;
+    for (let i = header + 1; i < lines.length; i++) {
+      if (!statementStart[i]) {
+        end = i;
+      } else if (isBlankOrComment(lines[i])) {
+        continue;
+      } else if (indentWidth(lines[i]) > indent) {
+        end = i;
+      } else {
+        break;
+      }
+    }
+    return end;
+  };
+
+  // First line of the decorators above a declaration, as an index
+  const decoratorsStart = (declaration: number, from: number, indent: number) => {
+    let start = declaration;
+    let line = declaration - 1;
+    while (line >= from) {
+      let statement = line;
+      while (statement > from && !statementStart[statement]) statement--;
+      if (indentWidth(lines[statement]) !== indent || !lines[statement].trim().startsWith('@')) break;
+      start = statement;
+      line = statement - 1;
+    }
+    return start;
+  };
+
+  const docstringAfter = (header: number, end: number): Pick<CodeSymbol, 'docComment' | 'docCommentLines'> => {
+    const first = lines.slice(header + 1, end + 1).findIndex(line => !isBlankOrComment(line));
+    if (first === -1) return {};
+    const start = header + 1 + first;
+    const match = DOCSTRING_START.exec(lines[start]);
+    if (!match) return {};
+
+    const quote = match[1];
+    const text = lines.slice(start, end + 1).join('\n');
+    const open = text.indexOf(quote);
+    const close = text.indexOf(quote, open + quote.length);
+    if (close === -1) return {};
+    const content = text.slice(open + quote.length, close);
+    // Remove the common indentation of continuation lines
+    const [firstLine, ...rest] = content.split('\n');
+    const margin = Math.min(...rest.filter(line => line.trim()).map(indentWidth));
+    const docComment = [firstLine, ...rest.map(line => line.slice(Number.isFinite(margin) ? margin : 0))].join('\n').trim() || undefined;
+    if (!docComment) return {};
+    const lastLine = start + text.slice(0, close).split('\n').length - 1;
+    const closesLine = !lines[lastLine].slice(lines[lastLine].indexOf(quote, lastLine === start ? open + quote.length : 0) + quote.length).trim();
+    return { docComment, docCommentLines: closesLine ? { start: start + 1, end: lastLine + 1 } : undefined };
+  };
+
+  const parseBlock = (from: number, to: number, indent: number, inClass: boolean): CodeSymbol[] => {
+    const symbols: CodeSymbol[] = [];
+    for (let i = from; i <= to; i++) {
+      if (!statementStart[i] || indentWidth(lines[i]) !== indent) continue;
+
+      const match = DECLARATION_PATTERN.exec(lines[i]);
+      if (!match) {
+        // Annotated class attributes, e.g. dataclass fields
+        const attribute = inClass ? ATTRIBUTE_PATTERN.exec(lines[i]) : null;
+        if (attribute && !attribute[2].startsWith('_')) {
+          symbols.push({
+            name: attribute[2],
+            kind: 'property',
+            signature: collapseWhitespace(lines[i]),
+            params: [],
+            type: attribute[3],
+            exported: true,
+            startLine: i + 1,
+            endLine: i + 1,
+            indent: attribute[1],
+            children: [],
+          });
+        }
+        continue;
+      }
+
+      const [, indentText, keyword, name] = match;
+      const isClass = keyword === 'class';
+      const isConstructor = inClass && name === '__init__';
+      const header = headerEnd(i);
+      const headerText = lines.slice(i, header + 1).join('\n');
+      const colon = findHeaderColon(headerText, match[0].length);
+      const end = blockEnd(header, indent);
+      const start = decoratorsStart(i, from, indent);
+      i = end;
+
+      // Private helpers and dunder methods other than __init__ aren't public API
+      if (name.startsWith('_') && !isConstructor) continue;
+
+      const symbol: CodeSymbol = {
+        name,
+        kind: isClass ? 'class' : isConstructor ? 'constructor' : inClass ? 'method' : 'function',
+        signature: collapseWhitespace(colon === -1 ? headerText : headerText.slice(0, colon)),
+        params: [],
+        ...docstringAfter(header, end),
+        exported: inClass || !publicNames || publicNames.has(name),
+        startLine: start + 1,
+        endLine: end + 1,
+        headerEndLine: header + 1,
+        indent: indentText,
+        children: [],
+      };
+
+      if (isClass) {
+        const bodyStart = lines.slice(header + 1, end + 1).findIndex(line => !isBlankOrComment(line));
+        if (bodyStart !== -1) {
+          const bodyIndent = indentWidth(lines[header + 1 + bodyStart]);
+          symbol.children = parseBlock(header + 1, end, bodyIndent, true);
+        }
+      } else {
+        const open = headerText.indexOf('(');
+        const close = colon === -1 ? -1 : headerText.lastIndexOf(')', colon);
+        if (open !== -1 && close > open) {
+          symbol.params = parseParams(headerText.slice(open + 1, close), inClass);
+          const returns = /->\s*([\s\S]+)$/.exec(headerText.slice(close + 1, colon));
+          symbol.returnType = returns ? collapseWhitespace(returns[1]) : undefined;
+        }
+      }
+      symbols.push(symbol);
+    }
+    return symbols;
+  };
+
+  return {
+    language: 'python',
+    symbols: parseBlock(0, lines.length - 1, 0, false),
+    diagnostics,
+  };
+}
@@ -0,0 +1,68 @@
+export const collapseWhitespace = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+/**
+ * 1-based line number of a character offset.
+ */
+export function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+/**
+ * 1-based lines spanned by `text.slice(start, end)`, unless other code is
+ * written on the first or last of them.
+ */
+export function ownLines(text: string, start: number, end: number): { start: number; end: number } | undefined {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+  if (text.slice(lineStart, start).trim() || text.slice(end, lineEnd).trim()) {
+    return undefined;
+  }
+  return { start: lineAt(text, start), end: lineAt(text, end) };
+}
+
+/**
+ * Leading whitespace of the line containing `offset`.
+ */
+export function indentOf(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))[0];
+}
+
+/**
+ * Splits on `separator` outside brackets and string literals. With `limit`,
+ * the last part keeps the rest of the text.
+ */
+export function splitTopLevel(value: string, separator: string, limit = Number.POSITIVE_INFINITY): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quote) {
+      if (char === '\\') {
+        current += char + (value[i + 1] ?? '');
+        i++;
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('([{<'.includes(char)) {
+      depth++;
+    } else if (')]}>'.includes(char) && !(char === '>' && value[i - 1] === '-')) {
+      depth = Math.max(0, depth - 1);
+    } else if (char === separator && depth === 0 && parts.length < limit - 1) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
@@ -0,0 +1,59 @@
+export type SymbolKind =
+  | 'function'
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'method'
+  | 'constructor'
+  | 'property'
+  | 'variable';
+
+export interface SymbolParameter {
+  name: string;
+  // As written in the source, e.g. "string[]"; absent when the code has no annotation
+  type?: string;
+  optional: boolean;
+  defaultValue?: string;
+  // Rest/variadic parameter (`...args`, `*args`, `params T[]`)
+  rest?: boolean;
+}
+
+/**
+ * A declaration found in the source, with everything the documentation
+ * needs to get right: the exact signature, parameters and existing docs.
+ */
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  // Declaration up to the body, as written in the source
+  signature: string;
+  params: SymbolParameter[];
+  returnType?: string;
+  // Declared type of properties and variables
+  type?: string;
+  // Existing doc comment or docstring, without comment markers
+  docComment?: string;
+  // 1-based lines of that comment; absent when it shares a line with code
+  docCommentLines?: { start: number; end: number };
+  // Part of the public surface. Snippets without any export are treated as
+  // fully public, since they are usually excerpts of a larger file
+  exported: boolean;
+  // 1-based lines of the declaration, including decorators and annotations
+  startLine: number;
+  endLine: number;
+  // Python only: the line ending the header with a colon; docstrings go below it
+  headerEndLine?: number;
+  // Leading whitespace of the declaration line
+  indent: string;
+  children: CodeSymbol[];
+}
+
+export type SymbolLanguage = 'typescript' | 'javascript' | 'python' | 'java' | 'csharp';
+
+export interface SymbolInventory {
+  language: SymbolLanguage;
+  symbols: CodeSymbol[];
+  // Syntax problems the parser recovered from; the symbols may be incomplete
+  diagnostics: string[];
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { extractTypeScriptSymbols } from './typescript';
+import { publicSymbols } from './index';
+
+describe('extractTypeScriptSymbols', () => {
+  it('exports only what the module exports', async () => {
+    const code = `export function add(a: number, b = 1): number {
+  return a + b;
+}
+
+function helper() {}
+
+const format = (value: string) => value.trim();
+
+export { format };`;
+
+    const inventory = await extractTypeScriptSymbols(code, 'typescript');
+    expect(publicSymbols(inventory).map(symbol => symbol.name)).toEqual(['add', 'format']);
+    expect(inventory.symbols[0]).toMatchObject({
+      returnType: 'number',
+      params: [
+        { name: 'a', type: 'number', optional: false },
+        { name: 'b', optional: true, defaultValue: '1' },
+      ],
+    });
+  });
+
+  it('treats a snippet without exports as public', async () => {
+    const inventory = await extractTypeScriptSymbols('function greet(name) {}', 'javascript');
+
+    expect(publicSymbols(inventory).map(symbol => symbol.name)).toEqual(['greet']);
+  });
+
+  it('skips private and protected class members', async () => {
+    const code = `export class Queue {
+  constructor(private limit: number) {}
+  push(item: string): void {}
+  protected drain() {}
+  private flush() {}
+  #size = 0;
+}`;
+
+    const [queue] = publicSymbols(await extractTypeScriptSymbols(code, 'typescript'));
+    expect(queue.children.map(child => child.name)).toEqual(['constructor', 'push']);
+  });
+
+  it('takes JavaScript types from JSDoc', async () => {
+    const code = `/**
+ * Doubles a number.
+ * @param {number} value
+ * @returns {number}
+ */
+function double(value) {
+  return value * 2;
+}`;
+
+    const [double] = (await extractTypeScriptSymbols(code, 'javascript')).symbols;
+    expect(double.params[0].type).toBe('number');
+    expect(double.returnType).toBe('number');
+    expect(double.docCommentLines).toEqual({ start: 1, end: 5 });
+  });
+});
@@ -0,0 +1,236 @@
+import type * as TS from 'typescript';
+import { CodeSymbol, SymbolInventory, SymbolParameter } from './types';
+import { collapseWhitespace, indentOf, lineAt, ownLines } from './text';
+
+type TypeScriptModule = typeof TS;
+
+let compiler: Promise<TypeScriptModule> | null = null;
+
+/**
+ * The compiler is several megabytes, so it is only downloaded once code is
+ * actually parsed.
+ */
+function loadCompiler(): Promise<TypeScriptModule> {
+  if (!compiler) {
+    compiler = import('typescript').then(module => ('default' in module ? module.default : module) as TypeScriptModule);
+  }
+  return compiler;
+}
+
+const stripJsDoc = (comment: string) => comment
+  .replace(/^\/\*\*\s?/, '')
+  .replace(/\s*\*\/$/, '')
+  .split('\n')
+  .map(line => line.replace(/^\s*\*\s?/, ''))
+  .join('\n')
+  .trim();
+
+/**
+ * Parses TypeScript or JavaScript with the TypeScript compiler. Types come
+ * from annotations, or from JSDoc tags in JavaScript; nothing is inferred.
+ */
+export async function extractTypeScriptSymbols(code: string, language: 'typescript' | 'javascript'): Promise<SymbolInventory> {
+  const ts = await loadCompiler();
+  const sourceFile = ts.createSourceFile(
+    language === 'typescript' ? 'input.tsx' : 'input.jsx',
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    language === 'typescript' ? ts.ScriptKind.TSX : ts.ScriptKind.JSX
+  );
+  const text = sourceFile.text;
+
+  const textOf = (node: TS.Node | undefined) => node ? collapseWhitespace(node.getText(sourceFile)) : undefined;
+
+  const hasModifier = (node: TS.Node, kind: TS.SyntaxKind) =>
+    ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === kind);
+
+  const docCommentOf = (node: TS.Node): Pick<CodeSymbol, 'docComment' | 'docCommentLines'> => {
+    const comments = ts.getLeadingCommentRanges(text, node.getFullStart()) ?? [];
+    const last = comments[comments.length - 1];
+    if (!last || !text.startsWith('/**', last.pos)) return {};
+    const docComment = stripJsDoc(text.slice(last.pos, last.end)) || undefined;
+    return docComment ? { docComment, docCommentLines: ownLines(text, last.pos, last.end) } : {};
+  };
+
+  const paramsOf = (declaration: TS.SignatureDeclaration): SymbolParameter[] =>
+    declaration.parameters.map(param => {
+      const jsDocType = ts.getJSDocParameterTags(param)[0]?.typeExpression?.type;
+      return {
+        name: param.name.getText(sourceFile),
+        type: textOf(param.type ?? jsDocType),
+        optional: !!param.questionToken || !!param.initializer || !!param.dotDotDotToken,
+        defaultValue: textOf(param.initializer),
+        rest: !!param.dotDotDotToken || undefined,
+      };
+    });
+
+  const returnTypeOf = (declaration: TS.SignatureDeclaration) =>
+    textOf(declaration.type ?? ts.getJSDocReturnType(declaration));
+
+  // Declaration text up to the body or member list
+  const signatureOf = (node: TS.Node, bodyStart?: number) => {
+    const start = node.getStart(sourceFile);
+    const end = bodyStart ?? node.getEnd();
+    return collapseWhitespace(text.slice(start, end)).replace(/[;{]$/, '').trim();
+  };
+
+  const symbolOf = (
+    node: TS.Node,
+    name: string,
+    kind: CodeSymbol['kind'],
+    exported: boolean,
+    details: Partial<CodeSymbol> = {}
+  ): CodeSymbol => {
+    const start = node.getStart(sourceFile);
+    return {
+      name,
+      kind,
+      signature: signatureOf(node),
+      params: [],
+      ...docCommentOf(node),
+      exported,
+      startLine: lineAt(text, start),
+      endLine: lineAt(text, node.getEnd()),
+      indent: indentOf(text, start),
+      children: [],
+      ...details,
+    };
+  };
+
+  const isPublicMember = (member: TS.ClassElement | TS.TypeElement) =>
+    !hasModifier(member, ts.SyntaxKind.PrivateKeyword) &&
+    !hasModifier(member, ts.SyntaxKind.ProtectedKeyword) &&
+    !(member.name && ts.isPrivateIdentifier(member.name));
+
+  const memberSymbols = (members: TS.NodeArray<TS.ClassElement | TS.TypeElement>): CodeSymbol[] =>
+    members.filter(isPublicMember).flatMap((member): CodeSymbol[] => {
+      const name = member.name ? member.name.getText(sourceFile) : '';
+      if (ts.isConstructorDeclaration(member)) {
+        return [symbolOf(member, 'constructor', 'constructor', true, {
+          signature: signatureOf(member, member.body?.getStart(sourceFile)),
+          params: paramsOf(member),
+        })];
+      }
+      if (ts.isMethodDeclaration(member) || ts.isMethodSignature(member)) {
+        return [symbolOf(member, name, 'method', true, {
+          signature: signatureOf(member, ts.isMethodDeclaration(member) ? member.body?.getStart(sourceFile) : undefined),
+          params: paramsOf(member),
+          returnType: returnTypeOf(member),
+        })];
+      }
+      if (ts.isGetAccessorDeclaration(member)) {
+        return [symbolOf(member, name, 'property', true, {
+          signature: signatureOf(member, member.body?.getStart(sourceFile)),
+          type: returnTypeOf(member),
+        })];
+      }
+      if (ts.isPropertyDeclaration(member) || ts.isPropertySignature(member)) {
+        const initializer = ts.isPropertyDeclaration(member) ? member.initializer : undefined;
+        if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+          return [symbolOf(member, name, 'method', true, {
+            signature: signatureOf(member, initializer.body.getStart(sourceFile)),
+            params: paramsOf(initializer),
+            returnType: returnTypeOf(initializer),
+          })];
+        }
+        return [symbolOf(member, name, 'property', true, {
+          type: textOf(member.type ?? ts.getJSDocType(member)),
+        })];
+      }
+      return [];
+    });
+
+  // Names listed in `export { a, b as c }` and `export default a`
+  const exportedNames = new Set<string>();
+  let hasExports = false;
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement)) {
+      hasExports = true;
+      if (!statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        statement.exportClause.elements.forEach(element =>
+          exportedNames.add((element.propertyName ?? element.name).getText(sourceFile)));
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      hasExports = true;
+      if (ts.isIdentifier(statement.expression)) {
+        exportedNames.add(statement.expression.text);
+      }
+    } else if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      hasExports = true;
+    }
+  }
+
+  const isExported = (statement: TS.Statement, name: string) =>
+    !hasExports || hasModifier(statement, ts.SyntaxKind.ExportKeyword) || exportedNames.has(name);
+
+  const symbols: CodeSymbol[] = [];
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement)) {
+      const name = statement.name?.text ?? 'default';
+      // Overload signatures are documented through their implementation
+      if (!statement.body && sourceFile.statements.some(other =>
+        ts.isFunctionDeclaration(other) && other.body && other.name?.text === name)) {
+        continue;
+      }
+      symbols.push(symbolOf(statement, name, 'function', isExported(statement, name), {
+        signature: signatureOf(statement, statement.body?.getStart(sourceFile)),
+        params: paramsOf(statement),
+        returnType: returnTypeOf(statement),
+      }));
+    } else if (ts.isClassDeclaration(statement)) {
+      const name = statement.name?.text ?? 'default';
+      symbols.push(symbolOf(statement, name, 'class', isExported(statement, name), {
+        signature: signatureOf(statement, statement.members.pos),
+        children: memberSymbols(statement.members),
+      }));
+    } else if (ts.isInterfaceDeclaration(statement)) {
+      symbols.push(symbolOf(statement, statement.name.text, 'interface', isExported(statement, statement.name.text), {
+        signature: signatureOf(statement, statement.members.pos),
+        children: memberSymbols(statement.members),
+      }));
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      symbols.push(symbolOf(statement, statement.name.text, 'type', isExported(statement, statement.name.text), {
+        type: textOf(statement.type),
+      }));
+    } else if (ts.isEnumDeclaration(statement)) {
+      symbols.push(symbolOf(statement, statement.name.text, 'enum', isExported(statement, statement.name.text), {
+        signature: signatureOf(statement, statement.members.pos),
+        children: statement.members.map(member =>
+          symbolOf(member, member.name.getText(sourceFile), 'property', true)),
+      }));
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name)) continue;
+        const name = declaration.name.text;
+        const initializer = declaration.initializer;
+        const exported = isExported(statement, name);
+        const symbol = initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+          ? symbolOf(statement, name, 'function', exported, {
+            signature: signatureOf(statement, initializer.body.getStart(sourceFile)),
+            params: paramsOf(initializer),
+            returnType: returnTypeOf(initializer),
+          })
+          : initializer && ts.isClassExpression(initializer)
+            ? symbolOf(statement, name, 'class', exported, {
+              signature: signatureOf(statement, initializer.members.pos),
+              children: memberSymbols(initializer.members),
+            })
+            : symbolOf(statement, name, 'variable', exported, {
+              type: textOf(declaration.type ?? ts.getJSDocType(declaration)),
+            });
+        symbols.push(symbol);
+      }
+    }
+  }
+
+  // parseDiagnostics isn't part of the public API, but it's the only way to
+  // get syntax errors without creating a full program
+  const parseDiagnostics = (sourceFile as unknown as { parseDiagnostics?: TS.Diagnostic[] }).parseDiagnostics ?? [];
+  return {
+    language,
+    symbols,
+    diagnostics: parseDiagnostics.map(diagnostic =>
+      `Line ${lineAt(text, diagnostic.start ?? 0)}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`),
+  };
+}
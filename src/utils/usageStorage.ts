@@ -0,0 +1,167 @@
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { AIFeature } from '@/utils/llm/types';
+
+export interface UsageRecord {
+  id: number;
+  user_id: string;
+  provider: string;
+  model: string | null;
+  feature: AIFeature | null;
+  // null until the provider has answered
+  status: number | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  latency_ms: number | null;
+  // null for models without a price, which only users' own keys can use
+  cost_usd: number | null;
+  user_key_id: string | null;
+  created_at: string;
+}
+
+export type BudgetAction = 'warn' | 'block';
+
+export interface Budget {
+  id: string;
+  // null for the organisation-wide budget
+  user_id: string | null;
+  monthly_limit_usd: number;
+  action: BudgetAction;
+}
+
+/**
+ * Fetches usage since `since`. Admins receive every user's requests, other
+ * users only their own (enforced by RLS).
+ */
+export async function fetchUsage(user: User | null, since: Date): Promise<UsageRecord[]> {
+  if (!user) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('llm_proxy_requests')
+    .select('*')
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching usage:', error);
+    throw error;
+  }
+  return (data || []).map(record => ({
+    ...record,
+    feature: record.feature as AIFeature | null,
+    cost_usd: record.cost_usd === null ? null : Number(record.cost_usd),
+  }));
+}
+
+export async function isAdmin(user: User | null): Promise<boolean> {
+  if (!user) {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from('app_admins')
+    .select('user_id')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking admin status:', error);
+    return false;
+  }
+  return !!data;
+}
+
+export async function fetchBudgets(): Promise<Budget[]> {
+  const { data, error } = await supabase
+    .from('llm_budgets')
+    .select('id, user_id, monthly_limit_usd, action');
+
+  if (error) {
+    console.error('Error fetching budgets:', error);
+    throw error;
+  }
+  return (data || []).map(budget => ({
+    ...budget,
+    action: budget.action as BudgetAction,
+    monthly_limit_usd: Number(budget.monthly_limit_usd),
+  }));
+}
+
+/**
+ * Creates or updates the budget for a user, or for the organisation when
+ * `userId` is null. Only admins are allowed to do this (enforced by RLS).
+ */
+export async function saveBudget(
+  userId: string | null,
+  monthlyLimitUsd: number,
+  action: BudgetAction,
+  existingId?: string
+): Promise<void> {
+  const { error } = existingId
+    ? await supabase
+      .from('llm_budgets')
+      .update({ monthly_limit_usd: monthlyLimitUsd, action, updated_at: new Date().toISOString() })
+      .eq('id', existingId)
+    : await supabase
+      .from('llm_budgets')
+      .insert({ user_id: userId, monthly_limit_usd: monthlyLimitUsd, action });
+
+  if (error) {
+    console.error('Error saving budget:', error);
+    throw error;
+  }
+}
+
+export async function deleteBudget(budgetId: string): Promise<void> {
+  const { error } = await supabase.from('llm_budgets').delete().eq('id', budgetId);
+  if (error) {
+    console.error('Error deleting budget:', error);
+    throw error;
+  }
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  // Requests whose cost is unknown and missing from `costUsd`
+  unpricedRequests: number;
+  averageLatencyMs: number;
+}
+
+export function summariseUsage(records: UsageRecord[]): UsageTotals {
+  const timed = records.filter(record => record.latency_ms !== null);
+  return {
+    requests: records.length,
+    promptTokens: records.reduce((sum, record) => sum + (record.prompt_tokens ?? 0), 0),
+    completionTokens: records.reduce((sum, record) => sum + (record.completion_tokens ?? 0), 0),
+    costUsd: records.reduce((sum, record) => sum + (record.cost_usd ?? 0), 0),
+    unpricedRequests: records.filter(record => record.cost_usd === null).length,
+    averageLatencyMs: timed.length > 0
+      ? Math.round(timed.reduce((sum, record) => sum + (record.latency_ms ?? 0), 0) / timed.length)
+      : 0,
+  };
+}
+
+/**
+ * Sums cost and tokens per group, e.g. per day, feature or user.
+ */
+export function groupUsage(
+  records: UsageRecord[],
+  keyOf: (record: UsageRecord) => string
+): { key: string; cost: number; tokens: number; requests: number }[] {
+  const groups = new Map<string, { key: string; cost: number; tokens: number; requests: number }>();
+
+  for (const record of records) {
+    const key = keyOf(record);
+    const group = groups.get(key) ?? { key, cost: 0, tokens: 0, requests: 0 };
+    group.cost += record.cost_usd ?? 0;
+    group.tokens += (record.prompt_tokens ?? 0) + (record.completion_tokens ?? 0);
+    group.requests += 1;
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
@@ -0,0 +1,184 @@
+import { supabase } from '@/integrations/supabase/client';
+import { FunctionsHttpError, User } from '@supabase/supabase-js';
+import { AIFeature, ProviderId } from '@/utils/llm/types';
+
+export type UserKeyProvider = Exclude<ProviderId, 'local'>;
+
+export interface UserApiKey {
+  id: string;
+  provider: UserKeyProvider;
+  label: string;
+  key_hint: string;
+  base_url: string | null;
+  created_at: string;
+  last_tested_at: string | null;
+  last_test_ok: boolean | null;
+}
+
+export interface NewUserApiKey {
+  provider: UserKeyProvider;
+  label: string;
+  apiKey: string;
+  // Azure OpenAI resource endpoint
+  baseUrl?: string;
+}
+
+export interface KeyTestResult {
+  ok: boolean;
+  message: string;
+}
+
+// The ciphertext column is not readable by users, so list the columns explicitly
+const KEY_COLUMNS = 'id, provider, label, key_hint, base_url, created_at, last_tested_at, last_test_ok';
+
+export const AI_FEATURES: { id: AIFeature; label: string }[] = [
+  { id: 'explainer', label: 'Concept Explainer' },
+  { id: 'reviewer', label: 'Code Reviewer' },
+  { id: 'docs', label: 'Documentation Generator' },
+  { id: 'chat', label: 'Chat Assistant' },
+];
+
+export const USER_KEY_PROVIDERS: { id: UserKeyProvider; label: string }[] = [
+  { id: 'openai', label: 'OpenAI' },
+  { id: 'anthropic', label: 'Anthropic' },
+  { id: 'azure-openai', label: 'Azure OpenAI' },
+];
+
+/**
+ * Calls the user-keys Edge Function and surfaces its error message.
+ */
+async function invokeUserKeys<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>('user-keys', { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      throw new Error(details?.error?.message ?? 'The key service returned an error');
+    }
+    throw error;
+  }
+  return data as T;
+}
+
+/**
+ * Fetches the signed-in user's keys. Secrets are never returned, only the last
+ * four characters.
+ */
+export async function fetchUserKeys(user: User | null): Promise<UserApiKey[]> {
+  if (!user) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('user_api_keys')
+    .select(KEY_COLUMNS)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching API keys:', error);
+    throw error;
+  }
+  return (data as UserApiKey[]) || [];
+}
+
+/**
+ * Registers a key. It is encrypted by the Edge Function before it is stored.
+ */
+export function addUserKey(key: NewUserApiKey): Promise<UserApiKey> {
+  return invokeUserKeys<UserApiKey>({ action: 'create', ...key });
+}
+
+/**
+ * Sends a cheap authenticated request to the provider to check the key.
+ */
+export function testUserKey(keyId: string): Promise<KeyTestResult> {
+  return invokeUserKeys<KeyTestResult>({ action: 'test', keyId });
+}
+
+export async function renameUserKey(keyId: string, label: string): Promise<void> {
+  const { error } = await supabase.from('user_api_keys').update({ label }).eq('id', keyId);
+  if (error) {
+    console.error('Error renaming API key:', error);
+    throw error;
+  }
+}
+
+export async function deleteUserKey(keyId: string): Promise<void> {
+  const { error } = await supabase.from('user_api_keys').delete().eq('id', keyId);
+  if (error) {
+    console.error('Error deleting API key:', error);
+    throw error;
+  }
+}
+
+export async function fetchFeatureKeys(user: User | null): Promise<Partial<Record<AIFeature, string>>> {
+  if (!user) {
+    return {};
+  }
+
+  const { data, error } = await supabase
+    .from('user_feature_keys')
+    .select('feature, key_id')
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error fetching feature keys:', error);
+    throw error;
+  }
+  return Object.fromEntries((data || []).map(row => [row.feature, row.key_id]));
+}
+
+/**
+ * Sets the default key for a feature, or clears it when `keyId` is null.
+ */
+export async function setFeatureKey(user: User, feature: AIFeature, keyId: string | null): Promise<void> {
+  const { error } = keyId
+    ? await supabase.from('user_feature_keys').upsert({ user_id: user.id, feature, key_id: keyId })
+    : await supabase.from('user_feature_keys').delete().eq('user_id', user.id).eq('feature', feature);
+
+  if (error) {
+    console.error('Error saving feature key:', error);
+    throw error;
+  }
+}
+
+/**
+ * Picks the user's key for a request: the feature's default key if it is for
+ * the active provider, otherwise their newest key for that provider. Returns
+ * null when the organisation key should be used.
+ */
+export async function resolveUserKeyId(
+  userId: string,
+  provider: ProviderId,
+  feature?: AIFeature
+): Promise<string | null> {
+  const { data: keys, error } = await supabase
+    .from('user_api_keys')
+    .select('id, provider')
+    .eq('user_id', userId)
+    .eq('provider', provider)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error resolving API key:', error);
+    return null;
+  }
+  if (!keys || keys.length === 0) {
+    return null;
+  }
+
+  if (feature) {
+    const { data: featureKey } = await supabase
+      .from('user_feature_keys')
+      .select('key_id')
+      .eq('user_id', userId)
+      .eq('feature', feature)
+      .maybeSingle();
+
+    if (featureKey && keys.some(key => key.id === featureKey.key_id)) {
+      return featureKey.key_id;
+    }
+  }
+  return keys[0].id;
+}
@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LLM_PROVIDER?: string;
+  readonly VITE_LLM_API_VERSION?: string;
+  readonly VITE_LLM_MODEL_MAP?: string;
+  readonly VITE_LLM_CONTEXT_WINDOW?: string;
+  readonly VITE_LLM_PROXY_URL?: string;
+  readonly VITE_LLM_MOCK_ERROR?: string;
+  readonly VITE_LLM_MOCK_ERROR_TIMES?: string;
+  readonly VITE_LLM_RECORD_FIXTURES?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,14 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'retry-after, retry-after-ms, x-llm-budget-warning',
+};
+
+// Errors use the OpenAI error shape so the browser maps them like provider errors
+export function jsonError(message: string, status: number, code?: string): Response {
+  return new Response(JSON.stringify({ error: { message, code } }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
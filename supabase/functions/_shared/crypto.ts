@@ -0,0 +1,40 @@
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let cachedKey: Promise<CryptoKey> | null = null;
+
+// AES-256-GCM key derived from the USER_KEY_ENCRYPTION_SECRET function secret
+function getEncryptionKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    const secret = Deno.env.get('USER_KEY_ENCRYPTION_SECRET');
+    if (!secret) {
+      throw new Error('USER_KEY_ENCRYPTION_SECRET is not set');
+    }
+    cachedKey = crypto.subtle
+      .digest('SHA-256', encoder.encode(secret))
+      .then(digest => crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']));
+  }
+  return cachedKey;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+/**
+ * Encrypts a secret as `<iv>.<ciphertext>`, both base64 encoded.
+ */
+export async function encryptSecret(plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getEncryptionKey(), encoder.encode(plaintext));
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+export async function decryptSecret(payload: string): Promise<string> {
+  const [iv, ciphertext] = payload.split('.');
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    await getEncryptionKey(),
+    fromBase64(ciphertext)
+  );
+  return decoder.decode(plaintext);
+}
@@ -0,0 +1,188 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export type ProviderId = 'openai' | 'azure-openai' | 'anthropic' | 'local';
+
+export interface Upstream {
+  url: string;
+  headers: Record<string, string>;
+}
+
+/** A decrypted key registered by a user, with its endpoint for Azure. */
+export interface UserKey {
+  apiKey: string;
+  baseUrl: string | null;
+}
+
+interface UpstreamDefinition {
+  baseUrlEnv: string;
+  defaultBaseUrl?: string;
+  apiKeyEnv: string;
+  // Only these request paths may be forwarded, so the proxy can't be used for other provider APIs
+  allowedPath: RegExp;
+  // Cheap authenticated request used to test a key without spending tokens
+  testPath: string;
+  authHeaders: (apiKey: string) => Record<string, string>;
+  requiresApiKey: boolean;
+}
+
+const UPSTREAMS: Record<ProviderId, UpstreamDefinition> = {
+  'openai': {
+    baseUrlEnv: 'OPENAI_BASE_URL',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    allowedPath: /^\/chat\/completions$/,
+    testPath: '/models',
+    authHeaders: apiKey => ({ 'Authorization': `Bearer ${apiKey}` }),
+    requiresApiKey: true,
+  },
+  'azure-openai': {
+    baseUrlEnv: 'AZURE_OPENAI_ENDPOINT',
+    apiKeyEnv: 'AZURE_OPENAI_API_KEY',
+    allowedPath: /^\/openai\/deployments\/[\w.-]+\/chat\/completions\?api-version=[\w.-]+$/,
+    testPath: '/openai/models?api-version=2024-10-21',
+    authHeaders: apiKey => ({ 'api-key': apiKey }),
+    requiresApiKey: true,
+  },
+  'anthropic': {
+    baseUrlEnv: 'ANTHROPIC_BASE_URL',
+    defaultBaseUrl: 'https://api.anthropic.com/v1',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    allowedPath: /^\/messages$/,
+    testPath: '/models',
+    authHeaders: apiKey => ({ 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' }),
+    requiresApiKey: true,
+  },
+  'local': {
+    baseUrlEnv: 'LOCAL_LLM_BASE_URL',
+    // Reaches Ollama on the host machine from the local Supabase Docker stack
+    defaultBaseUrl: 'http://host.docker.internal:11434/v1',
+    apiKeyEnv: 'LOCAL_LLM_API_KEY',
+    allowedPath: /^\/chat\/completions$/,
+    testPath: '/models',
+    authHeaders: apiKey => (apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+    requiresApiKey: false,
+  },
+};
+
+export class UpstreamError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in UPSTREAMS;
+
+/**
+ * Organisation key for the provider. Function secrets take precedence; the
+ * legacy `keys` table is still read (with the service role) so existing
+ * projects keep working after the browser lost access to it.
+ */
+async function getOrganisationKey(
+  definition: UpstreamDefinition,
+  admin: SupabaseClient
+): Promise<string | null> {
+  const secret = Deno.env.get(definition.apiKeyEnv);
+  if (secret) return secret;
+
+  if (definition.apiKeyEnv !== 'OPENAI_API_KEY') return null;
+
+  const { data, error } = await admin.from('keys').select('key_value').limit(1).maybeSingle();
+  if (error) {
+    console.error('Failed to read organisation key:', error);
+    return null;
+  }
+  return data?.key_value ?? null;
+}
+
+// Azure OpenAI resources; AZURE_OPENAI_ALLOWED_HOSTS adds others, e.g. "*.cognitiveservices.azure.com"
+const DEFAULT_AZURE_HOSTS = ['*.openai.azure.com'];
+
+const matchesHost = (hostname: string, pattern: string) => pattern.startsWith('*.')
+  ? hostname.endsWith(pattern.slice(1)) && hostname.length > pattern.length - 1
+  : hostname === pattern;
+
+/**
+ * Whether a user may register `baseUrl` as their Azure OpenAI endpoint.
+ * Only https URLs of Azure OpenAI resources are allowed, so the functions
+ * can't be pointed at arbitrary hosts.
+ */
+export function isAllowedAzureEndpoint(baseUrl: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password || url.port) return false;
+
+  const configured = (Deno.env.get('AZURE_OPENAI_ALLOWED_HOSTS') ?? '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+  return [...DEFAULT_AZURE_HOSTS, ...configured].some(pattern => matchesHost(url.hostname.toLowerCase(), pattern));
+}
+
+const getBaseUrl = (provider: ProviderId, userKey?: UserKey): string => {
+  const definition = UPSTREAMS[provider];
+  // Checked again on use, for keys stored before the allowlist existed
+  if (userKey?.baseUrl && !isAllowedAzureEndpoint(userKey.baseUrl)) {
+    throw new UpstreamError('The endpoint of this key is not an allowed Azure OpenAI host. Register the key again.', 400);
+  }
+  const baseUrl = (userKey?.baseUrl || Deno.env.get(definition.baseUrlEnv) || definition.defaultBaseUrl || '').replace(/\/$/, '');
+  if (!baseUrl) {
+    throw new UpstreamError(`${provider} is not configured on the server (missing ${definition.baseUrlEnv})`, 400);
+  }
+  return baseUrl;
+};
+
+/**
+ * Builds the upstream request target. A user's own key is used when given,
+ * otherwise the organisation key.
+ */
+export async function resolveUpstream(
+  provider: ProviderId,
+  path: string,
+  admin: SupabaseClient,
+  userKey?: UserKey
+): Promise<Upstream> {
+  const definition = UPSTREAMS[provider];
+
+  if (!definition.allowedPath.test(path)) {
+    throw new UpstreamError(`Path "${path}" is not allowed for ${provider}`, 400);
+  }
+
+  const baseUrl = getBaseUrl(provider, userKey);
+  const apiKey = userKey?.apiKey ?? await getOrganisationKey(definition, admin);
+  if (!apiKey && definition.requiresApiKey) {
+    throw new UpstreamError(
+      `No API key is configured for ${provider}. Add your own key in your profile or contact your administrator.`,
+      403,
+      'missing_api_key'
+    );
+  }
+
+  return {
+    url: `${baseUrl}${path}`,
+    headers: {
+      'Content-Type': 'application/json',
+      ...definition.authHeaders(apiKey ?? ''),
+    },
+  };
+}
+
+/**
+ * Upstream request that checks a user's key is accepted by the provider.
+ */
+export function resolveKeyTest(provider: ProviderId, userKey: UserKey): Upstream {
+  const definition = UPSTREAMS[provider];
+  return {
+    url: `${getBaseUrl(provider, userKey)}${definition.testPath}`,
+    headers: definition.authHeaders(userKey.apiKey),
+  };
+}
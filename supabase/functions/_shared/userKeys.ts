@@ -0,0 +1,36 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { decryptSecret } from './crypto.ts';
+import { ProviderId, UpstreamError, UserKey } from './upstreams.ts';
+
+export interface StoredUserKey extends UserKey {
+  id: string;
+  provider: ProviderId;
+}
+
+/**
+ * Loads and decrypts one of the user's own keys. Rows of other users are
+ * treated as missing.
+ */
+export async function loadUserKey(admin: SupabaseClient, userId: string, keyId: string): Promise<StoredUserKey> {
+  const { data, error } = await admin
+    .from('user_api_keys')
+    .select('id, provider, encrypted_key, base_url')
+    .eq('id', keyId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to read user key:', error);
+    throw new UpstreamError('Could not load your API key', 500);
+  }
+  if (!data) {
+    throw new UpstreamError('API key not found. It may have been deleted.', 404);
+  }
+
+  return {
+    id: data.id,
+    provider: data.provider,
+    apiKey: await decryptSecret(data.encrypted_key),
+    baseUrl: data.base_url,
+  };
+}
@@ -0,0 +1,66 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export interface BudgetStatus {
+  // Set when a budget with the "block" action has been used up
+  blocked?: string;
+  // Set when a budget with the "warn" action has been used up
+  warning?: string;
+}
+
+interface Budget {
+  user_id: string | null;
+  monthly_limit_usd: number;
+  action: 'warn' | 'block';
+}
+
+/**
+ * The budgets or the daily quota could not be read. Requests on the
+ * organisation key are refused then, rather than sent unchecked.
+ */
+export class UsageLimitsUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super('Usage limits are unavailable', { cause });
+    this.name = 'UsageLimitsUnavailableError';
+  }
+}
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+/**
+ * Compares this month's spend on organisation keys with the organisation
+ * budget and the user's own budget. Both apply when both exist. Throws
+ * `UsageLimitsUnavailableError` when the budgets can't be read.
+ */
+export async function checkBudgets(admin: SupabaseClient, userId: string): Promise<BudgetStatus> {
+  const { data: budgets, error } = await admin
+    .from('llm_budgets')
+    .select('user_id, monthly_limit_usd, action')
+    .or(`user_id.is.null,user_id.eq.${userId}`);
+
+  if (error) {
+    throw new UsageLimitsUnavailableError(error);
+  }
+
+  const status: BudgetStatus = {};
+  for (const budget of (budgets ?? []) as Budget[]) {
+    const { data: spend, error: spendError } = await admin.rpc('get_llm_monthly_spend', {
+      p_user_id: budget.user_id,
+    });
+    if (spendError) {
+      // A warning can wait for the next request; a blocking budget must not be skipped
+      if (budget.action === 'block') throw new UsageLimitsUnavailableError(spendError);
+      console.error('Failed to read monthly spend:', spendError);
+      continue;
+    }
+    if (Number(spend) < Number(budget.monthly_limit_usd)) continue;
+
+    const scope = budget.user_id ? 'Your' : 'The organisation\'s';
+    const message = `${scope} monthly AI budget of ${formatUsd(Number(budget.monthly_limit_usd))} has been reached (${formatUsd(Number(spend))} spent).`;
+    if (budget.action === 'block') {
+      status.blocked = message;
+    } else {
+      status.warning ??= message;
+    }
+  }
+  return status;
+}
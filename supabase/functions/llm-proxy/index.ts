@@ -0,0 +1,311 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonError } from '../_shared/cors.ts';
+import { isProviderId, resolveUpstream, UpstreamError } from '../_shared/upstreams.ts';
+import { loadUserKey } from '../_shared/userKeys.ts';
+import { checkBudgets, UsageLimitsUnavailableError } from './budgets.ts';
+import { calculateCost, deploymentModel, priceOf, TokenUsage, trackUsage } from './usage.ts';
+
+// Provided by the Supabase Edge Runtime
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const DEFAULT_DAILY_REQUEST_LIMIT = 200;
+const DEFAULT_MAX_OUTPUT_TOKENS = 16384;
+
+interface ProxyRequestBody {
+  provider?: unknown;
+  path?: unknown;
+  body?: unknown;
+  // One of the caller's own keys; the organisation key is used when omitted
+  keyId?: unknown;
+  // App feature making the request, recorded for usage reports
+  feature?: unknown;
+}
+
+interface RequestLog {
+  userId: string;
+  provider: string;
+  model: string | null;
+  feature: string | null;
+  keyId: string | null;
+}
+
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+async function getDailyLimit(userId: string): Promise<number> {
+  const { data, error } = await admin
+    .from('llm_user_quotas')
+    .select('daily_request_limit')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  // The default could be higher than the user's own limit
+  if (error) {
+    throw new UsageLimitsUnavailableError(error);
+  }
+
+  if (data?.daily_request_limit != null) {
+    return data.daily_request_limit;
+  }
+  const configured = Number(Deno.env.get('LLM_DAILY_REQUEST_LIMIT'));
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_DAILY_REQUEST_LIMIT;
+}
+
+function getMaxOutputTokens(): number {
+  const configured = Number(Deno.env.get('LLM_MAX_OUTPUT_TOKENS'));
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_OUTPUT_TOKENS;
+}
+
+/**
+ * Caps the output of a request on an organisation key. Requests without a
+ * limit get the cap, so no request can run up an unbounded bill.
+ */
+function capOutputTokens(body: Record<string, unknown>): Record<string, unknown> {
+  const cap = getMaxOutputTokens();
+  const capped = { ...body };
+  let limited = false;
+  for (const field of ['max_tokens', 'max_completion_tokens']) {
+    if (body[field] === undefined) continue;
+    const requested = Number(body[field]);
+    capped[field] = Number.isFinite(requested) && requested > 0 ? Math.min(Math.floor(requested), cap) : cap;
+    limited = true;
+  }
+  if (!limited) capped.max_tokens = cap;
+  return capped;
+}
+
+/**
+ * Records a request on the organisation key before it is sent upstream.
+ * Counting and inserting happen in one transaction, so concurrent requests
+ * can't all slip under the limit. `allowed` is false once the daily limit
+ * has been reached; throws `UsageLimitsUnavailableError` when the quota
+ * can't be checked.
+ */
+async function reserveQuota(log: RequestLog, limit: number): Promise<{ allowed: boolean; id: number | null }> {
+  const { data, error } = await admin.rpc('reserve_llm_request', {
+    p_user_id: log.userId,
+    p_limit: limit,
+    p_provider: log.provider,
+    p_model: log.model,
+    p_feature: log.feature,
+  });
+
+  if (error) {
+    throw new UsageLimitsUnavailableError(error);
+  }
+  return { allowed: data !== null, id: data };
+}
+
+// Requests with a user's own key are recorded without a quota check
+async function logRequest(log: RequestLog): Promise<number | null> {
+  const { data, error } = await admin
+    .from('llm_proxy_requests')
+    .insert({
+      user_id: log.userId,
+      provider: log.provider,
+      model: log.model,
+      feature: log.feature,
+      user_key_id: log.keyId,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Failed to log request:', error);
+    return null;
+  }
+  return data.id;
+}
+
+// Only the organisation key is limited; the user's own key keeps working
+function usageLimitsUnavailable(error: unknown): Response {
+  if (!(error instanceof UsageLimitsUnavailableError)) throw error;
+  console.error('Failed to check usage limits:', error.cause);
+  return jsonError(
+    'Usage limits are unavailable right now, so the organisation key cannot be used. Please try again later, or use your own API key.',
+    503,
+    'usage_limits_unavailable'
+  );
+}
+
+async function recordStatus(id: number | null, status: number) {
+  if (id === null) return;
+  const { error } = await admin
+    .from('llm_proxy_requests')
+    .update({ status })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Failed to record status:', error);
+  }
+}
+
+async function recordUsage(id: number | null, model: string | null, usage: TokenUsage, latencyMs: number) {
+  if (id === null) return;
+  const { error } = await admin
+    .from('llm_proxy_requests')
+    .update({
+      prompt_tokens: usage.promptTokens,
+      completion_tokens: usage.completionTokens,
+      latency_ms: latencyMs,
+      // null marks a model without a price, which only a user's own key can use
+      cost_usd: calculateCost(model, usage),
+    })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Failed to record usage:', error);
+  }
+}
+
+// Azure requests carry the deployment in the path. It decides what is billed,
+// so a model in the body is ignored for them.
+const modelOf = (body: object, path: string): string | null => {
+  const deployment = path.match(/\/deployments\/([^/]+)\//)?.[1];
+  if (deployment) return deploymentModel(decodeURIComponent(deployment));
+  const model = (body as { model?: unknown }).model;
+  return typeof model === 'string' ? model : null;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonError('Method not allowed', 405);
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return jsonError('Missing access token', 401, 'session_expired');
+  }
+  const { data: { user }, error: authError } = await admin.auth.getUser(token);
+  if (authError || !user) {
+    return jsonError('Invalid or expired session. Please sign in again.', 401, 'session_expired');
+  }
+
+  let payload: ProxyRequestBody;
+  try {
+    payload = await req.json();
+  } catch {
+    return jsonError('Request body must be JSON', 400);
+  }
+
+  const { provider, path, body, keyId, feature } = payload;
+  if (!isProviderId(provider) || typeof path !== 'string' || typeof body !== 'object' || body === null) {
+    return jsonError('Expected { provider, path, body }', 400);
+  }
+  if (keyId != null && typeof keyId !== 'string') {
+    return jsonError('keyId must be a string', 400);
+  }
+
+  const model = modelOf(body, path);
+
+  // Requests made with the user's own key don't use the organisation's quota or budget
+  let budgetWarning: string | undefined;
+  let forwarded = body as Record<string, unknown>;
+  if (!keyId) {
+    // The budgets only see spend they can price, so unpriced models are off limits
+    if (!priceOf(model)) {
+      return jsonError(
+        `The model "${model ?? 'unknown'}" is not available with the organisation key. Use your own API key, or ask an administrator to add a price for it.`,
+        400,
+        'model_not_allowed'
+      );
+    }
+    forwarded = capOutputTokens(forwarded);
+
+    let budget;
+    try {
+      budget = await checkBudgets(admin, user.id);
+    } catch (error) {
+      return usageLimitsUnavailable(error);
+    }
+    if (budget.blocked) {
+      return jsonError(budget.blocked, 402, 'budget_exceeded');
+    }
+    budgetWarning = budget.warning;
+  }
+
+  let upstream;
+  try {
+    const userKey = keyId ? await loadUserKey(admin, user.id, keyId) : undefined;
+    if (userKey && userKey.provider !== provider) {
+      return jsonError(`The selected key is for ${userKey.provider}, not ${provider}`, 400);
+    }
+    upstream = await resolveUpstream(provider, path, admin, userKey);
+  } catch (error) {
+    if (error instanceof UpstreamError) {
+      return jsonError(error.message, error.status, error.code);
+    }
+    throw error;
+  }
+
+  // The request counts towards the quota from here on, whatever the provider answers
+  const log: RequestLog = {
+    userId: user.id,
+    provider,
+    model,
+    feature: typeof feature === 'string' ? feature : null,
+    keyId: keyId ?? null,
+  };
+  let logId: number | null;
+  if (keyId) {
+    logId = await logRequest(log);
+  } else {
+    let limit: number;
+    let reservation: { allowed: boolean; id: number | null };
+    try {
+      limit = await getDailyLimit(user.id);
+      reservation = await reserveQuota(log, limit);
+    } catch (error) {
+      return usageLimitsUnavailable(error);
+    }
+    if (!reservation.allowed) {
+      // The code tells the browser this is the daily limit, not a provider rate limit to retry
+      return jsonError(`Daily limit of ${limit} AI requests reached. Please try again tomorrow.`, 429, 'daily_limit_reached');
+    }
+    logId = reservation.id;
+  }
+
+  const startedAt = Date.now();
+  let response: Response;
+  try {
+    response = await fetch(upstream.url, {
+      method: 'POST',
+      headers: upstream.headers,
+      body: JSON.stringify(forwarded),
+      signal: req.signal,
+    });
+  } catch (error) {
+    console.error(`Upstream ${provider} request failed:`, error);
+    await recordStatus(logId, 502);
+    return jsonError(`Could not reach ${provider}`, 502);
+  }
+
+  await recordStatus(logId, response.status);
+
+  const headers = new Headers(corsHeaders);
+  for (const name of ['content-type', 'retry-after', 'retry-after-ms']) {
+    const value = response.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  if (budgetWarning) {
+    headers.set('x-llm-budget-warning', budgetWarning);
+  }
+
+  // Bodies are piped through as they arrive so streamed responses aren't held back
+  if (response.ok && response.body) {
+    const isStream = (body as { stream?: unknown }).stream === true;
+    const tracked = trackUsage(response.body, isStream, usage => {
+      // Keep the function alive until the usage row is written
+      EdgeRuntime.waitUntil(recordUsage(logId, model, usage, Date.now() - startedAt));
+    });
+    return new Response(tracked, { status: response.status, headers });
+  }
+
+  return new Response(response.body, { status: response.status, headers });
+});
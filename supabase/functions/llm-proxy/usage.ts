@@ -0,0 +1,147 @@
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// USD per million tokens. Matched by prefix so dated snapshots share a price.
+// Override or extend with the LLM_MODEL_PRICES secret, e.g. {"llama3.1":{"input":0,"output":0}}.
+// Only these models can be used with the organisation keys.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  // Default model of the local provider, which runs on our own hardware
+  'llama3.1': { input: 0, output: 0 },
+};
+
+function loadPrices(): Record<string, { input: number; output: number }> {
+  const raw = Deno.env.get('LLM_MODEL_PRICES');
+  if (!raw) return MODEL_PRICES;
+  try {
+    return { ...MODEL_PRICES, ...JSON.parse(raw) };
+  } catch (error) {
+    console.error('Ignoring invalid LLM_MODEL_PRICES:', error);
+    return MODEL_PRICES;
+  }
+}
+
+const prices = loadPrices();
+
+// Azure deployments have names of their own. LLM_AZURE_DEPLOYMENTS maps them
+// to the model they serve, e.g. {"prod-chat":"gpt-4o"}, so they can be priced.
+function loadDeployments(): Record<string, string> {
+  const raw = Deno.env.get('LLM_AZURE_DEPLOYMENTS');
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('Ignoring invalid LLM_AZURE_DEPLOYMENTS:', error);
+    return {};
+  }
+}
+
+const deployments = loadDeployments();
+
+/**
+ * The model an Azure deployment serves. Unmapped deployments are assumed
+ * to be named after their model, as Azure suggests by default.
+ */
+export const deploymentModel = (deployment: string): string => deployments[deployment] ?? deployment;
+
+/**
+ * Price of a model, matched by the longest prefix so gpt-4o-mini doesn't
+ * match gpt-4o. Undefined for models missing from the price table.
+ */
+export function priceOf(model: string | null): { input: number; output: number } | undefined {
+  if (!model) return undefined;
+  const key = Object.keys(prices)
+    .sort((a, b) => b.length - a.length)
+    .find(prefix => model.startsWith(prefix));
+  return key ? prices[key] : undefined;
+}
+
+/**
+ * Cost of a request in USD, or null for unpriced models so they are never
+ * mistaken for free ones. Free models (e.g. local ones) are listed in
+ * LLM_MODEL_PRICES with a price of 0.
+ */
+export function calculateCost(model: string | null, usage: TokenUsage): number | null {
+  const price = priceOf(model);
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+interface UsagePayload {
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+  message?: UsagePayload;
+}
+
+/**
+ * Reads token counts from a response body or stream event. OpenAI-style
+ * providers report `prompt_tokens`/`completion_tokens`; Anthropic reports
+ * `input_tokens` in `message_start` and `output_tokens` in `message_delta`.
+ */
+function applyUsage(payload: UsagePayload, usage: TokenUsage) {
+  const source = payload.usage ?? payload.message?.usage;
+  if (!source) return;
+  const prompt = source.prompt_tokens ?? source.input_tokens;
+  const completion = source.completion_tokens ?? source.output_tokens;
+  if (prompt !== undefined) usage.promptTokens = prompt;
+  if (completion !== undefined) usage.completionTokens = completion;
+}
+
+/**
+ * Passes a response body through unchanged while collecting the usage it
+ * reports. `onDone` runs once the body has been fully delivered.
+ */
+export function trackUsage(
+  body: ReadableStream<Uint8Array>,
+  isStream: boolean,
+  onDone: (usage: TokenUsage) => void
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  let buffer = '';
+
+  const parse = (text: string) => {
+    try {
+      applyUsage(JSON.parse(text), usage);
+    } catch {
+      // Not JSON, e.g. the OpenAI `[DONE]` marker
+    }
+  };
+
+  const scanLines = (flush: boolean) => {
+    const lines = buffer.split('\n');
+    buffer = flush ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      // Only lines that mention usage are worth parsing
+      if (line.startsWith('data:') && line.includes('usage')) {
+        parse(line.slice(5).trim());
+      }
+    }
+  };
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+      buffer += decoder.decode(chunk, { stream: true });
+      if (isStream) scanLines(false);
+    },
+    flush() {
+      buffer += decoder.decode();
+      if (isStream) {
+        scanLines(true);
+      } else {
+        parse(buffer);
+      }
+      onDone(usage);
+    },
+  }));
+}
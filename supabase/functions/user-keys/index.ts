@@ -0,0 +1,135 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonError } from '../_shared/cors.ts';
+import { encryptSecret } from '../_shared/crypto.ts';
+import { isAllowedAzureEndpoint, isProviderId, resolveKeyTest, UpstreamError } from '../_shared/upstreams.ts';
+import { loadUserKey } from '../_shared/userKeys.ts';
+
+// Keys are only ever written here, so the plaintext never touches the database
+interface CreateKeyRequest {
+  action: 'create';
+  provider?: unknown;
+  label?: unknown;
+  apiKey?: unknown;
+  baseUrl?: unknown;
+}
+
+interface TestKeyRequest {
+  action: 'test';
+  keyId?: unknown;
+}
+
+const PUBLIC_COLUMNS = 'id, provider, label, key_hint, base_url, created_at, last_tested_at, last_test_ok';
+
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+async function createKey(userId: string, request: CreateKeyRequest): Promise<Response> {
+  const { provider, label, apiKey, baseUrl } = request;
+  if (!isProviderId(provider) || provider === 'local') {
+    return jsonError('Unsupported provider', 400);
+  }
+  if (typeof apiKey !== 'string' || apiKey.trim().length < 8) {
+    return jsonError('Enter a valid API key', 400);
+  }
+  if (provider === 'azure-openai' && (typeof baseUrl !== 'string' || !isAllowedAzureEndpoint(baseUrl))) {
+    return jsonError('Azure OpenAI keys need the https:// endpoint of the resource, e.g. https://<resource>.openai.azure.com', 400);
+  }
+
+  const trimmedKey = apiKey.trim();
+  const { data, error } = await admin
+    .from('user_api_keys')
+    .insert({
+      user_id: userId,
+      provider,
+      label: typeof label === 'string' && label.trim() ? label.trim() : provider,
+      encrypted_key: await encryptSecret(trimmedKey),
+      key_hint: trimmedKey.slice(-4),
+      base_url: provider === 'azure-openai' ? (baseUrl as string).replace(/\/$/, '') : null,
+    })
+    .select(PUBLIC_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Failed to store key:', error);
+    return jsonError('Could not save the API key', 500);
+  }
+  return json(data);
+}
+
+async function testKey(userId: string, request: TestKeyRequest): Promise<Response> {
+  if (typeof request.keyId !== 'string') {
+    return jsonError('Expected { keyId }', 400);
+  }
+
+  const userKey = await loadUserKey(admin, userId, request.keyId);
+  const upstream = resolveKeyTest(userKey.provider, userKey);
+
+  let ok = false;
+  let message: string;
+  try {
+    const response = await fetch(upstream.url, { headers: upstream.headers });
+    ok = response.ok;
+    message = ok
+      ? 'The key works'
+      : response.status === 401 || response.status === 403
+        ? 'The provider rejected this key'
+        : `The provider responded with status ${response.status}`;
+  } catch (error) {
+    console.error('Key test request failed:', error);
+    message = `Could not reach ${userKey.provider}`;
+  }
+
+  await admin
+    .from('user_api_keys')
+    .update({ last_tested_at: new Date().toISOString(), last_test_ok: ok })
+    .eq('id', userKey.id);
+
+  return json({ ok, message });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonError('Method not allowed', 405);
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const { data: { user } } = token ? await admin.auth.getUser(token) : { data: { user: null } };
+  if (!user) {
+    return jsonError('Invalid or expired session. Please sign in again.', 401);
+  }
+
+  let payload: CreateKeyRequest | TestKeyRequest;
+  try {
+    payload = await req.json();
+  } catch {
+    return jsonError('Request body must be JSON', 400);
+  }
+
+  try {
+    switch (payload.action) {
+      case 'create':
+        return await createKey(user.id, payload);
+      case 'test':
+        return await testKey(user.id, payload);
+      default:
+        return jsonError('Unknown action', 400);
+    }
+  } catch (error) {
+    if (error instanceof UpstreamError) {
+      return jsonError(error.message, error.status, error.code);
+    }
+    throw error;
+  }
+});
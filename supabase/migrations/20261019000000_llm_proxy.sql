@@ -0,0 +1,49 @@
+-- LLM requests now go through the llm-proxy Edge Function, which reads
+-- provider keys with the service role. Browsers must no longer read them.
+
+CREATE TABLE IF NOT EXISTS public.keys (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    key_value TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    description TEXT
+);
+
+ALTER TABLE public.keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated users to read keys" ON public.keys;
+
+-- Optional per-user override of the LLM_DAILY_REQUEST_LIMIT function secret
+CREATE TABLE IF NOT EXISTS public.llm_user_quotas (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    daily_request_limit INTEGER NOT NULL CHECK (daily_request_limit >= 0),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.llm_user_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own quota"
+  ON public.llm_user_quotas
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- One row per proxied request, used for the rolling 24 hour quota
+CREATE TABLE IF NOT EXISTS public.llm_proxy_requests (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    model TEXT,
+    status INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS llm_proxy_requests_user_created_idx
+  ON public.llm_proxy_requests (user_id, created_at DESC);
+
+ALTER TABLE public.llm_proxy_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own proxy requests"
+  ON public.llm_proxy_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,71 @@
+-- Provider keys registered by individual users ("bring your own key").
+-- Keys are encrypted by the user-keys Edge Function before they are stored;
+-- the ciphertext column is not readable from the browser at all.
+
+CREATE TABLE IF NOT EXISTS public.user_api_keys (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL CHECK (provider IN ('openai', 'azure-openai', 'anthropic')),
+    label TEXT NOT NULL,
+    encrypted_key TEXT NOT NULL,
+    -- Last four characters, shown so users can tell their keys apart
+    key_hint TEXT NOT NULL,
+    -- Azure OpenAI resource endpoint
+    base_url TEXT,
+    last_tested_at TIMESTAMP WITH TIME ZONE,
+    last_test_ok BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS user_api_keys_user_idx ON public.user_api_keys (user_id);
+
+ALTER TABLE public.user_api_keys ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.user_api_keys FROM anon, authenticated;
+GRANT SELECT (id, user_id, provider, label, key_hint, base_url, last_tested_at, last_test_ok, created_at),
+      UPDATE (label),
+      DELETE
+  ON public.user_api_keys TO authenticated;
+
+CREATE POLICY "Users can read their own keys"
+  ON public.user_api_keys
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can rename their own keys"
+  ON public.user_api_keys
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own keys"
+  ON public.user_api_keys
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Default key per feature
+CREATE TABLE IF NOT EXISTS public.user_feature_keys (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    feature TEXT NOT NULL CHECK (feature IN ('explainer', 'reviewer', 'docs', 'chat')),
+    key_id UUID NOT NULL REFERENCES public.user_api_keys(id) ON DELETE CASCADE,
+    PRIMARY KEY (user_id, feature)
+);
+
+ALTER TABLE public.user_feature_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own feature keys"
+  ON public.user_feature_keys
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.user_api_keys k WHERE k.id = key_id AND k.user_id = auth.uid())
+  );
+
+-- Requests made with a user's own key are logged but not counted against the daily quota
+ALTER TABLE public.llm_proxy_requests
+  ADD COLUMN IF NOT EXISTS user_key_id UUID REFERENCES public.user_api_keys(id) ON DELETE SET NULL;
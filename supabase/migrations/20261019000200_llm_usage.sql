@@ -0,0 +1,87 @@
+-- Token usage, cost and latency of every proxied LLM request, plus monthly
+-- budgets that administrators can set for everyone or for single users.
+
+-- Administrators of the app (not to be confused with teachers)
+CREATE TABLE IF NOT EXISTS public.app_admins (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.app_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see whether they are an admin"
+  ON public.app_admins
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.app_admins WHERE user_id = auth.uid());
+$$;
+
+ALTER TABLE public.llm_proxy_requests
+  ADD COLUMN IF NOT EXISTS feature TEXT,
+  ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER,
+  ADD COLUMN IF NOT EXISTS completion_tokens INTEGER,
+  ADD COLUMN IF NOT EXISTS latency_ms INTEGER,
+  ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS llm_proxy_requests_created_idx
+  ON public.llm_proxy_requests (created_at DESC);
+
+CREATE POLICY "Admins can read all proxy requests"
+  ON public.llm_proxy_requests
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- A budget without user_id applies to the whole organisation
+CREATE TABLE IF NOT EXISTS public.llm_budgets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    monthly_limit_usd NUMERIC(12, 2) NOT NULL CHECK (monthly_limit_usd >= 0),
+    action TEXT NOT NULL DEFAULT 'warn' CHECK (action IN ('warn', 'block')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS llm_budgets_scope_idx
+  ON public.llm_budgets (COALESCE(user_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+ALTER TABLE public.llm_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read budgets that apply to them"
+  ON public.llm_budgets
+  FOR SELECT
+  TO authenticated
+  USING (user_id IS NULL OR auth.uid() = user_id OR public.is_admin());
+
+CREATE POLICY "Admins can manage budgets"
+  ON public.llm_budgets
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Spend on the organisation's keys since the start of the month, for one user or everyone
+CREATE OR REPLACE FUNCTION public.get_llm_monthly_spend(p_user_id UUID DEFAULT NULL)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(cost_usd), 0)
+  FROM public.llm_proxy_requests
+  WHERE user_key_id IS NULL
+    AND created_at >= date_trunc('month', now())
+    AND (p_user_id IS NULL OR user_id = p_user_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_llm_monthly_spend(UUID) FROM anon, authenticated;
@@ -0,0 +1,25 @@
+-- Cached AI responses of signed-in users, keyed by a hash of the provider,
+-- model, prompts and temperature. Anonymous users cache in IndexedDB instead.
+
+CREATE TABLE IF NOT EXISTS public.llm_response_cache (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    cache_key TEXT NOT NULL,
+    content TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    UNIQUE (user_id, cache_key)
+);
+
+-- Expired rows are removed when they are read; the index keeps a periodic
+-- cleanup (DELETE ... WHERE expires_at < now()) cheap
+CREATE INDEX IF NOT EXISTS llm_response_cache_expires_idx ON public.llm_response_cache (expires_at);
+
+ALTER TABLE public.llm_response_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own cached responses"
+  ON public.llm_response_cache
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
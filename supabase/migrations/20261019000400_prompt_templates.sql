@@ -0,0 +1,49 @@
+-- Prompt template versions published by admins. The app ships built-in
+-- templates; a published version with a weight above 0 overrides the built-in
+-- one for the organisation. Several live versions split the traffic by weight
+-- (A/B tests). Versions are never deleted so saved results stay traceable.
+
+CREATE TABLE IF NOT EXISTS public.prompt_template_versions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    template_id TEXT NOT NULL,
+    version INTEGER NOT NULL CHECK (version > 0),
+    content TEXT NOT NULL,
+    notes TEXT,
+    weight INTEGER NOT NULL DEFAULT 0 CHECK (weight >= 0 AND weight <= 100),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (template_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS prompt_template_versions_live_idx
+  ON public.prompt_template_versions (template_id)
+  WHERE weight > 0;
+
+ALTER TABLE public.prompt_template_versions ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.prompt_template_versions FROM anon, authenticated;
+GRANT SELECT, INSERT, UPDATE (weight, notes) ON public.prompt_template_versions TO authenticated;
+
+CREATE POLICY "Authenticated users can read prompt templates"
+  ON public.prompt_template_versions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can publish prompt templates"
+  ON public.prompt_template_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin() AND created_by = auth.uid());
+
+CREATE POLICY "Admins can change prompt template weights"
+  ON public.prompt_template_versions
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Template versions that produced a saved explanation, e.g.
+-- {"explainer.system": "org@3", "explainer.code-examples": "builtin@1"}
+ALTER TABLE IF EXISTS public.saved_explanations
+  ADD COLUMN IF NOT EXISTS prompt_versions JSONB;
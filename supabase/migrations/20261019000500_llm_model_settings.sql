@@ -0,0 +1,39 @@
+-- Model and generation parameters per feature. Rows without user_id are the
+-- organisation defaults set by admins; a user's own row takes precedence.
+
+CREATE TABLE IF NOT EXISTS public.llm_model_settings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    feature TEXT NOT NULL CHECK (feature IN ('explainer', 'docs', 'reviewer', 'diagram', 'chat')),
+    model TEXT NOT NULL,
+    temperature NUMERIC(3, 2) NOT NULL CHECK (temperature >= 0 AND temperature <= 2),
+    max_tokens INTEGER NOT NULL CHECK (max_tokens > 0),
+    -- Ask the provider for a JSON object; only used by structured features
+    json_mode BOOLEAN NOT NULL DEFAULT false,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS llm_model_settings_scope_idx
+  ON public.llm_model_settings (COALESCE(user_id, '00000000-0000-0000-0000-000000000000'::uuid), feature);
+
+ALTER TABLE public.llm_model_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read settings that apply to them"
+  ON public.llm_model_settings
+  FOR SELECT
+  TO authenticated
+  USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own settings"
+  ON public.llm_model_settings
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage organisation settings"
+  ON public.llm_model_settings
+  FOR ALL
+  TO authenticated
+  USING (user_id IS NULL AND public.is_admin())
+  WITH CHECK (user_id IS NULL AND public.is_admin());
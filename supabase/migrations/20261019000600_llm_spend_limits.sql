@@ -0,0 +1,10 @@
+-- Requests on models without a price are recorded without a cost instead of
+-- as free, and model settings are kept within what the proxy allows.
+
+ALTER TABLE public.llm_proxy_requests
+  ALTER COLUMN cost_usd DROP NOT NULL,
+  ALTER COLUMN cost_usd DROP DEFAULT;
+
+ALTER TABLE public.llm_model_settings
+  ADD CONSTRAINT llm_model_settings_max_tokens_limit CHECK (max_tokens <= 16384),
+  ADD CONSTRAINT llm_model_settings_model_format CHECK (model ~ '^[A-Za-z0-9._:/-]{1,100}$');
@@ -0,0 +1,46 @@
+-- Requests are recorded before they are sent upstream, so the daily quota
+-- holds for concurrent requests. Until the provider answers, status is null.
+
+ALTER TABLE public.llm_proxy_requests
+  ALTER COLUMN status DROP NOT NULL;
+
+-- Counts the user's requests on organisation keys in the last 24 hours and,
+-- while under the limit, records the new one in the same transaction.
+-- Concurrent requests of a user wait for each other on an advisory lock.
+-- Returns the id of the new row, or null when the limit is reached.
+CREATE OR REPLACE FUNCTION public.reserve_llm_request(
+  p_user_id UUID,
+  p_limit INTEGER,
+  p_provider TEXT,
+  p_model TEXT,
+  p_feature TEXT
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_used INTEGER;
+  v_id BIGINT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended(p_user_id::text, 0));
+
+  SELECT count(*) INTO v_used
+  FROM public.llm_proxy_requests
+  WHERE user_id = p_user_id
+    AND user_key_id IS NULL
+    AND created_at >= now() - INTERVAL '24 hours';
+
+  IF v_used >= p_limit THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.llm_proxy_requests (user_id, provider, model, feature)
+  VALUES (p_user_id, p_provider, p_model, p_feature)
+  RETURNING id INTO v_id;
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_llm_request(UUID, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
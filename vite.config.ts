@@ -1,22 +1,74 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest/config" />
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+const FIXTURE_PATH_PATTERN = /^[a-z-]+\/[a-f0-9]{64}$/;
+
+// Writes the fixtures posted by the mock LLM's record mode (VITE_LLM_RECORD_FIXTURES)
+// to fixtures/llm. Only available on the dev server.
+const llmFixtureRecorder = (): Plugin => ({
+  name: "llm-fixture-recorder",
+  apply: "serve",
+  configureServer(server) {
+    server.middlewares.use("/__llm-fixtures", (req, res) => {
+      if (req.method !== "POST") {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+
+      let body = "";
+      req.on("data", (chunk) => {
+        body += chunk;
+      });
+      req.on("end", () => {
+        try {
+          const { path: fixturePath, fixture } = JSON.parse(body);
+          if (!FIXTURE_PATH_PATTERN.test(fixturePath)) {
+            throw new Error(`Invalid fixture path "${fixturePath}"`);
+          }
+          const file = path.resolve(__dirname, "fixtures/llm", `${fixturePath}.json`);
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+          res.statusCode = 204;
+          res.end();
+        } catch (error) {
+          res.statusCode = 400;
+          res.end(error instanceof Error ? error.message : String(error));
+        }
+      });
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    watch: {
+      // Recording fixtures must not reload the page mid-session; restart to replay new ones
+      ignored: ["**/fixtures/llm/**"],
+    },
   },
   plugins: [
     react(),
     mode === 'development' &&
     componentTagger(),
+    llmFixtureRecorder(),
   ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    // Tests never reach a provider; LLM requests are answered from fixtures/llm
+    env: {
+      VITE_LLM_PROVIDER: "mock",
+    },
+  },
 }));